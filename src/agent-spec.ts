@@ -0,0 +1,446 @@
+/**
+ * agent-spec.ts — Declarative Agent Definitions
+ *
+ * An agent spec is a YAML or JSON file describing an Agent without code: model,
+ * system prompt, input/output schemas as JSON Schema, MCP servers, local tool
+ * references, budgets and guardrails. `loadAgent(path)` turns it into an
+ * `Agent`; `gx run agent.yaml --input '{...}'` runs it from the CLI.
+ *
+ * Local tools are referenced by name (looked up in `options.tools`) or by
+ * module (`{ module: './tools.ts', export: 'search' }`, resolved against the
+ * spec file; an export may be one tool or a list). Strings in `servers` may
+ * use `${ENV_VAR}` for secrets. Input guardrails run before the run starts;
+ * output guardrails check the raw output like an outputValidator (so
+ * `maxRepairAttempts` asks for a correction). A rejecting rule fails the run
+ * with a GuardrailError; `action: warn` only logs.
+ *
+ * Usage:
+ *   # support.yaml
+ *   name: support
+ *   llm: gpt-4o-mini
+ *   systemPrompt: You answer support tickets politely.
+ *   inputSchema:
+ *     type: object
+ *     properties: { ticket: { type: string } }
+ *     required: [ticket]
+ *   outputSchema:
+ *     type: object
+ *     properties: { reply: { type: string }, urgent: { type: boolean } }
+ *     required: [reply, urgent]
+ *   localTools: [lookup_order]
+ *   maxCostUSD: 0.05
+ *   guardrails:
+ *     input: [{ rule: maxLength, limit: 4000 }]
+ *     output: [{ rule: noPII }]
+ *
+ *   const agent = await loadAgent('support.yaml', { tools: [lookupOrder] });
+ *   const { reply } = await agent.run({ ticket });
+ *
+ *   gx run support.yaml --tools ./tools.ts --input '{"ticket": "Where is my order?"}'
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { z } from 'zod';
+import { Agent } from './agent';
+import { AgentSpecError, GuardrailError, GxaiError } from './errors';
+import { Guardrails, blockKeywords, maxLengthRule, noPIIRule, nonEmptyRule } from './guardrails';
+import type { AgentConfig, MCPServer, MCPTool } from './types';
+
+const guardrailAction = z.enum(['reject', 'warn']).optional();
+
+const GuardrailRuleSpecSchema = z.discriminatedUnion('rule', [
+    z.object({ rule: z.literal('maxLength'), limit: z.number().int().positive(), action: guardrailAction }).strict(),
+    z.object({ rule: z.literal('noPII'), action: guardrailAction }).strict(),
+    z.object({ rule: z.literal('blockKeywords'), keywords: z.array(z.string()).min(1), action: guardrailAction }).strict(),
+    z.object({ rule: z.literal('nonEmpty'), action: guardrailAction }).strict(),
+]);
+
+const ServerSpecSchema = z.object({
+    name: z.string(),
+    description: z.string(),
+    url: z.string().optional(),
+    command: z.string().optional(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string()).optional(),
+    cwd: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    legacyRest: z.boolean().optional(),
+    timeoutMs: z.number().positive().optional(),
+    resources: z.array(z.string()).optional(),
+}).strict().refine(server => server.url || server.command, { message: 'needs a url or a command' });
+
+const ToolRefSpecSchema = z.union([
+    z.string(),
+    z.object({ module: z.string(), export: z.string().optional() }).strict(),
+]);
+
+/** Schema of an agent spec file */
+export const AgentSpecSchema = z.object({
+    $schema: z.string().optional(),
+    name: z.string().optional(),
+    description: z.string().optional(),
+    llm: z.string(),
+    systemPrompt: z.string().optional(),
+    temperature: z.number().min(0).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    inputSchema: z.record(z.any()),
+    outputSchema: z.record(z.any()),
+    servers: z.array(ServerSpecSchema).optional(),
+    localTools: z.array(ToolRefSpecSchema).optional(),
+    maxCostUSD: z.number().positive().optional(),
+    maxDurationMs: z.number().int().positive().optional(),
+    maxSteps: z.number().int().positive().optional(),
+    maxRepairAttempts: z.number().int().min(0).optional(),
+    requireApproval: z.union([z.boolean(), z.array(z.string())]).optional(),
+    guardrails: z.object({
+        input: z.array(GuardrailRuleSpecSchema).optional(),
+        output: z.array(GuardrailRuleSpecSchema).optional(),
+    }).strict().optional(),
+}).strict();
+
+export type AgentSpec = z.infer<typeof AgentSpecSchema>;
+export type GuardrailRuleSpec = z.infer<typeof GuardrailRuleSpecSchema>;
+export type ToolRefSpec = z.infer<typeof ToolRefSpecSchema>;
+
+export interface LoadAgentOptions<D = any> {
+    /** Tools that `localTools` names refer to */
+    tools?: MCPTool<D>[] | Record<string, MCPTool<D>>;
+    /** Config a spec cannot express (deps, session, costTracker, ...), applied over the spec */
+    config?: Partial<AgentConfig<any, any, D>>;
+}
+
+export interface AgentFromSpecOptions<D = any> extends LoadAgentOptions<D> {
+    /** Directory that tool module paths resolve against (default: the working directory) */
+    baseDir?: string;
+    /** Name of the spec in error messages */
+    source?: string;
+}
+
+/** An Agent loaded from a spec: JSON-Schema input and output, so untyped */
+export type SpecAgent<D = any> = Agent<z.ZodObject<any>, z.ZodObject<any>, D>;
+
+// ============================================
+// JSON Schema → Zod
+// ============================================
+
+/**
+ * Convert a JSON Schema to Zod. Supported: type (incl. type arrays and null),
+ * properties, required, additionalProperties, items, enum, const,
+ * anyOf/oneOf/allOf, description, default, minimum/maximum (+ exclusive),
+ * minLength/maxLength, pattern, format (email, uri, uuid, date-time),
+ * minItems/maxItems. Throws a GxaiError naming the path of anything else.
+ */
+export function jsonSchemaToZod(schema: Record<string, any> | boolean, path = '(root)'): z.ZodTypeAny {
+    if (schema === true) return z.any();
+    if (schema === false) return z.never();
+    if (schema.$ref) throw new GxaiError(`${path}: $ref is not supported`);
+
+    let result = baseType(schema, path);
+    if (schema.description) result = result.describe(schema.description);
+    if (schema.default !== undefined) result = result.default(schema.default);
+    return result;
+}
+
+function baseType(schema: Record<string, any>, path: string): z.ZodTypeAny {
+    if (schema.const !== undefined) return z.literal(schema.const);
+    if (Array.isArray(schema.enum)) {
+        if (schema.enum.length === 0) throw new GxaiError(`${path}: enum is empty`);
+        if (schema.enum.every((v: any) => typeof v === 'string')) return z.enum(schema.enum as [string, ...string[]]);
+        return union(schema.enum.map((v: any) => z.literal(v)));
+    }
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (Array.isArray(variants)) {
+        return union(variants.map((variant: any, i: number) => jsonSchemaToZod(variant, `${path}.anyOf[${i}]`)));
+    }
+    if (Array.isArray(schema.allOf)) {
+        return schema.allOf
+            .map((part: any, i: number) => jsonSchemaToZod(part, `${path}.allOf[${i}]`))
+            .reduce((all: z.ZodTypeAny, part: z.ZodTypeAny) => z.intersection(all, part));
+    }
+    if (Array.isArray(schema.type)) {
+        const types = schema.type.filter((t: string) => t !== 'null');
+        if (types.length === 0) return z.null();
+        const nonNull = union(types.map((type: string) => baseType({ ...schema, type }, path)));
+        return types.length < schema.type.length ? nonNull.nullable() : nonNull;
+    }
+
+    const type = schema.type ?? (schema.properties ? 'object' : schema.items ? 'array' : undefined);
+    switch (type) {
+        case undefined:
+            return z.any();
+        case 'null':
+            return z.null();
+        case 'boolean':
+            return z.boolean();
+        case 'string': {
+            let string = z.string();
+            if (schema.minLength !== undefined) string = string.min(schema.minLength);
+            if (schema.maxLength !== undefined) string = string.max(schema.maxLength);
+            if (schema.pattern) string = string.regex(new RegExp(schema.pattern));
+            if (schema.format === 'email') string = string.email();
+            if (schema.format === 'uri') string = string.url();
+            if (schema.format === 'uuid') string = string.uuid();
+            if (schema.format === 'date-time') string = string.datetime({ offset: true });
+            return string;
+        }
+        case 'number':
+        case 'integer': {
+            let number = type === 'integer' ? z.number().int() : z.number();
+            if (schema.minimum !== undefined) number = number.gte(schema.minimum);
+            if (schema.maximum !== undefined) number = number.lte(schema.maximum);
+            if (schema.exclusiveMinimum !== undefined) number = number.gt(schema.exclusiveMinimum);
+            if (schema.exclusiveMaximum !== undefined) number = number.lt(schema.exclusiveMaximum);
+            return number;
+        }
+        case 'array': {
+            let array = z.array(schema.items === undefined ? z.any() : jsonSchemaToZod(schema.items, `${path}[]`));
+            if (schema.minItems !== undefined) array = array.min(schema.minItems);
+            if (schema.maxItems !== undefined) array = array.max(schema.maxItems);
+            return array;
+        }
+        case 'object': {
+            const required = new Set<string>(schema.required ?? []);
+            const shape: Record<string, z.ZodTypeAny> = {};
+            for (const [key, property] of Object.entries<any>(schema.properties ?? {})) {
+                const field = jsonSchemaToZod(property, path === '(root)' ? key : `${path}.${key}`);
+                // A default already accepts a missing value; optional() would skip it
+                shape[key] = required.has(key) || property?.default !== undefined ? field : field.optional();
+            }
+            const object = z.object(shape);
+            if (schema.additionalProperties === false) return object.strict();
+            if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                return object.catchall(jsonSchemaToZod(schema.additionalProperties, `${path}.*`));
+            }
+            return object;
+        }
+        default:
+            throw new GxaiError(`${path}: unsupported type "${type}"`);
+    }
+}
+
+function union(types: z.ZodTypeAny[]): z.ZodTypeAny {
+    return types.length === 1 ? types[0]! : z.union(types as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/** Parse spec text: YAML for .yaml/.yml files, JSON for .json */
+export function parseAgentSpec(text: string, file: string): unknown {
+    const extension = extname(file).toLowerCase();
+    try {
+        if (extension === '.json') return JSON.parse(text);
+        if (extension === '.yaml' || extension === '.yml') return Bun.YAML.parse(text);
+    } catch (error: any) {
+        throw new AgentSpecError(file, [error.message]);
+    }
+    throw new AgentSpecError(file, [`unknown format "${extension}" (use .yaml, .yml or .json)`]);
+}
+
+/** Load a YAML or JSON agent spec into an Agent; tool modules resolve against the spec's directory */
+export async function loadAgent<D = any>(path: string, options: LoadAgentOptions<D> = {}): Promise<SpecAgent<D>> {
+    const file = resolve(path);
+    let text: string;
+    try {
+        text = readFileSync(file, 'utf-8');
+    } catch (error: any) {
+        throw new AgentSpecError(path, [error.code === 'ENOENT' ? 'file not found' : error.message]);
+    }
+    return agentFromSpec(parseAgentSpec(text, path), { ...options, baseDir: dirname(file), source: path });
+}
+
+/**
+ * Every tool a module exports (single tools and lists), for `options.tools` —
+ * how `gx run --tools ./tools.ts` supplies the tools `localTools` names
+ */
+export async function loadToolModule<D = any>(path: string): Promise<MCPTool<D>[]> {
+    let exports: Record<string, unknown>;
+    try {
+        exports = await import(resolve(path));
+    } catch (error: any) {
+        throw new AgentSpecError(path, [`cannot import tool module: ${error.message}`]);
+    }
+    const tools = Object.values(exports).flatMap(value => [value].flat().filter(isTool)) as MCPTool<D>[];
+    if (tools.length === 0) throw new AgentSpecError(path, ['the module exports no tools']);
+    return tools;
+}
+
+/** Build an Agent from a parsed spec (e.g. one stored in a database) */
+export async function agentFromSpec<D = any>(spec: unknown, options: AgentFromSpecOptions<D> = {}): Promise<SpecAgent<D>> {
+    const source = options.source ?? '(inline)';
+    const parsed = AgentSpecSchema.safeParse(spec);
+    if (!parsed.success) {
+        throw new AgentSpecError(source, parsed.error.issues.map(i => `${i.path.length ? i.path.join('.') : '(root)'}: ${i.message}`));
+    }
+    const { data } = parsed;
+    const issues: string[] = [];
+
+    const inputFormat = objectSchema(data.inputSchema, 'inputSchema', issues);
+    const outputFormat = objectSchema(data.outputSchema, 'outputSchema', issues);
+    const servers = data.servers?.map((server, i) => interpolateEnv(server, `servers[${i}]`, issues) as MCPServer);
+    const localTools = await resolveTools(data.localTools ?? [], options, issues);
+    if (issues.length) throw new AgentSpecError(source, issues);
+
+    const agentName = data.name ?? 'unnamed-agent';
+    const outputGuard = data.guardrails?.output?.length ? buildGuardrails(data.guardrails.output) : null;
+    const outputValidators = [
+        ...(outputGuard ? [(raw: string) => enforceGuardrails(outputGuard, raw, 'output', agentName)] : []),
+        ...(options.config?.outputValidators ?? []),
+    ];
+
+    const config: AgentConfig<z.ZodObject<any>, z.ZodObject<any>, D> = {
+        name: data.name,
+        description: data.description,
+        llm: data.llm,
+        systemPrompt: data.systemPrompt,
+        temperature: data.temperature,
+        maxTokens: data.maxTokens,
+        inputFormat: inputFormat!,
+        outputFormat: outputFormat!,
+        servers,
+        localTools: localTools.length ? localTools : undefined,
+        maxCostUSD: data.maxCostUSD,
+        maxDurationMs: data.maxDurationMs,
+        maxSteps: data.maxSteps,
+        maxRepairAttempts: data.maxRepairAttempts,
+        requireApproval: data.requireApproval,
+        ...options.config,
+        outputValidators: outputValidators.length ? outputValidators : undefined,
+    };
+    const agent = new Agent(Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) as typeof config);
+
+    if (data.guardrails?.input?.length) {
+        const inputGuard = buildGuardrails(data.guardrails.input);
+        agent.use(ctx => {
+            if (ctx.phase === 'before') enforceGuardrails(inputGuard, JSON.stringify(ctx.input), 'input', agentName);
+        });
+    }
+    return agent;
+}
+
+function objectSchema(schema: Record<string, any>, key: string, issues: string[]): z.ZodObject<any> | undefined {
+    try {
+        const converted = jsonSchemaToZod(schema);
+        if (converted instanceof z.ZodObject) return converted;
+        issues.push(`${key}: must describe an object`);
+    } catch (error: any) {
+        issues.push(`${key}.${error.message}`.replace(`${key}.(root)`, key));
+    }
+    return undefined;
+}
+
+/** Replace `${NAME}` in every string with the environment variable */
+function interpolateEnv(value: any, path: string, issues: string[]): any {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+            const env = process.env[name];
+            if (env === undefined) issues.push(`${path}: environment variable ${name} is not set`);
+            return env ?? '';
+        });
+    }
+    if (Array.isArray(value)) return value.map((item, i) => interpolateEnv(item, `${path}[${i}]`, issues));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, `${path}.${key}`, issues)]));
+    }
+    return value;
+}
+
+async function resolveTools<D>(refs: ToolRefSpec[], options: AgentFromSpecOptions<D>, issues: string[]): Promise<MCPTool<D>[]> {
+    const named = Array.isArray(options.tools)
+        ? Object.fromEntries(options.tools.map(tool => [tool.name, tool]))
+        : options.tools ?? {};
+    const tools: MCPTool<D>[] = [];
+
+    for (const [i, ref] of refs.entries()) {
+        if (typeof ref === 'string') {
+            if (named[ref]) tools.push(named[ref]);
+            else issues.push(`localTools[${i}]: unknown tool "${ref}"${Object.keys(named).length ? ` (known: ${Object.keys(named).join(', ')})` : ''}`);
+            continue;
+        }
+        const exportName = ref.export ?? 'default';
+        let exported: unknown;
+        try {
+            exported = (await import(resolve(options.baseDir ?? process.cwd(), ref.module)))[exportName];
+        } catch (error: any) {
+            issues.push(`localTools[${i}]: cannot import ${ref.module}: ${error.message}`);
+            continue;
+        }
+        const candidates = [exported].flat();
+        if (exported === undefined || !candidates.every(isTool)) {
+            issues.push(`localTools[${i}]: ${ref.module} export "${exportName}" is not a tool or a list of tools`);
+            continue;
+        }
+        tools.push(...candidates as MCPTool<D>[]);
+    }
+    return tools;
+}
+
+function isTool(value: any): value is MCPTool {
+    return !!value && typeof value.name === 'string' && typeof value.execute === 'function';
+}
+
+function buildGuardrails(rules: GuardrailRuleSpec[]): Guardrails {
+    const guard = new Guardrails();
+    for (const spec of rules) {
+        const check = spec.rule === 'maxLength' ? maxLengthRule(spec.limit)
+            : spec.rule === 'blockKeywords' ? blockKeywords(spec.keywords)
+                : spec.rule === 'noPII' ? noPIIRule()
+                    : nonEmptyRule();
+        guard.addRule(spec.rule, check, { action: spec.action ?? 'reject' });
+    }
+    return guard;
+}
+
+/** Throw a GuardrailError on a rejecting rule; warn on the rest */
+function enforceGuardrails(guard: Guardrails, content: string, target: 'input' | 'output', agentName: string): void {
+    const result = guard.check(content);
+    for (const violation of result.violations) {
+        if (violation.action === 'reject') {
+            throw new GuardrailError(violation.rule, target, violation.message);
+        }
+        console.warn(`[gxai] Guardrail "${violation.rule}" on ${agentName} ${target}: ${violation.message}`);
+    }
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    test('jsonSchemaToZod converts types, constraints and required fields', () => {
+        const schema = jsonSchemaToZod({
+            type: 'object',
+            properties: {
+                name: { type: 'string', minLength: 1, description: 'Full name' },
+                age: { type: 'integer', minimum: 0 },
+                role: { enum: ['admin', 'user'], default: 'user' },
+                tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+                nickname: { type: ['string', 'null'] },
+                address: { properties: { city: { type: 'string' } }, required: ['city'], additionalProperties: false },
+            },
+            required: ['name', 'age'],
+        }) as z.ZodObject<any>;
+
+        expect(schema.shape.name.description).toBe('Full name');
+        expect(schema.parse({ name: 'Ana', age: 30, nickname: null })).toEqual({ name: 'Ana', age: 30, role: 'user', nickname: null });
+        for (const invalid of [
+            { name: '', age: 30 },
+            { name: 'Ana', age: 1.5 },
+            { name: 'Ana', age: 30, role: 'root' },
+            { name: 'Ana', age: 30, tags: ['a', 'b', 'c'] },
+            { name: 'Ana', age: 30, address: { city: 'Paris', zip: '75' } },
+            { name: 'Ana' },
+        ]) {
+            expect(schema.safeParse(invalid).success).toBe(false);
+        }
+    });
+
+    test('jsonSchemaToZod handles unions and rejects what it cannot convert', () => {
+        const value = jsonSchemaToZod({ anyOf: [{ type: 'number' }, { const: 'none' }] });
+        expect(value.safeParse(3).success).toBe(true);
+        expect(value.safeParse('none').success).toBe(true);
+        expect(value.safeParse('some').success).toBe(false);
+        expect(() => jsonSchemaToZod({ type: 'object', properties: { a: { $ref: '#/defs/a' } } })).toThrow('a: $ref is not supported');
+        expect(() => jsonSchemaToZod({ type: 'tuple' })).toThrow('(root): unsupported type "tuple"');
+    });
+}
@@ -1,20 +1,39 @@
 // src/agent.ts
 import { z } from "zod";
 import { measure } from "measure-fn";
-import type { AgentConfig, MCPTool, MCPServer, ProgressCallback, ProgressUpdate, StreamingCallback, StreamingUpdate, TokenUsage } from './types';
+import type { AgentConfig, LLMCallResult, LLMMessage, LLMType, MCPTool, MCPServer, ProgressCallback, ProgressUpdate, StreamingCallback, StreamingUpdate, TokenUsage, ToolContext } from './types';
+import { toolFromMCP } from './types';
 import { objToXml, xmlToObj } from './xml';
-import { callLLM, lastTokenUsage } from './inference';
-import { cachedCallLLM } from './cache';
-import { discoverTools, invokeTool } from './mcp';
-import { fetchWithPayment } from './payments';
+import { outputJsonSchema, describeOutputFormat, describeOutputFields, coerceToSchema } from './output-schema';
+import { parsePartialJSON, closePartialXML, pickPresent } from './partial-json';
+import type { DeepPartial } from './partial-json';
+import { getSchemaTypeName } from './validation';
+import { validateToolParams } from './tool-params';
+import { createToolContext } from './tool-context';
+import { zodToToolSchema } from './define-tool';
+import { ToolRetriever } from './tool-retrieval';
+import { ResponseCache } from './response-cache';
+import { mapParameters, resolverTarget } from './input-resolvers';
+import type { InputResolver } from './input-resolvers';
+import { callLLMDetailed, callLLMWithTools, supportsNativeTools } from './inference';
+import type { CallLLMOptions } from './inference';
+import { cachedCallLLMDetailed } from './cache';
+import { resolveProvider } from './providers';
+import { discoverTools, invokeTool, readResource, resourceContentsText, type MCPConnectOptions } from './mcp';
+import { createPaymentFetch, fetchWithPayment } from './payments';
 import { generateRequestId } from './utils';
 import { validateUrl } from './validation';
 import { calculateCost, estimateInputCost } from './pricing';
 import type { CostEstimate } from './pricing';
+import type { CostRecord } from './cost-tracker';
+import { createRunTrace, beginSpan, endSpan, endOpenSpans } from './run-trace';
+import type { RunTrace, LLMSpan, LLMSpanPurpose, ToolSpan } from './run-trace';
 import type { ConversationMemory } from './memory';
 import type { SessionManager } from './session';
 import { auditLog } from './audit';
-import { BudgetExceededError, ValidationError, TimeoutError } from './errors';
+import { PendingApproval, requiresApproval } from './approval';
+import type { ApprovalDecision, NativeToolState, PendingToolCall, ResumeOptions, SuspendedRun } from './approval';
+import { ApprovalRequiredError, BudgetExceededError, CancelledError, GxaiError, InputResolutionError, ValidationError, TimeoutError } from './errors';
 import { ContextTracker } from './context';
 import type { ContextUsage } from './context';
 import { PluginRegistry } from './plugin';
@@ -31,6 +50,8 @@ export interface MiddlewareContext {
   usage?: TokenUsage;
   cost?: CostEstimate;
   durationMs?: number;
+  /** Labels from RunOptions.tags */
+  tags?: string[];
 }
 
 /** Middleware function — receives execution context at each phase */
@@ -38,38 +59,213 @@ export type AgentMiddleware = (ctx: MiddlewareContext) => void | Promise<void>;
 
 /** Typed telemetry event emitted during agent.run() */
 export type RunEvent =
-  | { type: 'run_start'; agentName: string; llm: string; requestId: string; timestamp: number }
+  | { type: 'run_start'; agentName: string; llm: string; requestId: string; parentRequestId?: string; tags?: string[]; timestamp: number }
   | { type: 'llm_call'; agentName: string; llm: string; purpose: string; timestamp: number }
   | { type: 'llm_complete'; agentName: string; llm: string; purpose: string; durationMs: number; usage?: TokenUsage; timestamp: number }
   | { type: 'tool_start'; agentName: string; server: string; tool: string; timestamp: number }
   | { type: 'tool_complete'; agentName: string; server: string; tool: string; durationMs: number; success: boolean; timestamp: number }
-  | { type: 'run_complete'; agentName: string; llm: string; requestId: string; durationMs: number; usage?: TokenUsage; cost?: CostEstimate; timestamp: number }
-  | { type: 'run_error'; agentName: string; llm: string; requestId: string; error: string; durationMs: number; timestamp: number };
+  | { type: 'step_start'; agentName: string; requestId: string; step: number; timestamp: number }
+  | { type: 'step_complete'; agentName: string; requestId: string; step: number; toolCalls: string[]; durationMs: number; usage?: TokenUsage; timestamp: number }
+  | { type: 'repair_attempt'; agentName: string; llm: string; requestId: string; attempt: number; issues: string[]; success: boolean; durationMs: number; usage?: TokenUsage; cost?: CostEstimate; timestamp: number }
+  | { type: 'run_complete'; agentName: string; llm: string; requestId: string; durationMs: number; usage?: TokenUsage; cost?: CostEstimate; parentRequestId?: string; tags?: string[]; timestamp: number }
+  | { type: 'run_error'; agentName: string; llm: string; requestId: string; error: string; durationMs: number; parentRequestId?: string; tags?: string[]; timestamp: number }
+  | { type: 'run_cancelled'; agentName: string; llm: string; requestId: string; reason: string; durationMs: number; parentRequestId?: string; tags?: string[]; timestamp: number }
+  | { type: 'run_suspended'; agentName: string; llm: string; requestId: string; approvalId: string; calls: string[]; durationMs: number; parentRequestId?: string; tags?: string[]; timestamp: number };
 
 /** Callback for receiving run telemetry events */
 export type RunEventCallback = (event: RunEvent) => void;
 
-/** Chunk yielded by runStream() — either a progress update or the final result */
+/**
+ * Per-call options for run(). Model settings override the agent config for this
+ * run only; the agent itself is not changed.
+ */
+export interface RunOptions {
+  /**
+   * Cancels the run: in-flight LLM requests, MCP requests and local tools (via
+   * ToolContext) are aborted, and run() rejects with a CancelledError.
+   */
+  signal?: AbortSignal;
+  /** Progress updates (same as passing a callback as the second argument) */
+  progress?: ProgressCallback;
+  llm?: LLMType | string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  maxCostUSD?: number;
+  /** Labels for this run, passed to middleware, RunEvents, analytics and cost records */
+  tags?: string[];
+  /** requestId of the run this one is nested in (set by asTool()); carried by run-level RunEvents and traces */
+  parentRequestId?: string;
+}
+
+/** Model settings of one run: RunOptions overrides applied over the agent config */
+type RunSettings = Required<Pick<RunOptions, 'llm' | 'maxTokens'>> & Pick<RunOptions, 'temperature' | 'systemPrompt' | 'maxCostUSD' | 'tags'>;
+
+/** Invalid output fed back to the model for a repair attempt */
+interface OutputRepair {
+  previousOutput: string;
+  issues: string[];
+}
+
+/** Text of an MCP resource attached to the prompt context */
+interface AttachedResource {
+  uri: string;
+  text: string;
+}
+
+/** A tool call made during a run, as reported to analytics */
+interface ToolInvocation {
+  server: string;
+  tool: string;
+  parameters: any;
+  result: any;
+  /** Why the parameters were rejected (the tool was not invoked) */
+  validationIssues?: string[];
+}
+
+/** Per-run state shared by every LLM call and tool invocation */
+interface RunState extends RunSettings {
+  agentName: string;
+  requestId: string;
+  /** Validated run input */
+  input: any;
+  startTime: number;
+  /** Run-wide token usage, checked against maxCostUSD between steps */
+  usage: TokenUsage;
+  toolResults: Record<string, any>;
+  toolInvocations: ToolInvocation[];
+  progressCallback?: ProgressCallback;
+  /** Aborted when the run is cancelled or times out; passed to every LLM, MCP and tool call */
+  signal: AbortSignal;
+  /** Set by runWithTrace(): LLM calls and tool invocations are recorded as spans */
+  trace?: RunTrace;
+  /** Calls held by requireApproval; the run suspends after the tool phase when any are held */
+  pendingCalls: PendingToolCall[];
+  /** Native tool-calling conversation at the step that held calls */
+  nativeState?: NativeToolState;
+  /** Usage and cost rolled up from agents called as tools */
+  nested: NestedUsage;
+}
+
+/** Usage and cost of nested agent runs; their cost is priced by each nested run's own model */
+interface NestedUsage {
+  usage: TokenUsage;
+  cost: CostEstimate | null;
+}
+
+/** What run() internals get besides RunOptions */
+interface InternalRunOptions {
+  trace?: RunTrace;
+  resume?: ResumeRequest;
+  /** Set when the run is an asTool() call: its usage and cost roll up into the parent run */
+  parent?: NestedUsage;
+  /** Shared with runWithSignal, which ends the run itself when an abort wins */
+  lifecycle?: RunLifecycle;
+}
+
+/** A finished run's token usage and cost, nested agent runs included */
+interface RunTotals {
+  usage?: TokenUsage;
+  cost?: CostEstimate;
+}
+
+/** Whether a run reported its outcome; a run reports exactly one terminal RunEvent */
+interface RunLifecycle {
+  ended: boolean;
+  /** Reports an abort (run_cancelled, or run_error for a timeout) and closes open trace spans; set once the run started */
+  endAborted?: (reason: unknown) => void;
+}
+
+/** The run each ToolContext was created for, read by asTool() */
+const parentRuns = new WeakMap<ToolContext, RunState>();
+
+/** A suspended run and the reviewer's decisions, passed to run() internals on resume */
+interface ResumeRequest {
+  state: SuspendedRun;
+  decisions: Record<string, ApprovalDecision>;
+}
+
+/** invokeToolCall() result for a call held for approval */
+const APPROVAL_PENDING = Symbol('approval pending');
+
+/** Add one call's token usage to a run total */
+function addUsage(total: TokenUsage, usage?: TokenUsage): void {
+  if (!usage) return;
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.totalTokens += usage.totalTokens;
+}
+
+/** Add two costs; null stands for no cost */
+function addCost(a: CostEstimate | null, b: CostEstimate | null): CostEstimate | null {
+  if (!a || !b) return a ?? b;
+  const round = (n: number) => Math.round(n * 1_000_000) / 1_000_000;
+  return { inputCost: round(a.inputCost + b.inputCost), outputCost: round(a.outputCost + b.outputCost), totalCost: round(a.totalCost + b.totalCost), currency: 'USD' };
+}
+
+/** LLM span fields from a call result */
+function llmSpanOutcome(result: LLMCallResult): Partial<LLMSpan> {
+  return {
+    response: result.content,
+    rawResponse: result.rawResponse,
+    reasoning: result.reasoningContent,
+    finishReason: result.finishReason,
+    usage: result.usage,
+    ...(result.toolCalls.length > 0 && { toolCalls: result.toolCalls }),
+  };
+}
+
+/**
+ * Chunk yielded by runStream() — either a progress update or the final result.
+ * `partial_output` chunks carry a snapshot of the output generated so far in `partial`.
+ */
 export type StreamChunk<T = any> =
-  | { done: false; stage: string; message: string; data?: any }
+  | { done: false; stage: string; message: string; data?: any; partial?: DeepPartial<T> }
   | { done: true; output?: T; error?: string };
 
-export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
-  private config: AgentConfig<I, O>;
+export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>, D = any> {
+  private config: AgentConfig<I, O, D>;
   private middlewares: AgentMiddleware[] = [];
   private runEventCallback: RunEventCallback | null = null;
   private contextTracker: ContextTracker;
   private _plugins: Map<string, AgentPlugin> = new Map();
   private _sessionRestored = false;
-  /** Token usage from the most recent run() call */
+  private toolRetriever: ToolRetriever | null;
+  private resolverCache: ResponseCache | null;
+  /** MCP connection options: `url` servers are paid through the agent's wallet on 402 */
+  private mcpOptions: MCPConnectOptions;
+  /** Token usage from the most recent run() call; overlapping runs overwrite it, so each reports its own in run_complete */
   public lastUsage: TokenUsage | null = null;
   /** Cost from the most recent run() call (calculated from actual token usage) */
   public lastCost: CostEstimate | null = null;
 
-  constructor(config: AgentConfig<I, O>) {
+  constructor(config: AgentConfig<I, O, D>) {
     this.config = config;
     this.contextTracker = new ContextTracker(config.llm);
-    this.validateNoArrays(this.config.outputFormat);
+    this.toolRetriever = config.toolRetrieval ? new ToolRetriever(config.toolRetrieval) : null;
+    const { resolverCache } = config;
+    this.resolverCache = resolverCache === false ? null
+      : resolverCache instanceof ResponseCache ? resolverCache
+        : new ResponseCache({ ttlMs: 60_000, ...resolverCache });
+    this.mcpOptions = config.solanaWallet ? { fetch: createPaymentFetch(config.solanaWallet) } : {};
+  }
+
+  /** Agent name from config (undefined if not set) */
+  get name(): string | undefined {
+    return this.config.name;
+  }
+
+  /** What the agent does, from config — used when the agent is exposed as a tool */
+  get description(): string | undefined {
+    return this.config.description;
+  }
+
+  get inputFormat(): I {
+    return this.config.inputFormat;
+  }
+
+  get outputFormat(): O {
+    return this.config.outputFormat;
   }
 
   /** Get current context window utilization across all runs */
@@ -86,13 +282,43 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
    * Create a copy of this agent with optional config overrides.
    * Middleware is preserved. Useful for creating model/temperature variants.
    */
-  clone(overrides?: Partial<AgentConfig<I, O>>): Agent<I, O> {
-    const cloned = new Agent<I, O>({ ...this.config, ...overrides });
+  clone(overrides?: Partial<AgentConfig<I, O, D>>): Agent<I, O, D> {
+    const cloned = new Agent<I, O, D>({ ...this.config, ...overrides });
     cloned.middlewares = [...this.middlewares];
     cloned.runEventCallback = this.runEventCallback;
     return cloned;
   }
 
+  /**
+   * This agent as a tool for another agent's `localTools`. The tool's inputSchema
+   * comes from `inputFormat`, and `execute` runs the agent with the caller's signal.
+   * Nested usage and cost roll up into the calling run's `lastUsage`/`lastCost`;
+   * the nested run's RunEvents carry the caller's requestId as `parentRequestId`.
+   * A failed run returns `{ error }` to the calling model.
+   */
+  asTool(options: { name?: string; description?: string } = {}): MCPTool {
+    const name = options.name ?? this.config.name;
+    if (!name) throw new GxaiError('asTool() needs a name: pass one or set the agent name');
+    return {
+      name,
+      description: options.description ?? this.config.description ?? `Run the ${name} agent`,
+      inputSchema: zodToToolSchema(this.config.inputFormat),
+      execute: (params, context) => {
+        const parent = parentRuns.get(context);
+        return this.runWithSignal(params, {
+          signal: context.signal,
+          parentRequestId: context.requestId,
+          // Only when the caller listens: a progress callback makes the final LLM call stream
+          ...(parent?.progressCallback && {
+            progress: (update: ProgressUpdate) => {
+              if (update.stage !== 'partial_output') context.progress(update.message, update.data);
+            },
+          }),
+        }, { parent: parent?.nested }).catch((error) => ({ error: error instanceof Error ? error.message : String(error) }));
+      },
+    };
+  }
+
   /**
    * Register a middleware hook. Called at 3 phases:
    * - `before`: Pre-execution (throw to abort)
@@ -140,16 +366,46 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     try { this.runEventCallback?.(event); } catch { /* non-fatal */ }
   }
 
-  /** Route LLM calls through cache when cacheConfig is set */
+  /**
+   * Call the run's LLM and add the call's own usage to `usage` (default: the run total).
+   * In a traced run the call is recorded as an LLM span, returned so the caller can add what it parsed.
+   */
+  private async callLLMTracked(
+    run: RunState,
+    purpose: LLMSpanPurpose,
+    messages: Array<{ role: string; content: string; cacheControl?: boolean }>,
+    options: CallLLMOptions,
+    usage: TokenUsage = run.usage,
+  ): Promise<{ content: string; span?: LLMSpan }> {
+    const span = run.trace && beginSpan<LLMSpan>(run.trace, {
+      kind: 'llm', purpose, llm: run.llm, messages: [...messages], temperature: options.temperature, maxTokens: options.maxTokens,
+    });
+    try {
+      const result = await callLLMDetailed(run.llm, messages, options);
+      addUsage(usage, result.usage);
+      if (span) endSpan(span, llmSpanOutcome(result));
+      return { content: result.content, span };
+    } catch (error) {
+      if (span) endSpan(span, { error });
+      throw error;
+    }
+  }
+
+  /** Route LLM calls through cache when cacheConfig is set; cache hits add no usage */
   private async callLLMCached(
+    run: RunState,
+    purpose: LLMSpanPurpose,
     messages: Array<{ role: string; content: string }>,
     options: any,
+    usage: TokenUsage,
     progressCallback?: ProgressCallback,
   ): Promise<string> {
     if (this.config.cacheConfig) {
-      return cachedCallLLM(this.config.llm, messages, { ...options, progress: progressCallback }, this.config.cacheConfig);
+      const result = await cachedCallLLMDetailed(run.llm, messages, { ...options, progress: progressCallback }, this.config.cacheConfig);
+      if (!result.cached) addUsage(usage, result.usage);
+      return result.content;
     }
-    return callLLM(this.config.llm, messages, { ...options, progress: progressCallback });
+    return (await this.callLLMTracked(run, purpose, messages, { ...options, progress: progressCallback }, usage)).content;
   }
 
   /** Run all registered middleware for a given phase */
@@ -163,20 +419,21 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
    * Estimate cost before running. Uses character-count heuristic (~4 chars/token).
    * @param input - The input object to estimate cost for
    * @param estimatedOutputTokens - Expected output tokens (default 1000)
+   * @param overrides - Per-run `llm` and `systemPrompt`, as passed to run()
    * @returns CostEstimate with projected USD cost
    */
-  estimateCost(input: z.infer<I>, estimatedOutputTokens = 1000): CostEstimate {
+  estimateCost(input: z.infer<I>, estimatedOutputTokens = 1000, overrides: Pick<RunOptions, 'llm' | 'systemPrompt'> = {}): CostEstimate {
     const validatedInput = this.config.inputFormat.parse(input);
     const xml = objToXml({ input: validatedInput });
     // Account for system prompt length too
-    const systemChars = (this.config.systemPrompt || '').length;
-    return estimateInputCost(this.config.llm, xml.length + systemChars, estimatedOutputTokens);
+    const systemChars = (overrides.systemPrompt ?? this.config.systemPrompt ?? '').length;
+    return estimateInputCost(overrides.llm ?? this.config.llm, xml.length + systemChars, estimatedOutputTokens);
   }
 
   /**
    * Run multiple inputs in parallel with concurrency control.
    * @param inputs - Array of inputs to process
-   * @param options - `concurrency` (default 5), `progressCallback` passed to each run
+   * @param options - `concurrency` (default 5), `progressCallback` and `signal` passed to each run
    * @returns Object with `results` (successful outputs) and `errors` (failed inputs with error messages)
    */
   async runBatch(
@@ -184,13 +441,15 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     options: {
       concurrency?: number;
       progressCallback?: ProgressCallback;
+      /** Cancels the batch: running inputs are aborted and the rest fail with a CancelledError */
+      signal?: AbortSignal;
       /** Delay in ms between each batch chunk (for rate limiting) */
       delayBetweenBatchesMs?: number;
       /** Callback fired after each batch chunk completes */
       onBatchProgress?: (completed: number, total: number, errors: number) => void;
     } = {}
   ): Promise<{ results: z.infer<O>[]; errors: Array<{ input: z.infer<I>; error: string }> }> {
-    const { concurrency = 5, progressCallback, delayBetweenBatchesMs = 0, onBatchProgress } = options;
+    const { concurrency = 5, progressCallback, signal, delayBetweenBatchesMs = 0, onBatchProgress } = options;
     const results: z.infer<O>[] = [];
     const errors: Array<{ input: z.infer<I>; error: string }> = [];
 
@@ -198,7 +457,7 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     for (let i = 0; i < inputs.length; i += concurrency) {
       const chunk = inputs.slice(i, i + concurrency);
       const settled = await Promise.allSettled(
-        chunk.map(input => this.run(input, progressCallback))
+        chunk.map(input => this.run(input, { progress: progressCallback, signal }))
       );
       for (let j = 0; j < settled.length; j++) {
         const s = settled[j]!;
@@ -213,7 +472,7 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
       onBatchProgress?.(results.length + errors.length, inputs.length, errors.length);
 
       // Rate limiting delay between chunks
-      if (delayBetweenBatchesMs > 0 && i + concurrency < inputs.length) {
+      if (delayBetweenBatchesMs > 0 && i + concurrency < inputs.length && !signal?.aborted) {
         await new Promise(resolve => setTimeout(resolve, delayBetweenBatchesMs));
       }
     }
@@ -224,23 +483,23 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
   /**
    * Run with automatic retry and exponential backoff on failure.
    * @param input - The input to process
-   * @param options - `maxRetries` (default 3), `retryDelayMs` (default 1000), `maxDelayMs` (default 30000)
+   * @param options - `maxRetries` (default 3), `retryDelayMs` (default 1000), `maxDelayMs` (default 30000), `signal`
    * @returns The output on success, throws after all retries exhausted
    */
   async runWithRetry(
     input: z.infer<I>,
-    options: { maxRetries?: number; retryDelayMs?: number; maxDelayMs?: number; progressCallback?: ProgressCallback } = {}
+    options: { maxRetries?: number; retryDelayMs?: number; maxDelayMs?: number; progressCallback?: ProgressCallback; signal?: AbortSignal } = {}
   ): Promise<z.infer<O>> {
-    const { maxRetries = 3, retryDelayMs = 1000, maxDelayMs = 30_000, progressCallback } = options;
+    const { maxRetries = 3, retryDelayMs = 1000, maxDelayMs = 30_000, progressCallback, signal } = options;
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        return await this.run(input, progressCallback);
+        return await this.run(input, { progress: progressCallback, signal });
       } catch (err: any) {
         lastError = err;
-        // Don't retry on budget exceeded, validation, or timeout errors
-        if (err instanceof BudgetExceededError || err instanceof ValidationError || err instanceof TimeoutError) {
+        // Don't retry on budget exceeded, validation, timeout or cancellation errors
+        if (err instanceof BudgetExceededError || err instanceof ValidationError || err instanceof TimeoutError || err instanceof CancelledError) {
           throw err;
         }
         const msg = err?.message?.toLowerCase() || '';
@@ -257,37 +516,149 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     throw lastError || new Error('All retries exhausted');
   }
 
-  async run(input: z.infer<I>, progressCallback?: ProgressCallback): Promise<z.infer<O>> {
-    // If timeout configured, race the actual run against a timer
+  async run(input: z.infer<I>, options?: ProgressCallback | RunOptions): Promise<z.infer<O>> {
+    return this.runWithSignal(input, typeof options === 'function' ? { progress: options } : (options ?? {}));
+  }
+
+  /**
+   * Run and record a `RunTrace`: every internal LLM call (messages, raw and parsed
+   * response, usage) and tool invocation (parameters, result) as ordered, timed spans.
+   * Resolves with the trace even when the run fails — `trace.error` holds the message.
+   */
+  async runWithTrace(input: z.infer<I>, options: RunOptions = {}): Promise<RunTrace<z.infer<O>>> {
+    const trace = createRunTrace(this.config.name || 'unnamed-agent', options.llm ?? this.config.llm, input);
+    try {
+      trace.output = await this.runWithSignal(input, options, { trace });
+    } catch (error) {
+      trace.error = error instanceof Error ? error.message : String(error);
+    }
+    trace.durationMs = Date.now() - trace.startTime;
+    return trace;
+  }
+
+  /**
+   * Handle to a run suspended by requireApproval, loaded from `config.session`
+   * (e.g. after a restart). Null when unknown or already resolved.
+   */
+  getPendingApproval(id: string): PendingApproval<z.infer<O>> | null {
+    const session = this.config.session as SessionManager | undefined;
+    if (!session) return null;
+    if (!session.has(`approval:${id}`)) session.load();
+    const state = session.get<SuspendedRun | undefined>(`approval:${id}`);
+    return state ? this.approvalHandle(state) : null;
+  }
+
+  /** Every suspended run stored in `config.session`, oldest first */
+  listPendingApprovals(): PendingApproval<z.infer<O>>[] {
+    const session = this.config.session as SessionManager | undefined;
+    if (!session) return [];
+    session.load();
+    return session.keys
+      .filter(key => key.startsWith('approval:'))
+      .map(key => session.get<SuspendedRun>(key))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(state => this.approvalHandle(state));
+  }
+
+  private approvalHandle(state: SuspendedRun): PendingApproval<z.infer<O>> {
+    return new PendingApproval(state, (suspended, decisions, options) => this.resumeSuspended(suspended, decisions, options));
+  }
+
+  /** Save the held calls and run state, so a reviewer can resume the run */
+  private suspendRun(run: RunState): PendingApproval<z.infer<O>> {
+    const state: SuspendedRun = {
+      id: generateRequestId(),
+      agentName: run.agentName,
+      requestId: run.requestId,
+      input: run.input,
+      options: { llm: run.llm, temperature: run.temperature, maxTokens: run.maxTokens, systemPrompt: run.systemPrompt, maxCostUSD: run.maxCostUSD, tags: run.tags },
+      usage: { ...run.usage },
+      toolResults: run.toolResults,
+      toolInvocations: run.toolInvocations,
+      calls: run.pendingCalls,
+      ...(run.nativeState && { native: run.nativeState }),
+      createdAt: Date.now(),
+    };
+    const session = this.config.session as SessionManager | undefined;
+    if (session) {
+      session.set(`approval:${state.id}`, JSON.parse(JSON.stringify(state)));
+      session.save();
+    }
+    return this.approvalHandle(state);
+  }
+
+  /** Continue a suspended run with the reviewer's decisions */
+  private async resumeSuspended(state: SuspendedRun, decisions: Record<string, ApprovalDecision>, options: ResumeOptions): Promise<z.infer<O>> {
+    // Dropped before any held call runs: a failed resume must not repeat side effects
+    const session = this.config.session as SessionManager | undefined;
+    if (session?.delete(`approval:${state.id}`)) session.save();
+    const { reviewer, ...runOptions } = options;
+    const stamped = reviewer === undefined ? decisions : Object.fromEntries(
+      Object.entries(decisions).map(([id, decision]) => [id, { reviewer, ...decision }])
+    );
+    return this.runWithSignal(state.input, { ...state.options, ...runOptions }, { resume: { state, decisions: stamped } });
+  }
+
+  /** run() with cancellation and maxDurationMs wired into one run-wide signal */
+  private async runWithSignal(input: z.infer<I>, runOptions: RunOptions, internal: InternalRunOptions = {}): Promise<z.infer<O>> {
+    const { signal } = runOptions;
+
+    // One run-wide signal: aborted by the caller's signal (CancelledError) or by maxDurationMs (TimeoutError)
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(new CancelledError(signal!.reason));
+    if (signal?.aborted) onCancel();
+    else signal?.addEventListener('abort', onCancel, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
     if (this.config.maxDurationMs) {
       const maxMs = this.config.maxDurationMs;
-      return Promise.race([
-        this._runInternal(input, progressCallback),
-        new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new TimeoutError(maxMs, maxMs)), maxMs)
-        ),
-      ]);
+      timer = setTimeout(() => controller.abort(new TimeoutError(maxMs, maxMs)), maxMs);
+    }
+
+    // Reject as soon as the signal aborts, even if a tool ignores it
+    const aborted = new Promise<never>((_, reject) => {
+      const fail = () => reject(controller.signal.reason);
+      if (controller.signal.aborted) fail();
+      else controller.signal.addEventListener('abort', fail, { once: true });
+    });
+    aborted.catch(() => { });
+
+    const lifecycle: RunLifecycle = { ended: false };
+    try {
+      return await Promise.race([this._runInternal(input, runOptions, controller.signal, { ...internal, lifecycle }), aborted]);
+    } catch (error) {
+      // The abort won while the run may still be busy (e.g. in a tool that ignores the signal): report it now
+      if (controller.signal.aborted && !lifecycle.ended) lifecycle.endAborted?.(controller.signal.reason);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
     }
-    return this._runInternal(input, progressCallback);
   }
 
   /**
    * Stream execution as an async iterator.
    * Yields `StreamChunk` objects with progress updates,
    * then a final chunk with `done: true` containing the output.
+   * Aborting `options.signal`, or breaking out of the loop, cancels the run.
+   * Other RunOptions (model settings, tags) apply as in run().
    */
-  async *runStream(input: z.infer<I>): AsyncGenerator<StreamChunk<z.infer<O>>> {
+  async *runStream(input: z.infer<I>, options: Omit<RunOptions, 'progress'> = {}): AsyncGenerator<StreamChunk<z.infer<O>>> {
     const chunks: StreamChunk<z.infer<O>>[] = [];
     let resolve: (() => void) | null = null;
     let hasMore = true;
 
     const progressCallback: ProgressCallback = (update) => {
-      chunks.push({ done: false, stage: update.stage, message: update.message, data: update.data });
+      chunks.push(update.stage === 'partial_output'
+        ? { done: false, stage: update.stage, message: update.message, partial: update.data }
+        : { done: false, stage: update.stage, message: update.message, data: update.data });
       resolve?.();
     };
 
-    // Run in the background
-    const runPromise = this.run(input, progressCallback).then(
+    // Run in the background; stopping the iteration early cancels it
+    const controller = new AbortController();
+    const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+    const runPromise = this.run(input, { ...options, signal, progress: progressCallback }).then(
       (result) => {
         chunks.push({ done: true, output: result });
         hasMore = false;
@@ -300,47 +671,77 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
       }
     );
 
-    while (hasMore || chunks.length > 0) {
-      if (chunks.length > 0) {
-        yield chunks.shift()!;
-      } else {
-        await new Promise<void>((r) => { resolve = r; });
+    try {
+      while (hasMore || chunks.length > 0) {
+        if (chunks.length > 0) {
+          yield chunks.shift()!;
+        } else {
+          await new Promise<void>((r) => { resolve = r; });
+        }
       }
+    } finally {
+      if (hasMore) controller.abort();
     }
   }
 
-  private async _runInternal(input: z.infer<I>, progressCallback?: ProgressCallback): Promise<z.infer<O>> {
-    const requestId = generateRequestId();
-    const startTime = Date.now();
-    const toolInvocations: Array<{ server: string; tool: string; parameters: any; result: any }> = [];
-    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
-
-    /** Helper to accumulate token usage after each callLLM */
-    const accumulateUsage = () => {
-      if (lastTokenUsage) {
-        usage.inputTokens += lastTokenUsage.inputTokens;
-        usage.outputTokens += lastTokenUsage.outputTokens;
-        usage.totalTokens += lastTokenUsage.totalTokens;
-      }
+  private async _runInternal(input: z.infer<I>, options: RunOptions, signal: AbortSignal, internal: InternalRunOptions): Promise<z.infer<O>> {
+    const { trace, resume, parent } = internal;
+    const { parentRequestId } = options;
+    const progressCallback = options.progress;
+    const settings: RunSettings = {
+      llm: options.llm ?? this.config.llm,
+      temperature: options.temperature ?? this.config.temperature,
+      maxTokens: options.maxTokens ?? this.config.maxTokens ?? 4000,
+      systemPrompt: options.systemPrompt ?? this.config.systemPrompt,
+      maxCostUSD: options.maxCostUSD ?? this.config.maxCostUSD,
+      tags: options.tags,
     };
+    const { llm, tags } = settings;
+    // A resumed run keeps its request id and picks up the usage and tool results it had
+    const requestId = resume?.state.requestId ?? generateRequestId();
+    if (trace) Object.assign(trace, { requestId, parentRequestId, tags });
+    const startTime = Date.now();
+    const toolInvocations: ToolInvocation[] = [...(resume?.state.toolInvocations ?? [])];
+    /** Run-wide token usage — every LLM call adds its own result's usage */
+    const usage: TokenUsage = resume ? { ...resume.state.usage } : { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    const nested: NestedUsage = { usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 }, cost: null };
 
     // Budget guard: reject if estimated cost exceeds maxCostUSD
-    if (this.config.maxCostUSD !== undefined) {
-      const est = this.estimateCost(input, this.config.maxTokens || 4000);
-      if (est.totalCost > this.config.maxCostUSD) {
-        throw new BudgetExceededError(est.totalCost, this.config.maxCostUSD, this.config.llm);
+    if (settings.maxCostUSD !== undefined) {
+      const est = this.estimateCost(input, settings.maxTokens, settings);
+      if (est.totalCost > settings.maxCostUSD) {
+        throw new BudgetExceededError(est.totalCost, settings.maxCostUSD, llm);
       }
     }
 
     const agentName = this.config.name || 'unnamed-agent';
 
+    // Once runWithSignal reported an abort, a run still finishing in the background emits nothing more
+    const lifecycle = internal.lifecycle ?? { ended: false };
+    const emitTerminal = (event: RunEvent) => {
+      if (lifecycle.ended) return;
+      lifecycle.ended = true;
+      this.emitEvent(event);
+    };
+    const emitFailure = (error: unknown) => emitTerminal(error instanceof CancelledError
+      ? { type: 'run_cancelled', agentName, llm, requestId, reason: error.message, durationMs: Date.now() - startTime, parentRequestId, tags, timestamp: Date.now() }
+      : { type: 'run_error', agentName, llm, requestId, error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - startTime, parentRequestId, tags, timestamp: Date.now() });
+    lifecycle.endAborted = (reason) => {
+      if (trace) endOpenSpans(trace, reason);
+      emitFailure(reason);
+    };
+
     try {
       // Run 'before' middleware (can throw to abort)
-      await this.runMiddleware({ phase: 'before', agentName, llm: this.config.llm, input });
+      await this.runMiddleware({ phase: 'before', agentName, llm, input, tags });
 
-      this.emitEvent({ type: 'run_start', agentName, llm: this.config.llm, requestId, timestamp: Date.now() });
+      this.emitEvent({ type: 'run_start', agentName, llm, requestId, parentRequestId, tags, timestamp: Date.now() });
+      signal.throwIfAborted();
 
-      const validatedInput = this.config.inputFormat.parse(input);
+      // The suspended state already holds the validated, MCP-resolved input
+      const validatedInput = resume ? resume.state.input : this.config.inputFormat.parse(input);
+      const toolResults: Record<string, any> = { ...resume?.state.toolResults };
+      const run: RunState = { ...settings, agentName, requestId, input: validatedInput, startTime, usage, toolResults, toolInvocations, progressCallback, signal, trace, pendingCalls: [], nested };
 
       // Restore memory from session (first run only)
       const session = this.config.session as SessionManager | undefined;
@@ -356,148 +757,102 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
         } catch { /* session load failure is non-fatal */ }
       }
 
-      // Record input in conversation memory
-      if (memory) {
+      // Record input in conversation memory (a resumed run recorded it when it started)
+      if (memory && !resume) {
         memory.addUser(objToXml({ input: validatedInput }));
       }
 
-      const result = await measure.assert(`Agent.run ${this.config.llm}`, async (m: any) => {
-        progressCallback?.({
-          stage: "input_resolution",
-          message: "Resolving MCP-dependent input fields...",
-        });
-        await m('Resolve MCP inputs', () =>
-          this.resolveMCPInputFields(validatedInput, progressCallback)
-        );
-        accumulateUsage();
-
-        let activeServers: MCPServer[] = [...(this.config.servers || [])];
-        if (this.config.localTools && this.config.localTools.length > 0) {
-          activeServers.push({
-            name: '__local__',
-            description: 'Native application local runtime tools. High priority for internal functionality.',
-            url: 'local://internal',
-            __localTools: this.config.localTools
-          } as any);
+      const result = await measure.assert(`Agent.run ${llm}`, async (m: any) => {
+        if (!resume) {
+          // Not wrapped in m(): a failing resolver must fail the run
+          await this.resolveInputFields(validatedInput, run);
+          if (this.config.resolveMCPDescriptions) {
+            progressCallback?.({
+              stage: "input_resolution",
+              message: "Resolving MCP-dependent input fields...",
+            });
+            await m('Resolve MCP inputs', () =>
+              this.resolveMCPInputFields(validatedInput, run)
+            );
+          }
         }
+        const resources = await this.readAttachedResources(run);
+        signal.throwIfAborted();
+
+        const localServer = this.localServer();
+        const activeServers: MCPServer[] = [...(this.config.servers || []), ...(localServer ? [localServer] : [])];
 
-        let relevantServers: MCPServer[] = [];
-        if (activeServers.length > 0) {
+        if (resume) {
+          progressCallback?.({
+            stage: "tool_invocation",
+            message: `Resuming with ${resume.state.calls.length} reviewed tool call(s)...`,
+          });
+          await this.resumeToolCalls(resume, activeServers, run);
+        } else if (activeServers.length > 0 && supportsNativeTools(llm)) {
+          // Native function calling: a single LLM call picks tools and parameters across all servers
+          progressCallback?.({
+            stage: "tool_discovery",
+            message: "Discovering available tools...",
+          });
+          // Not wrapped in m(): budget and timeout errors between steps must abort the run
+          await this.runNativeTools(validatedInput, activeServers, run);
+        } else if (activeServers.length > 0) {
           progressCallback?.({
             stage: "server_selection",
             message: "Analyzing input to determine relevant servers...",
           });
-          relevantServers = await m('Select servers', () =>
-            this.selectRelevantServers(validatedInput, activeServers)
+          const relevantServers: MCPServer[] = await m('Select servers', () =>
+            this.selectRelevantServers(validatedInput, activeServers, run)
           ) ?? [];
-          accumulateUsage();
           progressCallback?.({
             stage: "server_selection",
             message: `Selected ${relevantServers.length} relevant servers`,
             data: { servers: relevantServers.map((s) => s.name) },
           });
-        }
 
-        const toolResults: Record<string, any> = {};
-        if (relevantServers.length > 0) {
-          progressCallback?.({
-            stage: "tool_discovery",
-            message: "Discovering available tools...",
-          });
-          await m('Discover and invoke tools', async () => {
-            const toolInvocationPromises: Promise<void>[] = [];
-
-            await Promise.all(relevantServers.map(async (server) => {
-              const tools = await discoverTools(server);
-              if (tools && tools.length > 0) {
-                const relevantTools = await this.selectRelevantTools(validatedInput, tools, server);
-                for (const tool of (relevantTools ?? [])) {
-                  toolInvocationPromises.push((async () => {
-                    const parameters = await this.generateToolParameters(validatedInput, tool);
-                    progressCallback?.({
-                      stage: "tool_invocation",
-                      message: `Invoking ${server.name}.${tool.name} with params...`,
-                      data: parameters
-                    });
-
-                    let result: any;
-
-                    // 1. Check global ToolAuth definitions
-                    if (this.config.toolAuth) {
-                      const decision = this.config.toolAuth.isAllowed(tool.name, server.name);
-                      if (!decision.allowed) {
-                        result = { error: `Tool execution denied: ${decision.reason}` };
-                        auditLog.log({ decision: 'deny', tool: tool.name, server: server.name, agentName, reason: decision.reason, parameters });
-                        progressCallback?.({ stage: "tool_invocation", message: `Tool ${server.name}.${tool.name} globally rejected: ${decision.reason}`, data: result });
-                      }
-                    }
-
-                    // 2. Check local component authorize hook if global auth allowed it
-                    if (!result && tool.authorize) {
-                      const authorized = await tool.authorize(parameters);
-                      if (authorized !== true) {
-                        const errorMsg = typeof authorized === "string" ? authorized : "Unauthorized by host application";
-                        result = { error: errorMsg };
-                        auditLog.log({ decision: 'deny', tool: tool.name, server: server.name, agentName, reason: errorMsg, parameters });
-                        progressCallback?.({
-                          stage: "tool_invocation",
-                          message: `Tool ${server.name}.${tool.name} rejected: ${errorMsg}`,
-                          data: result
-                        });
-                      } else {
-                        auditLog.log({ decision: 'allow', tool: tool.name, server: server.name, agentName, parameters });
-                      }
-                    } else if (!result) {
-                      // No authorize hook — auto-allow
-                      auditLog.log({ decision: 'allow', tool: tool.name, server: server.name, agentName, parameters });
-                    }
-
-                    if (!result) {
-                      this.emitEvent({ type: 'tool_start', agentName, server: server.name, tool: tool.name, timestamp: Date.now() });
-                      const toolStartMs = Date.now();
-                      result = await invokeTool(server, tool.name, parameters);
-                      this.emitEvent({ type: 'tool_complete', agentName, server: server.name, tool: tool.name, durationMs: Date.now() - toolStartMs, success: !result?.error, timestamp: Date.now() });
-                      progressCallback?.({
-                        stage: "tool_invocation",
-                        message: `Received result from ${server.name}.${tool.name}`,
-                        data: result
-                      });
-                    }
-
-                    toolResults[`${server.name}.${tool.name}`] = result;
-                    toolInvocations.push({
-                      server: server.name,
-                      tool: tool.name,
-                      parameters,
-                      result
-                    });
-                  })());
+          if (relevantServers.length > 0) {
+            progressCallback?.({
+              stage: "tool_discovery",
+              message: "Discovering available tools...",
+            });
+            await m('Discover and invoke tools', async () => {
+              const toolInvocationPromises: Promise<void>[] = [];
+
+              await Promise.all(relevantServers.map(async (server) => {
+                const tools = await discoverTools(server, this.mcpOptions);
+                if (tools && tools.length > 0) {
+                  const relevantTools = await this.selectRelevantTools(validatedInput, tools, server, run);
+                  for (const tool of (relevantTools ?? [])) {
+                    toolInvocationPromises.push((async () => {
+                      const parameters = await this.generateToolParameters(validatedInput, tool, run);
+                      await this.invokeToolCall(server, tool, parameters, run);
+                    })());
+                  }
                 }
-              }
-            }));
+              }));
 
-            await Promise.all(toolInvocationPromises);
-          });
-          accumulateUsage();
+              await Promise.all(toolInvocationPromises);
+            });
+          }
         }
 
+        signal.throwIfAborted();
+        if (run.pendingCalls.length > 0) throw new ApprovalRequiredError(this.suspendRun(run));
         progressCallback?.({
           stage: "response_generation",
           message: "Generating final response...",
         });
 
-        const response = await this.generateResponse(validatedInput, toolResults, progressCallback);
-        accumulateUsage();
-
-        const validatedResponse = await m('Validate output', () =>
-          this.config.outputFormat.parse(response || {})
-        );
-
-        return validatedResponse || {};
+        return this.generateValidatedOutput(validatedInput, toolResults, resources, run);
+      }).catch((error: any) => {
+        // Surface typed errors (e.g. BudgetExceededError from a tool step) instead of the measure wrapper
+        throw error?.cause instanceof GxaiError ? error.cause : error;
       });
+      // Steps swallow their own failures (e.g. an aborted LLM call) — a cancelled run never completes
+      signal.throwIfAborted();
 
-      this.lastUsage = usage.totalTokens > 0 ? usage : null;
-      this.lastCost = this.lastUsage ? calculateCost(this.config.llm, this.lastUsage) : null;
+      const totals = this.settleUsage(llm, usage, nested, parent);
+      if (trace) Object.assign(trace, totals);
 
       // Track cumulative context window usage
       if (usage.inputTokens > 0) {
@@ -508,8 +863,9 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
       if (this.config.analyticsUrl) {
         await this.sendAnalytics({
           id: requestId,
-          agentName: this.config.name || 'unnamed-agent',
-          llm: this.config.llm,
+          agentName,
+          llm,
+          tags,
           timestamp: startTime,
           duration: Date.now() - startTime,
           status: 'success',
@@ -522,9 +878,9 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
 
       // Run 'after' middleware
       await this.runMiddleware({
-        phase: 'after', agentName, llm: this.config.llm, input,
-        output: result, usage: this.lastUsage || undefined, cost: this.lastCost || undefined,
-        durationMs: Date.now() - startTime,
+        phase: 'after', agentName, llm, input,
+        output: result, ...totals,
+        durationMs: Date.now() - startTime, tags,
       });
 
       // Record output in conversation memory
@@ -536,28 +892,40 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
       if (session && memory) {
         try {
           session.set('memory', memory.toJSON());
-          session.set('lastUsage', this.lastUsage);
+          session.set('lastUsage', totals.usage ?? null);
           session.set('lastRunAt', Date.now());
           session.save();
         } catch { /* session save failure is non-fatal */ }
       }
 
-      this.emitEvent({ type: 'run_complete', agentName, llm: this.config.llm, requestId, durationMs: Date.now() - startTime, usage: this.lastUsage || undefined, cost: this.lastCost || undefined, timestamp: Date.now() });
+      this.recordCost(settings, requestId, startTime, 'success', totals);
+      emitTerminal({ type: 'run_complete', agentName, llm, requestId, durationMs: Date.now() - startTime, ...totals, parentRequestId, tags, timestamp: Date.now() });
 
       return result;
-    } catch (error: any) {
-      if (error && error.name === 'MockAbortedExecution') {
+    } catch (caught: any) {
+      if (caught && caught.name === 'MockAbortedExecution') {
         // AgentMock requested early exit with static payload
-        return error.mockedOutput;
+        return caught.mockedOutput;
+      }
+      // Whatever an aborted request threw, report the abort reason (CancelledError or TimeoutError)
+      const error = signal.aborted ? signal.reason : caught;
+
+      const totals = this.settleUsage(llm, usage, nested, parent);
+      if (trace) Object.assign(trace, totals);
+
+      // Not a failure: the resumed run reports the outcome, and records the cost of both parts
+      if (error instanceof ApprovalRequiredError) {
+        const { approval } = error;
+        emitTerminal({ type: 'run_suspended', agentName, llm, requestId, approvalId: approval.id, calls: approval.calls.map(c => `${c.server}.${c.tool}`), durationMs: Date.now() - startTime, parentRequestId, tags, timestamp: Date.now() });
+        throw error;
       }
 
-      this.lastUsage = usage.totalTokens > 0 ? usage : null;
-      this.lastCost = this.lastUsage ? calculateCost(this.config.llm, this.lastUsage) : null;
       if (this.config.analyticsUrl) {
         await this.sendAnalytics({
           id: requestId,
-          agentName: this.config.name || 'unnamed-agent',
-          llm: this.config.llm,
+          agentName,
+          llm,
+          tags,
           timestamp: startTime,
           duration: Date.now() - startTime,
           status: 'error',
@@ -571,29 +939,68 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
 
       // Run 'error' middleware
       await this.runMiddleware({
-        phase: 'error', agentName, llm: this.config.llm, input,
+        phase: 'error', agentName, llm, input,
         error: error instanceof Error ? error.message : String(error),
-        usage: this.lastUsage || undefined, cost: this.lastCost || undefined,
-        durationMs: Date.now() - startTime,
+        ...totals,
+        durationMs: Date.now() - startTime, tags,
       });
 
-      this.emitEvent({ type: 'run_error', agentName, llm: this.config.llm, requestId, error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - startTime, timestamp: Date.now() });
+      this.recordCost(settings, requestId, startTime, 'error', totals);
+      emitFailure(error);
 
       throw error;
     }
   }
 
+  /**
+   * The run's totals: its own usage plus what nested agent runs rolled up. Rolls them
+   * up into the parent run, if any, and mirrors them onto lastUsage and lastCost.
+   * Overlapping runs overwrite those fields, so the run reports the returned totals.
+   */
+  private settleUsage(llm: string, usage: TokenUsage, nested: NestedUsage, parent?: NestedUsage): RunTotals {
+    const total = { ...usage };
+    addUsage(total, nested.usage);
+    const totals: RunTotals = {
+      usage: total.totalTokens > 0 ? total : undefined,
+      cost: addCost(usage.totalTokens > 0 ? calculateCost(llm, usage) : null, nested.cost) ?? undefined,
+    };
+    this.lastUsage = totals.usage ?? null;
+    this.lastCost = totals.cost ?? null;
+    if (parent) {
+      addUsage(parent.usage, totals.usage);
+      parent.cost = addCost(parent.cost, totals.cost ?? null);
+    }
+    return totals;
+  }
+
+  /** Add the finished run to `config.costTracker` (runs that used no tokens are skipped) */
+  private recordCost(settings: RunSettings, requestId: string, startTime: number, status: CostRecord['status'], { usage, cost }: RunTotals): void {
+    if (!this.config.costTracker || !usage || !cost) return;
+    this.config.costTracker.record({
+      timestamp: startTime,
+      agentName: this.config.name || 'unnamed-agent',
+      llm: settings.llm,
+      requestId,
+      durationMs: Date.now() - startTime,
+      usage,
+      cost,
+      status,
+      tags: settings.tags,
+    });
+  }
+
   private async sendAnalytics(data: {
     id: string;
     agentName: string;
     llm: string;
+    tags?: string[];
     timestamp: number;
     duration: number;
     status: 'success' | 'error';
     input: any;
     output: any;
     error?: string;
-    toolInvocations?: Array<{ server: string; tool: string; parameters: any; result: any }>;
+    toolInvocations?: ToolInvocation[];
     tokenUsage?: TokenUsage;
   }): Promise<void> {
     if (!this.config.analyticsUrl) return;
@@ -670,11 +1077,12 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     }
   }
 
-  private async resolveMCPInputFields(input: any, progressCallback?: ProgressCallback): Promise<void> {
+  private async resolveMCPInputFields(input: any, run: RunState): Promise<void> {
+    const { progressCallback, signal } = run;
     const shape = this.config.inputFormat.shape;
     for (const [key, schema] of Object.entries(shape)) {
       const desc = (schema as any).description as string | undefined;
-      if (!desc || !desc.startsWith("mcp:")) continue;
+      if (!desc || !desc.startsWith("mcp:") || this.config.inputResolvers?.[key]) continue;
 
       const urlMatch = desc.match(/^mcp:\s*(https?:\/\/[^\s]+)/);
       if (!urlMatch) continue;
@@ -684,6 +1092,7 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
         name: `resolver_${key}`,
         description: `Temporary server for resolving input field ${key}`,
         url: serverUrl,
+        legacyRest: true,
       };
 
       progressCallback?.({
@@ -712,14 +1121,16 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
         response_format: { selected_tool: "string: the name of the selected tool" },
       });
 
-      const response = await callLLM(
-        this.config.llm,
+      const { content: response, span } = await this.callLLMTracked(
+        run,
+        'input_resolution',
         [
           { role: "system", content: systemPrompt },
           { role: "user", content: `<request>${userPrompt}</request>` },
         ],
         {
           temperature: 0.3,
+          signal,
           progress: progressCallback,
           customFetch: (url, options, _m, desc, pcb) => fetchWithPayment(url, options, desc, pcb, this.config.solanaWallet),
         },
@@ -731,6 +1142,7 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
       try {
         const parsed = xmlToObj(response);
         selectedToolName = parsed.selected_tool;
+        if (span) span.parsed = parsed;
       } catch (error) {
         continue;
       }
@@ -740,8 +1152,10 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
       const tool = tools.find((t) => t.name === selectedToolName);
       if (!tool) continue;
 
-      const parameters = await this.generateToolParameters(input, tool);
-      const result = await invokeTool(tempServer, tool.name, parameters);
+      const parameters = await this.generateToolParameters(input, tool, run);
+      const toolSpan = run.trace && beginSpan<ToolSpan>(run.trace, { kind: 'tool', server: tempServer.name, tool: tool.name, parameters });
+      const result = await invokeTool(tempServer, tool.name, parameters, { signal });
+      if (toolSpan) endSpan(toolSpan, { result });
 
       input[key] = result;
 
@@ -752,7 +1166,406 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     }
   }
 
-  private async selectRelevantServers(input: any, activeServers: MCPServer[]): Promise<MCPServer[]> {
+  /** `localTools` as the `__local__` server, or undefined when there are none */
+  private localServer(): MCPServer | undefined {
+    if (!this.config.localTools || this.config.localTools.length === 0) return undefined;
+    return {
+      name: '__local__',
+      description: 'Native application local runtime tools. High priority for internal functionality.',
+      url: 'local://internal',
+      __localTools: this.config.localTools
+    } as MCPServer;
+  }
+
+  /**
+   * Run `inputResolvers` in parallel for the fields the caller left out, and
+   * check each result against its field's schema. Every resolver sees the
+   * caller's input: results are assigned once all have finished.
+   */
+  private async resolveInputFields(input: any, run: RunState): Promise<void> {
+    const pending = Object.entries(this.config.inputResolvers ?? {}).filter(([field]) => input[field] === undefined);
+    if (pending.length === 0) return;
+    const { progressCallback } = run;
+    const fields = pending.map(([field]) => field).join(', ');
+    progressCallback?.({ stage: "input_resolution", message: `Resolving input fields: ${fields}` });
+
+    const shape: Record<string, z.ZodTypeAny> = this.config.inputFormat.shape;
+    const resolved = await Promise.all(pending.map(async ([field, resolver]) => {
+      const value = await this.runInputResolver(field, resolver, input, run);
+      const checked = shape[field]?.safeParse(value);
+      if (checked && !checked.success) {
+        throw new InputResolutionError(field, `result does not match the input schema: ${checked.error.issues.map(i => i.message).join('; ')}`);
+      }
+      return [field, checked ? checked.data : value] as const;
+    }));
+    for (const [field, value] of resolved) input[field] = value;
+    progressCallback?.({ stage: "input_resolution", message: `Resolved input fields: ${fields}` });
+  }
+
+  /**
+   * One field's value, from the cache when possible. Tool results are cached by
+   * target and parameters unless `cache: false`; functions only with
+   * `{ resolve, cache: true }`, keyed by the whole input.
+   */
+  private async runInputResolver(field: string, resolver: InputResolver, input: any, run: RunState): Promise<unknown> {
+    const cached = (enabled: boolean, key: object, compute: () => Promise<unknown>) =>
+      enabled && this.resolverCache ? this.resolverCache.getOrSet(this.resolverCache.hash(JSON.stringify({ field, ...key })), compute) : compute();
+
+    if (typeof resolver === 'function' || 'resolve' in resolver) {
+      const resolve = typeof resolver === 'function' ? resolver : resolver.resolve;
+      // Functions may read the clock or outside state, so they are only cached on request
+      return cached(typeof resolver !== 'function' && resolver.cache === true, { input }, async () => {
+        try {
+          return await resolve(input, this.createToolContext(field, run));
+        } catch (error) {
+          throw new InputResolutionError(field, error instanceof Error ? error.message : String(error));
+        }
+      });
+    }
+
+    const target = resolverTarget(resolver);
+    const server = resolver.server === undefined ? this.localServer()
+      : typeof resolver.server === 'string' ? this.config.servers?.find(s => s.name === resolver.server)
+        : resolver.server;
+    const known = resolver.server !== undefined || this.config.localTools?.some(t => t.name === resolver.tool);
+    if (!server || !known) throw new InputResolutionError(field, `unknown tool ${target}`);
+
+    const parameters = mapParameters(resolver.parameters, input);
+    return cached(resolver.cache !== false, { server: server.name, tool: resolver.tool, parameters }, async () => {
+      const span = run.trace && beginSpan<ToolSpan>(run.trace, { kind: 'tool', server: server.name, tool: resolver.tool, parameters });
+      const result = await invokeTool(server, resolver.tool, parameters, {
+        ...this.mcpOptions,
+        progress: run.progressCallback,
+        context: this.createToolContext(resolver.tool, run),
+        signal: run.signal,
+      });
+      if (span) endSpan(span, { result, ...(result?.error && { error: result.error }) });
+      if (result == null || result.error) throw new InputResolutionError(field, result?.error ?? `${target} returned no result`);
+      return result;
+    });
+  }
+
+  /** Read the resources each server lists in `resources`, for the prompt context */
+  private async readAttachedResources(run: RunState): Promise<AttachedResource[]> {
+    const { progressCallback } = run;
+    const attached = (this.config.servers || []).flatMap(server => (server.resources || []).map(uri => ({ server, uri })));
+    if (attached.length === 0) return [];
+
+    progressCallback?.({
+      stage: "input_resolution",
+      message: `Reading ${attached.length} MCP resource(s)...`,
+      data: { resources: attached.map(a => a.uri) },
+    });
+    return Promise.all(attached.map(async ({ server, uri }) =>
+      ({ uri, text: resourceContentsText(await readResource(server, uri, { ...this.mcpOptions, signal: run.signal })) })
+    ));
+  }
+
+  /**
+   * Authorize, audit and invoke one tool call, recording the result in the run state.
+   * Denied calls are recorded as `{ error }` results instead of throwing. Calls that
+   * need approval are held in `run.pendingCalls` and return APPROVAL_PENDING.
+   */
+  private async invokeToolCall(server: MCPServer, tool: MCPTool, parameters: any, run: RunState, callId?: string): Promise<any> {
+    const { agentName, progressCallback } = run;
+    run.signal.throwIfAborted();
+    const context = this.createToolContext(tool.name, run);
+    const span = run.trace && beginSpan<ToolSpan>(run.trace, { kind: 'tool', server: server.name, tool: tool.name, parameters });
+
+    // 0. Parameters must match the tool's inputSchema before anything is sent
+    const checked = await this.validateToolParameters(server, tool, parameters, run);
+    parameters = checked.parameters;
+    let result: any = checked.issues && { error: `Invalid parameters for ${tool.name}: ${checked.issues.join('; ')}` };
+
+    progressCallback?.({
+      stage: "tool_invocation",
+      message: `Invoking ${server.name}.${tool.name} with params...`,
+      data: parameters
+    });
+
+    // 1. Check global ToolAuth definitions
+    if (!result && this.config.toolAuth) {
+      const decision = this.config.toolAuth.isAllowed(tool.name, server.name);
+      if (!decision.allowed) {
+        result = { error: `Tool execution denied: ${decision.reason}` };
+        auditLog.log({ decision: 'deny', tool: tool.name, server: server.name, agentName, reason: decision.reason, parameters });
+        progressCallback?.({ stage: "tool_invocation", message: `Tool ${server.name}.${tool.name} globally rejected: ${decision.reason}`, data: result });
+      }
+    }
+
+    // 2. Check local component authorize hook if global auth allowed it
+    if (!result && tool.authorize) {
+      const authorized = await tool.authorize(parameters, context);
+      if (authorized !== true) {
+        const errorMsg = typeof authorized === "string" ? authorized : "Unauthorized by host application";
+        result = { error: errorMsg };
+        auditLog.log({ decision: 'deny', tool: tool.name, server: server.name, agentName, reason: errorMsg, parameters });
+        progressCallback?.({
+          stage: "tool_invocation",
+          message: `Tool ${server.name}.${tool.name} rejected: ${errorMsg}`,
+          data: result
+        });
+      }
+    }
+
+    // 3. Hold calls that need human approval; the reviewer's decision is audit-logged on resume
+    const call = { server: server.name, tool: tool.name, parameters };
+    if (!result && await requiresApproval(this.config.requireApproval, call, context)) {
+      // XML-path calls have no id: `server.tool`, then `server.tool#2`, ... for repeated calls in the run
+      let id = callId ?? `${server.name}.${tool.name}`;
+      for (let n = 2; !callId && run.pendingCalls.some(held => held.id === id); n++) id = `${server.name}.${tool.name}#${n}`;
+      run.pendingCalls.push({ id, ...call });
+      progressCallback?.({ stage: "tool_invocation", message: `Tool ${server.name}.${tool.name} held for approval`, data: parameters });
+      if (span) endSpan(span, { parameters });
+      return APPROVAL_PENDING;
+    }
+
+    if (!result) {
+      // Only calls that actually run are logged as allowed; held calls are logged on resume
+      auditLog.log({ decision: 'allow', tool: tool.name, server: server.name, agentName, parameters });
+      result = await this.executeTool(server, tool, parameters, run, context);
+    }
+    return this.recordToolResult(server, tool, parameters, result, run, checked.issues, span);
+  }
+
+  /** Invoke an authorized tool call, with tool_start/tool_complete events */
+  private async executeTool(server: MCPServer, tool: MCPTool, parameters: any, run: RunState, context: ToolContext<D>): Promise<any> {
+    const { agentName, progressCallback } = run;
+    this.emitEvent({ type: 'tool_start', agentName, server: server.name, tool: tool.name, timestamp: Date.now() });
+    const toolStartMs = Date.now();
+    const result = await invokeTool(server, tool.name, parameters, { ...this.mcpOptions, progress: progressCallback, context, signal: run.signal });
+    this.emitEvent({ type: 'tool_complete', agentName, server: server.name, tool: tool.name, durationMs: Date.now() - toolStartMs, success: !result?.error, timestamp: Date.now() });
+    progressCallback?.({
+      stage: "tool_invocation",
+      message: `Received result from ${server.name}.${tool.name}`,
+      data: result
+    });
+    return result;
+  }
+
+  /** Record a tool call's result in the run state and its trace span */
+  private recordToolResult(server: MCPServer, tool: MCPTool, parameters: any, result: any, run: RunState, issues?: string[], span?: ToolSpan): any {
+    // Repeated calls (e.g. across steps) keep every result: `server.tool`, `server.tool#2`, ...
+    const baseKey = `${server.name}.${tool.name}`;
+    let key = baseKey;
+    for (let n = 2; key in run.toolResults; n++) key = `${baseKey}#${n}`;
+    run.toolResults[key] = result;
+    run.toolInvocations.push({
+      server: server.name,
+      tool: tool.name,
+      parameters,
+      result,
+      ...(issues && { validationIssues: issues }),
+    });
+    if (span) endSpan(span, { parameters, result, ...(issues && { validationIssues: issues }), ...(result?.error && { error: result.error }) });
+    return result;
+  }
+
+  /**
+   * Carry out a reviewer's decision on a held call: run it as requested or with
+   * edited parameters (which must match the inputSchema), or record the rejection.
+   */
+  private async applyApprovalDecision(server: MCPServer, tool: MCPTool, call: PendingToolCall, decision: ApprovalDecision, run: RunState): Promise<any> {
+    const { agentName } = run;
+    const { reviewer } = decision;
+    const audit = { tool: tool.name, server: server.name, agentName, ...(reviewer !== undefined && { reviewer }) };
+    let parameters = call.parameters;
+    const span = run.trace && beginSpan<ToolSpan>(run.trace, { kind: 'tool', server: server.name, tool: tool.name, parameters });
+
+    if (decision.action === 'reject') {
+      const reason = decision.reason || 'Rejected by reviewer';
+      auditLog.log({ ...audit, decision: 'deny', approval: 'rejected', reason, parameters });
+      return this.recordToolResult(server, tool, parameters, { error: `Tool call rejected: ${reason}` }, run, undefined, span);
+    }
+
+    if (decision.action === 'edit') {
+      const checked = validateToolParams(decision.parameters, tool.inputSchema);
+      parameters = checked.params;
+      if (!checked.valid) {
+        const reason = `Invalid parameters: ${checked.issues.join('; ')}`;
+        auditLog.log({ ...audit, decision: 'deny', approval: 'edited', reason, parameters: decision.parameters });
+        return this.recordToolResult(server, tool, decision.parameters, { error: `Invalid parameters for ${tool.name}: ${checked.issues.join('; ')}` }, run, checked.issues, span);
+      }
+    }
+
+    auditLog.log({ ...audit, decision: 'allow', approval: decision.action === 'edit' ? 'edited' : 'approved', parameters });
+    const result = await this.executeTool(server, tool, parameters, run, this.createToolContext(tool.name, run));
+    return this.recordToolResult(server, tool, parameters, result, run, undefined, span);
+  }
+
+  /**
+   * Apply the reviewer's decisions to the calls a suspended run held, then
+   * continue its native tool-calling conversation if steps remain.
+   */
+  private async resumeToolCalls(resume: ResumeRequest, servers: MCPServer[], run: RunState): Promise<void> {
+    const { state, decisions } = resume;
+    const results = await Promise.all(state.calls.map(async (call) => {
+      const server = servers.find(s => s.name === call.server);
+      const tool = server && (await discoverTools(server, this.mcpOptions))?.find(t => t.name === call.tool);
+      if (!server || !tool) return { error: `Unknown tool: ${call.server}.${call.tool}` };
+      return this.applyApprovalDecision(server, tool, call, decisions[call.id]!, run);
+    }));
+    if (!state.native) return;
+
+    const messages = [...state.native.messages];
+    const requested = messages.findLast(message => message.toolCalls)?.toolCalls ?? [];
+    state.calls.forEach((call, i) => {
+      const name = requested.find(c => c.id === call.id)?.name ?? call.tool;
+      messages.push({ role: "tool", toolCallId: call.id, name, content: JSON.stringify(results[i] ?? null) });
+    });
+    await this.runNativeTools(run.input, servers, run, { messages, step: state.native.step });
+  }
+
+  /** ToolContext for one call (or input resolver): run identity, signal, progress, scoped logger and deps */
+  private createToolContext(toolName: string, run: RunState): ToolContext<D> {
+    const { agentName, requestId, progressCallback } = run;
+    const context = createToolContext<D>({
+      agentName,
+      requestId,
+      tool: toolName,
+      signal: run.signal,
+      progress: (message, data) => progressCallback?.({ stage: "tool_invocation", message: `${toolName}: ${message}`, data }),
+      ...(this.config.logger && { logger: this.config.logger.child({ agentName, tool: toolName }, requestId) }),
+      ...(this.config.deps !== undefined && { deps: this.config.deps }),
+    });
+    parentRuns.set(context, run);
+    return context;
+  }
+
+  /**
+   * Check parameters against the tool's inputSchema, applying safe coercions.
+   * Invalid parameters are regenerated once with the issues; every failed check
+   * is audit-logged, and `issues` is set when the regenerated ones fail too.
+   */
+  private async validateToolParameters(
+    server: MCPServer,
+    tool: MCPTool,
+    parameters: any,
+    run: RunState
+  ): Promise<{ parameters: any; issues?: string[] }> {
+    const { agentName, progressCallback } = run;
+    const first = validateToolParams(parameters, tool.inputSchema);
+    if (first.valid) return { parameters: first.params };
+
+    auditLog.log({ decision: 'deny', tool: tool.name, server: server.name, agentName, reason: `Invalid parameters: ${first.issues.join('; ')}`, parameters });
+    progressCallback?.({
+      stage: "tool_invocation",
+      message: `Regenerating invalid parameters for ${server.name}.${tool.name}`,
+      data: { issues: first.issues }
+    });
+
+    const regenerated = await this.generateToolParameters(run.input, tool, run, { previous: parameters, issues: first.issues });
+    const second = validateToolParams(regenerated, tool.inputSchema);
+    if (second.valid) return { parameters: second.params };
+
+    auditLog.log({ decision: 'deny', tool: tool.name, server: server.name, agentName, reason: `Invalid parameters: ${second.issues.join('; ')}`, parameters: regenerated });
+    return { parameters: regenerated, issues: second.issues };
+  }
+
+  /**
+   * Discover tools on every server and let the model pick tools and parameters
+   * with native function calling, invoking each step's calls in parallel.
+   * With `maxSteps > 1` the model sees the results and may call further tools,
+   * until it answers without a tool call or the step limit is reached.
+   * `resume` continues a conversation suspended for approval after its step.
+   */
+  private async runNativeTools(input: any, servers: MCPServer[], run: RunState, resume?: NativeToolState): Promise<void> {
+    const { agentName, requestId } = run;
+    const maxSteps = Math.max(1, this.config.maxSteps ?? 1);
+    if (resume) {
+      if (resume.step >= maxSteps) return;
+      this.checkRunLimits(run);
+    }
+    const discovered = await Promise.all(servers.map(async (server) => ({ server, tools: (await discoverTools(server, this.mcpOptions)) ?? [] })));
+
+    // Tool names are only namespaced by server when they collide; providers allow [a-zA-Z0-9_-]{1,64}
+    const nameCounts = new Map<string, number>();
+    for (const { tools } of discovered) {
+      for (const tool of tools) nameCounts.set(tool.name, (nameCounts.get(tool.name) || 0) + 1);
+    }
+    const byName = new Map<string, { server: MCPServer; tool: MCPTool }>();
+    for (const { server, tools } of discovered) {
+      for (const tool of tools) {
+        const raw = nameCounts.get(tool.name)! > 1 ? `${server.name}__${tool.name}` : tool.name;
+        byName.set(raw.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64), { server, tool });
+      }
+    }
+    if (byName.size === 0) return;
+    if (this.toolRetriever) {
+      const kept = new Set(await this.preselectTools(input, [...byName.values()].map(e => e.tool), run.progressCallback));
+      for (const [name, { tool }] of byName) if (!kept.has(tool)) byName.delete(name);
+    }
+
+    const systemPrompt = maxSteps > 1
+      ? `You are gathering the information needed to fulfill a user request by calling tools.
+        Call the tools whose results are needed, with arguments matching their input schemas. You will see each result and may call further tools that depend on earlier results.
+        When you have everything needed, reply briefly without calling any tool.`
+      : `You are deciding which tools to call to gather the information needed to fulfill a user request.
+        Call every tool whose result is needed, with arguments matching its input schema. Do not call tools that are not needed.`;
+    const messages: LLMMessage[] = resume?.messages ?? [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: `<request>${objToXml({ input })}</request>` },
+    ];
+    const tools = [...byName].map(([name, { tool }]) => toolFromMCP(tool, name));
+
+    for (let step = (resume?.step ?? 0) + 1; step <= maxSteps; step++) {
+      const stepStart = Date.now();
+      this.emitEvent({ type: 'step_start', agentName, requestId, step, timestamp: stepStart });
+
+      const span = run.trace && beginSpan<LLMSpan>(run.trace, { kind: 'llm', purpose: 'tool_calling', llm: run.llm, messages: [...messages], temperature: 0.3 });
+      const result = await callLLMWithTools(run.llm, messages, {
+        tools,
+        toolChoice: 'auto',
+        temperature: 0.3,
+        signal: run.signal,
+        customFetch: (url, options, _m, desc, pcb) => fetchWithPayment(url, options, desc, pcb, this.config.solanaWallet),
+      }).catch((error) => {
+        if (span) endSpan(span, { error });
+        throw error;
+      });
+      addUsage(run.usage, result.usage);
+      if (span) endSpan(span, llmSpanOutcome(result));
+
+      const calls = result.toolCalls ?? [];
+      if (calls.length > 0) {
+        messages.push({ role: "assistant", content: result.content, toolCalls: calls });
+        const results = await Promise.all(calls.map((call) => {
+          const target = byName.get(call.name);
+          return target
+            ? this.invokeToolCall(target.server, target.tool, call.arguments, run, call.id)
+            : Promise.resolve({ error: `Unknown tool: ${call.name}` });
+        }));
+        calls.forEach((call, i) => {
+          // Held calls get their tool message when the run resumes
+          if (results[i] === APPROVAL_PENDING) return;
+          messages.push({ role: "tool", toolCallId: call.id, name: call.name, content: JSON.stringify(results[i] ?? null) });
+        });
+        if (run.pendingCalls.length > 0) run.nativeState = { messages, step };
+      }
+
+      this.emitEvent({ type: 'step_complete', agentName, requestId, step, toolCalls: calls.map(c => c.name), durationMs: Date.now() - stepStart, usage: result.usage, timestamp: Date.now() });
+      if (calls.length === 0 || step === maxSteps || run.nativeState) break;
+      this.checkRunLimits(run);
+    }
+  }
+
+  /** Enforce maxCostUSD (on actual usage so far) and maxDurationMs between tool steps */
+  private checkRunLimits(run: RunState): void {
+    if (run.maxCostUSD !== undefined && run.usage.totalTokens + run.nested.usage.totalTokens > 0) {
+      const spent = calculateCost(run.llm, run.usage).totalCost + (run.nested.cost?.totalCost ?? 0);
+      if (spent > run.maxCostUSD) {
+        throw new BudgetExceededError(spent, run.maxCostUSD, run.llm);
+      }
+    }
+    if (this.config.maxDurationMs !== undefined) {
+      const elapsed = Date.now() - run.startTime;
+      if (elapsed > this.config.maxDurationMs) {
+        throw new TimeoutError(elapsed, this.config.maxDurationMs);
+      }
+    }
+  }
+
+  private async selectRelevantServers(input: any, activeServers: MCPServer[], run: RunState): Promise<MCPServer[]> {
     if (!activeServers || activeServers.length === 0) return [];
 
     return await measure('Select relevant servers', async () => {
@@ -765,11 +1578,13 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
         response_format: { relevant_servers: { server_names: "array of server names" } },
       });
 
-      const response = await callLLM(
-        this.config.llm,
+      const { content: response, span } = await this.callLLMTracked(
+        run,
+        'server_selection',
         [{ role: "system", content: systemPrompt }, { role: "user", content: `<request>${userPrompt}</request>` }],
         {
           temperature: 0.3,
+          signal: run.signal,
           customFetch: (url, options, _m, desc) => fetchWithPayment(url, options, desc),
         },
       );
@@ -778,6 +1593,7 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
 
       try {
         const parsed = xmlToObj(response);
+        if (span) span.parsed = parsed;
         const serverNames = parsed.relevant_servers?.server_names || [];
         return activeServers.filter(server =>
           Array.isArray(serverNames) ? serverNames.includes(server.name) : serverNames === server.name
@@ -788,8 +1604,23 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     }) ?? [];
   }
 
-  private async selectRelevantTools(input: any, tools: MCPTool[], server: MCPServer): Promise<MCPTool[]> {
+  /** Narrow a tool list to the top-k by embedding similarity to the input (when toolRetrieval is set) */
+  private async preselectTools(input: any, tools: MCPTool[], progressCallback?: ProgressCallback): Promise<MCPTool[]> {
+    if (!this.toolRetriever) return tools;
+    const selected = await this.toolRetriever.select(JSON.stringify(input), tools);
+    if (selected.length < tools.length) {
+      progressCallback?.({
+        stage: "tool_discovery",
+        message: `Pre-selected ${selected.length} of ${tools.length} tools by embedding similarity`,
+        data: { tools: selected.map(t => t.name) },
+      });
+    }
+    return selected;
+  }
+
+  private async selectRelevantTools(input: any, tools: MCPTool[], server: MCPServer, run: RunState): Promise<MCPTool[]> {
     if (tools.length === 0) return [];
+    tools = await this.preselectTools(input, tools, run.progressCallback);
 
     return await measure(`Select tools from ${server.name}`, async () => {
       const systemPrompt = `You are selecting which tools from a server should be used to fulfill a user request.
@@ -802,20 +1633,22 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
         response_format: { selected_tools: { tool_names: "array of tool names" } },
       });
 
-      const response = await callLLM(
-        this.config.llm,
+      const { content: response, span } = await this.callLLMTracked(
+        run,
+        'tool_selection',
         [{ role: "system", content: systemPrompt }, { role: "user", content: `<request>${userPrompt}</request>` }],
-        { temperature: 0.3 },
-        null,
-        undefined,
-        undefined,
-        (url, options, _m, desc) => fetchWithPayment(url, options, desc)
+        {
+          temperature: 0.3,
+          signal: run.signal,
+          customFetch: (url, options, _m, desc) => fetchWithPayment(url, options, desc),
+        },
       );
 
       if (!response) return tools.slice(0, 1);
 
       try {
         const parsed = xmlToObj(response);
+        if (span) span.parsed = parsed;
         const toolNames = parsed.selected_tools?.tool_names || [];
         return tools.filter(tool =>
           Array.isArray(toolNames) ? toolNames.includes(tool.name) : toolNames === tool.name
@@ -826,22 +1659,32 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     }) ?? [];
   }
 
-  private async generateToolParameters(input: any, tool: MCPTool): Promise<any> {
+  private async generateToolParameters(
+    input: any,
+    tool: MCPTool,
+    run: RunState,
+    repair?: { previous: any; issues: string[] }
+  ): Promise<any> {
     return await measure(`Generate params for ${tool.name}`, async () => {
       const systemPrompt = `You are generating parameters for a tool invocation based on user input and tool specification.
         Generate appropriate parameters that match the tool's input schema.`;
       const userPrompt = objToXml({
         input,
         tool: { name: tool.name, description: tool.description, input_schema: tool.inputSchema },
-        task: "Generate parameters for this tool",
+        ...(repair && { previous_parameters: JSON.stringify(repair.previous), issues: repair.issues }),
+        task: repair
+          ? "The previous parameters do not match the input schema. Generate corrected parameters that fix every issue"
+          : "Generate parameters for this tool",
         response_format: { parameters: "object containing the tool parameters" },
       });
 
-      const response = await callLLM(
-        this.config.llm,
+      const { content: response, span } = await this.callLLMTracked(
+        run,
+        'tool_parameters',
         [{ role: "system", content: systemPrompt }, { role: "user", content: `<request>${userPrompt}</request>` }],
         {
           temperature: 0.3,
+          signal: run.signal,
           customFetch: (url, options, _m, desc) => fetchWithPayment(url, options, desc),
         },
       );
@@ -850,6 +1693,7 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
 
       try {
         const parsed = xmlToObj(response);
+        if (span) span.parsed = parsed;
         return parsed.parameters || {};
       } catch (error) {
         return {};
@@ -857,30 +1701,92 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     }) ?? {};
   }
 
-  private async generateResponse(
+  /**
+   * Generate the final output, run outputValidators and parse it with outputFormat.
+   * On failure the invalid output and its issues are sent back for up to
+   * `maxRepairAttempts` corrections, each reported as a `repair_attempt` RunEvent;
+   * a ValidationError is thrown if the last correction is still invalid.
+   */
+  private async generateValidatedOutput(
     input: any,
     toolResults: Record<string, any>,
-    progressCallback?: ProgressCallback
+    resources: AttachedResource[],
+    run: RunState
   ): Promise<any> {
+    const maxRepairAttempts = this.config.maxRepairAttempts ?? 0;
+    let repair: OutputRepair | undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      const attemptUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+      const attemptStart = Date.now();
+      const { raw, output } = await this.generateResponse(input, toolResults, resources, attemptUsage, run, repair);
+      addUsage(run.usage, attemptUsage);
+
+      const failure = await this.checkOutput(raw, output, input);
+
+      if (repair) {
+        this.emitEvent({
+          type: 'repair_attempt', agentName: run.agentName, llm: run.llm, requestId: run.requestId,
+          attempt, issues: repair.issues, success: !failure.error, durationMs: Date.now() - attemptStart,
+          usage: attemptUsage, cost: calculateCost(run.llm, attemptUsage), timestamp: Date.now(),
+        });
+      }
+
+      if (!failure.error) return failure.data;
+      if (attempt >= maxRepairAttempts) {
+        // Without repair, schema mismatches keep the lenient default: logged, and the run returns {}
+        if (maxRepairAttempts === 0 && failure.error instanceof ValidationError) {
+          return (await measure('Validate output', () => this.config.outputFormat.parse(output || {}))) || {};
+        }
+        throw failure.error;
+      }
+      repair = { previousOutput: raw, issues: failure.issues };
+    }
+  }
+
+  /** Run outputValidators on the raw response, then parse with outputFormat */
+  private async checkOutput(raw: string, output: any, input: any): Promise<{ data?: any; error?: Error; issues: string[] }> {
+    if (raw && this.config.outputValidators?.length) {
+      try {
+        for (const validator of this.config.outputValidators) {
+          await validator(raw, input);
+        }
+      } catch (error: any) {
+        return { error, issues: [`outputValidator: ${error?.message ?? String(error)}`] };
+      }
+    }
+
+    const parsed = this.config.outputFormat.safeParse(output || {});
+    if (parsed.success) return { data: parsed.data, issues: [] };
+
+    const issues = parsed.error.issues.map(i => `${i.path.length ? i.path.join('.') : '(root)'}: ${i.message}`);
+    return {
+      error: new ValidationError(`Output does not match outputFormat:\n${issues.join('\n')}`, parsed.error.issues),
+      issues,
+    };
+  }
+
+  private async generateResponse(
+    input: any,
+    toolResults: Record<string, any>,
+    resources: AttachedResource[],
+    usage: TokenUsage,
+    run: RunState,
+    repair?: OutputRepair
+  ): Promise<{ raw: string; output: any }> {
+    const { progressCallback } = run;
     const streamingCallback: StreamingCallback | undefined = progressCallback ?
       (update: StreamingUpdate) => progressCallback(update as unknown as ProgressUpdate) :
       undefined;
 
-    const isOpenAIFamily = this.config.llm.startsWith('gpt') || this.config.llm.startsWith('o4-');
-    const isGeminiFamily = this.config.llm.startsWith('gemini');
-    const isClaudeFamily = this.config.llm.includes('claude');
-    const supportsJsonSchema = isOpenAIFamily || isGeminiFamily || isClaudeFamily;
+    const supportsJsonSchema = resolveProvider(run.llm).capabilities(run.llm).structuredOutput;
 
     const responseFormat = supportsJsonSchema ? {
       type: "json_schema",
-      json_schema: {
-        name: "gxai_output",
-        strict: true,
-        schema: Object.assign((await import("zod-to-json-schema")).zodToJsonSchema(this.config.outputFormat), { additionalProperties: false })
-      }
+      json_schema: { name: "gxai_output", ...outputJsonSchema(this.config.outputFormat) }
     } : undefined;
 
-    let systemPrompt = this.config.systemPrompt || "";
+    let systemPrompt = run.systemPrompt || "";
     // Inject conversation history from memory
     const memory = this.config.memory as ConversationMemory | undefined;
     const memoryCtx = (memory && memory.turnCount > 1) ? memory.getContextString() : "";
@@ -888,15 +1794,18 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     const obj: any = { input };
 
     if (!supportsJsonSchema) {
-      obj.output_format = this.getOutputFormatDescription();
+      obj.output_format = describeOutputFormat(this.config.outputFormat);
       obj.task = this.generateTaskDescription();
     }
 
     const hasToolResults = toolResults && Object.keys(toolResults).length > 0 &&
       Object.values(toolResults).some(result =>
         result !== null && result !== undefined && result !== '' && JSON.stringify(result) !== '{}');
-    if (hasToolResults) {
-      obj.context = { tool_results: toolResults };
+    if (hasToolResults || resources.length > 0) {
+      obj.context = {
+        ...(hasToolResults && { tool_results: toolResults }),
+        ...(resources.length > 0 && { resources }),
+      };
     }
     const userPrompt = objToXml(obj);
     const messages: Array<{ role: string; content: string; cacheControl?: boolean }> = [];
@@ -924,135 +1833,109 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
     }
     messages.push({ role: "user", content: `<request>\n${userPrompt}\n</request>` });
 
-    const response = await measure(`LLM ${this.config.llm}`, () =>
-      callLLM(
-        this.config.llm,
+    if (repair) {
+      messages.push({ role: "assistant", content: repair.previousOutput });
+      messages.push({
+        role: "user",
+        content: objToXml({
+          repair: {
+            issues: repair.issues,
+            task: "Your previous response failed validation. Respond again with the complete corrected output, fixing every listed issue.",
+          },
+        }),
+      });
+    }
+
+    const call = await measure(`LLM ${run.llm}`, () =>
+      this.callLLMTracked(
+        run,
+        repair ? 'repair' : 'response',
         messages,
         {
-          temperature: this.config.temperature || 0.7,
-          maxTokens: this.config.maxTokens || 4000,
+          temperature: run.temperature ?? 0.7,
+          maxTokens: run.maxTokens,
           response_format: responseFormat,
+          signal: run.signal,
           streaming: streamingCallback,
+          onText: progressCallback && this.partialOutputReporter(supportsJsonSchema, progressCallback),
           progress: progressCallback,
           customFetch: (url, options, _m, desc, pcb) => fetchWithPayment(url, options, desc, pcb, this.config.solanaWallet),
         },
+        usage,
       )
     );
 
-    if (!response) return {};
-
-    // Run output validators before parsing
-    if (this.config.outputValidators?.length) {
-      for (const validator of this.config.outputValidators) {
-        await validator(response, input);
-      }
-    }
-
-    if (supportsJsonSchema && !streamingCallback) {
-      try {
-        return JSON.parse(response);
-      } catch (e) {
-        return {};
-      }
-    }
-
-    const parsed = xmlToObj(response);
-    if (!parsed) return {};
-
-    const rootKey = Object.keys(parsed)[0];
-    const sourceObject = (rootKey && typeof parsed[rootKey] === 'object' && Object.keys(parsed).length === 1) ? parsed[rootKey] : parsed;
-
-    const shape = this.config.outputFormat.shape;
-    const result: any = {};
-
-    for (const [key, schema] of Object.entries(shape)) {
-      if (sourceObject[key] !== undefined) {
-        let value = sourceObject[key];
-        const typeName = this.getSchemaTypeName(schema as z.ZodType<any>);
-
-        if (typeName === 'ZodString' && typeof value === 'object' && value !== null) {
-          const fieldRegex = new RegExp(`<${key}>([\\s\\S]*?)</${key}>`, 's');
-          const match = response.match(fieldRegex);
-          if (match && typeof match[1] === 'string') {
-            value = match[1];
-          }
-        }
-        result[key] = value;
-      }
-    }
-    return result;
+    if (!call?.content) return { raw: '', output: {} };
+    const output = this.parseOutput(call.content, supportsJsonSchema, !!streamingCallback);
+    if (call.span) call.span.parsed = output;
+    return { raw: call.content, output };
   }
 
-  private validateNoArrays(schema: z.ZodObject<any>, path: string = ''): void {
-    const shape = schema.shape;
-    for (const [key, fieldSchema] of Object.entries(shape)) {
-      const currentPath = path ? `${path}.${key}` : key;
-
-      let currentSchema = fieldSchema as any;
-      while (currentSchema._def.typeName === 'ZodOptional' || currentSchema._def.typeName === 'ZodNullable') {
-        currentSchema = currentSchema.unwrap();
-      }
-
-      if (currentSchema._def.typeName === 'ZodArray') {
-        throw new Error(`Arrays are not supported in output schema. Found array at path: ${currentPath}. Use individual fields like ${key}_1, ${key}_2 instead.`);
-      }
-
-      if (currentSchema._def.typeName === 'ZodObject') {
-        this.validateNoArrays(currentSchema, currentPath);
-      }
-    }
+  /** Text-delta handler that reports every changed snapshot of the output so far as `partial_output` progress */
+  private partialOutputReporter(supportsJsonSchema: boolean, progressCallback: ProgressCallback): (text: string) => void {
+    let text = '';
+    let last = '{}';
+    return (delta) => {
+      text += delta;
+      const snapshot = this.parsePartialOutput(text, supportsJsonSchema);
+      const serialized = JSON.stringify(snapshot ?? {});
+      if (serialized === last) return;
+      last = serialized;
+      progressCallback({ stage: 'partial_output', message: 'Partial output', data: snapshot });
+    };
   }
 
-  private getSchemaTypeName(schema: z.ZodType<any>): string {
-    const def = schema._def as any;
-    if (def.typeName === "ZodOptional" || def.typeName === "ZodNullable") {
-      return this.getSchemaTypeName((schema as any).unwrap());
+  /** Parse a response that is still being generated; fields not started yet are missing */
+  private parsePartialOutput(text: string, supportsJsonSchema: boolean): any {
+    try {
+      const fields = supportsJsonSchema && !text.trimStart().startsWith('<')
+        ? parsePartialJSON(text)
+        : this.xmlOutputFields(closePartialXML(text));
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) return undefined;
+      return pickPresent(coerceToSchema(fields, this.config.outputFormat), fields);
+    } catch {
+      return undefined;
     }
-    return def.typeName;
   }
 
-  private getOutputFormatDescription(): any {
-    const shape = this.config.outputFormat.shape;
-    const description: any = {};
-
-    for (const [key, schema] of Object.entries(shape)) {
-      let currentSchema = schema as any;
-      while (currentSchema._def.typeName === 'ZodOptional' || currentSchema._def.typeName === 'ZodNullable') {
-        currentSchema = currentSchema.unwrap();
-      }
-
-      if (currentSchema._def.typeName === 'ZodObject') {
-        description[key] = this.getNestedDescription(currentSchema);
-      } else {
-        description[key] = '';
+  /** Parse a raw final response — JSON for structured-output providers, XML otherwise */
+  private parseOutput(response: string, supportsJsonSchema: boolean, streamed: boolean): any {
+    if (supportsJsonSchema) {
+      try {
+        return coerceToSchema(JSON.parse(response), this.config.outputFormat);
+      } catch (e) {
+        // Streamed or non-conforming responses fall through to the XML parser
+        if (!streamed) return {};
       }
     }
 
-    return description;
+    const fields = this.xmlOutputFields(response);
+    return fields ? coerceToSchema(fields, this.config.outputFormat) : {};
   }
 
-  private getNestedDescription(schema: z.ZodObject<any>): any {
-    const shape = schema.shape;
-    const description: any = {};
+  /** Output fields read from an XML response, before coercion */
+  private xmlOutputFields(response: string): Record<string, any> | undefined {
+    const parsed = xmlToObj(response);
+    if (!parsed || typeof parsed !== 'object') return undefined;
 
-    for (const [key, fieldSchema] of Object.entries(shape)) {
-      let currentSchema = fieldSchema as any;
-      while (currentSchema._def.typeName === 'ZodOptional' || currentSchema._def.typeName === 'ZodNullable') {
-        currentSchema = currentSchema.unwrap();
-      }
+    const rootKey = Object.keys(parsed)[0];
+    const sourceObject = (rootKey && typeof parsed[rootKey] === 'object' && !Array.isArray(parsed[rootKey]) && Object.keys(parsed).length === 1 && !(rootKey in this.config.outputFormat.shape)) ? parsed[rootKey] : parsed;
 
-      if (currentSchema._def.typeName === 'ZodObject') {
-        description[key] = this.getNestedDescription(currentSchema);
-      } else {
-        description[key] = '';
+    const result: any = {};
+    for (const [key, schema] of Object.entries(this.config.outputFormat.shape)) {
+      let value = sourceObject[key];
+      // A string field whose text contains tags is parsed as an object — keep the raw text instead
+      if (getSchemaTypeName(schema as z.ZodType<any>) === 'ZodString' && typeof value === 'object' && value !== null) {
+        const match = response.match(new RegExp(`<${key}>([\\s\\S]*?)</${key}>`, 's'));
+        if (match && typeof match[1] === 'string') value = match[1];
       }
+      result[key] = value;
     }
-
-    return description;
+    return result;
   }
 
   private generateTaskDescription(): string {
-    const fieldDescriptions = this.getFieldDescriptions(this.config.outputFormat);
+    const fieldDescriptions = describeOutputFields(this.config.outputFormat);
     let task = "Generate a response matching the output format exactly, using XML tags for each field";
 
     if (fieldDescriptions.length > 0) {
@@ -1061,70 +1944,18 @@ export class Agent<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
 
     return task;
   }
-
-  private getFieldDescriptions(schema: z.ZodObject<any>, path: string = ''): string[] {
-    const shape = schema.shape;
-    const descriptions: string[] = [];
-
-    for (const [key, fieldSchema] of Object.entries(shape)) {
-      const currentPath = path ? `${path}_${key}` : key;
-
-      let currentSchema = fieldSchema as any;
-      let description = (fieldSchema as any).description || '';
-
-      while (currentSchema._def.typeName === 'ZodOptional' || currentSchema._def.typeName === 'ZodNullable') {
-        currentSchema = currentSchema.unwrap();
-        if (!description) {
-          description = currentSchema.description || '';
-        }
-      }
-
-      let constraint: string | null = null;
-      if (currentSchema._def.typeName === 'ZodBoolean') {
-        constraint = 'either "true" or "false"';
-      } else if (currentSchema._def.typeName === 'ZodEnum') {
-        const allowedValues = currentSchema._def.values;
-        constraint = `exactly one of these values: ${allowedValues.map((v: string) => `"${v}"`).join(', ')}`;
-      }
-
-      if (constraint) {
-        if (description) {
-          description += `. Must be ${constraint}`;
-        } else {
-          description = `Must be ${constraint}`;
-        }
-      }
-
-      if (description) {
-        descriptions.push(`- ${currentPath} SHOULD be ${description}`);
-      }
-
-      if (currentSchema._def.typeName === 'ZodObject') {
-        descriptions.push(...this.getFieldDescriptions(currentSchema, currentPath));
-      }
-    }
-
-    return descriptions;
-  }
 }
 
 if (import.meta.env.NODE_ENV === "test") {
   const { test, expect } = await import('bun:test');
 
-  test('Agent constructor validates no arrays in output schema', () => {
-    const validConfig = {
-      llm: 'gpt-4o-mini' as const,
-      inputFormat: z.object({}),
-      outputFormat: z.object({ field: z.string() }),
-    };
-    expect(() => new Agent(validConfig)).not.toThrow();
-
-    const invalidConfig = {
+  test('Agent constructor accepts arrays in output schema', () => {
+    const config = {
       llm: 'gpt-4o-mini' as const,
       inputFormat: z.object({}),
       outputFormat: z.object({ field: z.array(z.string()) }),
     };
-    expect(() => new Agent(invalidConfig)).toThrow('Arrays are not supported');
+    expect(() => new Agent(config)).not.toThrow();
   });
 
   test('Agent run validates input', async () => {
@@ -1137,4 +1968,149 @@ if (import.meta.env.NODE_ENV === "test") {
     // Should throw on invalid input
     await expect(agent.run({ invalid: true } as any)).rejects.toThrow();
   });
+
+  test('Agent run selects local tools with native tool calling', async () => {
+    const requests: any[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      const body = JSON.parse(opts.body);
+      requests.push(body);
+      if (body.tools) {
+        return new Response(JSON.stringify({
+          choices: [{ message: { content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup_price', arguments: '{"symbol":"ACME"}' } }] } }],
+        }));
+      }
+      return new Response(JSON.stringify({ choices: [{ message: { content: '{"answer":"ACME trades at 42"}' } }] }));
+    }) as any;
+    try {
+      const seen: any[] = [];
+      const agent = new Agent({
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: [{
+          name: 'lookup_price',
+          description: 'Look up a stock price',
+          inputSchema: { type: 'object', properties: { symbol: { type: 'string' } }, required: ['symbol'] },
+          execute: async (params) => { seen.push(params); return { price: 42 }; },
+        }],
+      });
+      const result = await agent.run({ question: 'What does ACME trade at?' });
+      expect(result.answer).toBe('ACME trades at 42');
+      expect(seen).toEqual([{ symbol: 'ACME' }]);
+      // One tool-selection call plus the final response — no XML server/tool/parameter prompts
+      expect(requests).toHaveLength(2);
+      expect(requests[0].tools[0].function.name).toBe('lookup_price');
+      expect(requests[1].messages.at(-1).content).toContain('42');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  const stepTools = [
+    {
+      name: 'find_user',
+      description: 'Find a user id by name',
+      inputSchema: { type: 'object', properties: { name: { type: 'string' } } },
+      execute: async () => ({ id: 'u7' }),
+    },
+    {
+      name: 'get_orders',
+      description: 'List orders for a user id',
+      inputSchema: { type: 'object', properties: { userId: { type: 'string' } } },
+      execute: async (params: any) => ({ orders: params.userId === 'u7' ? 3 : 0 }),
+    },
+  ];
+
+  test('Agent run with maxSteps feeds tool results back for dependent calls', async () => {
+    const requests: any[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      const body = JSON.parse(opts.body);
+      requests.push(body);
+      const toolTurns = body.messages.filter((m: any) => m.role === 'tool').length;
+      const toolCall = (name: string, args: any) => new Response(JSON.stringify({
+        choices: [{ message: { content: null, tool_calls: [{ id: `call_${name}`, type: 'function', function: { name, arguments: JSON.stringify(args) } }] } }],
+      }));
+      if (body.tools && toolTurns === 0) return toolCall('find_user', { name: 'Ada' });
+      if (body.tools && toolTurns === 1) return toolCall('get_orders', { userId: JSON.parse(body.messages.at(-1).content).id });
+      if (body.tools) return new Response(JSON.stringify({ choices: [{ message: { content: 'done' } }] }));
+      return new Response(JSON.stringify({ choices: [{ message: { content: '{"answer":"Ada has 3 orders"}' } }] }));
+    }) as any;
+    try {
+      const events: RunEvent[] = [];
+      const agent = new Agent({
+        llm: 'gpt-4o-mini',
+        maxSteps: 5,
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: stepTools,
+      }).onEvent(e => events.push(e));
+      const result = await agent.run({ question: 'How many orders does Ada have?' });
+      expect(result.answer).toBe('Ada has 3 orders');
+      // Three tool steps (the last answers without tools) plus the final response
+      expect(requests).toHaveLength(4);
+      expect(requests[1].messages.at(-2).tool_calls[0].function.name).toBe('find_user');
+      expect(requests[1].messages.at(-1)).toEqual({ role: 'tool', tool_call_id: 'call_find_user', content: '{"id":"u7"}' });
+      const steps = events.filter(e => e.type === 'step_complete') as Array<Extract<RunEvent, { type: 'step_complete' }>>;
+      expect(steps.map(e => e.toolCalls)).toEqual([['find_user'], ['get_orders'], []]);
+      expect(requests[3].messages.at(-1).content).toContain('orders');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('Agent run with maxSteps stops when actual step cost exceeds maxCostUSD', async () => {
+    let calls = 0;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => {
+      calls++;
+      return new Response(JSON.stringify({
+        choices: [{ message: { content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'find_user', arguments: '{"name":"Ada"}' } }] } }],
+        usage: { prompt_tokens: 1_000_000, completion_tokens: 10, total_tokens: 1_000_010 },
+      }));
+    }) as any;
+    try {
+      const agent = new Agent({
+        llm: 'gpt-4o-mini',
+        maxSteps: 5,
+        maxCostUSD: 0.01,
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: stepTools,
+      });
+      await expect(agent.run({ question: 'Who is Ada?' })).rejects.toBeInstanceOf(BudgetExceededError);
+      expect(calls).toBe(1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('Agent runBatch attributes usage to each concurrent run', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      const body = JSON.stringify(JSON.parse(opts.body).messages);
+      const small = body.includes('small');
+      // The small run finishes last, so a shared lastTokenUsage would leak the large run's usage
+      await new Promise(r => setTimeout(r, small ? 20 : 0));
+      const tokens = small ? 1 : 500;
+      return new Response(JSON.stringify({
+        choices: [{ message: { content: '{"answer":"ok"}' } }],
+        usage: { prompt_tokens: tokens, completion_tokens: tokens, total_tokens: tokens * 2 },
+      }));
+    }) as any;
+    try {
+      const agent = new Agent({
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+      });
+      const totals: number[] = [];
+      agent.onEvent((e) => { if (e.type === 'run_complete') totals.push(e.usage!.totalTokens); });
+      await agent.runBatch([{ question: 'small' }, { question: 'large' }], { concurrency: 2 });
+      expect(totals.sort((a, b) => a - b)).toEqual([2, 1000]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
 }
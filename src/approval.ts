@@ -0,0 +1,177 @@
+/**
+ * approval.ts — Human-in-the-Loop Tool Approval
+ *
+ * With `requireApproval` set, a tool call that needs sign-off is held instead
+ * of invoked: the run finishes its current tool phase, then run() rejects with
+ * an `ApprovalRequiredError` carrying a `PendingApproval`. The suspended run
+ * is stored in the agent's session, so a reviewer can resume it later — even
+ * from another process — by approving, editing or rejecting each held call.
+ * Every decision is recorded in the audit log.
+ *
+ * Usage:
+ *   const agent = new Agent({ ..., requireApproval: ['send_email'], session });
+ *   try {
+ *     return await agent.run(input);
+ *   } catch (error) {
+ *     if (!(error instanceof ApprovalRequiredError)) throw error;
+ *     notifyReviewer(error.approval.id, error.approval.calls);
+ *   }
+ *   // Later:
+ *   const pending = agent.getPendingApproval(id);
+ *   const output = await pending?.edit({ to: 'ops@example.com' }, { reviewer: 'ana' });
+ */
+
+import { GxaiError } from './errors';
+import type { RunOptions } from './agent';
+import type { LLMMessage, TokenUsage, ToolContext } from './types';
+
+/** A tool call the model asked for */
+export interface ToolCallRequest {
+    server: string;
+    tool: string;
+    parameters: any;
+}
+
+/** A tool call held for review */
+export interface PendingToolCall extends ToolCallRequest {
+    /** Decision key: the native tool call id, or `server.tool` (`server.tool#2`, ... when a tool is called again) */
+    id: string;
+}
+
+/**
+ * Which tool calls need approval: all (`true`), those named in a list
+ * (`tool` or `server.tool`), or those a predicate picks.
+ */
+export type ToolApprovalPolicy<D = any> =
+    | boolean
+    | string[]
+    | ((call: ToolCallRequest, context: ToolContext<D>) => boolean | Promise<boolean>);
+
+/** A reviewer's decision on one held call */
+export type ApprovalDecision =
+    | { action: 'approve'; reviewer?: string }
+    | { action: 'edit'; parameters: any; reviewer?: string }
+    | { action: 'reject'; reason?: string; reviewer?: string };
+
+/** Options for resuming: RunOptions for the rest of the run, plus who decided */
+export interface ResumeOptions extends RunOptions {
+    reviewer?: string;
+}
+
+/** The native tool-calling conversation of a suspended run */
+export interface NativeToolState {
+    messages: LLMMessage[];
+    /** The step whose calls were held */
+    step: number;
+}
+
+/** JSON state of a suspended run, as stored in the session under `approval:<id>` */
+export interface SuspendedRun {
+    id: string;
+    agentName: string;
+    requestId: string;
+    /** Validated run input, with MCP-resolved fields filled in */
+    input: any;
+    /** Per-run settings the run was started with */
+    options: Pick<RunOptions, 'llm' | 'temperature' | 'maxTokens' | 'systemPrompt' | 'maxCostUSD' | 'tags'>;
+    usage: TokenUsage;
+    toolResults: Record<string, any>;
+    toolInvocations: any[];
+    calls: PendingToolCall[];
+    native?: NativeToolState;
+    createdAt: number;
+}
+
+type ResumeRun<O> = (state: SuspendedRun, decisions: Record<string, ApprovalDecision>, options: ResumeOptions) => Promise<O>;
+
+/** Whether `policy` holds this call for review */
+export async function requiresApproval<D>(policy: ToolApprovalPolicy<D> | undefined, call: ToolCallRequest, context: ToolContext<D>): Promise<boolean> {
+    if (!policy) return false;
+    if (policy === true) return true;
+    if (Array.isArray(policy)) return policy.includes(call.tool) || policy.includes(`${call.server}.${call.tool}`);
+    return (await policy(call, context)) === true;
+}
+
+/**
+ * Handle to a suspended run. Each decision method executes or rejects the held
+ * calls, continues the run and resolves with its output. A handle resolves once.
+ */
+export class PendingApproval<O = any> {
+    private resolved = false;
+
+    constructor(readonly state: SuspendedRun, private resumeRun: ResumeRun<O>) { }
+
+    get id(): string {
+        return this.state.id;
+    }
+
+    get requestId(): string {
+        return this.state.requestId;
+    }
+
+    get calls(): PendingToolCall[] {
+        return this.state.calls;
+    }
+
+    /** Run every held call as requested */
+    approve(options: ResumeOptions = {}): Promise<O> {
+        return this.decideAll({ action: 'approve', reviewer: options.reviewer }, options);
+    }
+
+    /** Run the held call with corrected parameters (only when exactly one call is held) */
+    edit(parameters: any, options: ResumeOptions = {}): Promise<O> {
+        if (this.calls.length !== 1) {
+            return Promise.reject(new GxaiError(`edit() needs exactly one held call, approval ${this.id} holds ${this.calls.length}; use resume() with a decision per call id`));
+        }
+        return this.decideAll({ action: 'edit', parameters, reviewer: options.reviewer }, options);
+    }
+
+    /** Skip every held call; the model sees `{ error }` results with the reason */
+    reject(reason?: string, options: ResumeOptions = {}): Promise<O> {
+        return this.decideAll({ action: 'reject', reason, reviewer: options.reviewer }, options);
+    }
+
+    /** Decide each held call separately, keyed by `PendingToolCall.id` */
+    async resume(decisions: Record<string, ApprovalDecision>, options: ResumeOptions = {}): Promise<O> {
+        const missing = this.calls.find(call => !decisions[call.id]);
+        if (missing) throw new GxaiError(`No decision for held tool call ${missing.id}`);
+        if (this.resolved) throw new GxaiError(`Approval ${this.id} was already resolved`);
+        this.resolved = true;
+        return this.resumeRun(this.state, decisions, options);
+    }
+
+    toJSON(): SuspendedRun {
+        return this.state;
+    }
+
+    private decideAll(decision: ApprovalDecision, options: ResumeOptions): Promise<O> {
+        return this.resume(Object.fromEntries(this.calls.map(call => [call.id, decision])), options);
+    }
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+    const context = {} as ToolContext;
+
+    test('requiresApproval matches tool names, qualified names and predicates', async () => {
+        const call = { server: 'mail', tool: 'send', parameters: { to: 'a@b.c' } };
+        expect(await requiresApproval(undefined, call, context)).toBe(false);
+        expect(await requiresApproval(true, call, context)).toBe(true);
+        expect(await requiresApproval(['send'], call, context)).toBe(true);
+        expect(await requiresApproval(['mail.send'], call, context)).toBe(true);
+        expect(await requiresApproval(['other.send'], call, context)).toBe(false);
+        expect(await requiresApproval(async c => c.parameters.to.endsWith('.c'), call, context)).toBe(true);
+    });
+
+    test('PendingApproval needs a decision per call and resolves once', async () => {
+        const state = { id: 'a1', calls: [{ id: 'x', server: 's', tool: 't', parameters: {} }, { id: 'y', server: 's', tool: 'u', parameters: {} }] } as SuspendedRun;
+        const seen: Record<string, ApprovalDecision>[] = [];
+        const pending = new PendingApproval(state, async (_s, decisions) => { seen.push(decisions); return 'done'; });
+
+        await expect(pending.resume({ x: { action: 'approve' } })).rejects.toThrow('No decision for held tool call y');
+        await expect(pending.edit({})).rejects.toThrow('exactly one held call');
+        expect(await pending.reject('no', { reviewer: 'ana' })).toBe('done');
+        expect(seen[0]!.y).toEqual({ action: 'reject', reason: 'no', reviewer: 'ana' });
+        await expect(pending.approve()).rejects.toThrow('already resolved');
+    });
+}
@@ -18,6 +18,10 @@ export interface AuditEntry {
     agentName: string;
     reason?: string;
     parameters?: any;
+    /** Human review outcome, for calls held by requireApproval */
+    approval?: 'approved' | 'edited' | 'rejected';
+    /** Who made the review decision */
+    reviewer?: string;
 }
 
 export interface AuditQuery {
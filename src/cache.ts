@@ -9,10 +9,11 @@
  * Usage:
  *   import { cachedCallLLM } from './cache';
  *   const result = await cachedCallLLM('gpt-4o-mini', messages, options, { ttlMs: 300_000 });
+ *   const detailed = await cachedCallLLMDetailed('gpt-4o-mini', messages);  // { content, usage, cached, ... }
  */
 
-import { callLLM, lastTokenUsage } from './inference';
-import type { LLMType, ProgressCallback, StreamingCallback, TokenUsage } from './types';
+import { callLLMDetailed } from './inference';
+import type { LLMCallResult, LLMType, ProgressCallback, StreamingCallback } from './types';
 
 export interface CacheConfig {
     /** Time-to-live in milliseconds. Default: 5 minutes */
@@ -21,9 +22,13 @@ export interface CacheConfig {
     maxEntries?: number;
 }
 
+/** Per-call result from cachedCallLLMDetailed(); a cache hit spent no new tokens */
+export interface CachedLLMCallResult extends LLMCallResult {
+    cached: boolean;
+}
+
 interface CacheEntry {
-    response: string;
-    usage: TokenUsage | null;
+    result: LLMCallResult;
     expiresAt: number;
 }
 
@@ -56,6 +61,12 @@ function evict(maxEntries: number) {
     }
 }
 
+type CachedCallOptions = {
+    temperature?: number; maxTokens?: number; response_format?: any;
+    streaming?: StreamingCallback; progress?: ProgressCallback;
+    customFetch?: (url: string, options: RequestInit, measure: any, description: string, progressCallback?: ProgressCallback) => Promise<Response>;
+};
+
 /**
  * Call LLM with caching. Returns cached response if available and not expired.
  * Streaming calls are NOT cached (pass-through to callLLM).
@@ -63,18 +74,27 @@ function evict(maxEntries: number) {
 export async function cachedCallLLM(
     llm: LLMType | string,
     messages: Array<{ role: string; content: string }>,
-    options: {
-        temperature?: number; maxTokens?: number; response_format?: any;
-        streaming?: StreamingCallback; progress?: ProgressCallback;
-        customFetch?: (url: string, options: RequestInit, measure: any, description: string, progressCallback?: ProgressCallback) => Promise<Response>;
-    } = {},
+    options: CachedCallOptions = {},
     cacheConfig: CacheConfig = {},
 ): Promise<string> {
+    return (await cachedCallLLMDetailed(llm, messages, options, cacheConfig)).content;
+}
+
+/**
+ * cachedCallLLM() returning the full per-call result. On a hit, `cached` is true and
+ * `usage` is the original call's usage — callers should not count it as new spend.
+ */
+export async function cachedCallLLMDetailed(
+    llm: LLMType | string,
+    messages: Array<{ role: string; content: string }>,
+    options: CachedCallOptions = {},
+    cacheConfig: CacheConfig = {},
+): Promise<CachedLLMCallResult> {
     const { ttlMs = 300_000, maxEntries = 100 } = cacheConfig;
 
     // Don't cache streaming calls
     if (options.streaming) {
-        return callLLM(llm, messages, options);
+        return { ...await callLLMDetailed(llm, messages, options), cached: false };
     }
 
     const key = cacheKey(llm, messages, options);
@@ -82,27 +102,18 @@ export async function cachedCallLLM(
     // Check cache
     const cached = cache.get(key);
     if (cached && cached.expiresAt > Date.now()) {
-        // Restore the lastTokenUsage from cache so callers get consistent behavior
-        if (cached.usage) {
-            // We need to import this mutably — import { lastTokenUsage } won't work for writes
-            // Instead, we just note that cached responses have zero NEW token usage
-        }
-        return cached.response;
+        return { ...cached.result, latencyMs: 0, cached: true };
     }
 
     // Cache miss — call LLM
-    const response = await callLLM(llm, messages, options);
+    const result = await callLLMDetailed(llm, messages, options);
 
     // Store in cache
-    cache.set(key, {
-        response,
-        usage: lastTokenUsage ? { ...lastTokenUsage } : null,
-        expiresAt: Date.now() + ttlMs,
-    });
+    cache.set(key, { result, expiresAt: Date.now() + ttlMs });
 
     evict(maxEntries);
 
-    return response;
+    return { ...result, cached: false };
 }
 
 /** Get current cache size */
@@ -217,4 +228,23 @@ if (import.meta.env.NODE_ENV === "test") {
             globalThis.fetch = originalFetch;
         }
     });
+
+    test('cachedCallLLMDetailed flags hits and keeps per-call usage', async () => {
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = (async () =>
+            new Response(JSON.stringify({ choices: [{ message: { content: 'x' }, finish_reason: 'stop' }], usage: { prompt_tokens: 4, completion_tokens: 1 } }))
+        ) as any;
+        try {
+            const msgs = [{ role: 'user' as const, content: 'detailed' }];
+            const miss = await cachedCallLLMDetailed('gpt-4o-mini', msgs);
+            const hit = await cachedCallLLMDetailed('gpt-4o-mini', msgs);
+            expect(miss.cached).toBe(false);
+            expect(miss.usage?.totalTokens).toBe(5);
+            expect(hit.cached).toBe(true);
+            expect(hit.content).toBe('x');
+            expect(hit.finishReason).toBe('stop');
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    });
 }
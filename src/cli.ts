@@ -8,6 +8,10 @@ import { handleHealth } from "./commands/health";
 import { handleVersion } from "./commands/version";
 import { handleChat } from "./commands/chat";
 import { handleBench } from "./commands/bench";
+import { handleEval } from "./commands/eval";
+import { handleRun } from "./commands/run";
+import { registerProvider } from "./providers";
+import { createLocalProvider, localProviderConfigFromEnv, type LocalProviderConfig } from "./providers/local";
 
 const HELP = `
 🧠 GXAI - AI Agent Framework (gx402)
@@ -15,6 +19,8 @@ const HELP = `
 Usage:
   gx --chat              Interactive LLM chat REPL
   gx --bench             Benchmark all configured models
+  gx eval <suite>        Run an evaluation suite and write reports
+  gx run <agent.yaml>    Run an agent defined in a YAML/JSON spec
   gx --serve             Start analytics dashboard
   gx --analytics         View local analytics queue
   gx --health            Run environment health check
@@ -23,9 +29,17 @@ Usage:
 
 Options:
   --chat                 Start interactive chat
-  --model <name>         Model for chat (gpt, claude, r1, gemini, etc.)
+  --model <name>         Model for chat, eval or run (chat: gpt, claude, r1, gemini, local/<model>, etc.)
   --bench                Run multi-model benchmark
   --prompt <text>        Custom prompt for benchmark
+  --base-url <url>       OpenAI-compatible server for local/<model> (env: LOCAL_LLM_BASE_URL)
+  --api-key <key>        API key for that server, if required (env: LOCAL_LLM_API_KEY)
+  --input <json>         Input for gx run: JSON, or @file.json
+  --tools <module>       Module exporting the tools a gx run spec names in localTools
+  --out <dir>            Eval report directory (default: eval-reports)
+  --baseline <file>      Eval baseline report; exits 1 on regressions
+  --update-baseline      Save this eval run as the baseline
+  --concurrency <n>      Parallel eval cases (default: suite setting or 5)
   --serve                Start the analytics web dashboard
   --port <number>        Port for web dashboard (default: 3002)
   --analytics            View local offline analytics
@@ -38,8 +52,14 @@ Examples:
   gx --chat
   gx --chat --model claude
   gx --chat --model r1
+  gx --chat --model local/llama3.1:8b --base-url http://localhost:11434/v1
   gx --bench
   gx --bench --prompt "Write a haiku about Rust"
+  gx --bench --base-url http://localhost:8080/v1
+  gx eval ./qa.eval.ts --baseline eval-reports/qa.baseline.json
+  gx eval ./qa.eval.ts --model gpt-4o --update-baseline
+  gx run agent.yaml --input '{"question": "What is Bun?"}'
+  gx run support.yaml --tools ./tools.ts --input @ticket.json
   gx --serve
   gx --health
 
@@ -48,12 +68,20 @@ For programmatic usage, import from 'gx402':
 `;
 
 async function main() {
-  const { values } = parseArgs({
+  const { values, positionals } = parseArgs({
     options: {
       chat: { type: 'boolean' },
       model: { type: 'string' },
       bench: { type: 'boolean' },
       prompt: { type: 'string' },
+      'base-url': { type: 'string' },
+      'api-key': { type: 'string' },
+      input: { type: 'string' },
+      tools: { type: 'string' },
+      out: { type: 'string' },
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean' },
+      concurrency: { type: 'string' },
       serve: { type: 'boolean' },
       port: { type: 'string' },
       analytics: { type: 'boolean' },
@@ -80,13 +108,37 @@ async function main() {
     return;
   }
 
+  // OpenAI-compatible local server (Ollama, llama.cpp, vLLM) — models addressed as local/<model>
+  const envLocal = localProviderConfigFromEnv();
+  const baseUrl = values['base-url'] ?? envLocal?.baseUrl;
+  const local: LocalProviderConfig | undefined = baseUrl
+    ? { ...envLocal, baseUrl, apiKey: values['api-key'] ?? envLocal?.apiKey }
+    : undefined;
+  if (local) registerProvider(createLocalProvider(local));
+
   if (values.chat) {
-    await handleChat(values.model);
+    await handleChat(values.model, local);
     return;
   }
 
   if (values.bench) {
-    await handleBench(values.prompt);
+    await handleBench(values.prompt, local);
+    return;
+  }
+
+  if (positionals[0] === 'run') {
+    await handleRun(positionals[1], { input: values.input, model: values.model, tools: values.tools });
+    return;
+  }
+
+  if (positionals[0] === 'eval') {
+    await handleEval(positionals[1], {
+      out: values.out,
+      baseline: values.baseline,
+      updateBaseline: values['update-baseline'],
+      concurrency: values.concurrency ? parseInt(values.concurrency) : undefined,
+      model: values.model,
+    });
     return;
   }
 
@@ -3,10 +3,12 @@
  * 
  * Runs the same prompt across all configured providers in parallel.
  * Shows response time, token usage, cost, and truncated output.
+ * With a local OpenAI-compatible server configured, its models are benchmarked too.
  */
 
-import { callLLM, lastTokenUsage } from '../inference';
+import { callLLMDetailed } from '../inference';
 import { calculateCost } from '../pricing';
+import { listLocalModels, type LocalProviderConfig } from '../providers/local';
 import type { TokenUsage } from '../types';
 
 const C = {
@@ -41,19 +43,29 @@ const BENCH_MODELS: Array<{ key: string; model: string; envKey: string }> = [
     { key: 'deepseek', model: 'deepseek-chat', envKey: 'DEEPSEEK_API_KEY' },
 ];
 
-export async function handleBench(prompt?: string) {
+export async function handleBench(prompt?: string, local?: LocalProviderConfig) {
     const userPrompt = prompt || 'Explain quantum entanglement in 2 sentences.';
 
     // Filter to only models with API keys configured
-    const available = BENCH_MODELS.filter(m => {
+    const available: Array<{ key: string; model: string }> = BENCH_MODELS.filter(m => {
         const key = process.env[m.envKey];
         if (m.envKey === 'GEMINI_API_KEY') return key || process.env.GOOGLE_API_KEY;
         return !!key;
     });
 
+    // Local models need no API key — every model the server lists is included
+    if (local) {
+        try {
+            for (const model of await listLocalModels(local)) available.push({ key: model, model });
+        } catch (err: any) {
+            console.log(`${C.yellow}⚠ Could not list local models at ${local.baseUrl}: ${err.message}${C.reset}`);
+        }
+    }
+
     if (available.length === 0) {
         console.log(`\n${C.yellow}⚠ No API keys configured. Set at least one:${C.reset}`);
-        console.log(`  OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY, DEEPSEEK_API_KEY\n`);
+        console.log(`  OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY, DEEPSEEK_API_KEY`);
+        console.log(`  or point --base-url at an OpenAI-compatible server\n`);
         process.exit(1);
     }
 
@@ -68,17 +80,17 @@ export async function handleBench(prompt?: string) {
     const promises = available.map(async ({ key, model }): Promise<BenchResult> => {
         const start = Date.now();
         try {
-            const response = await callLLM(model, [{ role: 'user', content: userPrompt }]);
-            const duration = Date.now() - start;
-            const tokens = lastTokenUsage ? { ...lastTokenUsage } : null;
+            // Per-call result — parallel runs each get their own usage and latency
+            const result = await callLLMDetailed(model, [{ role: 'user', content: userPrompt }]);
+            const tokens = result.usage ?? null;
             const cost = tokens ? calculateCost(model, tokens) : null;
             return {
                 model: key,
-                response,
+                response: result.content,
                 tokens,
                 costUSD: cost?.totalCost || 0,
-                durationMs: duration,
-                reasoning: tokens?.reasoningContent,
+                durationMs: result.latencyMs,
+                reasoning: result.reasoningContent,
             };
         } catch (err: any) {
             return {
@@ -6,10 +6,12 @@
  * - Streaming responses with reasoning visibility
  * - Conversation memory (multi-turn)
  * - Token usage tracking
+ * - Local OpenAI-compatible servers (--base-url, models as local/<model>)
  */
 
-import { callLLM, lastTokenUsage } from '../inference';
-import type { StreamingCallback, LLMMessage } from '../types';
+import { streamLLM } from '../inference';
+import { listLocalModels, type LocalProviderConfig } from '../providers/local';
+import type { LLMMessage } from '../types';
 import { createInterface } from 'readline';
 
 const MODELS: Record<string, string> = {
@@ -36,7 +38,7 @@ const COLORS = {
     gray: '\x1b[90m',
 };
 
-export async function handleChat(model?: string) {
+export async function handleChat(model?: string, local?: LocalProviderConfig) {
     const resolvedModel = model ? (MODELS[model] || model) : 'gpt-4o-mini';
 
     console.log(`\n${COLORS.bold}${COLORS.cyan}🧠 GXAI Chat${COLORS.reset}`);
@@ -93,6 +95,17 @@ ${COLORS.bold}Commands:${COLORS.reset}
                 const active = v === currentModel ? ` ${COLORS.green}← active${COLORS.reset}` : '';
                 console.log(`  ${COLORS.yellow}${k.padEnd(12)}${COLORS.reset} → ${v}${active}`);
             }
+            if (local) {
+                console.log(`\n${COLORS.bold}Local models${COLORS.reset} ${COLORS.dim}(${local.baseUrl})${COLORS.reset}`);
+                try {
+                    for (const id of await listLocalModels(local)) {
+                        const active = id === currentModel ? ` ${COLORS.green}← active${COLORS.reset}` : '';
+                        console.log(`  ${id}${active}`);
+                    }
+                } catch (err: any) {
+                    console.log(`  ${COLORS.yellow}⚠ ${err.message}${COLORS.reset}`);
+                }
+            }
             console.log();
             rl.prompt();
             return;
@@ -142,37 +155,33 @@ ${COLORS.bold}Commands:${COLORS.reset}
         let hasReasoning = false;
 
         try {
-            const streamingCallback: StreamingCallback = (update) => {
-                if (update.field === '_reasoning') {
+            const stream = streamLLM(currentModel, allMessages);
+            for await (const delta of stream) {
+                if (delta.type === 'reasoning') {
                     if (!hasReasoning) {
                         process.stdout.write(`${COLORS.dim}${COLORS.gray}💭 `);
                         hasReasoning = true;
                     }
-                    process.stdout.write(update.value);
-                } else {
+                    process.stdout.write(delta.text);
+                } else if (delta.type === 'text') {
                     if (hasReasoning) {
                         process.stdout.write(`${COLORS.reset}\n\n${COLORS.magenta}`);
                         hasReasoning = false;
                     }
-                    process.stdout.write(update.value);
+                    process.stdout.write(delta.text);
                 }
-            };
-
-            const result = await callLLM(currentModel, allMessages, { streaming: streamingCallback });
-
-            // If no streaming happened (non-streaming path), print result
-            if (!hasReasoning && result && !process.stdout.writableLength) {
-                process.stdout.write(result);
             }
 
+            const { content: result, usage } = await stream.final();
+
             process.stdout.write(`${COLORS.reset}\n`);
 
             messages.push({ role: 'assistant', content: result });
 
-            if (lastTokenUsage) {
-                totalInputTokens += lastTokenUsage.inputTokens;
-                totalOutputTokens += lastTokenUsage.outputTokens;
-                process.stdout.write(`${COLORS.dim}[${lastTokenUsage.inputTokens}→${lastTokenUsage.outputTokens} tokens]${COLORS.reset}\n`);
+            if (usage) {
+                totalInputTokens += usage.inputTokens;
+                totalOutputTokens += usage.outputTokens;
+                process.stdout.write(`${COLORS.dim}[${usage.inputTokens}→${usage.outputTokens} tokens]${COLORS.reset}\n`);
             }
         } catch (err: any) {
             process.stdout.write(`${COLORS.reset}\n`);
@@ -0,0 +1,88 @@
+/**
+ * gx eval <suite> — Run an evaluation suite
+ *
+ * Loads a suite file (see eval.ts), runs every case, prints per-field pass
+ * rates and writes JSON/Markdown reports. With --baseline, exits non-zero when
+ * the run regressed against that saved report; --update-baseline saves this
+ * run as the new baseline.
+ */
+
+import { copyFileSync, existsSync } from 'fs';
+import { loadEvalSuite, runEval, writeEvalReport } from '../eval';
+
+const C = {
+    reset: '\x1b[0m',
+    dim: '\x1b[2m',
+    bold: '\x1b[1m',
+    cyan: '\x1b[36m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    red: '\x1b[31m',
+};
+
+export interface EvalCommandOptions {
+    /** Report directory (default: eval-reports) */
+    out?: string;
+    /** Baseline report to compare against */
+    baseline?: string;
+    /** Save this run's JSON report as the baseline */
+    updateBaseline?: boolean;
+    concurrency?: number;
+    /** Run every case on this model */
+    model?: string;
+}
+
+export async function handleEval(suitePath: string | undefined, options: EvalCommandOptions = {}) {
+    if (!suitePath) {
+        console.log(`${C.yellow}Usage: gx eval <suite file> [--baseline <report.json>] [--update-baseline] [--out <dir>]${C.reset}`);
+        process.exit(1);
+    }
+
+    const suite = await loadEvalSuite(suitePath);
+    const baseline = options.baseline && existsSync(options.baseline) ? options.baseline : undefined;
+    if (options.baseline && !baseline && !options.updateBaseline) {
+        console.log(`${C.yellow}⚠ Baseline ${options.baseline} not found; run with --update-baseline to create it${C.reset}`);
+    }
+
+    console.log(`\n${C.bold}${C.cyan}🧪 GXAI Eval: ${suite.name}${C.reset}`);
+    const report = await runEval(suite, {
+        concurrency: options.concurrency,
+        runOptions: options.model ? { llm: options.model } : undefined,
+        baseline,
+        onProgress: (completed, total) => process.stdout.write(`\r${C.dim}${completed}/${total} cases${C.reset}`),
+    });
+    process.stdout.write('\n\n');
+
+    const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+    for (const [field, rate] of Object.entries(report.fields)) {
+        const color = rate.passRate === 1 ? C.green : rate.passRate >= 0.5 ? C.yellow : C.red;
+        const before = report.baseline?.fields[field];
+        const delta = before ? ` ${C.dim}(baseline ${percent(before.passRate)})${C.reset}` : '';
+        console.log(`  ${field.padEnd(24)} ${color}${percent(rate.passRate).padStart(7)}${C.reset} ${C.dim}${rate.passed}/${rate.total}${C.reset}${delta}`);
+    }
+    console.log(`\n${C.bold}Passed ${report.summary.passed}/${report.summary.total} cases (${percent(report.summary.passRate)})${C.reset}` +
+        `${report.summary.errors ? ` ${C.red}· ${report.summary.errors} errors${C.reset}` : ''}` +
+        ` ${C.dim}· $${report.cost.totalUSD.toFixed(6)} · ${(report.durationMs / 1000).toFixed(1)}s${C.reset}`);
+
+    const paths = writeEvalReport(report, options.out ?? 'eval-reports');
+    console.log(`${C.dim}Reports: ${paths.json}, ${paths.markdown}${C.reset}`);
+
+    if (options.updateBaseline) {
+        const target = options.baseline ?? paths.json.replace(/\.json$/, '.baseline.json');
+        copyFileSync(paths.json, target);
+        console.log(`${C.green}✓ Baseline saved to ${target}${C.reset}`);
+    }
+
+    const regressions = report.regressions ?? [];
+    if (regressions.length > 0) {
+        console.log(`\n${C.red}${C.bold}✗ ${regressions.length} regressions against the baseline:${C.reset}`);
+        for (const regression of regressions) {
+            console.log(regression.kind === 'case'
+                ? `  ${C.red}case ${regression.id}${C.reset} ${C.dim}${regression.reasons.join('; ')}${C.reset}`
+                : `  ${C.red}field ${regression.field}${C.reset} ${percent(regression.baseline)} → ${percent(regression.current)}`);
+        }
+        console.log();
+        if (!options.updateBaseline) process.exit(1);
+    }
+    console.log();
+}
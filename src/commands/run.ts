@@ -0,0 +1,94 @@
+/**
+ * gx run <agent spec> — Run an agent defined in YAML or JSON
+ *
+ * Loads the spec with loadAgent(), runs it on --input (JSON, or @file.json),
+ * streams progress to stderr and prints the validated output as JSON on stdout,
+ * so the output can be piped. `--tools ./tools.ts` supplies the tools that the
+ * spec's `localTools` names (every tool the module exports).
+ */
+
+import { readFileSync } from 'fs';
+import { loadAgent, loadToolModule, type SpecAgent } from '../agent-spec';
+import type { ProgressUpdate } from '../types';
+
+const C = {
+    reset: '\x1b[0m',
+    dim: '\x1b[2m',
+    bold: '\x1b[1m',
+    cyan: '\x1b[36m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    red: '\x1b[31m',
+};
+
+export interface RunCommandOptions {
+    /** JSON input, or `@path` to a JSON file */
+    input?: string;
+    /** Run on this model instead of the spec's */
+    model?: string;
+    /** Module whose exported tools the spec's `localTools` names refer to */
+    tools?: string;
+}
+
+function readInput(input: string | undefined): any {
+    if (!input) return {};
+    const text = input.startsWith('@') ? readFileSync(input.slice(1), 'utf-8') : input;
+    try {
+        return JSON.parse(text);
+    } catch (error: any) {
+        throw new Error(`--input is not valid JSON: ${error.message}`);
+    }
+}
+
+export async function handleRun(specPath: string | undefined, options: RunCommandOptions = {}) {
+    if (!specPath) {
+        console.log(`${C.yellow}Usage: gx run <agent.yaml> [--tools ./tools.ts] --input '{"field": "value"}'${C.reset}`);
+        process.exit(1);
+    }
+
+    const log = (line: string) => process.stderr.write(line + '\n');
+    // stdout carries only the output JSON — measure-fn's run log goes to stderr
+    console.log = (...args: any[]) => console.error(...args);
+    const fail = (error: any) => {
+        log(`${C.red}✗ ${error?.name ?? 'Error'}: ${error?.message ?? error}${C.reset}`);
+        process.exit(1);
+    };
+
+    let agent: SpecAgent;
+    let input: any;
+    try {
+        const tools = options.tools ? await loadToolModule(options.tools) : undefined;
+        agent = await loadAgent(specPath, { tools });
+        input = readInput(options.input);
+    } catch (error) {
+        return fail(error);
+    }
+    log(`${C.bold}${C.cyan}▶ ${agent.name ?? specPath}${C.reset}${options.model ? ` ${C.dim}on ${options.model}${C.reset}` : ''}`);
+
+    // Partial output rewrites one status line; other stages get a line each
+    let partial = false;
+    const progress = (update: ProgressUpdate) => {
+        if (update.stage === 'partial_output') {
+            const width = Math.max((process.stderr.columns ?? 100) - 4, 20);
+            process.stderr.write(`\r\x1b[K${C.dim}… ${JSON.stringify(update.data).slice(0, width)}${C.reset}`);
+            partial = true;
+            return;
+        }
+        if (partial) process.stderr.write('\n');
+        partial = false;
+        log(`${C.dim}• ${update.stage}: ${update.message}${C.reset}`);
+    };
+
+    const startTime = Date.now();
+    try {
+        const output = await agent.run(input, { progress, llm: options.model });
+        if (partial) process.stderr.write('\n');
+        const cost = agent.lastCost ? ` · $${agent.lastCost.totalCost.toFixed(6)}` : '';
+        const tokens = agent.lastUsage ? ` · ${agent.lastUsage.totalTokens} tokens` : '';
+        log(`${C.green}✓ Done in ${((Date.now() - startTime) / 1000).toFixed(1)}s${tokens}${cost}${C.reset}`);
+        process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+    } catch (error) {
+        if (partial) process.stderr.write('\n');
+        fail(error);
+    }
+}
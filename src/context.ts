@@ -5,36 +5,13 @@
  * and provides warnings when approaching a model's context window limit.
  */
 
-/** Known context window sizes per model (in tokens) */
-const CONTEXT_WINDOWS: Array<{ match: string; maxTokens: number }> = [
-    // OpenAI
-    { match: 'gpt-4o-mini', maxTokens: 128_000 },
-    { match: 'o4-mini', maxTokens: 200_000 },
-    { match: 'gpt-4o', maxTokens: 128_000 },
-    { match: 'gpt-4', maxTokens: 8_192 },
-
-    // Anthropic
-    { match: 'claude-3-5-sonnet', maxTokens: 200_000 },
-    { match: 'claude-3-sonnet', maxTokens: 200_000 },
-    { match: 'claude', maxTokens: 200_000 },
-
-    // DeepSeek
-    { match: 'deepseek', maxTokens: 128_000 },
-
-    // Gemini
-    { match: 'gemini-2.5-pro', maxTokens: 1_048_576 },
-    { match: 'gemini-2.0-flash', maxTokens: 1_048_576 },
-    { match: 'gemini', maxTokens: 1_048_576 },
-];
+import { resolveProvider } from './providers';
 
 const DEFAULT_CONTEXT_WINDOW = 128_000;
 
-/** Look up the context window size for a model */
+/** Look up the context window size for a model (from its provider adapter) */
 export function getContextWindowSize(llm: string): number {
-    for (const entry of CONTEXT_WINDOWS) {
-        if (llm.includes(entry.match)) return entry.maxTokens;
-    }
-    return DEFAULT_CONTEXT_WINDOW;
+    return resolveProvider(llm).contextWindow?.(llm) ?? DEFAULT_CONTEXT_WINDOW;
 }
 
 export interface ContextUsage {
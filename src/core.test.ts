@@ -326,9 +326,9 @@ describe('Pricing', () => {
 describe('RunEvent Telemetry', () => {
 
     test('RunEvent type covers all event types', () => {
-        const eventTypes = ['run_start', 'llm_call', 'llm_complete', 'tool_start', 'tool_complete', 'run_complete', 'run_error'];
+        const eventTypes = ['run_start', 'llm_call', 'llm_complete', 'tool_start', 'tool_complete', 'step_start', 'step_complete', 'run_complete', 'run_error', 'run_cancelled', 'run_suspended'];
         // Compile-time check — if RunEvent union changes, this must be updated
-        expect(eventTypes.length).toBe(7);
+        expect(eventTypes.length).toBe(11);
     });
 
     test('Agent.onEvent returns this for chaining', () => {
@@ -17,6 +17,8 @@ export interface CostRecord {
     usage: TokenUsage;
     cost: CostEstimate;
     status: 'success' | 'error';
+    /** Labels from the run's RunOptions.tags */
+    tags?: string[];
 }
 
 export interface CostSummary {
@@ -34,6 +36,8 @@ export interface CostSummary {
     byModel: Record<string, { runs: number; costUSD: number; tokens: number }>;
     /** Cost breakdown by agent */
     byAgent: Record<string, { runs: number; costUSD: number; tokens: number }>;
+    /** Cost breakdown by tag (a run with several tags counts toward each) */
+    byTag: Record<string, { runs: number; costUSD: number; tokens: number }>;
     /** Success vs error count */
     successCount: number;
     errorCount: number;
@@ -69,7 +73,7 @@ export class CostTracker {
             return {
                 totalCostUSD: 0, totalRuns: 0, totalTokens: 0,
                 avgCostPerRun: 0, avgDurationMs: 0,
-                byModel: {}, byAgent: {},
+                byModel: {}, byAgent: {}, byTag: {},
                 successCount: 0, errorCount: 0,
                 earliestRun: 0, latestRun: 0,
             };
@@ -82,6 +86,7 @@ export class CostTracker {
         let errorCount = 0;
         const byModel: CostSummary['byModel'] = {};
         const byAgent: CostSummary['byAgent'] = {};
+        const byTag: CostSummary['byTag'] = {};
 
         for (const r of filtered) {
             totalCost += r.cost.totalCost;
@@ -101,6 +106,14 @@ export class CostTracker {
             byAgent[r.agentName]!.runs++;
             byAgent[r.agentName]!.costUSD += r.cost.totalCost;
             byAgent[r.agentName]!.tokens += r.usage.totalTokens;
+
+            // Tag aggregation
+            for (const tag of r.tags ?? []) {
+                if (!byTag[tag]) byTag[tag] = { runs: 0, costUSD: 0, tokens: 0 };
+                byTag[tag]!.runs++;
+                byTag[tag]!.costUSD += r.cost.totalCost;
+                byTag[tag]!.tokens += r.usage.totalTokens;
+            }
         }
 
         return {
@@ -109,7 +122,7 @@ export class CostTracker {
             totalTokens,
             avgCostPerRun: Math.round((totalCost / filtered.length) * 1_000_000) / 1_000_000,
             avgDurationMs: Math.round(totalDuration / filtered.length),
-            byModel, byAgent,
+            byModel, byAgent, byTag,
             successCount, errorCount,
             earliestRun: filtered[0]!.timestamp,
             latestRun: filtered[filtered.length - 1]!.timestamp,
@@ -0,0 +1,121 @@
+/**
+ * define-tool.ts — Typed Tool Definitions
+ *
+ * Define a local tool once with Zod schemas: the JSON `inputSchema` is generated,
+ * `execute` params are typed from `input`, and both input and output are
+ * validated on every call (ValidationError on mismatch).
+ *
+ * The result is an `MCPTool` (Agent `localTools`, `serveMCP`, LoopAgent `tools`)
+ * and a `ToolDefinition` (`handler` + `schema`, for `ToolRegistry.register`).
+ *
+ * Usage:
+ *   const weather = defineTool({
+ *     name: 'get_weather',
+ *     description: 'Current weather for a city',
+ *     input: z.object({ city: z.string() }),
+ *     output: z.object({ tempC: z.number() }),
+ *     execute: async ({ city }) => ({ tempC: await lookup(city) }),
+ *   });
+ *   new Agent({ ..., localTools: [weather] });
+ *   registry.register(weather);
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MCPTool, ToolContext } from './types';
+import type { ToolDefinition } from './tool-registry';
+import { ValidationError } from './errors';
+import { createToolContext } from './tool-context';
+
+export interface DefineToolConfig<I extends z.ZodTypeAny, O extends z.ZodTypeAny, D = any> {
+    name: string;
+    description: string;
+    /** Parameters schema — becomes the tool's JSON `inputSchema` */
+    input: I;
+    /** Result schema — checked after every call when set */
+    output?: O;
+    /** `context` carries the calling run (agentName, requestId, signal, progress, logger, deps) */
+    execute: (params: z.infer<I>, context: ToolContext<D>) => Promise<z.infer<O>> | z.infer<O>;
+    /** Optional authorization hook, as on MCPTool */
+    authorize?: (params: z.infer<I>, context: ToolContext<D>) => Promise<boolean | string>;
+}
+
+export interface DefinedTool<I extends z.ZodTypeAny = z.ZodTypeAny, O extends z.ZodTypeAny = z.ZodTypeAny, D = any>
+    extends MCPTool<D>, Omit<ToolDefinition, 'description'> {
+    input: I;
+    output?: O;
+    /** Validates params, runs the tool and validates its result (default context when omitted) */
+    execute: (params: z.input<I>, context?: ToolContext<D>) => Promise<z.infer<O>>;
+    /** Same as `execute` (ToolRegistry entry point) */
+    handler: (params: z.input<I>, context?: ToolContext<D>) => Promise<z.infer<O>>;
+    /** Same as `inputSchema` (ToolRegistry metadata) */
+    schema: Record<string, any>;
+}
+
+/** JSON Schema for a Zod tool schema, with refs inlined (providers reject `$ref`) */
+export function zodToToolSchema(schema: z.ZodTypeAny): Record<string, any> {
+    const { $schema, ...json } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+    return json;
+}
+
+function issuesOf(error: z.ZodError): string {
+    return error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+}
+
+/** Define a local tool with Zod input/output schemas */
+export function defineTool<I extends z.ZodTypeAny, O extends z.ZodTypeAny = z.ZodAny, D = any>(
+    config: DefineToolConfig<I, O, D>
+): DefinedTool<I, O, D> {
+    const inputSchema = zodToToolSchema(config.input);
+
+    const execute = async (params: z.input<I>, context?: ToolContext<D>): Promise<z.infer<O>> => {
+        const input = config.input.safeParse(params ?? {});
+        if (!input.success) {
+            throw new ValidationError(`Invalid input for tool "${config.name}": ${issuesOf(input.error)}`, input.error.issues);
+        }
+        const result = await config.execute(input.data, context ?? createToolContext<D>({ tool: config.name }));
+        if (!config.output) return result;
+        const output = config.output.safeParse(result);
+        if (!output.success) {
+            throw new ValidationError(`Invalid output from tool "${config.name}": ${issuesOf(output.error)}`, output.error.issues);
+        }
+        return output.data;
+    };
+
+    return {
+        name: config.name,
+        description: config.description,
+        input: config.input,
+        output: config.output,
+        inputSchema,
+        schema: inputSchema,
+        execute,
+        handler: execute,
+        ...(config.authorize && { authorize: config.authorize }),
+    };
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    const add = defineTool({
+        name: 'add',
+        description: 'Add two numbers',
+        input: z.object({ a: z.number(), b: z.number().default(0) }),
+        output: z.number(),
+        execute: ({ a, b }) => a + b,
+    });
+
+    test('defineTool generates the JSON schema and applies input defaults', async () => {
+        expect(add.inputSchema).toEqual(add.schema);
+        expect(add.inputSchema.properties.a).toEqual({ type: 'number' });
+        expect(add.inputSchema.required).toEqual(['a']);
+        expect(await add.execute({ a: 2 })).toBe(2);
+    });
+
+    test('defineTool validates input and output', async () => {
+        await expect(add.execute({ a: 'x' } as any)).rejects.toThrow('Invalid input for tool "add": a: Expected number, received string');
+        const broken = defineTool({ name: 'broken', description: '', input: z.object({}), output: z.string(), execute: async () => 42 as any });
+        await expect(broken.execute({})).rejects.toBeInstanceOf(ValidationError);
+    });
+}
@@ -6,6 +6,8 @@
  * can catch and handle different failure modes differently.
  */
 
+import type { PendingApproval } from './approval';
+
 /** Base error class for all GXAI errors */
 export class GxaiError extends Error {
     constructor(message: string) {
@@ -94,3 +96,79 @@ export class TimeoutError extends GxaiError {
         this.maxDurationMs = maxDurationMs;
     }
 }
+
+/** Thrown when agent.run() is cancelled through its AbortSignal */
+export class CancelledError extends GxaiError {
+    /** The signal's abort reason */
+    public reason?: any;
+
+    constructor(reason?: any) {
+        const detail = reason instanceof Error && reason.name !== 'AbortError' ? reason.message : typeof reason === 'string' ? reason : '';
+        super(`Agent run cancelled${detail ? `: ${detail}` : ''}`);
+        this.name = 'CancelledError';
+        this.reason = reason;
+    }
+}
+
+/** Thrown when agent.run() holds tool calls for human approval (see requireApproval) */
+export class ApprovalRequiredError extends GxaiError {
+    /** Handle to resume the suspended run */
+    public approval: PendingApproval;
+
+    constructor(approval: PendingApproval) {
+        const calls = approval.calls.map(call => `${call.server}.${call.tool}`).join(', ');
+        super(`Agent run suspended: ${calls} needs approval (approval ${approval.id})`);
+        this.name = 'ApprovalRequiredError';
+        this.approval = approval;
+    }
+}
+
+/** Thrown when an `inputResolvers` entry fails or returns a value that does not fit its field */
+export class InputResolutionError extends GxaiError {
+    public field: string;
+
+    constructor(field: string, reason: string) {
+        super(`Could not resolve input field "${field}": ${reason}`);
+        this.name = 'InputResolutionError';
+        this.field = field;
+    }
+}
+
+/** Thrown when an agent spec file cannot be read, fails validation, or references tools that cannot be found */
+export class AgentSpecError extends GxaiError {
+    public source: string;
+    public issues: string[];
+
+    constructor(source: string, issues: string[]) {
+        super(`Invalid agent spec ${source}: ${issues.join('; ')}`);
+        this.name = 'AgentSpecError';
+        this.source = source;
+        this.issues = issues;
+    }
+}
+
+/** Thrown when a guardrail rule from an agent spec rejects the run's input or output */
+export class GuardrailError extends GxaiError {
+    public rule: string;
+    public target: 'input' | 'output';
+
+    constructor(rule: string, target: 'input' | 'output', reason: string) {
+        super(`Guardrail "${rule}" rejected the ${target}: ${reason}`);
+        this.name = 'GuardrailError';
+        this.rule = rule;
+        this.target = target;
+    }
+}
+
+/** Thrown when an MCP server answers a request with a JSON-RPC error */
+export class MCPError extends GxaiError {
+    public code: number;
+    public data?: any;
+
+    constructor(message: string, code: number, data?: any) {
+        super(message);
+        this.name = 'MCPError';
+        this.code = code;
+        this.data = data;
+    }
+}
@@ -0,0 +1,579 @@
+/**
+ * eval.ts — Agent Evaluation Harness
+ *
+ * Runs an agent over a dataset of inputs and expected outputs and scores each
+ * output: exact field match, regex, numeric tolerance, Zod checks and
+ * LLM-as-judge. Cases run in parallel through `batchProcess`, and the agent's
+ * and judge's spend is recorded in a `CostTracker`. Reports come out as JSON
+ * and Markdown, with per-field pass rates and regressions against a saved
+ * baseline report.
+ *
+ * Datasets are JSONL, one case per line:
+ *   {"id": "paris", "input": {"question": "Capital of France?"}, "expected": {"answer": "Paris"}}
+ *
+ * Usage:
+ *   export default defineEvalSuite({
+ *     name: 'qa',
+ *     agent,
+ *     dataset: './qa.jsonl',
+ *     scorers: [exactMatch('answer'), numericTolerance('confidence', { tolerance: 0.1 }), llmJudge({ criteria: 'Is the answer polite?' })],
+ *   });
+ *
+ *   // gx eval ./qa.eval.ts --baseline eval-reports/qa.baseline.json
+ *   const report = await runEval(suite, { baseline });
+ *   writeEvalReport(report, 'eval-reports');
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import type { z } from 'zod';
+import type { Agent, RunOptions } from './agent';
+import { batchProcess } from './batch-processor';
+import { CostTracker } from './cost-tracker';
+import { GxaiError } from './errors';
+import { callLLMDetailed } from './inference';
+import { getPath } from './input-resolvers';
+import { calculateCost } from './pricing';
+import { objToXml, xmlToObj } from './xml';
+
+/** One dataset row */
+export interface EvalCase<I = any, O = any> {
+    /** Stable id used to match cases against a baseline (default: the 1-based line number) */
+    id?: string;
+    input: I;
+    expected?: Partial<O> & Record<string, any>;
+}
+
+/** A case's output, as seen by scorers */
+export interface EvalSample<I = any, O = any> {
+    id: string;
+    input: I;
+    expected?: Partial<O> & Record<string, any>;
+    /** Undefined when the run failed */
+    output?: O;
+    error?: string;
+}
+
+/** One scorer's verdict on one field of a sample (`*` is the whole output) */
+export interface EvalScore {
+    field: string;
+    pass: boolean;
+    /** 0–1 (default: 1 when passed, 0 otherwise) */
+    score?: number;
+    reason?: string;
+}
+
+export interface EvalContext {
+    suite: string;
+    /** Tracker for the eval's spend; scorers that call an LLM record their usage here */
+    costTracker: CostTracker;
+    signal?: AbortSignal;
+}
+
+export interface Scorer<I = any, O = any> {
+    name: string;
+    score(sample: EvalSample<I, O>, context: EvalContext): EvalScore | EvalScore[] | Promise<EvalScore | EvalScore[]>;
+}
+
+export interface EvalSuite<I = any, O = any> {
+    name: string;
+    agent: Agent<any, any, any>;
+    /** Cases, or the path of a JSONL file (relative paths resolve against the suite file when loaded with loadEvalSuite) */
+    dataset: EvalCase<I, O>[] | string;
+    scorers: Scorer<I, O>[];
+    /** Parallel runs (default: 5) */
+    concurrency?: number;
+    /** RunOptions for every case, e.g. `{ llm: 'gpt-4o' }` to compare models */
+    runOptions?: Omit<RunOptions, 'progress'>;
+}
+
+export interface EvalRunOptions {
+    /** Overrides the suite's concurrency */
+    concurrency?: number;
+    /** Merged over the suite's runOptions */
+    runOptions?: Omit<RunOptions, 'progress'>;
+    /** Where the agent and judge costs are recorded (default: a new tracker per eval) */
+    costTracker?: CostTracker;
+    /** A previous report, or the path of one, to check for regressions */
+    baseline?: EvalReport | string;
+    /** Pass-rate drop a field may have before it counts as a regression (default: 0) */
+    tolerance?: number;
+    signal?: AbortSignal;
+    onProgress?: (completed: number, total: number) => void;
+}
+
+export interface EvalCaseResult<I = any, O = any> extends EvalSample<I, O> {
+    /** Every score passed */
+    pass: boolean;
+    scores: Array<EvalScore & { scorer: string }>;
+    durationMs: number;
+    costUSD: number;
+}
+
+export interface EvalRate {
+    passed: number;
+    total: number;
+    passRate: number;
+}
+
+export type EvalRegression =
+    | { kind: 'case'; id: string; reasons: string[] }
+    | { kind: 'field'; field: string; baseline: number; current: number };
+
+export interface EvalReport<I = any, O = any> {
+    suite: string;
+    agentName?: string;
+    /** Models the agent ran on */
+    models: string[];
+    startedAt: number;
+    durationMs: number;
+    summary: EvalRate & { errors: number };
+    /** Pass rates per output field, across all scorers */
+    fields: Record<string, EvalRate>;
+    /** Pass rates per scorer */
+    scorers: Record<string, EvalRate>;
+    cost: { totalUSD: number; agentUSD: number; judgeUSD: number; totalTokens: number };
+    cases: EvalCaseResult<I, O>[];
+    baseline?: { startedAt: number; passRate: number; fields: Record<string, EvalRate> };
+    regressions?: EvalRegression[];
+}
+
+/** Type helper for suite files: `export default defineEvalSuite({ ... })` */
+export function defineEvalSuite<I, O>(suite: EvalSuite<I, O>): EvalSuite<I, O> {
+    return suite;
+}
+
+// ============================================
+// Scorers
+// ============================================
+
+/** The value a scorer checks: `field` of the output, or the whole output for `*` */
+function valueAt(value: any, field: string): any {
+    return field === '*' ? value : getPath(value, field);
+}
+
+function show(value: any): string {
+    return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+function stableStringify(value: any): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Output fields equal their expected values. Without fields, every field in
+ * the case's `expected` is checked.
+ */
+export function exactMatch(fields?: string | string[], options: { ignoreCase?: boolean; trim?: boolean } = {}): Scorer {
+    const normalize = (value: any) => {
+        if (typeof value !== 'string') return stableStringify(value);
+        let text = options.trim ? value.trim() : value;
+        if (options.ignoreCase) text = text.toLowerCase();
+        return JSON.stringify(text);
+    };
+    return {
+        name: 'exact',
+        score: ({ output, expected }) => {
+            const names = fields === undefined ? Object.keys(expected ?? {}) : [fields].flat();
+            return names.map(field => {
+                const actual = valueAt(output, field);
+                const wanted = valueAt(expected, field);
+                return normalize(actual) === normalize(wanted)
+                    ? { field, pass: true }
+                    : { field, pass: false, reason: `expected ${show(wanted)}, got ${show(actual)}` };
+            });
+        },
+    };
+}
+
+/** The field (as text) matches `pattern`; without one, the case's expected value is used as the pattern */
+export function regexMatch(field: string, pattern?: RegExp | string): Scorer {
+    return {
+        name: 'regex',
+        score: ({ output, expected }) => {
+            const source = pattern ?? valueAt(expected, field);
+            if (source === undefined) return { field, pass: false, reason: 'no pattern given or expected' };
+            const regex = source instanceof RegExp ? source : new RegExp(String(source));
+            const actual = valueAt(output, field);
+            const text = typeof actual === 'string' ? actual : show(actual);
+            return regex.test(text)
+                ? { field, pass: true }
+                : { field, pass: false, reason: `${show(actual)} does not match ${regex}` };
+        },
+    };
+}
+
+/** The field is a number within `tolerance` of the expected value (a fraction of it when `relative`) */
+export function numericTolerance(field: string, options: { tolerance?: number; relative?: boolean } = {}): Scorer {
+    const tolerance = options.tolerance ?? 0;
+    return {
+        name: 'numeric',
+        score: ({ output, expected }) => {
+            const actual = Number(valueAt(output, field));
+            const wanted = Number(valueAt(expected, field));
+            if (Number.isNaN(actual) || Number.isNaN(wanted)) {
+                return { field, pass: false, reason: `expected a number near ${show(valueAt(expected, field))}, got ${show(valueAt(output, field))}` };
+            }
+            const allowed = options.relative ? Math.abs(wanted) * tolerance : tolerance;
+            const diff = Math.abs(actual - wanted);
+            return diff <= allowed
+                ? { field, pass: true }
+                : { field, pass: false, reason: `${actual} is ${diff} from ${wanted} (allowed ${allowed})` };
+        },
+    };
+}
+
+/**
+ * The field (or whole output) passes a Zod schema, typically with refinements.
+ * Pass a function to build the schema from the sample, e.g. to compare against `expected`.
+ */
+export function zodCheck(
+    schema: z.ZodTypeAny | ((sample: EvalSample) => z.ZodTypeAny),
+    options: { field?: string; name?: string } = {},
+): Scorer {
+    const field = options.field ?? '*';
+    return {
+        name: options.name ?? 'zod',
+        score: (sample) => {
+            const check = typeof schema === 'function' ? schema(sample) : schema;
+            const result = check.safeParse(valueAt(sample.output, field));
+            if (result.success) return { field, pass: true };
+            const reason = result.error.issues.map(i => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message)).join('; ');
+            return { field, pass: false, reason };
+        },
+    };
+}
+
+export interface LLMJudgeOptions {
+    /** What the judge grades, e.g. "The answer is correct and cites a source" */
+    criteria: string;
+    /** Judge model (default: gpt-4o-mini) */
+    llm?: string;
+    /** Output field to judge (default: the whole output) */
+    field?: string;
+    /** Lowest passing score, 0–1 (default: 0.7) */
+    threshold?: number;
+    name?: string;
+}
+
+/** An LLM grades the output against `criteria` on a 0–10 scale; its cost is recorded as the judge's */
+export function llmJudge(options: LLMJudgeOptions): Scorer {
+    const llm = options.llm ?? 'gpt-4o-mini';
+    const field = options.field ?? '*';
+    const threshold = options.threshold ?? 0.7;
+    const name = options.name ?? 'judge';
+    return {
+        name,
+        score: async (sample, context) => {
+            if (sample.error) return { field, pass: false, score: 0, reason: 'no output to judge' };
+            const prompt = [
+                'Grade the output of an AI agent against the criteria.',
+                `<criteria>${options.criteria}</criteria>`,
+                objToXml({ input: sample.input }),
+                sample.expected !== undefined ? objToXml({ expected: valueAt(sample.expected, field) }) : '',
+                objToXml({ output: valueAt(sample.output, field) }),
+                'Reply with <score>0-10</score> and a one-sentence <reason>...</reason>.',
+            ].filter(Boolean).join('\n');
+
+            const startTime = Date.now();
+            const result = await callLLMDetailed(llm, [{ role: 'user', content: prompt }], { temperature: 0, signal: context.signal });
+            if (result.usage) {
+                context.costTracker.record({
+                    timestamp: startTime,
+                    agentName: `${context.suite}:${name}`,
+                    llm,
+                    requestId: `${sample.id}:${name}`,
+                    durationMs: result.latencyMs,
+                    usage: result.usage,
+                    cost: calculateCost(llm, result.usage),
+                    status: 'success',
+                    tags: [JUDGE_TAG],
+                });
+            }
+
+            const verdict = xmlToObj(result.content);
+            const score = Math.min(Math.max(Number(verdict.score) / 10, 0), 1);
+            if (Number.isNaN(score)) return { field, pass: false, score: 0, reason: `judge gave no score: ${result.content.slice(0, 200)}` };
+            return { field, pass: score >= threshold, score, reason: verdict.reason ? String(verdict.reason) : undefined };
+        },
+    };
+}
+
+// ============================================
+// Datasets and suites
+// ============================================
+
+const CASE_TAG = 'eval-case:';
+const JUDGE_TAG = 'eval-judge';
+
+/** Read a JSONL dataset; blank lines are skipped */
+export function loadEvalDataset<I = any, O = any>(path: string): EvalCase<I, O>[] {
+    const cases: EvalCase<I, O>[] = [];
+    readFileSync(path, 'utf-8').split('\n').forEach((line, index) => {
+        if (!line.trim()) return;
+        let row: any;
+        try {
+            row = JSON.parse(line);
+        } catch (error: any) {
+            throw new GxaiError(`Invalid JSON on line ${index + 1} of ${path}: ${error.message}`);
+        }
+        if (!row || typeof row !== 'object' || !('input' in row)) {
+            throw new GxaiError(`Line ${index + 1} of ${path} has no "input"`);
+        }
+        cases.push({ id: row.id === undefined ? String(index + 1) : String(row.id), input: row.input, expected: row.expected });
+    });
+    return cases;
+}
+
+/** Import a suite file (default export, or a `suite` export); a relative dataset path resolves against the file */
+export async function loadEvalSuite(path: string): Promise<EvalSuite> {
+    const file = resolve(path);
+    const module = await import(file);
+    const suite: EvalSuite | undefined = module.default ?? module.suite;
+    if (!suite?.agent || !suite.scorers) {
+        throw new GxaiError(`${path} does not export an eval suite (export default defineEvalSuite({ ... }))`);
+    }
+    if (typeof suite.dataset === 'string' && !isAbsolute(suite.dataset)) {
+        return { ...suite, dataset: join(dirname(file), suite.dataset) };
+    }
+    return suite;
+}
+
+// ============================================
+// Running
+// ============================================
+
+function rate(passed: number, total: number): EvalRate {
+    return { passed, total, passRate: total ? passed / total : 0 };
+}
+
+function tally(scores: Array<{ key: string; pass: boolean }>): Record<string, EvalRate> {
+    const counts: Record<string, { passed: number; total: number }> = {};
+    for (const { key, pass } of scores) {
+        counts[key] ??= { passed: 0, total: 0 };
+        counts[key].total++;
+        if (pass) counts[key].passed++;
+    }
+    return Object.fromEntries(Object.entries(counts).map(([key, c]) => [key, rate(c.passed, c.total)]));
+}
+
+/** Run every case through the suite's agent and score the outputs */
+export async function runEval<I, O>(suite: EvalSuite<I, O>, options: EvalRunOptions = {}): Promise<EvalReport<I, O>> {
+    const dataset = typeof suite.dataset === 'string' ? loadEvalDataset<I, O>(suite.dataset) : suite.dataset;
+    const costTracker = options.costTracker ?? new CostTracker();
+    const agent = suite.agent.clone({ costTracker });
+    const runOptions = { ...suite.runOptions, ...options.runOptions };
+    const context: EvalContext = { suite: suite.name, costTracker, signal: options.signal };
+    const startedAt = Date.now();
+    const seen = new Set<string>();
+
+    const cases = dataset.map((item, index) => {
+        const id = item.id ?? String(index + 1);
+        if (seen.has(id)) throw new GxaiError(`Duplicate eval case id "${id}" in suite ${suite.name}`);
+        seen.add(id);
+        return { ...item, id };
+    });
+
+    const batch = await batchProcess(cases, async (item): Promise<EvalCaseResult<I, O>> => {
+        const caseStart = Date.now();
+        const sample: EvalSample<I, O> = { id: item.id, input: item.input, expected: item.expected };
+        try {
+            sample.output = await agent.run(item.input as any, {
+                ...runOptions,
+                signal: options.signal,
+                tags: [...(runOptions.tags ?? []), CASE_TAG + item.id],
+            });
+        } catch (error: any) {
+            sample.error = error?.message ?? String(error);
+        }
+        const durationMs = Date.now() - caseStart;
+
+        const scores: EvalCaseResult['scores'] = [];
+        for (const scorer of suite.scorers) {
+            let results: EvalScore[];
+            try {
+                results = [await scorer.score(sample, context)].flat();
+            } catch (error: any) {
+                results = [{ field: '*', pass: false, reason: `scorer failed: ${error?.message ?? error}` }];
+            }
+            for (const result of results) {
+                const failed = sample.error && !result.pass ? { reason: `run failed: ${sample.error}` } : {};
+                scores.push({ scorer: scorer.name, score: result.pass ? 1 : 0, ...result, ...failed });
+            }
+        }
+        return { ...sample, pass: !sample.error && scores.every(s => s.pass), scores, durationMs, costUSD: 0 };
+    }, {
+        concurrency: options.concurrency ?? suite.concurrency ?? 5,
+        onProgress: options.onProgress,
+    });
+
+    const summary = costTracker.getSummary(startedAt);
+    const results = batch.results.map(r => r.value);
+    for (const result of results) result.costUSD = summary.byTag[CASE_TAG + result.id]?.costUSD ?? 0;
+    const judgeUSD = summary.byTag[JUDGE_TAG]?.costUSD ?? 0;
+    const models = new Set(
+        costTracker.getRecent(costTracker.size)
+            .filter(r => r.timestamp >= startedAt && r.tags?.some(tag => tag.startsWith(CASE_TAG)))
+            .map(r => r.llm),
+    );
+    if (runOptions.llm) models.add(runOptions.llm);
+    const allScores = results.flatMap(r => r.scores);
+
+    const report: EvalReport<I, O> = {
+        suite: suite.name,
+        agentName: suite.agent.name,
+        models: [...models],
+        startedAt,
+        durationMs: Date.now() - startedAt,
+        summary: { ...rate(results.filter(r => r.pass).length, results.length), errors: results.filter(r => r.error).length },
+        fields: tally(allScores.map(s => ({ key: s.field, pass: s.pass }))),
+        scorers: tally(allScores.map(s => ({ key: s.scorer, pass: s.pass }))),
+        cost: { totalUSD: summary.totalCostUSD, agentUSD: Math.round((summary.totalCostUSD - judgeUSD) * 1_000_000) / 1_000_000, judgeUSD, totalTokens: summary.totalTokens },
+        cases: results,
+    };
+
+    if (options.baseline) {
+        const baseline = typeof options.baseline === 'string'
+            ? JSON.parse(readFileSync(options.baseline, 'utf-8')) as EvalReport
+            : options.baseline;
+        report.baseline = { startedAt: baseline.startedAt, passRate: baseline.summary.passRate, fields: baseline.fields };
+        report.regressions = compareToBaseline(report, baseline, options.tolerance);
+    }
+    return report;
+}
+
+/**
+ * Regressions from `baseline` to `report`: cases that passed and now fail, and
+ * fields whose pass rate dropped by more than `tolerance`.
+ */
+export function compareToBaseline(report: EvalReport, baseline: EvalReport, tolerance = 0): EvalRegression[] {
+    const regressions: EvalRegression[] = [];
+    const passedBefore = new Set(baseline.cases.filter(c => c.pass).map(c => c.id));
+    for (const result of report.cases) {
+        if (result.pass || !passedBefore.has(result.id)) continue;
+        const reasons = result.scores.filter(s => !s.pass).map(s => `${s.scorer} ${s.field}: ${s.reason ?? 'failed'}`);
+        regressions.push({ kind: 'case', id: result.id, reasons });
+    }
+    for (const [field, before] of Object.entries(baseline.fields)) {
+        const current = report.fields[field]?.passRate ?? 0;
+        if (before.passRate - current > tolerance) {
+            regressions.push({ kind: 'field', field, baseline: before.passRate, current });
+        }
+    }
+    return regressions;
+}
+
+// ============================================
+// Reports
+// ============================================
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/** Markdown report: summary, per-field and per-scorer pass rates, regressions and failures */
+export function formatEvalMarkdown(report: EvalReport): string {
+    const lines = [
+        `# Eval: ${report.suite}`,
+        '',
+        `Agent \`${report.agentName ?? 'unnamed'}\`${report.models.length ? ` on ${report.models.map(m => `\`${m}\``).join(', ')}` : ''} · ${new Date(report.startedAt).toISOString()}`,
+        '',
+        '| Cases | Passed | Pass rate | Errors | Cost | Duration |',
+        '| ---: | ---: | ---: | ---: | ---: | ---: |',
+        `| ${report.summary.total} | ${report.summary.passed} | ${percent(report.summary.passRate)} | ${report.summary.errors} | $${report.cost.totalUSD.toFixed(6)} | ${(report.durationMs / 1000).toFixed(1)}s |`,
+        '',
+        '## Fields',
+        '',
+        `| Field | Passed | Pass rate |${report.baseline ? ' Baseline |' : ''}`,
+        `| --- | ---: | ---: |${report.baseline ? ' ---: |' : ''}`,
+        ...Object.entries(report.fields).map(([field, r]) => {
+            const before = report.baseline?.fields[field];
+            const baseline = report.baseline ? ` ${before ? percent(before.passRate) : '—'} |` : '';
+            return `| \`${cell(field)}\` | ${r.passed}/${r.total} | ${percent(r.passRate)} |${baseline}`;
+        }),
+        '',
+        '## Scorers',
+        '',
+        '| Scorer | Passed | Pass rate |',
+        '| --- | ---: | ---: |',
+        ...Object.entries(report.scorers).map(([scorer, r]) => `| ${cell(scorer)} | ${r.passed}/${r.total} | ${percent(r.passRate)} |`),
+    ];
+
+    if (report.regressions) {
+        lines.push('', '## Regressions', '');
+        if (report.regressions.length === 0) lines.push(`None (baseline pass rate ${percent(report.baseline!.passRate)}).`);
+        for (const regression of report.regressions) {
+            lines.push(regression.kind === 'case'
+                ? `- Case \`${regression.id}\` passed in the baseline and now fails: ${regression.reasons.join('; ')}`
+                : `- Field \`${regression.field}\`: ${percent(regression.baseline)} → ${percent(regression.current)}`);
+        }
+    }
+
+    const failures = report.cases.flatMap(c => c.scores.filter(s => !s.pass).map(s => ({ id: c.id, ...s })));
+    if (failures.length) {
+        lines.push('', '## Failures', '', '| Case | Scorer | Field | Reason |', '| --- | --- | --- | --- |');
+        for (const f of failures) lines.push(`| \`${cell(f.id)}\` | ${cell(f.scorer)} | \`${cell(f.field)}\` | ${cell(f.reason ?? '')} |`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/** Write `<suite>.json` and `<suite>.md` into `dir`; returns their paths */
+export function writeEvalReport(report: EvalReport, dir: string): { json: string; markdown: string } {
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    const base = join(dir, report.suite.replace(/[^\w.-]+/g, '_'));
+    const paths = { json: `${base}.json`, markdown: `${base}.md` };
+    writeFileSync(paths.json, JSON.stringify(report, null, 2));
+    writeFileSync(paths.markdown, formatEvalMarkdown(report));
+    return paths;
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+    const { z } = await import('zod');
+    const context = { suite: 's', costTracker: new CostTracker() };
+    const sample = (output: any, expected?: any): EvalSample => ({ id: '1', input: {}, output, expected });
+    const score = async (scorer: Scorer, s: EvalSample) => [await scorer.score(s, context)].flat();
+
+    test('exactMatch checks every expected field, or the named ones', async () => {
+        const s = sample({ answer: 'Paris', meta: { lang: 'fr' }, extra: 1 }, { answer: 'paris ', meta: { lang: 'fr' } });
+        expect((await score(exactMatch(), s)).map(r => [r.field, r.pass])).toEqual([['answer', false], ['meta', true]]);
+        expect((await score(exactMatch('answer', { ignoreCase: true, trim: true }), s))[0]!.pass).toBe(true);
+        expect((await score(exactMatch('meta.lang'), s))[0]).toEqual({ field: 'meta.lang', pass: true });
+        expect((await score(exactMatch('answer'), s))[0]!.reason).toBe('expected "paris ", got "Paris"');
+    });
+
+    test('regexMatch and numericTolerance', async () => {
+        const s = sample({ answer: 'It is 42 degrees', value: 10.4 }, { answer: '\\d+ degrees', value: 10 });
+        expect((await score(regexMatch('answer'), s))[0]!.pass).toBe(true);
+        expect((await score(regexMatch('answer', /^Cold/), s))[0]!.pass).toBe(false);
+        expect((await score(numericTolerance('value', { tolerance: 0.5 }), s))[0]!.pass).toBe(true);
+        expect((await score(numericTolerance('value', { tolerance: 0.01, relative: true }), s))[0]!.pass).toBe(false);
+        expect((await score(numericTolerance('value'), sample(undefined, { value: 1 })))[0]!.reason).toContain('got nothing');
+    });
+
+    test('zodCheck reports refinement messages and can use the sample', async () => {
+        const s = sample({ items: [1, 2] }, { count: 3 });
+        const length = zodCheck(({ expected }) => z.array(z.number()).length(expected!.count, 'wrong count'), { field: 'items' });
+        expect(await score(length, s)).toEqual([{ field: 'items', pass: false, reason: 'wrong count' }]);
+        const positive = zodCheck(z.object({ items: z.array(z.number().positive()) }), { name: 'positive' });
+        expect(positive.name).toBe('positive');
+        expect((await score(positive, s))[0]).toEqual({ field: '*', pass: true });
+    });
+
+    test('compareToBaseline finds failing cases and field drops', () => {
+        const report = (fields: Record<string, EvalRate>, cases: any[]) => ({ fields, cases } as EvalReport);
+        const baseline = report({ answer: rate(2, 2), tone: rate(1, 2) }, [{ id: 'a', pass: true }, { id: 'b', pass: false }]);
+        const current = report({ answer: rate(1, 2), tone: rate(1, 2) }, [
+            { id: 'a', pass: false, scores: [{ scorer: 'exact', field: 'answer', pass: false, reason: 'expected "x"' }] },
+            { id: 'b', pass: false, scores: [] },
+        ]);
+        expect(compareToBaseline(current, baseline)).toEqual([
+            { kind: 'case', id: 'a', reasons: ['exact answer: expected "x"'] },
+            { kind: 'field', field: 'answer', baseline: 1, current: 0.5 },
+        ]);
+        expect(compareToBaseline(current, baseline, 0.5)).toHaveLength(1);
+    });
+}
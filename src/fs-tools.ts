@@ -228,7 +228,8 @@ export function serveFileSystemMCP(config: FileSystemConfig & { port: number })
         mcpServer: {
             name: `local_fs_mcp`,
             description: `Local FileSystem MCP sandbox via port ${server.port}`,
-            url: `http://localhost:${server.port}`
+            url: `http://localhost:${server.port}`,
+            legacyRest: true
         }
     };
 }
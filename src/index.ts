@@ -9,7 +9,11 @@ export * from './types';
 
 // Agents
 export { Agent } from './agent';
-export type { MiddlewareContext, AgentMiddleware, RunEvent, RunEventCallback, StreamChunk } from './agent';
+export type { MiddlewareContext, AgentMiddleware, RunEvent, RunEventCallback, RunOptions, StreamChunk } from './agent';
+
+// Agent Spec Files
+export { loadAgent, loadToolModule, agentFromSpec, parseAgentSpec, jsonSchemaToZod, AgentSpecSchema } from './agent-spec';
+export type { AgentSpec, GuardrailRuleSpec, ToolRefSpec, LoadAgentOptions, AgentFromSpecOptions, SpecAgent } from './agent-spec';
 
 // Sandbox Code Execution
 export { createSandboxTools, serveSandboxMCP } from './sandbox';
@@ -20,27 +24,51 @@ export { AgentMock } from './mock-engine';
 export type { AgentMockConfig, MockSequenceItem } from './mock-engine';
 
 // Errors
-export { GxaiError, BudgetExceededError, ValidationError, ProviderError, AuthorizationError, MaxIterationsError, TimeoutError } from './errors';
+export { GxaiError, BudgetExceededError, ValidationError, ProviderError, AuthorizationError, MaxIterationsError, TimeoutError, CancelledError, MCPError, ApprovalRequiredError, InputResolutionError, AgentSpecError, GuardrailError } from './errors';
 
 // Inference
-export { callLLM, lastTokenUsage, callLLMWithFallback, OpenAIResponseSchema, AnthropicResponseSchema, GeminiResponseSchema, pingProvider, getProviderEndpoint, clearHealthCache } from './inference';
-export type { FallbackConfig, ProviderHealthResult } from './inference';
+export { callLLM, callLLMDetailed, streamLLM, llmStreamToSSE, callLLMWithTools, supportsNativeTools, lastTokenUsage, callLLMWithFallback, OpenAIResponseSchema, AnthropicResponseSchema, GeminiResponseSchema, pingProvider, getProviderEndpoint, clearHealthCache } from './inference';
+export type { CallLLMOptions, LLMStream, FallbackConfig, ProviderHealthResult } from './inference';
+
+// Providers
+export { registerProvider, unregisterProvider, getProvider, listProviders, resolveProvider } from './providers';
+export type { ProviderAdapter, ProviderCapabilities, ProviderRequestContext, ProviderRequest, ProviderResponse, ProviderStreamDelta, ProviderStreamParser } from './providers';
+export { openaiProvider, buildOpenAIChatBody, toOpenAIMessages, parseOpenAIResponse, extractOpenAIUsage, createOpenAIStreamParser } from './providers/openai';
+export { anthropicProvider } from './providers/anthropic';
+export { deepseekProvider } from './providers/deepseek';
+export { geminiProvider } from './providers/gemini';
+export { createLocalProvider, listLocalModels, localProviderConfigFromEnv } from './providers/local';
+export type { LocalProviderConfig } from './providers/local';
 
 // Cache
-export { cachedCallLLM, clearCache, getCacheSize, getCacheStats } from './cache';
-export type { CacheConfig } from './cache';
+export { cachedCallLLM, cachedCallLLMDetailed, clearCache, getCacheSize, getCacheStats } from './cache';
+export type { CacheConfig, CachedLLMCallResult } from './cache';
 
 // MCP
-export { discoverTools, invokeTool } from './mcp';
+export { discoverTools, invokeTool, getMCPClient, closeMCPClients, mcpToolResultValue, discoverResources, readResource, resourceContentsText, discoverPrompts, getPrompt } from './mcp';
+export { MCPClient, StdioTransport, MCP_PROTOCOL_VERSION, SUPPORTED_MCP_PROTOCOL_VERSIONS } from './mcp-client';
+export type { MCPTransport, MCPServerCapabilities, MCPContent, MCPCallToolResult, MCPProgress, MCPRequestOptions, MCPResource, MCPResourceContents, MCPPrompt, MCPPromptMessage, MCPGetPromptResult, MCPClientOptions, StdioTransportConfig, JsonRpcMessage } from './mcp-client';
+export { StreamableHTTPTransport, parseSSE } from './mcp-http';
+export type { StreamableHTTPTransportConfig, MCPFetch } from './mcp-http';
+export type { MCPConnectOptions } from './mcp';
+export { serveMCP } from './mcp-server';
+export type { ServeMCPOptions, MCPServerHandle } from './mcp-server';
 
 // Payments
-export { fetchWithPayment } from './payments';
+export { fetchWithPayment, createPaymentFetch } from './payments';
 
 // XML
 export { objToXml, xmlToObj } from './xml';
 
+// Output Schemas
+export { outputJsonSchema, describeOutputFormat, describeOutputFields, coerceToSchema } from './output-schema';
+export { parsePartialJSON, closePartialXML, pickPresent } from './partial-json';
+export type { DeepPartial } from './partial-json';
+
 // Validation
 export { validateUrl, validateNoArrays, getSchemaTypeName } from './validation';
+export { validateToolParams } from './tool-params';
+export type { ToolParamsValidation } from './tool-params';
 
 // Utils
 export { generateRequestId } from './utils';
@@ -81,7 +109,7 @@ export { CostTracker, costTracker } from './cost-tracker';
 export type { CostRecord, CostSummary } from './cost-tracker';
 
 // Prompt Templates
-export { createTemplate, composeTemplates, TEMPLATES } from './templates';
+export { createTemplate, composeTemplates, loadMCPPrompt, TEMPLATES } from './templates';
 export type { PromptTemplate, TemplateConfig } from './templates';
 
 // Tool Authorization
@@ -144,6 +172,10 @@ export type { ResponseCacheConfig, CacheStats } from './response-cache';
 export { batchProcess, chunk, sequentialProcess } from './batch-processor';
 export type { BatchConfig, BatchResult } from './batch-processor';
 
+// Evaluation
+export { defineEvalSuite, runEval, loadEvalSuite, loadEvalDataset, compareToBaseline, formatEvalMarkdown, writeEvalReport, exactMatch, regexMatch, numericTolerance, zodCheck, llmJudge } from './eval';
+export type { EvalCase, EvalSample, EvalScore, EvalContext, Scorer, EvalSuite, EvalRunOptions, EvalCaseResult, EvalRate, EvalRegression, EvalReport, LLMJudgeOptions } from './eval';
+
 // Dependency Injection
 export { DIContainer } from './di';
 export type { Factory, Registration } from './di';
@@ -175,6 +207,25 @@ export type { MemoryEntry, MemoryConfig, SearchResult } from './conversation-mem
 // Tool Registry
 export { ToolRegistry } from './tool-registry';
 export type { ToolDefinition, ToolInfo } from './tool-registry';
+export { defineTool, zodToToolSchema } from './define-tool';
+export type { DefineToolConfig, DefinedTool } from './define-tool';
+export { createToolContext } from './tool-context';
+
+// Run Traces
+export { createRunTrace, beginSpan, endSpan } from './run-trace';
+export type { RunTrace, TraceSpan, LLMSpan, ToolSpan, LLMSpanPurpose } from './run-trace';
+
+// Tool Approval
+export { PendingApproval, requiresApproval } from './approval';
+export type { ToolApprovalPolicy, ToolCallRequest, PendingToolCall, ApprovalDecision, ResumeOptions, SuspendedRun, NativeToolState } from './approval';
+
+// Input Resolvers
+export { mapParameters } from './input-resolvers';
+export type { InputResolver, InputResolvers, InputResolverFunction, FunctionInputResolver, ToolInputResolver, ParameterMapping } from './input-resolvers';
+
+// Tool Retrieval (embedding pre-filter)
+export { ToolRetriever, localEmbedder, openAIEmbedder, cosineSimilarity } from './tool-retrieval';
+export type { Embedder, ToolRetrievalConfig, RankedTool } from './tool-retrieval';
 
 // Pipeline Composer
 export { PipelineComposer, compose } from './pipeline-composer';
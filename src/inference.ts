@@ -1,157 +1,30 @@
 // src/inference.ts
 import { measure } from "measure-fn";
-import { z } from 'zod';
-import type { LLMType, LLMMessage, ImageContent, ProgressCallback, StreamingCallback, StreamingUpdate, TokenUsage } from './types';
-
-// ─── Provider Response Schemas ──────────────────────────
-// Zod schemas for validating raw LLM API responses.
-// If a provider changes their response format, the error
-// will show exactly which fields are missing/wrong.
-
-const OpenAIResponseSchema = z.object({
-  choices: z.array(z.object({
-    message: z.object({
-      content: z.string(),
-    }),
-  })).min(1, 'OpenAI response has no choices'),
-  usage: z.object({
-    prompt_tokens: z.number(),
-    completion_tokens: z.number().optional(),
-    total_tokens: z.number().optional(),
-  }).optional(),
-});
-
-const AnthropicResponseSchema = z.object({
-  content: z.array(z.object({
-    type: z.string().optional(),
-    text: z.string().optional(),
-    thinking: z.string().optional(),
-    id: z.string().optional(),
-    name: z.string().optional(),
-    input: z.any().optional(),
-  })).min(1, 'Anthropic response has no content blocks'),
-  usage: z.object({
-    input_tokens: z.number(),
-    output_tokens: z.number().optional(),
-  }).optional(),
-});
-
-const GeminiResponseSchema = z.object({
-  candidates: z.array(z.object({
-    content: z.object({
-      parts: z.array(z.object({
-        text: z.string().optional(),
-        thought: z.boolean().optional(),
-      })).min(1, 'Gemini candidate has no parts'),
-    }),
-  })).min(1, 'Gemini response has no candidates'),
-  usageMetadata: z.object({
-    promptTokenCount: z.number(),
-    candidatesTokenCount: z.number().optional(),
-    totalTokenCount: z.number().optional(),
-  }).optional(),
-});
-
-/** Validate a raw API response against the provider's expected schema */
-function validateProviderResponse(llm: string, data: any): { content: string; rawData: any } {
-  try {
-    if (llm.includes('claude')) {
-      const parsed = AnthropicResponseSchema.parse(data);
-      // Anthropic structured output: extract tool_use input as JSON
-      const toolBlock = parsed.content.find(b => b.type === 'tool_use' && b.input);
-      if (toolBlock) {
-        return { content: JSON.stringify(toolBlock.input), rawData: data };
-      }
-      // Skip thinking blocks — only return text content
-      const textBlocks = parsed.content.filter(b => b.type === 'text' && b.text);
-      const textContent = textBlocks.length > 0 ? textBlocks.map(b => b.text).join('') : '';
-      return { content: textContent || parsed.content.find(b => b.text)?.text || '', rawData: data };
-    } else if (llm.includes('gemini')) {
-      const parsed = GeminiResponseSchema.parse(data);
-      // Skip thought parts — only return the model's final answer
-      const answerParts = parsed.candidates[0]!.content.parts.filter(p => !p.thought && p.text);
-      const content = answerParts.map(p => p.text).join('');
-      return { content: content || parsed.candidates[0]!.content.parts[0]!.text || '', rawData: data };
-    } else {
-      // OpenAI / DeepSeek
-      const parsed = OpenAIResponseSchema.parse(data);
-      return { content: parsed.choices[0]!.message.content, rawData: data };
-    }
-  } catch (err: any) {
-    if (err instanceof z.ZodError) {
-      const issues = err.issues.map(i => `  ${i.path.join('.')}: ${i.message}`).join('\n');
-      throw new Error(
-        `${llm} API response format mismatch:\n${issues}\n` +
-        `Raw response (truncated): ${JSON.stringify(data).substring(0, 300)}`
-      );
-    }
-    throw err;
-  }
-}
-
+import type { LLMType, LLMMessage, ImageContent, ProgressCallback, StreamingCallback, StreamingUpdate, TokenUsage, LLMCallResult, LLMFinishReason, LLMStreamDelta, LLMToolCall, LLMToolChoice, LLMToolDefinition } from './types';
+import { resolveProvider } from './providers';
+import type { ProviderAdapter, ProviderRequestContext } from './providers';
+import { ProviderError } from './errors';
+import { parseToolArguments } from './providers/shared';
+import { OpenAIResponseSchema } from './providers/openai';
+import { AnthropicResponseSchema } from './providers/anthropic';
+import { GeminiResponseSchema } from './providers/gemini';
+
+// Provider response schemas live with their adapters in ./providers/
 export { OpenAIResponseSchema, AnthropicResponseSchema, GeminiResponseSchema };
 
-/** Last token usage from the most recent callLLM invocation */
+/**
+ * Last token usage from the most recent callLLM invocation.
+ * @deprecated Shared across concurrent calls — use `callLLMDetailed()` and read `usage` from its result.
+ */
 export let lastTokenUsage: TokenUsage | null = null;
 
-/** Extract token usage from provider-specific response format */
-function extractUsage(llm: string, data: any): TokenUsage | undefined {
-  // OpenAI / DeepSeek format
-  if (data?.usage?.prompt_tokens !== undefined) {
-    const usage: TokenUsage = {
-      inputTokens: data.usage.prompt_tokens,
-      outputTokens: data.usage.completion_tokens || 0,
-      totalTokens: data.usage.total_tokens || (data.usage.prompt_tokens + (data.usage.completion_tokens || 0)),
-    };
-    // DeepSeek R1: capture reasoning_content from the response
-    const reasoning = data?.choices?.[0]?.message?.reasoning_content;
-    if (reasoning) usage.reasoningContent = reasoning;
-    return usage;
-  }
-  // Anthropic format
-  if (data?.usage?.input_tokens !== undefined) {
-    const usage: TokenUsage = {
-      inputTokens: data.usage.input_tokens,
-      outputTokens: data.usage.output_tokens || 0,
-      totalTokens: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0),
-    };
-    // Claude extended thinking: extract thinking blocks
-    const content = data?.content;
-    if (content && Array.isArray(content)) {
-      const thoughts = content.filter((b: any) => b.type === 'thinking' && b.thinking).map((b: any) => b.thinking);
-      if (thoughts.length > 0) usage.reasoningContent = thoughts.join('\n');
-    }
-    return usage;
-  }
-  // Gemini format
-  if (data?.usageMetadata?.promptTokenCount !== undefined) {
-    const usage: TokenUsage = {
-      inputTokens: data.usageMetadata.promptTokenCount,
-      outputTokens: data.usageMetadata.candidatesTokenCount || 0,
-      totalTokens: data.usageMetadata.totalTokenCount || (data.usageMetadata.promptTokenCount + (data.usageMetadata.candidatesTokenCount || 0)),
-    };
-    // Gemini 2.5 thinking: extract thought parts from response
-    const parts = data?.candidates?.[0]?.content?.parts;
-    if (parts && Array.isArray(parts)) {
-      const thoughts = parts.filter((p: any) => p.thought && p.text).map((p: any) => p.text);
-      if (thoughts.length > 0) usage.reasoningContent = thoughts.join('\n');
-    }
-    return usage;
-  }
-  return undefined;
-}
-
 // ─── Provider Health Check ──────────────────────────────
 // Lightweight HEAD ping to detect down providers before wasting
 // time on full LLM requests in fallback chains.
 
 /** Map an LLM model name to its provider's API endpoint */
 export function getProviderEndpoint(llm: string): string {
-  if (llm.includes('claude')) return 'https://api.anthropic.com/v1/messages';
-  if (llm.includes('deepseek')) return 'https://api.deepseek.com/v1/chat/completions';
-  if (llm.includes('gemini')) return `https://generativelanguage.googleapis.com/v1beta/models/${llm}`;
-  // Default: OpenAI-compatible
-  return 'https://api.openai.com/v1/chat/completions';
+  return resolveProvider(llm).endpoint(llm);
 }
 
 /** Result of a provider health check */
@@ -222,25 +95,114 @@ export async function pingProvider(llm: string): Promise<ProviderHealthResult> {
     return result;
   }
 }
+// ─── Native Tool Calling ────────────────────────────────
+// Provider-neutral tool definitions are mapped onto each provider's native
+// format by its adapter (OpenAI `tools`, Anthropic `tool_use`, Gemini `functionDeclarations`).
+
+/** Whether a model accepts native tool definitions (otherwise use the XML prompt path) */
+export function supportsNativeTools(llm: string): boolean {
+  return resolveProvider(llm).capabilities(llm).tools;
+}
+
+/** Options accepted by callLLM() and callLLMWithTools() */
+export interface CallLLMOptions {
+  temperature?: number; maxTokens?: number; response_format?: any;
+  signal?: AbortSignal; timeoutMs?: number;
+  /** Streaming callback */
+  streaming?: StreamingCallback;
+  /** Raw text deltas of the response, while streaming */
+  onText?: (text: string) => void;
+  /** Progress callback */
+  progress?: ProgressCallback;
+  /** Custom fetch (e.g. for x402 payments) */
+  customFetch?: (url: string, options: RequestInit, measure: any, description: string, progressCallback?: ProgressCallback) => Promise<Response>;
+  /** Native tool definitions the model may call (see callLLMWithTools) */
+  tools?: LLMToolDefinition[];
+  /** Tool selection mode. Default: 'auto' when tools are given */
+  toolChoice?: LLMToolChoice;
+}
 
 export async function callLLM(
   llm: LLMType | string,
   messages: Array<LLMMessage | { role: string; content: string; cacheControl?: boolean }>,
-  options: {
-    temperature?: number; maxTokens?: number; response_format?: any;
-    signal?: AbortSignal; timeoutMs?: number;
-    /** Streaming callback */
-    streaming?: StreamingCallback;
-    /** Progress callback */
-    progress?: ProgressCallback;
-    /** Custom fetch (e.g. for x402 payments) */
-    customFetch?: (url: string, options: RequestInit, measure: any, description: string, progressCallback?: ProgressCallback) => Promise<Response>;
-  } = {},
+  options: CallLLMOptions = {},
 ): Promise<string> {
-  const { streaming: streamingCallback, progress: progressCallback, customFetch } = options;
+  return (await executeLLMCall(llm, messages, options)).content;
+}
 
-  lastTokenUsage = null;
-  const { temperature = 0.7, maxTokens = 4000, response_format, signal: userSignal, timeoutMs } = options;
+/**
+ * Call an LLM and return everything known about that one call: content, usage,
+ * reasoning, finish reason, provider, latency and the raw response.
+ * Safe under concurrency — unlike `lastTokenUsage`, nothing is shared between calls.
+ */
+export async function callLLMDetailed(
+  llm: LLMType | string,
+  messages: Array<LLMMessage | { role: string; content: string; cacheControl?: boolean }>,
+  options: CallLLMOptions = {},
+): Promise<LLMCallResult> {
+  return executeLLMCall(llm, messages, options);
+}
+
+/**
+ * Call an LLM with native tool/function calling.
+ * Returns the text content plus any structured tool calls the model made.
+ * While streaming, tool-call argument deltas are emitted as `_tool_call:<name>` fields.
+ */
+export async function callLLMWithTools(
+  llm: LLMType | string,
+  messages: Array<LLMMessage | { role: string; content: string; cacheControl?: boolean }>,
+  options: CallLLMOptions & { tools: LLMToolDefinition[] },
+): Promise<LLMCallResult> {
+  return executeLLMCall(llm, messages, options);
+}
+// ─── Request Plumbing ───────────────────────────────────
+
+/** Retries on 429/500/502/503 with exponential backoff (or the Retry-After header) */
+async function retryableFetch(fetchFn: () => Promise<Response>, maxAttempts = 3, baseDelay = 2000): Promise<Response> {
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const res = await fetchFn();
+    const retryable = [429, 500, 502, 503].includes(res.status);
+    if (!retryable || attempt === maxAttempts) return res;
+    // Parse Retry-After header (seconds) or use exponential backoff
+    const retryAfter = res.headers.get('retry-after');
+    const delayMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : baseDelay * Math.pow(2, attempt - 1);
+    await new Promise(r => setTimeout(r, delayMs));
+  }
+  throw new Error('Unreachable');
+}
+
+/** One provider request, ready to send */
+interface PreparedLLMRequest {
+  provider: ProviderAdapter;
+  ctx: ProviderRequestContext;
+  requestBody: string;
+  /** POST the request (with retries) under the combined user/timeout signal */
+  send(description: string): Promise<Response>;
+  /** Clear the timeout timer */
+  dispose(): void;
+}
+
+function prepareLLMRequest(
+  llm: LLMType | string,
+  messages: Array<LLMMessage | { role: string; content: string; cacheControl?: boolean }>,
+  options: CallLLMOptions,
+  stream: boolean,
+): PreparedLLMRequest {
+  const { temperature = 0.7, maxTokens = 4000, response_format, signal: userSignal, timeoutMs, progress: progressCallback, customFetch } = options;
+  const provider = resolveProvider(llm);
+  const tools = options.tools?.length ? options.tools : undefined;
+  const ctx: ProviderRequestContext = {
+    model: llm,
+    messages: messages as LLMMessage[],
+    temperature,
+    maxTokens,
+    responseFormat: response_format,
+    tools,
+    toolChoice: tools ? options.toolChoice : undefined,
+    stream,
+  };
+  const { url, headers, body } = provider.buildRequest(ctx);
+  const requestBody = JSON.stringify(body);
 
   // Build abort signal: combine user signal + timeout
   let timeoutId: ReturnType<typeof setTimeout> | undefined;
@@ -253,440 +215,327 @@ export async function callLLM(
       : timeoutController.signal;
   }
 
-  try {
-
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-    };
-    let url = "";
-    let body: Record<string, any> = {};
-
-    if (llm.includes("claude")) {
-      if (!process.env.ANTHROPIC_API_KEY && process.env.NODE_ENV !== "test") throw new Error("ANTHROPIC_API_KEY environment variable is required");
-      headers["x-api-key"] = process.env.ANTHROPIC_API_KEY || "test";
-      headers["anthropic-version"] = "2023-06-01";
-      url = "https://api.anthropic.com/v1/messages";
-
-      const systemMessages = messages.filter(m => m.role === "system");
-      let systemParam: string | any[] | undefined = undefined;
-      if (systemMessages.length === 1 && !systemMessages[0]!.cacheControl) {
-        systemParam = systemMessages[0]!.content;
-      } else if (systemMessages.length > 0) {
-        systemParam = systemMessages.map(m => {
-          const block: any = { type: "text", text: m.content };
-          if (m.cacheControl) block.cache_control = { type: "ephemeral" };
-          return block;
-        });
-      }
+  // Use customFetch (for x402 payment flow) or plain fetch
+  const doFetch = customFetch
+    ? (u: string, o: RequestInit, desc: string) => customFetch(u, o, null, desc, progressCallback)
+    : (u: string, o: RequestInit, _desc: string) => fetch(u, o);
+
+  return {
+    provider,
+    ctx,
+    requestBody,
+    send: (description) => retryableFetch(() => doFetch(url, { method: "POST", headers, body: requestBody, signal: fetchSignal }, description)),
+    dispose: () => { if (timeoutId) clearTimeout(timeoutId); },
+  };
+}
 
-      const anthropicMessages = messages.filter(m => m.role !== "system").map(m => {
-        const images = (m as LLMMessage).images;
-        if (images && images.length > 0) {
-          // Multimodal: build content array with image + text parts
-          const contentParts: any[] = images.map(img => {
-            if (img.data) {
-              return { type: "image", source: { type: "base64", media_type: img.mimeType || 'image/png', data: img.data } };
-            }
-            // URL — Anthropic requires base64, but supports URL via url source type
-            return { type: "image", source: { type: "url", url: img.url } };
-          });
-          contentParts.push({ type: "text", text: m.content });
-          if (m.cacheControl) {
-            contentParts[contentParts.length - 1].cache_control = { type: "ephemeral" };
-          }
-          return { role: m.role, content: contentParts };
-        }
-        if (m.cacheControl) {
-          return {
-            role: m.role,
-            content: [
-              { type: "text", text: m.content, cache_control: { type: "ephemeral" } }
-            ]
-          };
-        }
-        return { role: m.role, content: m.content };
-      });
+/** Per-call aggregate before provider/model/latency are attached */
+type LLMCallAggregate = Omit<LLMCallResult, 'provider' | 'model' | 'latencyMs'>;
 
-      // Claude extended thinking: enable for Sonnet 4+ and Opus models
-      const supportsThinking = llm.includes('claude-sonnet-4') || llm.includes('claude-opus');
-
-      body = {
-        model: llm,
-        max_tokens: maxTokens,
-        messages: anthropicMessages,
-        stream: !!streamingCallback,
-        ...(systemParam !== undefined && { system: systemParam }),
-        ...(supportsThinking && { thinking: { type: 'enabled', budget_tokens: 10000 } }),
-      };
-
-      // Anthropic structured output: use tool_use with forced tool_choice
-      if (response_format?.type === 'json_schema' && response_format.json_schema?.schema) {
-        const toolName = response_format.json_schema.name || 'structured_output';
-        (body as any).tools = [{
-          name: toolName,
-          description: 'Return structured output matching the required schema',
-          input_schema: response_format.json_schema.schema,
-        }];
-        (body as any).tool_choice = { type: 'tool', name: toolName };
-      }
-    } else if (llm.includes("deepseek")) {
-      if (!process.env.DEEPSEEK_API_KEY && process.env.NODE_ENV !== "test") throw new Error("DEEPSEEK_API_KEY environment variable is required");
-      headers["Authorization"] = `Bearer ${process.env.DEEPSEEK_API_KEY || "test"}`;
-      url = "https://api.deepseek.com/v1/chat/completions";
-      const cleanMessages = messages.map(m => ({ role: m.role, content: m.content }));
-      // DeepSeek does not support vision — strip images silently
-      body = { model: llm, temperature, messages: cleanMessages, max_tokens: maxTokens, stream: !!streamingCallback, ...(streamingCallback && { stream_options: { include_usage: true } }) };
-    } else if (llm.includes("gemini")) {
-      // Gemini REST API — self-contained with measure.retry for rate limits
-      const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
-      if (!apiKey && process.env.NODE_ENV !== "test") throw new Error("GEMINI_API_KEY or GOOGLE_API_KEY is required");
-      headers["x-goog-api-key"] = apiKey || "test";
-      url = `https://generativelanguage.googleapis.com/v1beta/models/${llm}:generateContent`;
-
-      // Convert messages to Gemini contents/parts format
-      const systemMsgs = messages.filter(m => m.role === "system");
-      const systemInstruction = systemMsgs.length > 0 ? systemMsgs.map(m => m.content).join("\n\n") : undefined;
-      const nonSystemMsgs = messages.filter(m => m.role !== "system" && m.content?.trim());
-
-      // Merge consecutive same-role messages (Gemini rejects them)
-      const contents: Array<{ role: string; parts: any[] }> = [];
-      for (const m of nonSystemMsgs) {
-        const role = m.role === "assistant" ? "model" : "user";
-        const images = (m as LLMMessage).images;
-
-        // Build parts: images first (as inlineData), then text
-        const parts: any[] = [];
-        if (images && images.length > 0) {
-          for (const img of images) {
-            if (img.data) {
-              parts.push({ inlineData: { mimeType: img.mimeType || 'image/png', data: img.data } });
-            } else if (img.url) {
-              // Gemini supports fileData with fileUri for GCS, otherwise use URL as text hint
-              parts.push({ text: `[Image: ${img.url}]` });
-            }
-          }
-        }
-        parts.push({ text: m.content });
+/**
+ * Read a provider SSE response as typed deltas, pulling from the body only as
+ * fast as the consumer iterates. Returns the aggregate once the stream ends.
+ */
+async function* readLLMStream(response: Response, req: PreparedLLMRequest): AsyncGenerator<LLMStreamDelta, LLMCallAggregate> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("No readable stream available");
+  }
 
-        const last = contents[contents.length - 1];
-        if (last && last.role === role) {
-          last.parts.push(...parts);
-        } else {
-          contents.push({ role, parts });
+  const decoder = new TextDecoder();
+  const parseEvent = req.provider.createStreamParser(req.ctx);
+  const rawEvents: unknown[] = [];
+  let buffer = "";
+  let content = "";
+  let reasoning = "";
+  let finishReason: LLMFinishReason | undefined;
+
+  // Track streaming usage across SSE events
+  const streamUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  let hasStreamUsage = false;
+
+  // Native tool calls arrive as argument fragments keyed by block/call index
+  const streamToolCalls = new Map<number, { id: string; name: string; args: string }>();
+
+  /** Turn one SSE line into public deltas, updating the aggregate */
+  const parseSseLine = (line: string): LLMStreamDelta[] => {
+    if (!line.startsWith("data: ") || line.includes("[DONE]")) return [];
+    let deltas;
+    try {
+      const event = JSON.parse(line.slice(6));
+      rawEvents.push(event);
+      deltas = parseEvent(event);
+    } catch (e) {
+      return [];
+    }
+    const out: LLMStreamDelta[] = [];
+    for (const delta of deltas) {
+      switch (delta.type) {
+        case 'text':
+          content += delta.text;
+          out.push(delta);
+          break;
+        case 'reasoning':
+          reasoning += delta.text;
+          out.push(delta);
+          break;
+        case 'tool_call_start':
+          streamToolCalls.set(delta.index, { id: delta.id, name: delta.name, args: "" });
+          break;
+        case 'tool_call_delta': {
+          const entry = streamToolCalls.get(delta.index);
+          if (!entry) break;
+          entry.args += delta.arguments;
+          out.push({ type: 'tool_call', index: delta.index, id: entry.id, name: entry.name, argumentsDelta: delta.arguments });
+          break;
         }
+        case 'usage':
+          Object.assign(streamUsage, delta.usage);
+          if (delta.usage.totalTokens === undefined) streamUsage.totalTokens = streamUsage.inputTokens + streamUsage.outputTokens;
+          hasStreamUsage = true;
+          out.push({ type: 'usage', usage: { ...streamUsage } });
+          break;
+        case 'finish':
+          finishReason = delta.reason;
+          break;
       }
+    }
+    return out;
+  };
 
-      const generationConfig: Record<string, any> = { temperature, maxOutputTokens: maxTokens };
-
-      // Gemini structured output: convert OpenAI-style json_schema to Gemini responseSchema
-      if (response_format?.type === 'json_schema' && response_format.json_schema?.schema) {
-        generationConfig.responseMimeType = 'application/json';
-        generationConfig.responseSchema = response_format.json_schema.schema;
-      }
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
 
-      // Gemini 2.5 thinking: include thought parts in response
-      if (llm.includes('gemini-2.5') || llm.includes('gemini-3')) {
-        generationConfig.thinkingConfig = { includeThoughts: true };
-      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
 
-      body = {
-        contents,
-        generationConfig,
-        ...(systemInstruction && { systemInstruction: { parts: [{ text: systemInstruction }] } }),
-      };
-
-      const requestBodyStr = JSON.stringify(body);
-
-      if (streamingCallback) {
-        // Gemini streaming via SSE endpoint
-        const streamUrl = `https://generativelanguage.googleapis.com/v1beta/models/${llm}:streamGenerateContent?alt=sse`;
-        const res = await fetch(streamUrl, { method: "POST", headers, body: requestBodyStr, signal: fetchSignal });
-        if (res.status === 429) throw new Error(`Rate limited (429)`);
-
-        const reader = res.body?.getReader();
-        if (!reader) throw new Error("No readable stream from Gemini");
-
-        const decoder = new TextDecoder();
-        let fullResponse = "";
-        let sseBuffer = "";
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          sseBuffer += decoder.decode(value, { stream: true });
-          const lines = sseBuffer.split("\n");
-          sseBuffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (!line.startsWith("data: ")) continue;
-            const jsonStr = line.slice(6).trim();
-            if (!jsonStr || jsonStr === "[DONE]") continue;
-            try {
-              const chunk = JSON.parse(jsonStr);
-              const parts = chunk?.candidates?.[0]?.content?.parts;
-              if (parts && Array.isArray(parts)) {
-                for (const part of parts) {
-                  if (part.thought && part.text) {
-                    // Gemini 2.5 thinking: emit as _reasoning
-                    streamingCallback({ stage: "streaming", field: "_reasoning", value: part.text });
-                  } else if (part.text) {
-                    fullResponse += part.text;
-                    streamingCallback({ stage: "streaming", field: "content", value: part.text });
-                  }
-                }
-              }
-              // Extract usage from last chunk
-              if (chunk?.usageMetadata) {
-                lastTokenUsage = extractUsage(llm, chunk) || null;
-              }
-            } catch { /* skip malformed chunks */ }
-          }
-        }
+      for (const line of lines) yield* parseSseLine(line);
+    }
+    if (buffer) yield* parseSseLine(buffer);
+  } finally {
+    // Also runs when the consumer stops early — stop pulling from the connection
+    await reader.cancel().catch(() => { });
+  }
 
-        // Fallback: estimate usage if provider didn't include usageMetadata
-        if (!lastTokenUsage && fullResponse.length > 0) {
-          const inputChars = requestBodyStr.length;
-          const outputChars = fullResponse.length;
-          lastTokenUsage = {
-            inputTokens: Math.ceil(inputChars / 4),
-            outputTokens: Math.ceil(outputChars / 4),
-            totalTokens: Math.ceil(inputChars / 4) + Math.ceil(outputChars / 4),
-          };
-        }
+  let usage: TokenUsage | undefined = hasStreamUsage ? streamUsage : undefined;
+  if (!usage && content.length > 0) {
+    // Fallback: estimate usage when provider didn't send usage events (~4 chars/token)
+    const inputTokens = Math.ceil(req.requestBody.length / 4);
+    const outputTokens = Math.ceil(content.length / 4);
+    usage = { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+    yield { type: 'usage', usage: { ...usage } };
+  }
+  yield { type: 'finish', reason: finishReason };
 
-        return fullResponse;
-      }
+  const toolCalls: LLMToolCall[] = [...streamToolCalls.values()].map(entry => ({
+    id: entry.id, name: entry.name, arguments: parseToolArguments(entry.args),
+  }));
+  return { content, usage, toolCalls, finishReason, reasoningContent: reasoning || undefined, rawResponse: rawEvents };
+}
 
-      // Non-streaming Gemini
-      return (await measure.retry(`Gemini ${llm}`, { attempts: 4, delay: 5000, backoff: 2 }, async () => {
-        const res = await fetch(url, { method: "POST", headers, body: requestBodyStr, signal: fetchSignal });
+// ─── Streaming API ──────────────────────────────────────
 
-        if (res.status === 429) {
-          throw new Error(`Rate limited (429) — will retry`);
-        }
+/** Async-iterable LLM stream returned by streamLLM() */
+export interface LLMStream extends AsyncIterable<LLMStreamDelta> {
+  /** Aggregated result once the stream ends; reads any deltas not yet consumed */
+  final(): Promise<LLMCallResult>;
+}
 
-        const data = await res.json() as any;
-        const { content: text, rawData } = validateProviderResponse(llm, data);
-        lastTokenUsage = extractUsage(llm, rawData) || null;
-        return text;
-      }))!;
-    } else {
-      if (!process.env.OPENAI_API_KEY && process.env.NODE_ENV !== "test") throw new Error("OPENAI_API_KEY environment variable is required");
-      headers["Authorization"] = `Bearer ${process.env.OPENAI_API_KEY || "test"}`;
-      url = "https://api.openai.com/v1/chat/completions";
-      const openaiMessages = messages.map(m => {
-        const images = (m as LLMMessage).images;
-        if (images && images.length > 0) {
-          // Multimodal: content becomes array of parts
-          const contentParts: any[] = images.map(img => {
-            if (img.url) {
-              return { type: "image_url", image_url: { url: img.url } };
-            }
-            // Base64 to data URI
-            const mime = img.mimeType || 'image/png';
-            return { type: "image_url", image_url: { url: `data:${mime};base64,${img.data}` } };
-          });
-          contentParts.push({ type: "text", text: m.content });
-          return { role: m.role, content: contentParts };
-        }
-        return { role: m.role, content: m.content };
-      });
-      if (llm.includes('o4-')) {
-        body = { model: llm, temperature: 1.0, messages: openaiMessages, max_completion_tokens: maxTokens, stream: !!streamingCallback, ...(streamingCallback && { stream_options: { include_usage: true } }) };
-      } else {
-        body = { model: llm, temperature, messages: openaiMessages, max_tokens: maxTokens, stream: !!streamingCallback, ...(streamingCallback && { stream_options: { include_usage: true } }) };
-      }
-      if (response_format) {
-        body.response_format = response_format;
+/**
+ * Stream an LLM call as typed deltas (`text`, `reasoning`, `tool_call`, `usage`, `finish`).
+ * The request is sent when iteration starts, and the response body is read only
+ * as fast as the consumer pulls. Abort with `options.signal`, or stop iterating.
+ *
+ * ```ts
+ * const stream = streamLLM('gpt-4o-mini', messages, { signal });
+ * for await (const delta of stream) if (delta.type === 'text') process.stdout.write(delta.text);
+ * const { usage, finishReason } = await stream.final();
+ * ```
+ */
+export function streamLLM(
+  llm: LLMType | string,
+  messages: Array<LLMMessage | { role: string; content: string; cacheControl?: boolean }>,
+  options: Omit<CallLLMOptions, 'streaming'> = {},
+): LLMStream {
+  let iterator: AsyncGenerator<LLMStreamDelta, void> | undefined;
+  let result: LLMCallResult | undefined;
+
+  async function* run(): AsyncGenerator<LLMStreamDelta, void> {
+    const startTime = performance.now();
+    const req = prepareLLMRequest(llm, messages, options, true);
+    try {
+      const response = await req.send(`HTTP ${llm} streaming`);
+      if (!response.ok) {
+        throw new ProviderError(`${llm} streaming request failed: ${response.status} ${await response.text()}`, req.provider.name, response.status);
       }
+      const aggregate = yield* readLLMStream(response, req);
+      result = { ...aggregate, provider: req.provider.name, model: llm, latencyMs: Math.round(performance.now() - startTime) };
+    } finally {
+      req.dispose();
     }
+  }
+
+  return {
+    [Symbol.asyncIterator]() {
+      if (iterator) throw new Error('An LLMStream can only be iterated once');
+      iterator = run();
+      return iterator;
+    },
+    async final() {
+      iterator ??= run();
+      while (!(await iterator.next()).done) { /* drain */ }
+      if (!result) throw new Error(`${llm} stream ended before completion`);
+      return result;
+    },
+  };
+}
 
-    const requestBodyStr = JSON.stringify(body);
-
-    // Use customFetch (for x402 payment flow) or plain fetch
-    const doFetch = customFetch
-      ? (u: string, o: RequestInit, desc: string) => customFetch(u, o, null, desc, progressCallback)
-      : (u: string, o: RequestInit, _desc: string) => fetch(u, o);
-
-    // Retryable fetch: retries on 429/500/502/503 with exponential backoff
-    const retryableFetch = async (fetchFn: () => Promise<Response>, maxAttempts = 3, baseDelay = 2000): Promise<Response> => {
-      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        const res = await fetchFn();
-        const retryable = [429, 500, 502, 503].includes(res.status);
-        if (!retryable || attempt === maxAttempts) return res;
-        // Parse Retry-After header (seconds) or use exponential backoff
-        const retryAfter = res.headers.get('retry-after');
-        const delayMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : baseDelay * Math.pow(2, attempt - 1);
-        await new Promise(r => setTimeout(r, delayMs));
+/**
+ * Serve an LLMStream as Server-Sent Events: one `data:` line per delta, then
+ * `{ type: 'result', result }` and `[DONE]`. Pull-based, so a slow client slows the upstream read.
+ */
+export function llmStreamToSSE(stream: LLMStream): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = stream[Symbol.asyncIterator]();
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, data: unknown) =>
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (!done) {
+          send(controller, value);
+          return;
+        }
+        send(controller, { type: 'result', result: await stream.final() });
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      } catch (err: any) {
+        send(controller, { type: 'error', error: err.message });
       }
-      throw new Error('Unreachable');
-    };
+      controller.close();
+    },
+    async cancel() {
+      await iterator.return?.(undefined);
+    },
+  });
+}
 
-    if (!streamingCallback) {
-      const content = await measure.assert(`LLM call ${llm}`, async () => {
-        const res = await retryableFetch(() => doFetch(url, { method: "POST", headers, body: requestBodyStr, signal: fetchSignal }, `HTTP ${llm} API`));
-        const data = await res.json() as any;
-        const { content, rawData } = validateProviderResponse(llm, data);
-        lastTokenUsage = extractUsage(llm, rawData) || null;
-        return content;
-      });
-      return content ?? '';
-    } else {
-      const response = await retryableFetch(() => doFetch(url, { method: "POST", headers, body: requestBodyStr, signal: fetchSignal }, `HTTP ${llm} streaming`));
+// ─── Call Execution ─────────────────────────────────────
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error("No readable stream available");
-      }
+async function executeLLMCall(
+  llm: LLMType | string,
+  messages: Array<LLMMessage | { role: string; content: string; cacheControl?: boolean }>,
+  options: CallLLMOptions,
+): Promise<LLMCallResult> {
+  const { streaming: streamingCallback } = options;
 
-      const decoder = new TextDecoder();
-      let fullResponse = "";
-      let buffer = "";
-      let tagStack: string[] = [];
-      let currentTagName = "";
-      let wordBuffer = "";
-      let insideTag = false;
-
-      // Track streaming usage across SSE events
-      const streamUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
-      let hasStreamUsage = false;
-
-      const parseSseLine = (line: string): string => {
-        if (!line.startsWith("data: ") || line.includes("[DONE]")) return "";
-        try {
-          const data = JSON.parse(line.slice(6));
-
-          // Extract usage from streaming chunks
-          if (llm.includes("claude")) {
-            // Anthropic: message_start has input_tokens, message_delta has output_tokens
-            if (data.type === "message_start" && data.message?.usage) {
-              streamUsage.inputTokens = data.message.usage.input_tokens || 0;
-              hasStreamUsage = true;
-            }
-            if (data.type === "message_delta" && data.usage) {
-              streamUsage.outputTokens = data.usage.output_tokens || 0;
-              streamUsage.totalTokens = streamUsage.inputTokens + streamUsage.outputTokens;
-              hasStreamUsage = true;
-            }
-            // Track the current content block type for thinking vs text
-            if (data.type === "content_block_start" && data.content_block?.type === "thinking") {
-              // Mark we're in a thinking block — use a transient flag
-              (streamUsage as any).__thinkingBlock = true;
-            }
-            if (data.type === "content_block_start" && data.content_block?.type === "text") {
-              (streamUsage as any).__thinkingBlock = false;
-            }
-            if (data.type === "content_block_delta") {
-              // Claude thinking: delta.thinking for thinking blocks
-              if (data.delta?.thinking && streamingCallback) {
-                streamingCallback({ stage: "streaming", field: "_reasoning", value: data.delta.thinking });
-                return "";
-              }
-              return data.delta?.text || "";
-            }
-            return "";
-          } else {
-            // OpenAI / DeepSeek: usage appears in final chunk when stream_options.include_usage is true
-            if (data.usage) {
-              streamUsage.inputTokens = data.usage.prompt_tokens || 0;
-              streamUsage.outputTokens = data.usage.completion_tokens || 0;
-              streamUsage.totalTokens = data.usage.total_tokens || (streamUsage.inputTokens + streamUsage.outputTokens);
-              hasStreamUsage = true;
-            }
-            // DeepSeek R1: emit reasoning_content as separate streaming field
-            const reasoning = data.choices?.[0]?.delta?.reasoning_content;
-            if (reasoning && streamingCallback) {
-              streamingCallback({ stage: "streaming", field: "_reasoning", value: reasoning });
-            }
-            return data.choices?.[0]?.delta?.content || "";
-          }
-        } catch (e) {
-          return "";
-        }
-      };
-
-      const processChunk = (chunk: string) => {
-        fullResponse += chunk;
-
-        for (const char of chunk) {
-          if (char === "<") {
-            if (wordBuffer && tagStack.length > 0) {
-              streamingCallback?.({ stage: "streaming", field: tagStack.join("_"), value: wordBuffer });
-            }
-            wordBuffer = "";
-            insideTag = true;
-            currentTagName = "";
-          } else if (char === ">" && insideTag) {
-            insideTag = false;
-            if (currentTagName.startsWith("/")) {
-              tagStack.pop();
-            } else if (currentTagName.trim()) {
-              tagStack.push(currentTagName.trim());
-            }
-            currentTagName = "";
-            wordBuffer = "";
-          } else if (insideTag) {
-            currentTagName += char;
-          } else if (tagStack.length > 0) {
-            const currentField = tagStack.join("_");
-            if (char === " " || char === "\n") {
-              if (wordBuffer) {
-                streamingCallback?.({ stage: "streaming", field: currentField, value: wordBuffer });
-              }
-              streamingCallback?.({ stage: "streaming", field: currentField, value: char });
-              wordBuffer = "";
-            } else {
-              wordBuffer += char;
-            }
-          }
-        }
-      };
+  lastTokenUsage = null;
+  const startTime = performance.now();
 
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+  if (streamingCallback) {
+    const result = await streamWithCallback(llm, messages, options, streamingCallback);
+    lastTokenUsage = result.usage ?? null;
+    return result;
+  }
 
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
+  const req = prepareLLMRequest(llm, messages, options, false);
+  try {
+    const result = await measure.assert(`LLM call ${llm}`, async () => {
+      const res = await req.send(`HTTP ${llm} API`);
+      const data = await res.json() as any;
+      const { content, toolCalls, finishReason } = req.provider.parseResponse(data, req.ctx);
+      const usage = req.provider.extractUsage(data);
+      return { content, usage, toolCalls, finishReason, reasoningContent: usage?.reasoningContent, rawResponse: data };
+    });
+    const aggregate: LLMCallAggregate = result ?? { content: '', toolCalls: [], rawResponse: null };
+    // lastTokenUsage is only mirrored for legacy callers
+    lastTokenUsage = aggregate.usage ?? null;
+    return { ...aggregate, provider: req.provider.name, model: llm, latencyMs: Math.round(performance.now() - startTime) };
+  } finally {
+    req.dispose();
+  }
+}
 
-          for (const line of lines) {
-            const content = parseSseLine(line);
-            if (content) processChunk(content);
-          }
+/**
+ * Legacy callback streaming on top of streamLLM(): text inside XML tags is emitted
+ * word by word per field (`answer`, `user_name`, ...), reasoning as `_reasoning`,
+ * tool-call arguments as `_tool_call:<name>`. Raw-text providers emit `content`.
+ */
+async function streamWithCallback(
+  llm: LLMType | string,
+  messages: Array<LLMMessage | { role: string; content: string; cacheControl?: boolean }>,
+  options: CallLLMOptions,
+  streamingCallback: StreamingCallback,
+): Promise<LLMCallResult> {
+  const rawTextStream = !!resolveProvider(llm).rawTextStream;
+  let tagStack: string[] = [];
+  let currentTagName = "";
+  let wordBuffer = "";
+  let insideTag = false;
+
+  const processChunk = (chunk: string) => {
+    if (rawTextStream) {
+      streamingCallback({ stage: "streaming", field: "content", value: chunk });
+      return;
+    }
+
+    for (const char of chunk) {
+      if (char === "<") {
+        if (wordBuffer && tagStack.length > 0) {
+          streamingCallback({ stage: "streaming", field: tagStack.join("_"), value: wordBuffer });
         }
-      } finally {
-        reader.releaseLock();
-        if (buffer) {
-          const content = parseSseLine(buffer);
-          if (content) processChunk(content);
+        wordBuffer = "";
+        insideTag = true;
+        currentTagName = "";
+      } else if (char === ">" && insideTag) {
+        insideTag = false;
+        if (currentTagName.startsWith("/")) {
+          tagStack.pop();
+        } else if (currentTagName.trim()) {
+          tagStack.push(currentTagName.trim());
         }
-        if (wordBuffer && tagStack.length > 0 && streamingCallback) {
-          streamingCallback({ stage: "streaming", field: tagStack.join("_"), value: wordBuffer });
+        currentTagName = "";
+        wordBuffer = "";
+      } else if (insideTag) {
+        currentTagName += char;
+      } else if (tagStack.length > 0) {
+        const currentField = tagStack.join("_");
+        if (char === " " || char === "\n") {
+          if (wordBuffer) {
+            streamingCallback({ stage: "streaming", field: currentField, value: wordBuffer });
+          }
+          streamingCallback({ stage: "streaming", field: currentField, value: char });
+          wordBuffer = "";
+        } else {
+          wordBuffer += char;
         }
       }
+    }
+  };
 
-      // Set token usage from streaming
-      if (hasStreamUsage) {
-        lastTokenUsage = streamUsage;
-      } else if (fullResponse.length > 0) {
-        // Fallback: estimate usage when provider didn't send usage events (~4 chars/token)
-        const inputChars = requestBodyStr.length;
-        const outputChars = fullResponse.length;
-        lastTokenUsage = {
-          inputTokens: Math.ceil(inputChars / 4),
-          outputTokens: Math.ceil(outputChars / 4),
-          totalTokens: Math.ceil(inputChars / 4) + Math.ceil(outputChars / 4),
-        };
+  const { streaming: _, onText, ...streamOptions } = options;
+  const stream = streamLLM(llm, messages, streamOptions);
+  try {
+    for await (const delta of stream) {
+      if (delta.type === 'text') {
+        processChunk(delta.text);
+        onText?.(delta.text);
+      } else if (delta.type === 'reasoning') {
+        streamingCallback({ stage: "streaming", field: "_reasoning", value: delta.text });
+      } else if (delta.type === 'tool_call' && delta.argumentsDelta) {
+        streamingCallback({ stage: "streaming", field: `_tool_call:${delta.name}`, value: delta.argumentsDelta });
       }
-
-      return fullResponse;
     }
   } finally {
-    if (timeoutId) clearTimeout(timeoutId);
+    if (wordBuffer && tagStack.length > 0) {
+      streamingCallback({ stage: "streaming", field: tagStack.join("_"), value: wordBuffer });
+    }
   }
+  return stream.final();
 }
 /** Configuration for provider fallback chain */
 export interface FallbackConfig {
@@ -1307,6 +1156,194 @@ if (import.meta.env.NODE_ENV === "test") {
     expect(JSON.stringify(toolBlock!.input)).toBe('{"key":"value","num":42}');
   });
 
+  // ── Native Tool Calling Tests ──
+
+  const weatherTool = {
+    name: 'get_weather',
+    description: 'Get the weather for a city',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+  };
+
+  test('callLLMWithTools (OpenAI): sends tools and parses tool_calls', async () => {
+    let capturedBody: any = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      capturedBody = JSON.parse(opts.body);
+      return new Response(JSON.stringify({
+        choices: [{ message: { content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }] } }],
+      }));
+    }) as any;
+    try {
+      const result = await callLLMWithTools('gpt-4o-mini', [{ role: 'user', content: 'weather in Paris?' }], {
+        tools: [weatherTool],
+        toolChoice: 'required',
+      });
+      expect(capturedBody.tools).toEqual([{ type: 'function', function: weatherTool }]);
+      expect(capturedBody.tool_choice).toBe('required');
+      expect(result.content).toBe('');
+      expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('callLLMWithTools (Anthropic): tool_use blocks become toolCalls, text stays content', async () => {
+    let capturedBody: any = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      capturedBody = JSON.parse(opts.body);
+      return new Response(JSON.stringify({
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Oslo' } },
+        ],
+        usage: { input_tokens: 10, output_tokens: 5 },
+      }));
+    }) as any;
+    try {
+      const result = await callLLMWithTools('claude-sonnet-4-20250514', [{ role: 'user', content: 'weather in Oslo?' }], {
+        tools: [weatherTool],
+        toolChoice: { name: 'get_weather' },
+      });
+      expect(capturedBody.tools).toEqual([{ name: 'get_weather', description: weatherTool.description, input_schema: weatherTool.parameters }]);
+      expect(capturedBody.tool_choice).toEqual({ type: 'tool', name: 'get_weather' });
+      expect(capturedBody.thinking).toBeUndefined();
+      expect(result.content).toBe('Checking.');
+      expect(result.toolCalls).toEqual([{ id: 'toolu_1', name: 'get_weather', arguments: { city: 'Oslo' } }]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('callLLMWithTools (Gemini): sends functionDeclarations and parses functionCall parts', async () => {
+    let capturedBody: any = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      capturedBody = JSON.parse(opts.body);
+      return new Response(JSON.stringify({
+        candidates: [{ content: { parts: [{ functionCall: { name: 'get_weather', args: { city: 'Rome' } } }] } }],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 3, totalTokenCount: 8 },
+      }));
+    }) as any;
+    try {
+      const result = await callLLMWithTools('gemini-2.0-flash', [{ role: 'user', content: 'weather in Rome?' }], {
+        tools: [weatherTool],
+        toolChoice: 'required',
+      });
+      expect(capturedBody.tools[0].functionDeclarations[0].name).toBe('get_weather');
+      expect(capturedBody.tools[0].functionDeclarations[0].parameters.properties.city.type).toBe('string');
+      expect(capturedBody.toolConfig).toEqual({ functionCallingConfig: { mode: 'ANY' } });
+      expect(result.toolCalls).toEqual([{ id: 'call_0', name: 'get_weather', arguments: { city: 'Rome' } }]);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('callLLMWithTools (OpenAI streaming): accumulates tool-call argument deltas', async () => {
+    const chunks = [
+      '{"choices":[{"delta":{"tool_calls":[{"index":0,"id":"call_9","function":{"name":"get_weather","arguments":""}}]}}]}',
+      '{"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"city\\":"}}]}}]}',
+      '{"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"Lima\\"}"}}]}}]}',
+    ];
+    const stream = new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(new TextEncoder().encode(`data: ${chunk}\n\n`));
+        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+        controller.close();
+      }
+    });
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => new Response(stream)) as any;
+    const fields: string[] = [];
+    try {
+      const result = await callLLMWithTools('gpt-4o-mini', [{ role: 'user', content: 'weather in Lima?' }], {
+        tools: [weatherTool],
+        streaming: (update) => fields.push(update.field),
+      });
+      expect(result.toolCalls).toEqual([{ id: 'call_9', name: 'get_weather', arguments: { city: 'Lima' } }]);
+      expect(fields).toContain('_tool_call:get_weather');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  const toolHistory = [
+    { role: 'user', content: 'weather in Paris and Rome?' },
+    { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'get_weather', arguments: { city: 'Paris' } }, { id: 'c2', name: 'get_weather', arguments: { city: 'Rome' } }] },
+    { role: 'tool', toolCallId: 'c1', name: 'get_weather', content: '{"temp":18}' },
+    { role: 'tool', toolCallId: 'c2', name: 'get_weather', content: '{"temp":24}' },
+  ];
+
+  test('tool-call history maps to OpenAI tool_calls and tool messages', async () => {
+    let capturedBody: any = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      capturedBody = JSON.parse(opts.body);
+      return new Response(JSON.stringify({ choices: [{ message: { content: 'Paris 18, Rome 24' } }] }));
+    }) as any;
+    try {
+      await callLLMWithTools('gpt-4o-mini', toolHistory, { tools: [weatherTool] });
+      expect(capturedBody.messages[1]).toEqual({
+        role: 'assistant', content: null,
+        tool_calls: [
+          { id: 'c1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+          { id: 'c2', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } },
+        ],
+      });
+      expect(capturedBody.messages[3]).toEqual({ role: 'tool', tool_call_id: 'c2', content: '{"temp":24}' });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('tool-call history maps to Anthropic tool_use and merged tool_result turns', async () => {
+    let capturedBody: any = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      capturedBody = JSON.parse(opts.body);
+      return new Response(JSON.stringify({ content: [{ type: 'text', text: 'ok' }], usage: { input_tokens: 1, output_tokens: 1 } }));
+    }) as any;
+    try {
+      await callLLMWithTools('claude-sonnet-4-20250514', toolHistory, { tools: [weatherTool] });
+      expect(capturedBody.messages).toHaveLength(3);
+      expect(capturedBody.messages[1].content[0]).toEqual({ type: 'tool_use', id: 'c1', name: 'get_weather', input: { city: 'Paris' } });
+      expect(capturedBody.messages[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'c1', content: '{"temp":18}' },
+          { type: 'tool_result', tool_use_id: 'c2', content: '{"temp":24}' },
+        ],
+      });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('tool-call history maps to Gemini functionCall and functionResponse parts', async () => {
+    let capturedBody: any = null;
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      capturedBody = JSON.parse(opts.body);
+      return new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: 'ok' }] } }] }));
+    }) as any;
+    try {
+      await callLLMWithTools('gemini-2.0-flash', toolHistory, { tools: [weatherTool] });
+      expect(capturedBody.contents[1]).toEqual({
+        role: 'model',
+        parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }, { functionCall: { name: 'get_weather', args: { city: 'Rome' } } }],
+      });
+      expect(capturedBody.contents[2].parts[1]).toEqual({ functionResponse: { name: 'get_weather', response: { temp: 24 } } });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('supportsNativeTools: deepseek-reasoner has no function calling', () => {
+    expect(supportsNativeTools('gpt-4o-mini')).toBe(true);
+    expect(supportsNativeTools('claude-sonnet-4-20250514')).toBe(true);
+    expect(supportsNativeTools('deepseek-reasoner')).toBe(false);
+  });
+
   // ── DeepSeek R1 Reasoning Tests ──
 
   test('DeepSeek R1: reasoning_content captured in lastTokenUsage', async () => {
@@ -1516,6 +1553,97 @@ if (import.meta.env.NODE_ENV === "test") {
     }
   });
 
+  // ── callLLMDetailed Tests ──
+
+  test('callLLMDetailed: returns per-call metadata', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => new Response(JSON.stringify({
+      choices: [{ message: { content: 'done', reasoning_content: 'thinking' }, finish_reason: 'length' }],
+      usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 },
+    }))) as any;
+    try {
+      const result = await callLLMDetailed('deepseek-reasoner', [{ role: 'user', content: 'hi' }]);
+      expect(result.content).toBe('done');
+      expect(result.usage?.totalTokens).toBe(10);
+      expect(result.reasoningContent).toBe('thinking');
+      expect(result.finishReason).toBe('length');
+      expect(result.provider).toBe('deepseek');
+      expect(result.model).toBe('deepseek-reasoner');
+      expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+      expect((result.rawResponse as any).choices[0].finish_reason).toBe('length');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('callLLMDetailed: concurrent calls keep their own usage', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (_url: string, opts: any) => {
+      const prompt = JSON.parse(opts.body).messages[0].content as string;
+      // The short prompt answers last, so a shared global would hold the wrong usage
+      await new Promise(r => setTimeout(r, prompt === 'short' ? 20 : 0));
+      const tokens = prompt === 'short' ? 1 : 100;
+      return new Response(JSON.stringify({
+        choices: [{ message: { content: prompt } }],
+        usage: { prompt_tokens: tokens, completion_tokens: tokens, total_tokens: tokens * 2 },
+      }));
+    }) as any;
+    try {
+      const [short, long] = await Promise.all([
+        callLLMDetailed('gpt-4o-mini', [{ role: 'user', content: 'short' }]),
+        callLLMDetailed('gpt-4o-mini', [{ role: 'user', content: 'long' }]),
+      ]);
+      expect(short.usage?.totalTokens).toBe(2);
+      expect(long.usage?.totalTokens).toBe(200);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('callLLMDetailed: streaming collects reasoning, finish reason and raw events', async () => {
+    const sseData = [
+      'data: {"type":"message_start","message":{"usage":{"input_tokens":10}}}\n\n',
+      'data: {"type":"content_block_delta","index":0,"delta":{"thinking":"step by step..."}}\n\n',
+      'data: {"type":"content_block_delta","index":1,"delta":{"text":"42"}}\n\n',
+      'data: {"type":"message_delta","delta":{"stop_reason":"max_tokens"},"usage":{"output_tokens":20}}\n\n',
+    ];
+    const stream = new ReadableStream({
+      start(controller) {
+        for (const chunk of sseData) controller.enqueue(new TextEncoder().encode(chunk));
+        controller.close();
+      }
+    });
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => new Response(stream)) as any;
+    try {
+      const result = await callLLMDetailed('claude-sonnet-4-20250514', [{ role: 'user', content: 'test' }], { streaming: () => { } });
+      expect(result.content).toBe('42');
+      expect(result.reasoningContent).toBe('step by step...');
+      expect(result.finishReason).toBe('length');
+      expect(result.usage).toEqual({ inputTokens: 10, outputTokens: 20, totalTokens: 30 });
+      expect(result.provider).toBe('anthropic');
+      expect((result.rawResponse as any[]).length).toBe(4);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  test('callLLMDetailed: Gemini function calls report tool_calls', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => new Response(JSON.stringify({
+      candidates: [{ content: { parts: [{ functionCall: { name: 'lookup', args: { q: 'x' } } }] }, finishReason: 'STOP' }],
+    }))) as any;
+    try {
+      const result = await callLLMDetailed('gemini-2.0-flash', [{ role: 'user', content: 'hi' }], {
+        tools: [{ name: 'lookup', description: 'Look up', parameters: { type: 'object', properties: { q: { type: 'string' } } } }],
+      });
+      expect(result.finishReason).toBe('tool_calls');
+      expect(result.toolCalls[0]!.name).toBe('lookup');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
   // ── callLLMWithFallback Tests ──
 
   test('callLLMWithFallback: uses second provider when first fails', async () => {
@@ -0,0 +1,100 @@
+/**
+ * input-resolvers.ts — Input Field Resolvers
+ *
+ * `inputResolvers` fill input fields the caller left out before the run
+ * starts: each field maps to a function, a local tool, or an MCP tool, with
+ * the tool's parameters mapped from other input fields. All resolvers run in
+ * parallel. Tool results are cached by field and parameters; functions run on
+ * every call unless written as `{ resolve, cache: true }` (cached by field
+ * and input), since they may depend on time or outside state.
+ *
+ * Parameter mappings name an input field (dot paths allowed) or give a fixed
+ * `{ value }`; a function mapping builds the parameters itself.
+ *
+ * Usage:
+ *   new Agent({
+ *     ...,
+ *     inputFormat: z.object({ city: z.string(), weather: z.any().optional(), user: z.any().optional() }),
+ *     inputResolvers: {
+ *       weather: { server: 'weather', tool: 'forecast', parameters: { location: 'city', units: { value: 'metric' } } },
+ *       user: { tool: 'lookup_user', parameters: (input) => ({ id: input.userId }) },
+ *       now: () => new Date().toISOString(),
+ *       plan: { resolve: (input) => plans.get(input.userId), cache: true },
+ *     },
+ *   });
+ */
+
+import type { MCPServer, ToolContext } from './types';
+
+/** Tool parameters from the run input: `{ param: 'input.path' | { value } }` or a function */
+export type ParameterMapping<I = any> =
+    | Record<string, string | { value: any }>
+    | ((input: I) => Record<string, any>);
+
+/** Resolves a field by calling a tool: a local tool, or one on an MCP server */
+export interface ToolInputResolver<I = any> {
+    tool: string;
+    /** A `servers` entry name or a server config; omit for a `localTools` tool */
+    server?: string | MCPServer;
+    parameters?: ParameterMapping<I>;
+    /** Cache results in `resolverCache` (default: true) */
+    cache?: boolean;
+}
+
+export type InputResolverFunction<I = any, D = any> = (input: I, context: ToolContext<D>) => unknown | Promise<unknown>;
+
+/** Resolves a field with a function whose results may be cached */
+export interface FunctionInputResolver<I = any, D = any> {
+    resolve: InputResolverFunction<I, D>;
+    /** Cache results in `resolverCache`, keyed by field and input (default: false) */
+    cache?: boolean;
+}
+
+export type InputResolver<I = any, D = any> =
+    | InputResolverFunction<I, D>
+    | FunctionInputResolver<I, D>
+    | ToolInputResolver<I>;
+
+/** Field name → resolver */
+export type InputResolvers<I = any, D = any> = Record<string, InputResolver<I, D>>;
+
+/** Read a dot path (`user.address.city`) from a value */
+export function getPath(value: any, path: string): any {
+    return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/** Tool parameters for a resolver; unset mapped fields are left out */
+export function mapParameters<I>(mapping: ParameterMapping<I> | undefined, input: I): Record<string, any> {
+    if (!mapping) return {};
+    if (typeof mapping === 'function') return mapping(input);
+    const parameters: Record<string, any> = {};
+    for (const [param, source] of Object.entries(mapping)) {
+        const value = typeof source === 'string' ? getPath(input, source) : source.value;
+        if (value !== undefined) parameters[param] = value;
+    }
+    return parameters;
+}
+
+/** Display name of a resolver's target, e.g. `weather.forecast` or `lookup_user` */
+export function resolverTarget(resolver: ToolInputResolver): string {
+    const server = typeof resolver.server === 'string' ? resolver.server : resolver.server?.name;
+    return server ? `${server}.${resolver.tool}` : resolver.tool;
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    test('mapParameters reads input paths and fixed values', () => {
+        const input = { city: 'Paris', user: { id: 7 }, empty: undefined };
+        expect(mapParameters({ location: 'city', id: 'user.id', units: { value: 'metric' }, missing: 'empty', deep: 'a.b.c' }, input))
+            .toEqual({ location: 'Paris', id: 7, units: 'metric' });
+        expect(mapParameters((i: typeof input) => ({ q: i.city.toLowerCase() }), input)).toEqual({ q: 'paris' });
+        expect(mapParameters(undefined, input)).toEqual({});
+    });
+
+    test('resolverTarget names the server when there is one', () => {
+        expect(resolverTarget({ tool: 'lookup' })).toBe('lookup');
+        expect(resolverTarget({ server: 'crm', tool: 'lookup' })).toBe('crm.lookup');
+        expect(resolverTarget({ server: { name: 'crm', description: '', url: 'https://crm' }, tool: 'lookup' })).toBe('crm.lookup');
+    });
+}
@@ -1,8 +1,9 @@
 /**
  * LoopAgent — Self-healing agentic loop
  *
- * Iteratively calls an LLM with tool access (write_file, exec, read_file)
- * and checks user-defined outcome predicates after each iteration.
+ * Iteratively calls an LLM with tool access (write_file, exec, read_file, plus
+ * any `tools` you pass, e.g. from `defineTool`) and checks user-defined outcome
+ * predicates after each iteration.
  * Stops when all outcomes are met or maxIterations is reached.
  *
  * Usage:
@@ -10,7 +11,8 @@
  *   const result = await agent.execute("Build a script that...", onEvent)
  */
 import { callLLM } from './inference';
-import type { LLMType } from './types';
+import type { LLMType, MCPTool } from './types';
+import { createToolContext } from './tool-context';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -39,6 +41,8 @@ export interface LoopConfig {
      * Can coexist with `checkpointPath` — both are written simultaneously.
      */
     session?: any;
+    /** Extra tools with `execute` (e.g. from `defineTool`), offered next to the built-ins */
+    tools?: MCPTool[];
     outcomes: LoopOutcome[];
 }
 
@@ -154,12 +158,21 @@ async function executeCommand(params: { command: string }, cwd: string): Promise
     }
 }
 
-async function executeTool(name: string, params: Record<string, any>, cwd: string): Promise<ToolResult> {
+const BUILT_IN_TOOLS = ['write_file', 'read_file', 'exec'];
+
+async function executeTool(name: string, params: Record<string, any>, cwd: string, tools: MCPTool[] = []): Promise<ToolResult> {
     switch (name) {
         case 'write_file': return executeWriteFile(params as any, cwd);
         case 'read_file': return executeReadFile(params as any, cwd);
         case 'exec': return executeCommand(params as any, cwd);
-        default: return { success: false, error: `Unknown tool: ${name}` };
+    }
+    const tool = tools.find(t => t.name === name);
+    if (!tool?.execute) return { success: false, error: `Unknown tool: ${name}` };
+    try {
+        const result = await tool.execute(params, createToolContext({ agentName: 'loop-agent', tool: name }));
+        return { success: true, output: typeof result === 'string' ? result : JSON.stringify(result) };
+    } catch (e: any) {
+        return { success: false, error: e.message };
     }
 }
 
@@ -179,11 +192,17 @@ To use a tool, respond with a JSON block inside <tool_call> tags:
 You can make multiple tool calls in one response. Each must be in its own <tool_call> block.
 After tool results are returned, analyze them and decide if you need more actions.`;
 
+function describeCustomTools(tools: MCPTool[]): string {
+    if (tools.length === 0) return '';
+    const lines = tools.map((t, i) => `${BUILT_IN_TOOLS.length + i + 1}. ${t.name}(params) — ${t.description}\n   params schema: ${JSON.stringify(t.inputSchema)}`);
+    return `\n\nAdditional tools:\n\n${lines.join('\n')}`;
+}
+
 function buildSystemPrompt(config: LoopConfig): string {
     const parts = [
         config.systemPrompt || 'You are a skilled developer. Complete the given task step by step.',
         '',
-        TOOL_DOCS,
+        TOOL_DOCS + describeCustomTools(config.tools ?? []),
         '',
         '## Outcomes to achieve:',
         ...config.outcomes.map((o, i) => `${i + 1}. ${o.description}`),
@@ -276,6 +295,10 @@ export class LoopAgent {
         if (!config.outcomes?.length) {
             throw new Error('LoopAgent requires at least one outcome');
         }
+        const shadowing = config.tools?.find(t => BUILT_IN_TOOLS.includes(t.name));
+        if (shadowing) {
+            throw new Error(`LoopAgent tool "${shadowing.name}" conflicts with a built-in tool`);
+        }
         this.config = {
             maxIterations: 10,
             confidenceThreshold: 0.9,
@@ -434,7 +457,7 @@ export class LoopAgent {
                 // 3. Execute each tool call in parallel
                 await Promise.all(toolCalls.map(async (call) => {
                     onEvent?.({ type: 'tool_start', tool: call.tool, params: call.params });
-                    call.result = await executeTool(call.tool, call.params, cwd);
+                    call.result = await executeTool(call.tool, call.params, cwd, this.config.tools);
                     onEvent?.({ type: 'tool_result', tool: call.tool, result: call.result });
                 }));
                 state.toolHistory.push(...toolCalls);
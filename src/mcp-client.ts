@@ -0,0 +1,479 @@
+/**
+ * mcp-client.ts — Model Context Protocol client (JSON-RPC 2.0)
+ *
+ * Spec-compliant MCP client over a pluggable transport: `initialize` with
+ * protocol version and capability negotiation, `tools/list` (paginated,
+ * cached until `notifications/tools/list_changed`), `tools/call` with
+ * progress notifications, cancellation on timeout or AbortSignal, and `ping` replies.
+ * Resources (`resources/list`, `resources/read`, subscriptions) and prompts
+ * (`prompts/list`, `prompts/get`) are available when the server declares them.
+ *
+ * `StdioTransport` launches the server as a child process and exchanges
+ * newline-delimited JSON messages over stdin/stdout.
+ *
+ * Usage:
+ *   const client = new MCPClient(new StdioTransport({ command: 'npx', args: ['-y', '@modelcontextprotocol/server-everything'] }));
+ *   await client.connect();
+ *   const tools = await client.listTools();
+ *   const result = await client.callTool('echo', { message: 'hi' });
+ *   const { contents } = await client.readResource('file:///README.md');
+ *   await client.close();
+ */
+
+import type { MCPTool } from './types';
+import { MCPError } from './errors';
+import type { JsonRpcRequest, JsonRpcResponse } from './websocket-client';
+
+/** Protocol version sent in `initialize` */
+export const MCP_PROTOCOL_VERSION = '2025-06-18';
+
+/** Versions this client can speak if the server answers with an older one */
+export const SUPPORTED_MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcResponse;
+
+/** Bidirectional message channel to an MCP server */
+export interface MCPTransport {
+    start(): Promise<void>;
+    send(message: JsonRpcMessage): Promise<void>;
+    close(): Promise<void>;
+    /** Set by MCPClient — called for every message received from the server */
+    onmessage?: (message: JsonRpcMessage) => void;
+    /** Set by MCPClient — called once when the connection ends */
+    onclose?: (error?: Error) => void;
+}
+
+/** Capabilities the server declared in its `initialize` result */
+export interface MCPServerCapabilities {
+    tools?: { listChanged?: boolean };
+    resources?: { subscribe?: boolean; listChanged?: boolean };
+    prompts?: { listChanged?: boolean };
+    logging?: Record<string, never>;
+    [key: string]: any;
+}
+
+/** One content block of a tool result */
+export interface MCPContent {
+    type: 'text' | 'image' | 'audio' | 'resource' | 'resource_link' | string;
+    text?: string;
+    [key: string]: any;
+}
+
+export interface MCPCallToolResult {
+    content: MCPContent[];
+    structuredContent?: any;
+    isError?: boolean;
+}
+
+/** Entry of `resources/list` */
+export interface MCPResource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    size?: number;
+}
+
+/** One item of a `resources/read` result — `text` or base64 `blob` */
+export interface MCPResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+}
+
+/** Entry of `prompts/list` */
+export interface MCPPrompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface MCPPromptMessage {
+    role: 'user' | 'assistant';
+    content: MCPContent;
+}
+
+export interface MCPGetPromptResult {
+    description?: string;
+    messages: MCPPromptMessage[];
+}
+
+/** `notifications/progress` payload for a request that sent a progress token */
+export interface MCPProgress {
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+export interface MCPRequestOptions {
+    /** Per-request timeout (default: client timeoutMs) */
+    timeoutMs?: number;
+    /** Receive `notifications/progress` for this request */
+    onProgress?: (progress: MCPProgress) => void;
+    /** Abort the request: it is rejected with the signal's reason and the server is sent `notifications/cancelled` */
+    signal?: AbortSignal;
+}
+
+export interface MCPClientOptions {
+    /** Name used in error messages (default: 'mcp') */
+    name?: string;
+    /** Default request timeout in ms (default: 60000) */
+    timeoutMs?: number;
+    /** Client identity sent in `initialize` */
+    clientInfo?: { name: string; version: string };
+}
+
+type PendingRequest = {
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+    /** Restart the timeout (progress keeps a long-running request alive) */
+    restartTimer: () => void;
+    onProgress?: (progress: MCPProgress) => void;
+};
+
+export class MCPClient {
+    /** Capabilities declared by the server (available after connect) */
+    serverCapabilities: MCPServerCapabilities = {};
+    serverInfo?: { name: string; version: string };
+    /** Negotiated protocol version */
+    protocolVersion?: string;
+    /** Optional usage instructions the server sent in `initialize` */
+    instructions?: string;
+
+    private nextId = 1;
+    private pending = new Map<string | number, PendingRequest>();
+    private handlers = new Map<string, Set<(params: any) => void>>();
+    private connecting?: Promise<void>;
+    private closed = false;
+    private toolsCache?: MCPTool[];
+    private resourcesCache?: MCPResource[];
+    private promptsCache?: MCPPrompt[];
+    private name: string;
+    private timeoutMs: number;
+    private clientInfo: { name: string; version: string };
+
+    constructor(private transport: MCPTransport, options: MCPClientOptions = {}) {
+        this.name = options.name ?? 'mcp';
+        this.timeoutMs = options.timeoutMs ?? 60_000;
+        this.clientInfo = options.clientInfo ?? { name: 'gx402', version: '3.0.0' };
+        transport.onmessage = (message) => this.handleMessage(message);
+        transport.onclose = (error) => this.handleClose(error);
+        this.onNotification('notifications/tools/list_changed', () => { this.toolsCache = undefined; });
+        this.onNotification('notifications/resources/list_changed', () => { this.resourcesCache = undefined; });
+        this.onNotification('notifications/prompts/list_changed', () => { this.promptsCache = undefined; });
+    }
+
+    get isClosed(): boolean {
+        return this.closed;
+    }
+
+    /** Start the transport and run the initialize handshake (idempotent) */
+    connect(): Promise<void> {
+        this.connecting ??= (async () => {
+            await this.transport.start();
+            const result = await this.request('initialize', {
+                protocolVersion: MCP_PROTOCOL_VERSION,
+                capabilities: {},
+                clientInfo: this.clientInfo,
+            });
+            if (!SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(result?.protocolVersion)) {
+                await this.close();
+                throw new MCPError(`${this.name}: unsupported MCP protocol version ${result?.protocolVersion}`, -32602);
+            }
+            this.protocolVersion = result.protocolVersion;
+            this.serverCapabilities = result.capabilities ?? {};
+            this.serverInfo = result.serverInfo;
+            this.instructions = result.instructions;
+            await this.notify('notifications/initialized');
+        })();
+        return this.connecting;
+    }
+
+    /** Send a request and wait for its result */
+    request<T = any>(method: string, params?: Record<string, any>, options: MCPRequestOptions = {}): Promise<T> {
+        if (this.closed) return Promise.reject(new Error(`${this.name}: MCP connection is closed`));
+        if (options.signal?.aborted) return Promise.reject(options.signal.reason);
+
+        const id = this.nextId++;
+        if (options.onProgress) {
+            params = { ...params, _meta: { ...params?._meta, progressToken: id } };
+        }
+        const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+        return new Promise<T>((resolve, reject) => {
+            const { signal } = options;
+            const onAbort = () => {
+                // Already answered
+                if (this.pending.get(id) !== entry) return;
+                clearTimeout(entry.timer);
+                this.pending.delete(id);
+                this.notify('notifications/cancelled', { requestId: id, reason: 'cancelled' }).catch(() => { });
+                reject(signal!.reason);
+            };
+            const onTimeout = () => {
+                this.pending.delete(id);
+                this.notify('notifications/cancelled', { requestId: id, reason: 'timeout' }).catch(() => { });
+                entry.reject(new Error(`${this.name}: MCP request "${method}" timed out after ${timeoutMs}ms`));
+            };
+            // Settling drops the abort listener, so a long-lived signal does not collect one per request
+            const entry: PendingRequest = {
+                resolve: (value) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(value);
+                },
+                reject: (error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+                onProgress: options.onProgress,
+                timer: setTimeout(onTimeout, timeoutMs),
+                restartTimer: () => {
+                    clearTimeout(entry.timer);
+                    entry.timer = setTimeout(onTimeout, timeoutMs);
+                },
+            };
+            this.pending.set(id, entry);
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.transport.send({ jsonrpc: '2.0', id, method, ...(params && { params }) }).catch((error) => {
+                clearTimeout(entry.timer);
+                this.pending.delete(id);
+                entry.reject(error);
+            });
+        });
+    }
+
+    /** Send a notification (no response expected) */
+    notify(method: string, params?: Record<string, any>): Promise<void> {
+        return this.transport.send({ jsonrpc: '2.0', method, ...(params && { params }) });
+    }
+
+    /** Subscribe to a server notification; returns an unsubscribe function */
+    onNotification(method: string, handler: (params: any) => void): () => void {
+        if (!this.handlers.has(method)) this.handlers.set(method, new Set());
+        this.handlers.get(method)!.add(handler);
+        return () => { this.handlers.get(method)?.delete(handler); };
+    }
+
+    /** All tools (following pagination); cached until the server reports a change */
+    async listTools(): Promise<MCPTool[]> {
+        await this.connect();
+        if (!this.serverCapabilities.tools) return [];
+        if (this.toolsCache) return this.toolsCache;
+
+        const tools = await this.paginate<any>('tools/list', 'tools');
+        this.toolsCache = tools.map(t => ({ name: t.name, description: t.description ?? t.title ?? '', inputSchema: t.inputSchema ?? { type: 'object', properties: {} } }));
+        return this.toolsCache;
+    }
+
+    async callTool(name: string, args: Record<string, any> = {}, options: MCPRequestOptions = {}): Promise<MCPCallToolResult> {
+        await this.connect();
+        const result = await this.request('tools/call', { name, arguments: args }, options);
+        return { content: result?.content ?? [], structuredContent: result?.structuredContent, isError: result?.isError };
+    }
+
+    /** All resources (following pagination); cached until the server reports a change */
+    async listResources(): Promise<MCPResource[]> {
+        await this.connect();
+        if (!this.serverCapabilities.resources) return [];
+        this.resourcesCache ??= await this.paginate<MCPResource>('resources/list', 'resources');
+        return this.resourcesCache;
+    }
+
+    async readResource(uri: string, options: MCPRequestOptions = {}): Promise<{ contents: MCPResourceContents[] }> {
+        await this.connect();
+        const result = await this.request('resources/read', { uri }, options);
+        return { contents: result?.contents ?? [] };
+    }
+
+    /**
+     * Subscribe to `notifications/resources/updated` for one resource.
+     * Returns an unsubscribe function that also tells the server.
+     */
+    async subscribeResource(uri: string, onUpdated: (uri: string) => void): Promise<() => Promise<void>> {
+        await this.connect();
+        if (!this.serverCapabilities.resources?.subscribe) {
+            throw new MCPError(`${this.name}: server does not support resource subscriptions`, -32601);
+        }
+        const off = this.onNotification('notifications/resources/updated', (params) => {
+            if (params?.uri === uri) onUpdated(uri);
+        });
+        await this.request('resources/subscribe', { uri });
+        return async () => {
+            off();
+            if (!this.closed) await this.request('resources/unsubscribe', { uri });
+        };
+    }
+
+    /** All prompts (following pagination); cached until the server reports a change */
+    async listPrompts(): Promise<MCPPrompt[]> {
+        await this.connect();
+        if (!this.serverCapabilities.prompts) return [];
+        this.promptsCache ??= await this.paginate<MCPPrompt>('prompts/list', 'prompts');
+        return this.promptsCache;
+    }
+
+    async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPGetPromptResult> {
+        await this.connect();
+        const result = await this.request('prompts/get', { name, arguments: args });
+        return { description: result?.description, messages: result?.messages ?? [] };
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+        await this.transport.close();
+        this.rejectPending(new Error(`${this.name}: MCP connection closed`));
+    }
+
+    private async paginate<T>(method: string, key: string): Promise<T[]> {
+        const items: T[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await this.request(method, cursor ? { cursor } : undefined);
+            items.push(...(page?.[key] ?? []));
+            cursor = page?.nextCursor;
+        } while (cursor);
+        return items;
+    }
+
+    private handleMessage(message: any): void {
+        // Response to one of our requests
+        if (message.id !== undefined && message.method === undefined) {
+            const pending = this.pending.get(message.id);
+            if (!pending) return;
+            clearTimeout(pending.timer);
+            this.pending.delete(message.id);
+            if (message.error) {
+                pending.reject(new MCPError(`${this.name}: ${message.error.message}`, message.error.code, message.error.data));
+            } else {
+                pending.resolve(message.result);
+            }
+            return;
+        }
+
+        // Request from the server
+        if (message.id !== undefined) {
+            const reply = message.method === 'ping'
+                ? { jsonrpc: '2.0' as const, id: message.id, result: {} }
+                : { jsonrpc: '2.0' as const, id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+            this.transport.send(reply).catch(() => { });
+            return;
+        }
+
+        // Notification
+        if (message.method === 'notifications/progress') {
+            const { progressToken, ...progress } = message.params ?? {};
+            const pending = this.pending.get(progressToken);
+            if (pending) {
+                pending.restartTimer();
+                pending.onProgress?.(progress);
+            }
+        }
+        for (const handler of this.handlers.get(message.method) ?? []) {
+            try { handler(message.params); } catch { /* notification handlers must not break the connection */ }
+        }
+    }
+
+    private handleClose(error?: Error): void {
+        this.closed = true;
+        this.rejectPending(error ?? new Error(`${this.name}: MCP server disconnected`));
+    }
+
+    private rejectPending(error: Error): void {
+        for (const [id, pending] of this.pending) {
+            clearTimeout(pending.timer);
+            pending.reject(error);
+            this.pending.delete(id);
+        }
+    }
+}
+
+export interface StdioTransportConfig {
+    command: string;
+    args?: string[];
+    /** Extra environment variables (merged over process.env) */
+    env?: Record<string, string>;
+    cwd?: string;
+}
+
+/** Runs an MCP server as a child process, one JSON-RPC message per line on stdin/stdout */
+export class StdioTransport implements MCPTransport {
+    onmessage?: (message: JsonRpcMessage) => void;
+    onclose?: (error?: Error) => void;
+
+    private proc?: ReturnType<typeof Bun.spawn<'pipe', 'pipe', 'pipe'>>;
+    private stderrTail: string[] = [];
+    private closing = false;
+
+    constructor(private config: StdioTransportConfig) { }
+
+    async start(): Promise<void> {
+        if (this.proc) return;
+        this.proc = Bun.spawn([this.config.command, ...(this.config.args ?? [])], {
+            stdin: 'pipe',
+            stdout: 'pipe',
+            stderr: 'pipe',
+            cwd: this.config.cwd,
+            env: { ...process.env, ...this.config.env },
+        });
+        this.readLines(this.proc.stdout, (line) => {
+            let message: any;
+            try { message = JSON.parse(line); } catch { return; }
+            this.onmessage?.(message);
+        });
+        // Keep the last stderr lines for error messages when the server dies
+        this.readLines(this.proc.stderr, (line) => {
+            this.stderrTail.push(line);
+            if (this.stderrTail.length > 20) this.stderrTail.shift();
+        });
+        this.proc.exited.then((code) => {
+            if (this.closing) return this.onclose?.();
+            const stderr = this.stderrTail.length ? `\n${this.stderrTail.join('\n')}` : '';
+            this.onclose?.(new Error(`MCP server "${this.config.command}" exited with code ${code}${stderr}`));
+        });
+    }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        if (!this.proc) throw new Error('StdioTransport not started');
+        if (this.proc.exitCode !== null) throw new Error(`MCP server "${this.config.command}" is not running`);
+        this.proc.stdin.write(JSON.stringify(message) + '\n');
+        await this.proc.stdin.flush();
+    }
+
+    async close(): Promise<void> {
+        if (!this.proc || this.closing) return;
+        this.closing = true;
+        const proc = this.proc;
+        try { await proc.stdin.end(); } catch { /* already closed */ }
+        // Give the server a moment to exit after stdin closes, then terminate it
+        const exited = await Promise.race([proc.exited.then(() => true), new Promise<boolean>(r => setTimeout(() => r(false), 1000))]);
+        if (!exited) {
+            proc.kill();
+            await proc.exited;
+        }
+    }
+
+    private async readLines(stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+        const reader = stream.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) !== -1) {
+                    const line = buffer.slice(0, newline).trim();
+                    buffer = buffer.slice(newline + 1);
+                    if (line) onLine(line);
+                }
+            }
+            if (buffer.trim()) onLine(buffer.trim());
+        } catch { /* stream closed with the process */ }
+    }
+}
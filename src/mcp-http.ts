@@ -0,0 +1,265 @@
+/**
+ * mcp-http.ts — MCP Streamable HTTP transport
+ *
+ * Every client message is POSTed to the server's MCP endpoint. The server answers
+ * with `202 Accepted` (notifications/responses), a JSON body, or an SSE stream
+ * that may carry notifications (e.g. progress) before the response.
+ *
+ * - Session: `Mcp-Session-Id` from the initialize response is sent on every
+ *   later request; `DELETE` ends the session on close. A `404` for a session
+ *   means it expired — the connection closes and the next use re-initializes.
+ * - Resumption: if an SSE stream drops before all responses arrive, the stream
+ *   is resumed with `GET` + `Last-Event-ID`.
+ * - After `notifications/initialized`, a standalone `GET` stream receives
+ *   server-initiated messages (ignored if the server answers 405).
+ * - `fetch` replaces the global fetch for every request; Agents pass their
+ *   x402 payment-aware fetch so paid servers are paid on 402.
+ *
+ * Usage:
+ *   const client = new MCPClient(new StreamableHTTPTransport({ url: 'http://localhost:3000/mcp' }));
+ *   await client.connect();
+ */
+
+import type { JsonRpcMessage, MCPTransport } from './mcp-client';
+
+/** The subset of `fetch` the transport uses */
+export type MCPFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface StreamableHTTPTransportConfig {
+    /** MCP endpoint URL */
+    url: string;
+    /** Extra headers for every request (e.g. Authorization) */
+    headers?: Record<string, string>;
+    /** Fetch used for every request, e.g. `createPaymentFetch(wallet)` (default: global fetch) */
+    fetch?: MCPFetch;
+    /** Resume attempts for an interrupted SSE stream (default: 3) */
+    maxReconnects?: number;
+    /** Delay before resuming a stream, unless the server sent `retry:` (default: 500) */
+    reconnectDelayMs?: number;
+}
+
+interface SSEEvent {
+    id?: string;
+    event?: string;
+    data: string;
+    retry?: number;
+}
+
+/** Parse a `text/event-stream` body into events */
+export async function* parseSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: Partial<SSEEvent> & { dataLines: string[] } = { dataLines: [] };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            let newline: number;
+            while ((newline = buffer.search(/\r?\n/)) !== -1) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(buffer[newline] === '\r' ? newline + 2 : newline + 1);
+
+                if (line === '') {
+                    if (event.dataLines.length || event.id !== undefined) {
+                        yield { id: event.id, event: event.event, retry: event.retry, data: event.dataLines.join('\n') };
+                    }
+                    event = { dataLines: [] };
+                    continue;
+                }
+                if (line.startsWith(':')) continue;
+                const colon = line.indexOf(':');
+                const field = colon === -1 ? line : line.slice(0, colon);
+                const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+                if (field === 'data') event.dataLines.push(value);
+                else if (field === 'id') event.id = value;
+                else if (field === 'event') event.event = value;
+                else if (field === 'retry' && /^\d+$/.test(value)) event.retry = Number(value);
+            }
+        }
+    } finally {
+        reader.cancel().catch(() => { });
+    }
+}
+
+export class StreamableHTTPTransport implements MCPTransport {
+    onmessage?: (message: JsonRpcMessage) => void;
+    onclose?: (error?: Error) => void;
+
+    /** Session id assigned by the server, if any */
+    sessionId?: string;
+    /** Protocol version from the initialize result, sent as `MCP-Protocol-Version` */
+    protocolVersion?: string;
+
+    private abort = new AbortController();
+    private closed = false;
+    private initializeId?: string | number;
+    private retryMs: number;
+    private maxReconnects: number;
+
+    constructor(private config: StreamableHTTPTransportConfig) {
+        this.retryMs = config.reconnectDelayMs ?? 500;
+        this.maxReconnects = config.maxReconnects ?? 3;
+    }
+
+    async start(): Promise<void> { }
+
+    async send(message: JsonRpcMessage): Promise<void> {
+        if (this.closed) throw new Error('MCP HTTP transport is closed');
+        const isRequest = 'method' in message && message.id !== undefined;
+        if (isRequest && (message as any).method === 'initialize') this.initializeId = message.id;
+
+        const response = await this.fetch(this.config.url, {
+            method: 'POST',
+            headers: this.headers({ 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' }),
+            body: JSON.stringify(message),
+            signal: this.abort.signal,
+        });
+
+        const sessionId = response.headers.get('mcp-session-id');
+        if (sessionId) this.sessionId = sessionId;
+
+        if (response.status === 404 && this.sessionId) {
+            this.sessionId = undefined;
+            const error = new Error(`MCP session expired at ${this.config.url}`);
+            this.handleClose(error);
+            throw error;
+        }
+        if (!response.ok) {
+            const text = await response.text().catch(() => '');
+            throw new Error(`MCP HTTP ${response.status} from ${this.config.url}: ${text.slice(0, 200)}`);
+        }
+
+        if ('method' in message && message.method === 'notifications/initialized') {
+            this.listen();
+        }
+
+        if (response.status === 202 || !isRequest) {
+            await response.body?.cancel();
+            return;
+        }
+
+        const contentType = response.headers.get('content-type') ?? '';
+        if (contentType.includes('text/event-stream')) {
+            // Responses arrive on the stream — read it in the background
+            this.consumeStream(response, [message.id!], 0);
+        } else {
+            const body = await response.json();
+            for (const m of Array.isArray(body) ? body : [body]) this.deliver(m);
+        }
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) return;
+        this.closed = true;
+        this.abort.abort();
+        if (this.sessionId) {
+            await this.fetch(this.config.url, { method: 'DELETE', headers: this.headers({}) }).catch(() => { });
+        }
+        this.onclose?.();
+    }
+
+    /** Read per request, so a global fetch replaced after construction is used */
+    private fetch(url: string, init: RequestInit): Promise<Response> {
+        return this.config.fetch ? this.config.fetch(url, init) : fetch(url, init);
+    }
+
+    private headers(extra: Record<string, string>): Record<string, string> {
+        return {
+            ...this.config.headers,
+            ...extra,
+            ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+            ...(this.protocolVersion && { 'MCP-Protocol-Version': this.protocolVersion }),
+        };
+    }
+
+    private deliver(message: any): void {
+        if (message.id !== undefined && message.id === this.initializeId && message.result?.protocolVersion) {
+            this.protocolVersion = message.result.protocolVersion;
+        }
+        this.onmessage?.(message);
+    }
+
+    /**
+     * Read an SSE stream, resuming with Last-Event-ID if it ends before every
+     * awaited response arrived. Unrecoverable streams fail the awaited requests.
+     */
+    private async consumeStream(response: Response, awaiting: Array<string | number>, attempt: number): Promise<void> {
+        const remaining = new Set(awaiting);
+        let lastEventId: string | undefined;
+        let received = false;
+
+        try {
+            for await (const event of parseSSE(response.body!)) {
+                if (event.id) lastEventId = event.id;
+                if (event.retry !== undefined) this.retryMs = event.retry;
+                if (!event.data) continue;
+                let parsed: any;
+                try { parsed = JSON.parse(event.data); } catch { continue; }
+                received = true;
+                for (const m of Array.isArray(parsed) ? parsed : [parsed]) {
+                    if (m.method === undefined && m.id !== undefined) remaining.delete(m.id);
+                    this.deliver(m);
+                }
+            }
+        } catch { /* disconnected — handled below */ }
+
+        if (this.closed) return;
+        const standalone = awaiting.length === 0;
+        if (!standalone && remaining.size === 0) return;
+
+        if (received) attempt = 0;
+        if (lastEventId === undefined || attempt >= this.maxReconnects) {
+            if (!standalone) this.failRequests(remaining, 'SSE stream ended before the response arrived');
+            return;
+        }
+
+        await new Promise(r => setTimeout(r, this.retryMs));
+        if (this.closed) return;
+        const resumed = await this.openStream(lastEventId);
+        if (resumed) {
+            this.consumeStream(resumed, [...remaining], attempt + 1);
+        } else if (!standalone) {
+            this.failRequests(remaining, 'SSE stream could not be resumed');
+        }
+    }
+
+    /** GET an SSE stream from the endpoint; null if the server does not offer one */
+    private async openStream(lastEventId?: string): Promise<Response | null> {
+        try {
+            const response = await this.fetch(this.config.url, {
+                method: 'GET',
+                headers: this.headers({ Accept: 'text/event-stream', ...(lastEventId && { 'Last-Event-ID': lastEventId }) }),
+                signal: this.abort.signal,
+            });
+            if (!response.ok || !(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+                await response.body?.cancel();
+                return null;
+            }
+            return response;
+        } catch {
+            return null;
+        }
+    }
+
+    /** Standalone stream for server-initiated notifications and requests */
+    private async listen(): Promise<void> {
+        const stream = await this.openStream();
+        if (stream) this.consumeStream(stream, [], 0);
+    }
+
+    private failRequests(ids: Set<string | number>, reason: string): void {
+        for (const id of ids) {
+            this.onmessage?.({ jsonrpc: '2.0', id, error: { code: -32000, message: reason } });
+        }
+    }
+
+    private handleClose(error: Error): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.abort.abort();
+        this.onclose?.(error);
+    }
+}
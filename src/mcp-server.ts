@@ -0,0 +1,346 @@
+/**
+ * mcp-server.ts — Serve tools and Agents over MCP
+ *
+ * Exposes `MCPTool`s with `execute`, `ToolRegistry` entries and `Agent`s as
+ * MCP tools, so any MCP host (or another gx402 Agent) can call them.
+ * Agents take their `inputFormat` as the tool's input schema and return their
+ * output as structured content described by `outputFormat`.
+ *
+ * Transports:
+ * - `stdio`: newline-delimited JSON-RPC on stdin/stdout. `console.log` is
+ *   redirected to stderr so logging cannot corrupt the protocol stream, until
+ *   `close()` restores it.
+ * - `http`: Streamable HTTP on `/mcp`. `initialize` assigns an
+ *   `Mcp-Session-Id`; requests with a progress token are answered as an SSE
+ *   stream carrying `notifications/progress` before the result. Binds to
+ *   127.0.0.1 by default and rejects browser requests from other origins
+ *   with 403, so web pages cannot reach the tools through DNS rebinding.
+ *
+ * Usage:
+ *   const server = await serveMCP({ tools: [calculator], agents: [summarizer], transport: 'http', port: 3000 });
+ *   const agent = new Agent({ ..., servers: [server.mcpServer!] });
+ *   await server.close();
+ */
+
+import type { Agent } from './agent';
+import type { MCPServer, MCPTool } from './types';
+import { ToolRegistry } from './tool-registry';
+import { zodToToolSchema } from './define-tool';
+import { createToolContext } from './tool-context';
+import { MCP_PROTOCOL_VERSION, SUPPORTED_MCP_PROTOCOL_VERSIONS, type JsonRpcMessage, type MCPCallToolResult } from './mcp-client';
+
+export interface ServeMCPOptions {
+    /** Tools with `execute`, or registries whose enabled entries are served */
+    tools?: Array<MCPTool | ToolRegistry>;
+    /** Agents served as tools, named after `config.name` */
+    agents?: Agent<any, any>[];
+    transport: 'stdio' | 'http';
+    /** HTTP port (default: a free port, see `url`) */
+    port?: number;
+    /** HTTP interface to bind (default: '127.0.0.1'; use '0.0.0.0' to accept remote hosts) */
+    hostname?: string;
+    /**
+     * Browser origins allowed to call the HTTP server, e.g. 'https://app.example.com'
+     * (default: localhost origins). Requests without an `Origin` header are not from a browser and are always accepted.
+     */
+    allowedOrigins?: string[];
+    /** Server identity sent in `initialize` (default: 'gx402') */
+    name?: string;
+    version?: string;
+    /** Usage instructions sent to clients in `initialize` */
+    instructions?: string;
+}
+
+export interface MCPServerHandle {
+    /** Streamable HTTP endpoint (http transport) */
+    url?: string;
+    /** Ready-made config for `AgentConfig.servers` (http transport) */
+    mcpServer?: MCPServer;
+    close(): Promise<void>;
+}
+
+type Notify = (message: JsonRpcMessage) => void;
+
+interface ServedTool {
+    name: string;
+    description: string;
+    inputSchema: any;
+    outputSchema?: any;
+    call(args: any, progress?: (message: string) => void): Promise<any>;
+}
+
+/** Flatten tools, registries and agents into one name → tool map (registries are read per call) */
+function collectTools(options: ServeMCPOptions): () => Map<string, ServedTool> {
+    const fixed = new Map<string, ServedTool>();
+    const registries: ToolRegistry[] = [];
+
+    for (const entry of options.tools ?? []) {
+        if (entry instanceof ToolRegistry) {
+            registries.push(entry);
+            continue;
+        }
+        if (!entry.execute) throw new Error(`serveMCP: tool "${entry.name}" has no execute function`);
+        const execute = entry.execute;
+        fixed.set(entry.name, {
+            name: entry.name,
+            description: entry.description,
+            inputSchema: entry.inputSchema ?? { type: 'object', properties: {} },
+            call: async (args, progress) => {
+                const context = createToolContext({
+                    agentName: options.name ?? 'gx402',
+                    tool: entry.name,
+                    ...(progress && { progress: (message: string) => progress(message) }),
+                });
+                if (entry.authorize) {
+                    const verdict = await entry.authorize(args, context);
+                    if (verdict !== true) throw new Error(typeof verdict === 'string' ? verdict : `Tool "${entry.name}" is not authorized`);
+                }
+                return execute(args, context);
+            },
+        });
+    }
+
+    for (const agent of options.agents ?? []) {
+        if (!agent.name) throw new Error('serveMCP: agents need a name to be served as tools');
+        fixed.set(agent.name, {
+            name: agent.name,
+            description: agent.description ?? `Run the ${agent.name} agent`,
+            inputSchema: zodToToolSchema(agent.inputFormat),
+            outputSchema: zodToToolSchema(agent.outputFormat),
+            call: (args, progress) => agent.run(args, progress && ((update) => progress(update.message))),
+        });
+    }
+
+    return () => {
+        const tools = new Map(fixed);
+        for (const registry of registries) {
+            for (const info of registry.list()) {
+                if (!info.enabled || tools.has(info.name)) continue;
+                const definition = registry.get(info.name)!;
+                tools.set(info.name, {
+                    name: info.name,
+                    description: info.description ?? '',
+                    inputSchema: definition.schema ?? { type: 'object', properties: {} },
+                    call: (args) => registry.invoke(info.name, args),
+                });
+            }
+        }
+        return tools;
+    };
+}
+
+function toToolResult(value: any): MCPCallToolResult {
+    if (typeof value === 'string') return { content: [{ type: 'text', text: value }] };
+    const text = value === undefined ? '' : JSON.stringify(value);
+    const isObject = value !== null && typeof value === 'object' && !Array.isArray(value);
+    return { content: [{ type: 'text', text }], ...(isObject && { structuredContent: value }) };
+}
+
+/**
+ * JSON-RPC dispatcher shared by both transports. Returns the response for
+ * requests and undefined for notifications; `notify` carries progress.
+ */
+function createDispatcher(options: ServeMCPOptions) {
+    const getTools = collectTools(options);
+    const serverInfo = { name: options.name ?? 'gx402', version: options.version ?? '3.0.0' };
+
+    return async (message: any, notify: Notify): Promise<JsonRpcMessage | undefined> => {
+        const { id, method, params } = message ?? {};
+        if (id === undefined || typeof method !== 'string') return undefined;
+        const reply = (result: any): JsonRpcMessage => ({ jsonrpc: '2.0', id, result });
+        const fail = (code: number, msg: string): JsonRpcMessage => ({ jsonrpc: '2.0', id, error: { code, message: msg } });
+
+        switch (method) {
+            case 'initialize': {
+                const requested = params?.protocolVersion;
+                return reply({
+                    protocolVersion: SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+                    capabilities: { tools: { listChanged: false } },
+                    serverInfo,
+                    ...(options.instructions && { instructions: options.instructions }),
+                });
+            }
+            case 'ping':
+                return reply({});
+            case 'tools/list':
+                return reply({
+                    tools: [...getTools().values()].map(({ name, description, inputSchema, outputSchema }) =>
+                        ({ name, description, inputSchema, ...(outputSchema && { outputSchema }) })),
+                });
+            case 'tools/call': {
+                const tool = getTools().get(params?.name);
+                if (!tool) return fail(-32602, `Unknown tool: ${params?.name}`);
+                const token = params?._meta?.progressToken;
+                let step = 0;
+                const progress = token === undefined ? undefined : (msg: string) => notify({
+                    jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: token, progress: ++step, message: msg },
+                });
+                try {
+                    return reply(toToolResult(await tool.call(params?.arguments ?? {}, progress)));
+                } catch (error: any) {
+                    // Tool failures are results the model can see, not protocol errors
+                    return reply({ content: [{ type: 'text', text: error?.message ?? String(error) }], isError: true });
+                }
+            }
+            default:
+                return fail(-32601, `Method not found: ${method}`);
+        }
+    };
+}
+
+function serveStdio(dispatch: ReturnType<typeof createDispatcher>): MCPServerHandle {
+    // stdout is the protocol stream — keep log output (including measure-fn's) on stderr until close()
+    const originalLog = console.log;
+    console.log = (...args: any[]) => console.error(...args);
+    const write: Notify = (message) => { process.stdout.write(JSON.stringify(message) + '\n'); };
+
+    const reader = Bun.stdin.stream().getReader();
+    (async () => {
+        const decoder = new TextDecoder();
+        let buffer = '';
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) !== -1) {
+                    const line = buffer.slice(0, newline).trim();
+                    buffer = buffer.slice(newline + 1);
+                    if (!line) continue;
+                    let message: any;
+                    try { message = JSON.parse(line); } catch {
+                        write({ jsonrpc: '2.0', id: null as any, error: { code: -32700, message: 'Parse error' } });
+                        continue;
+                    }
+                    dispatch(message, write).then(response => { if (response) write(response); });
+                }
+            }
+        } catch { /* stdin closed */ }
+    })();
+
+    return {
+        close: async () => {
+            console.log = originalLog;
+            await reader.cancel().catch(() => { });
+        },
+    };
+}
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+/** Whether a request's `Origin` may call the server — absent for non-browser clients */
+function isAllowedOrigin(origin: string | null, allowedOrigins?: string[]): boolean {
+    if (!origin) return true;
+    if (allowedOrigins) return allowedOrigins.includes(origin);
+    try {
+        return LOOPBACK_HOSTS.has(new URL(origin).hostname);
+    } catch {
+        return false;
+    }
+}
+
+function serveHttp(dispatch: ReturnType<typeof createDispatcher>, options: ServeMCPOptions): MCPServerHandle {
+    const sessions = new Set<string>();
+    const encoder = new TextEncoder();
+    const hostname = options.hostname ?? '127.0.0.1';
+
+    const server = Bun.serve({
+        port: options.port ?? 0,
+        hostname,
+        async fetch(req) {
+            if (new URL(req.url).pathname !== '/mcp') return new Response('Not found', { status: 404 });
+            // DNS rebinding: a page on another origin must not reach local tools
+            if (!isAllowedOrigin(req.headers.get('origin'), options.allowedOrigins)) {
+                return new Response('Origin not allowed', { status: 403 });
+            }
+            const sessionId = req.headers.get('mcp-session-id');
+
+            if (req.method === 'DELETE') {
+                return new Response(null, { status: sessionId && sessions.delete(sessionId) ? 200 : 404 });
+            }
+            // No standalone stream: the server never sends unsolicited messages
+            if (req.method !== 'POST') {
+                return new Response('Method not allowed', { status: 405, headers: { Allow: 'POST, DELETE' } });
+            }
+
+            let message: any;
+            try { message = await req.json(); } catch {
+                return Response.json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }, { status: 400 });
+            }
+
+            const headers: Record<string, string> = {};
+            if (message?.method === 'initialize') {
+                const id = crypto.randomUUID();
+                sessions.add(id);
+                headers['Mcp-Session-Id'] = id;
+            } else if (!sessionId) {
+                return new Response('Missing Mcp-Session-Id', { status: 400 });
+            } else if (!sessions.has(sessionId)) {
+                return new Response('Unknown session', { status: 404 });
+            }
+
+            // Notifications and responses
+            if (message?.id === undefined || message?.method === undefined) {
+                await dispatch(message, () => { });
+                return new Response(null, { status: 202 });
+            }
+
+            if (message.params?._meta?.progressToken === undefined) {
+                return Response.json(await dispatch(message, () => { }), { headers });
+            }
+
+            const stream = new ReadableStream({
+                async start(controller) {
+                    const send: Notify = (m) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(m)}\n\n`));
+                    const response = await dispatch(message, send);
+                    if (response) send(response);
+                    controller.close();
+                },
+            });
+            return new Response(stream, { headers: { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' } });
+        },
+    });
+
+    // Wildcard binds are reachable on localhost too
+    const host = hostname === '0.0.0.0' || hostname === '::' ? 'localhost' : hostname.includes(':') ? `[${hostname}]` : hostname;
+    const url = `http://${host}:${server.port}/mcp`;
+    return {
+        url,
+        mcpServer: { name: options.name ?? 'gx402', description: `gx402 MCP server on port ${server.port}`, url },
+        close: async () => { server.stop(true); },
+    };
+}
+
+/** Serve tools, tool registries and Agents as an MCP server */
+export async function serveMCP(options: ServeMCPOptions): Promise<MCPServerHandle> {
+    const dispatch = createDispatcher(options);
+    return options.transport === 'stdio' ? serveStdio(dispatch) : serveHttp(dispatch, options);
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    test('toToolResult keeps objects as structured content', () => {
+        expect(toToolResult('hi')).toEqual({ content: [{ type: 'text', text: 'hi' }] });
+        expect(toToolResult({ n: 1 })).toEqual({ content: [{ type: 'text', text: '{"n":1}' }], structuredContent: { n: 1 } });
+        expect(toToolResult([1, 2]).structuredContent).toBeUndefined();
+    });
+
+    test('dispatcher rejects unknown methods and tools', async () => {
+        const dispatch = createDispatcher({ transport: 'http' });
+        expect(await dispatch({ jsonrpc: '2.0', id: 1, method: 'nope' }, () => { })).toMatchObject({ error: { code: -32601 } });
+        expect(await dispatch({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'x' } }, () => { })).toMatchObject({ error: { code: -32602 } });
+        expect(await dispatch({ jsonrpc: '2.0', method: 'notifications/initialized' }, () => { })).toBeUndefined();
+    });
+
+    test('isAllowedOrigin accepts non-browser and localhost requests by default', () => {
+        expect(isAllowedOrigin(null)).toBe(true);
+        expect(isAllowedOrigin('http://localhost:5173')).toBe(true);
+        expect(isAllowedOrigin('http://127.0.0.1')).toBe(true);
+        expect(isAllowedOrigin('https://evil.example')).toBe(false);
+        expect(isAllowedOrigin('null')).toBe(false);
+        expect(isAllowedOrigin('http://localhost:5173', ['https://app.example'])).toBe(false);
+        expect(isAllowedOrigin('https://app.example', ['https://app.example'])).toBe(true);
+    });
+}
@@ -1,55 +1,248 @@
 // src/mcp.ts
 import { measure } from "measure-fn";
-import type { MCPServer, MCPTool } from './types';
+import type { MCPServer, MCPTool, ProgressCallback, ToolContext } from './types';
 import { fetchWithPayment } from './payments';
+import { createToolContext } from './tool-context';
+import {
+  MCPClient, StdioTransport,
+  type MCPCallToolResult, type MCPTransport, type MCPResource, type MCPResourceContents, type MCPPrompt, type MCPGetPromptResult,
+} from './mcp-client';
+import { StreamableHTTPTransport, type MCPFetch } from './mcp-http';
 
-export async function discoverTools(server: MCPServer & { __localTools?: MCPTool[] }): Promise<MCPTool[]> {
-  if (server.url === 'local://internal' && server.__localTools) {
-    return server.__localTools;
+type ServerWithLocalTools = MCPServer & { __localTools?: MCPTool[] };
+
+/** How to reach remote MCP servers */
+export interface MCPConnectOptions {
+  /** Fetch for `url` servers, e.g. an Agent's x402 `createPaymentFetch(wallet)` (default: global fetch) */
+  fetch?: MCPFetch;
+}
+
+/** Open MCP connections, one per server config and fetch, reused across runs */
+const clients = new Map<string, MCPClient>();
+const fetchIds = new WeakMap<MCPFetch, number>();
+let nextFetchId = 1;
+
+function clientKey(server: MCPServer, fetch?: MCPFetch): string {
+  if (fetch && !fetchIds.has(fetch)) fetchIds.set(fetch, nextFetchId++);
+  return JSON.stringify([server.name, server.command, server.args, server.cwd, server.url, server.url && fetch ? fetchIds.get(fetch) : 0]);
+}
+
+function createTransport(server: MCPServer, fetch?: MCPFetch): MCPTransport {
+  if (server.command) {
+    return new StdioTransport({ command: server.command, args: server.args, env: server.env, cwd: server.cwd });
   }
+  if (server.url) {
+    return new StreamableHTTPTransport({ url: server.url, headers: server.headers, fetch });
+  }
+  throw new Error(`MCP server "${server.name}" needs a url or a command`);
+}
 
-  return await measure(`Discover tools from ${server.name}`, async (m) => {
-    const response = await fetchWithPayment(
-      `${server.url}/tools`,
-      { method: "GET", headers: { "Content-Type": "application/json" } },
-      `HTTP GET ${server.url}/tools`
-    );
-    const tools = await response.json() as MCPTool[];
-
-    // Inject overlays (like auth hooks) if defined on the server config
-    if (server.tools) {
-      for (const t of tools) {
-        const overlay = server.tools[t.name];
-        if (overlay && overlay.authorize) {
-          t.authorize = overlay.authorize;
-        }
+/** Connected MCP client for a server config (reconnects if the previous connection closed) */
+export async function getMCPClient(server: MCPServer, options: MCPConnectOptions = {}): Promise<MCPClient> {
+  const key = clientKey(server, options.fetch);
+  let client = clients.get(key);
+  if (!client || client.isClosed) {
+    client = new MCPClient(createTransport(server, options.fetch), { name: server.name, timeoutMs: server.timeoutMs });
+    clients.set(key, client);
+  }
+  try {
+    await client.connect();
+  } catch (error) {
+    clients.delete(key);
+    await client.close();
+    throw error;
+  }
+  return client;
+}
+
+/** Close every pooled MCP connection (terminates stdio server processes) */
+export async function closeMCPClients(): Promise<void> {
+  const open = [...clients.values()];
+  clients.clear();
+  await Promise.all(open.map(client => client.close()));
+}
+
+/**
+ * Flatten a `tools/call` result for the model: structured content when present,
+ * text blocks joined otherwise, and `{ error }` when the tool reported a failure.
+ */
+export function mcpToolResultValue(result: MCPCallToolResult): any {
+  const text = result.content.filter(c => c.type === 'text').map(c => c.text ?? '').join('\n');
+  if (result.isError) return { error: text || 'Tool call failed' };
+  if (result.structuredContent !== undefined) return result.structuredContent;
+  if (result.content.length > 0 && result.content.every(c => c.type === 'text')) return text;
+  return result.content;
+}
+
+function applyOverlays(server: MCPServer, tools: MCPTool[]): MCPTool[] {
+  // Inject overlays (like auth hooks) if defined on the server config
+  if (server.tools) {
+    for (const t of tools) {
+      const overlay = server.tools[t.name];
+      if (overlay && overlay.authorize) {
+        t.authorize = overlay.authorize;
       }
     }
+  }
+  return tools;
+}
+
+export async function discoverTools(server: ServerWithLocalTools, options: MCPConnectOptions = {}): Promise<MCPTool[]> {
+  if (server.url === 'local://internal' && server.__localTools) {
+    return server.__localTools;
+  }
+
+  if (server.legacyRest) {
+    return await measure(`Discover tools from ${server.name}`, async () => {
+      const response = await fetchWithPayment(
+        `${server.url}/tools`,
+        { method: "GET", headers: { "Content-Type": "application/json" } },
+        `HTTP GET ${server.url}/tools`
+      );
+      return applyOverlays(server, await response.json() as MCPTool[]);
+    }) ?? [];
+  }
 
-    return tools;
+  return await measure(`Discover tools from ${server.name}`, async () => {
+    const client = await getMCPClient(server, options);
+    // Copy so overlays never leak into the client's cached list
+    return applyOverlays(server, (await client.listTools()).map(t => ({ ...t })));
   }) ?? [];
 }
 
-export async function invokeTool(server: MCPServer & { __localTools?: MCPTool[] }, toolName: string, parameters: any): Promise<any> {
+/**
+ * Invoke a tool on a server. MCP progress notifications are reported to
+ * `options.progress` as `tool_invocation` updates; local tools get
+ * `options.context` (or a default ToolContext). `options.signal` aborts
+ * remote requests (MCP servers are sent `notifications/cancelled`).
+ */
+export async function invokeTool(
+  server: ServerWithLocalTools,
+  toolName: string,
+  parameters: any,
+  options: MCPConnectOptions & { progress?: ProgressCallback; context?: ToolContext; signal?: AbortSignal } = {}
+): Promise<any> {
   if (server.url === 'local://internal' && server.__localTools) {
     const tool = server.__localTools.find((t: MCPTool) => t.name === toolName);
     if (!tool || !tool.execute) throw new Error(`Local tool ${toolName} not found or missing execute method`);
+    const context = options.context ?? createToolContext({ tool: toolName, ...(options.signal && { signal: options.signal }) });
     return await measure(`Invoke local ${toolName}`, async () => {
-      return await tool.execute!(parameters);
+      return await tool.execute!(parameters, context);
+    });
+  }
+
+  if (server.legacyRest) {
+    const body = JSON.stringify({ method: toolName, params: parameters });
+    return await measure(`Invoke ${server.name}.${toolName}`, async () => {
+      const response = await fetchWithPayment(
+        `${server.url}/call`,
+        { method: "POST", headers: { "Content-Type": "application/json" }, body, signal: options.signal },
+        `HTTP POST ${server.url}/call — ${toolName}`
+      );
+      return await response.json();
     });
   }
 
-  const body = JSON.stringify({ method: toolName, params: parameters });
   return await measure(`Invoke ${server.name}.${toolName}`, async () => {
-    const response = await fetchWithPayment(
-      `${server.url}/call`,
-      { method: "POST", headers: { "Content-Type": "application/json" }, body },
-      `HTTP POST ${server.url}/call — ${toolName}`
-    );
-    return await response.json();
+    const client = await getMCPClient(server, options);
+    const { progress, signal } = options;
+    const result = await client.callTool(toolName, parameters ?? {}, {
+      signal,
+      onProgress: progress && ((p) => progress({
+        stage: "tool_invocation",
+        message: `${server.name}.${toolName}: ${p.message ?? `${p.progress}${p.total !== undefined ? `/${p.total}` : ''}`}`,
+        data: { server: server.name, tool: toolName, ...p },
+      })),
+    });
+    return mcpToolResultValue(result);
+  });
+}
+
+/** Resources published by a server (empty for local and legacy REST servers) */
+export async function discoverResources(server: ServerWithLocalTools, options: MCPConnectOptions = {}): Promise<MCPResource[]> {
+  if (server.__localTools || server.legacyRest) return [];
+  return await measure(`Discover resources from ${server.name}`, async () => {
+    return await (await getMCPClient(server, options)).listResources();
+  }) ?? [];
+}
+
+/** Per-connection resource subscriptions and the contents they keep fresh */
+const resourceCache = new WeakMap<MCPClient, {
+  subscriptions: Map<string, Promise<unknown>>;
+  contents: Map<string, Promise<MCPResourceContents[]>>;
+}>();
+
+/** Wait for `promise`, or reject with the abort reason as soon as `signal` aborts */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
   });
 }
 
+/**
+ * Read a resource. When the server supports subscriptions the resource is
+ * subscribed on first read and its contents are cached until the server
+ * reports an update. Aborting `signal` cancels an uncached read; a cached
+ * read is shared, so the aborted caller only stops waiting for it.
+ */
+export async function readResource(server: MCPServer, uri: string, options: MCPConnectOptions & { signal?: AbortSignal } = {}): Promise<MCPResourceContents[]> {
+  const { signal } = options;
+  const client = await getMCPClient(server, options);
+  if (!client.serverCapabilities.resources?.subscribe) {
+    return (await client.readResource(uri, { signal })).contents;
+  }
+
+  let state = resourceCache.get(client);
+  if (!state) resourceCache.set(client, state = { subscriptions: new Map(), contents: new Map() });
+  const { subscriptions, contents } = state;
+
+  if (!subscriptions.has(uri)) {
+    subscriptions.set(uri, client.subscribeResource(uri, () => contents.delete(uri)));
+  }
+  try {
+    await subscriptions.get(uri);
+  } catch {
+    // Not subscribable: read uncached (and retry the subscription next time)
+    subscriptions.delete(uri);
+    return (await client.readResource(uri, { signal })).contents;
+  }
+
+  let cached = contents.get(uri);
+  if (!cached) {
+    cached = client.readResource(uri).then(r => r.contents);
+    contents.set(uri, cached);
+    cached.catch(() => contents.delete(uri));
+  }
+  return untilAborted(cached, signal);
+}
+
+/** Text of resource contents for prompt context; binary blobs are summarized */
+export function resourceContentsText(contents: MCPResourceContents[]): string {
+  return contents.map(c => {
+    if (c.text !== undefined) return c.text;
+    const blob = c.blob ?? '';
+    const bytes = Math.floor(blob.length * 3 / 4) - (blob.endsWith('==') ? 2 : blob.endsWith('=') ? 1 : 0);
+    return `[${c.mimeType ?? 'binary'} content, ${bytes} bytes]`;
+  }).join('\n');
+}
+
+/** Prompts published by a server (empty for local and legacy REST servers) */
+export async function discoverPrompts(server: ServerWithLocalTools, options: MCPConnectOptions = {}): Promise<MCPPrompt[]> {
+  if (server.__localTools || server.legacyRest) return [];
+  return await measure(`Discover prompts from ${server.name}`, async () => {
+    return await (await getMCPClient(server, options)).listPrompts();
+  }) ?? [];
+}
+
+/** Render a server prompt with arguments */
+export async function getPrompt(server: MCPServer, name: string, args: Record<string, string> = {}, options: MCPConnectOptions = {}): Promise<MCPGetPromptResult> {
+  return (await getMCPClient(server, options)).getPrompt(name, args);
+}
+
 export const mcpServer = (config: Omit<MCPServer, "name"> & { name: string }): MCPServer => config;
 
 if (import.meta.env.NODE_ENV === "test") {
@@ -60,7 +253,7 @@ if (import.meta.env.NODE_ENV === "test") {
     globalThis.fetch = (async () =>
       new Response(JSON.stringify([{ name: 'tool1', description: 'desc', inputSchema: {} }])) as any) as any;
     try {
-      const tools = await discoverTools({ name: 'test', description: 'test', url: 'https://test.com' });
+      const tools = await discoverTools({ name: 'test', description: 'test', url: 'https://test.com', legacyRest: true });
       expect(tools).toBeArrayOfSize(1);
       expect(tools[0]!.name).toBe('tool1');
     } finally {
@@ -73,10 +266,21 @@ if (import.meta.env.NODE_ENV === "test") {
     globalThis.fetch = (async () =>
       new Response(JSON.stringify({ result: 'success' })) as any) as any;
     try {
-      const result = await invokeTool({ name: 'test', description: 'test', url: 'https://test.com' }, 'tool1', {});
+      const result = await invokeTool({ name: 'test', description: 'test', url: 'https://test.com', legacyRest: true }, 'tool1', {});
       expect(result).toEqual({ result: 'success' });
     } finally {
       globalThis.fetch = originalFetch;
     }
   });
+
+  test('mcpToolResultValue flattens tool results', () => {
+    expect(mcpToolResultValue({ content: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] })).toBe('a\nb');
+    expect(mcpToolResultValue({ content: [{ type: 'text', text: '{}' }], structuredContent: { n: 1 } })).toEqual({ n: 1 });
+    expect(mcpToolResultValue({ content: [{ type: 'text', text: 'boom' }], isError: true })).toEqual({ error: 'boom' });
+  });
+
+  test('resourceContentsText summarizes blobs', () => {
+    expect(resourceContentsText([{ uri: 'a', text: 'hello' }, { uri: 'b', mimeType: 'image/png', blob: 'AAA=' }]))
+      .toBe('hello\n[image/png content, 2 bytes]');
+  });
 }
@@ -75,7 +75,7 @@ function makeAttr(key: string, value: string | number): OtelSpan['attributes'][0
  */
 export function createOtelCallback(config: OtelConfig): RunEventCallback {
     const serviceName = config.serviceName || 'gxai-agent';
-    const pendingSpans: Map<string, { traceId: string; startTime: number }> = new Map();
+    const pendingSpans: Map<string, { traceId: string; spanId: string; parentSpanId?: string; startTime: number }> = new Map();
     const spanBuffer: OtelSpan[] = [];
     let flushTimer: ReturnType<typeof setInterval> | null = null;
 
@@ -120,8 +120,14 @@ export function createOtelCallback(config: OtelConfig): RunEventCallback {
     return (event: RunEvent) => {
         switch (event.type) {
             case 'run_start': {
-                const traceId = generateTraceId();
-                pendingSpans.set(event.requestId, { traceId, startTime: event.timestamp });
+                // Nested runs (agent.asTool()) join their parent's trace as child spans
+                const parent = event.parentRequestId ? pendingSpans.get(event.parentRequestId) : undefined;
+                pendingSpans.set(event.requestId, {
+                    traceId: parent?.traceId ?? generateTraceId(),
+                    spanId: generateSpanId(),
+                    ...(parent && { parentSpanId: parent.spanId }),
+                    startTime: event.timestamp,
+                });
                 break;
             }
 
@@ -132,7 +138,8 @@ export function createOtelCallback(config: OtelConfig): RunEventCallback {
 
                 const span: OtelSpan = {
                     traceId: pending.traceId,
-                    spanId: generateSpanId(),
+                    spanId: pending.spanId,
+                    ...(pending.parentSpanId && { parentSpanId: pending.parentSpanId }),
                     name: `agent.run ${event.agentName}`,
                     kind: 1,
                     startTimeUnixNano: tsToNano(pending.startTime),
@@ -162,7 +169,8 @@ export function createOtelCallback(config: OtelConfig): RunEventCallback {
 
                 const span: OtelSpan = {
                     traceId: pending.traceId,
-                    spanId: generateSpanId(),
+                    spanId: pending.spanId,
+                    ...(pending.parentSpanId && { parentSpanId: pending.parentSpanId }),
                     name: `agent.run ${event.agentName}`,
                     kind: 1,
                     startTimeUnixNano: tsToNano(pending.startTime),
@@ -181,6 +189,62 @@ export function createOtelCallback(config: OtelConfig): RunEventCallback {
                 break;
             }
 
+            case 'run_cancelled': {
+                const pending = pendingSpans.get(event.requestId);
+                if (!pending) break;
+                pendingSpans.delete(event.requestId);
+
+                // Cancellation is not a failure: status stays unset
+                const span: OtelSpan = {
+                    traceId: pending.traceId,
+                    spanId: pending.spanId,
+                    ...(pending.parentSpanId && { parentSpanId: pending.parentSpanId }),
+                    name: `agent.run ${event.agentName}`,
+                    kind: 1,
+                    startTimeUnixNano: tsToNano(pending.startTime),
+                    endTimeUnixNano: tsToNano(event.timestamp),
+                    attributes: [
+                        makeAttr('agent.name', event.agentName),
+                        makeAttr('agent.llm', event.llm),
+                        makeAttr('agent.request_id', event.requestId),
+                        makeAttr('agent.duration_ms', event.durationMs),
+                        makeAttr('agent.cancel_reason', event.reason),
+                    ],
+                    status: { code: 0 },
+                };
+                spanBuffer.push(span);
+                if (config.batch === false) flush();
+                break;
+            }
+
+            case 'run_suspended': {
+                const pending = pendingSpans.get(event.requestId);
+                if (!pending) break;
+                pendingSpans.delete(event.requestId);
+
+                // Waiting for approval is not a failure; the resumed run gets its own span
+                const span: OtelSpan = {
+                    traceId: pending.traceId,
+                    spanId: pending.spanId,
+                    ...(pending.parentSpanId && { parentSpanId: pending.parentSpanId }),
+                    name: `agent.run ${event.agentName}`,
+                    kind: 1,
+                    startTimeUnixNano: tsToNano(pending.startTime),
+                    endTimeUnixNano: tsToNano(event.timestamp),
+                    attributes: [
+                        makeAttr('agent.name', event.agentName),
+                        makeAttr('agent.llm', event.llm),
+                        makeAttr('agent.request_id', event.requestId),
+                        makeAttr('agent.duration_ms', event.durationMs),
+                        makeAttr('agent.approval_id', event.approvalId),
+                    ],
+                    status: { code: 0 },
+                };
+                spanBuffer.push(span);
+                if (config.batch === false) flush();
+                break;
+            }
+
             case 'tool_complete': {
                 // Tool invocations get their own spans
                 const span: OtelSpan = {
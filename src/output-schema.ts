@@ -0,0 +1,283 @@
+/**
+ * output-schema.ts — Agent output schemas on the JSON-schema and XML paths
+ *
+ * Supports arrays (of primitives or objects), enums, literals, unions and
+ * discriminated unions, optionals, nullables, defaults and records.
+ *
+ * - JSON-schema providers get a strict-mode compatible schema: optional fields
+ *   become required + nullable, and `null` is mapped back to `undefined`.
+ * - XML providers get a skeleton (`<tags><item>…</item></tags>` for arrays)
+ *   plus per-field instructions, and the parsed XML is coerced to the schema
+ *   (numbers, booleans, single-item arrays, enum casing, union variants).
+ *
+ * Usage:
+ *   const { schema, strict } = outputJsonSchema(outputFormat);
+ *   const skeleton = describeOutputFormat(outputFormat);
+ *   const value = coerceToSchema(xmlToObj(response), outputFormat);
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { objToXml } from './xml';
+
+const typeName = (schema: z.ZodTypeAny): string => (schema._def as any).typeName;
+
+interface UnwrappedSchema {
+    schema: z.ZodTypeAny;
+    optional: boolean;
+    nullable: boolean;
+    description?: string;
+}
+
+/** Strip optional/nullable/default/effects wrappers, remembering what was stripped */
+function unwrap(schema: z.ZodTypeAny): UnwrappedSchema {
+    let current = schema;
+    let optional = false;
+    let nullable = false;
+    let description = schema.description;
+    while (true) {
+        const name = typeName(current);
+        if (name === 'ZodOptional') optional = true;
+        else if (name === 'ZodNullable') nullable = true;
+        else if (name === 'ZodDefault') optional = true;
+        else if (name !== 'ZodEffects' && name !== 'ZodBranded' && name !== 'ZodReadonly') break;
+        const def = current._def as any;
+        current = def.innerType ?? def.schema ?? def.type;
+        description ||= current.description;
+    }
+    return { schema: current, optional, nullable, description };
+}
+
+function containsRecord(schema: z.ZodTypeAny): boolean {
+    const { schema: inner } = unwrap(schema);
+    const def = inner._def as any;
+    switch (typeName(inner)) {
+        case 'ZodRecord': return true;
+        case 'ZodObject': return Object.values((inner as z.ZodObject<any>).shape).some(s => containsRecord(s as z.ZodTypeAny));
+        case 'ZodArray': return containsRecord(def.type);
+        case 'ZodUnion':
+        case 'ZodDiscriminatedUnion': return (def.options as z.ZodTypeAny[]).some(containsRecord);
+        default: return false;
+    }
+}
+
+/**
+ * JSON schema for `response_format`.
+ * Strict mode requires a closed schema, so it is turned off when the output contains a record.
+ */
+export function outputJsonSchema(schema: z.ZodTypeAny): { schema: Record<string, any>; strict: boolean } {
+    const strict = !containsRecord(schema);
+    const { $schema, ...json } = zodToJsonSchema(schema, { target: strict ? 'openAi' : 'jsonSchema7' }) as Record<string, any>;
+    return { schema: { ...json, additionalProperties: false }, strict };
+}
+
+/** XML skeleton for the `output_format` prompt field — arrays are shown with one `<item>` */
+export function describeOutputFormat(schema: z.ZodTypeAny): any {
+    const { schema: inner } = unwrap(schema);
+    switch (typeName(inner)) {
+        case 'ZodObject':
+            return Object.fromEntries(Object.entries((inner as z.ZodObject<any>).shape)
+                .map(([key, field]) => [key, describeOutputFormat(field as z.ZodTypeAny)]));
+        case 'ZodArray':
+            return [describeOutputFormat((inner._def as any).type)];
+        default:
+            return '';
+    }
+}
+
+/** XML example of one union variant, with literal discriminators filled in */
+function variantExample(schema: z.ZodTypeAny): string {
+    const { schema: inner } = unwrap(schema);
+    if (typeName(inner) === 'ZodLiteral') return String((inner._def as any).value);
+    if (typeName(inner) !== 'ZodObject') return typeLabel(inner);
+    const example = Object.fromEntries(Object.entries((inner as z.ZodObject<any>).shape).map(([key, field]) => {
+        const fieldInner = unwrap(field as z.ZodTypeAny).schema;
+        return [key, typeName(fieldInner) === 'ZodLiteral' ? String((fieldInner._def as any).value) : describeOutputFormat(fieldInner)];
+    }));
+    return objToXml(example);
+}
+
+function typeLabel(schema: z.ZodTypeAny): string {
+    const name = typeName(schema);
+    return name.startsWith('Zod') ? name.slice(3).toLowerCase() : name;
+}
+
+/** Constraint sentence for a field, e.g. `exactly one of these values: "a", "b"` */
+function fieldConstraint(schema: z.ZodTypeAny): string | null {
+    const def = schema._def as any;
+    switch (typeName(schema)) {
+        case 'ZodBoolean':
+            return 'either "true" or "false"';
+        case 'ZodEnum':
+            return `exactly one of these values: ${def.values.map((v: string) => `"${v}"`).join(', ')}`;
+        case 'ZodNativeEnum':
+            return `exactly one of these values: ${Object.values(def.values).filter(v => typeof v !== 'number' || !(String(v) in def.values)).map(v => `"${v}"`).join(', ')}`;
+        case 'ZodLiteral':
+            return `exactly "${def.value}"`;
+        case 'ZodArray':
+            return 'a list, with each element wrapped in its own <item> tag';
+        case 'ZodRecord':
+            return 'a map, with one child tag per entry named after its key';
+        case 'ZodUnion':
+        case 'ZodDiscriminatedUnion':
+            return `one of these forms: ${(def.options as z.ZodTypeAny[]).map(variantExample).join(' OR ')}`;
+        default:
+            return null;
+    }
+}
+
+/** Per-field instructions for the XML path (`- path SHOULD be …`) */
+export function describeOutputFields(schema: z.ZodObject<any>, path: string = ''): string[] {
+    const descriptions: string[] = [];
+
+    for (const [key, fieldSchema] of Object.entries(schema.shape)) {
+        const currentPath = path ? `${path}_${key}` : key;
+        const { schema: inner, optional, nullable, description: fieldDescription } = unwrap(fieldSchema as z.ZodTypeAny);
+        let description = fieldDescription || '';
+
+        const constraints = [fieldConstraint(inner)].filter(Boolean) as string[];
+        if (optional || nullable) constraints.push('left empty when not applicable');
+        for (const constraint of constraints) {
+            description = description ? `${description}. Must be ${constraint}` : `Must be ${constraint}`;
+        }
+
+        if (description) {
+            descriptions.push(`- ${currentPath} SHOULD be ${description}`);
+        }
+
+        if (typeName(inner) === 'ZodObject') {
+            descriptions.push(...describeOutputFields(inner as z.ZodObject<any>, currentPath));
+        } else if (typeName(inner) === 'ZodArray') {
+            const item = unwrap((inner._def as any).type).schema;
+            if (typeName(item) === 'ZodObject') {
+                descriptions.push(...describeOutputFields(item as z.ZodObject<any>, `${currentPath}_item`));
+            }
+        }
+    }
+
+    return descriptions;
+}
+
+const isBlank = (value: unknown) =>
+    value === undefined || value === null || (typeof value === 'string' && (value.trim() === '' || value.trim() === 'null'));
+
+/**
+ * Coerce parsed model output towards `schema`.
+ * Values that cannot be coerced are returned unchanged so Zod reports them.
+ */
+export function coerceToSchema(value: any, schema: z.ZodTypeAny): any {
+    const { schema: inner, optional, nullable } = unwrap(schema);
+    const def = inner._def as any;
+
+    if (isBlank(value) && (optional || nullable)) {
+        return nullable && !(optional && value === undefined) ? null : undefined;
+    }
+    if (value === null && optional && !nullable) return undefined;
+
+    switch (typeName(inner)) {
+        case 'ZodString':
+            return typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+        case 'ZodNumber': {
+            if (typeof value !== 'string' || !value.trim()) return value;
+            const n = Number(value.trim());
+            return Number.isNaN(n) ? value : n;
+        }
+        case 'ZodBoolean':
+            if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) return value.trim().toLowerCase() === 'true';
+            return value;
+        case 'ZodEnum':
+        case 'ZodNativeEnum':
+        case 'ZodLiteral': {
+            const allowed: unknown[] = typeName(inner) === 'ZodLiteral' ? [def.value]
+                : typeName(inner) === 'ZodEnum' ? def.values : Object.values(def.values);
+            if (allowed.includes(value)) return value;
+            const text = String(value).trim().toLowerCase();
+            return allowed.find(a => String(a).toLowerCase() === text) ?? value;
+        }
+        case 'ZodArray': {
+            if (isBlank(value)) return [];
+            let items = value;
+            // `<tags><item>…</item></tags>` with a nested object item can come back as { item: … }
+            if (items && typeof items === 'object' && !Array.isArray(items) && Object.keys(items).length === 1 && 'item' in items) {
+                items = items.item;
+            }
+            return (Array.isArray(items) ? items : [items]).map(item => coerceToSchema(item, def.type));
+        }
+        case 'ZodObject': {
+            if (isBlank(value)) return {};
+            if (typeof value !== 'object' || Array.isArray(value)) return value;
+            const result: Record<string, any> = { ...value };
+            for (const [key, field] of Object.entries((inner as z.ZodObject<any>).shape)) {
+                const coerced = coerceToSchema(value[key], field as z.ZodTypeAny);
+                if (coerced === undefined) delete result[key];
+                else result[key] = coerced;
+            }
+            return result;
+        }
+        case 'ZodRecord': {
+            if (isBlank(value)) return {};
+            if (typeof value !== 'object' || Array.isArray(value)) return value;
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, coerceToSchema(v, def.valueType)]));
+        }
+        case 'ZodUnion':
+        case 'ZodDiscriminatedUnion': {
+            let options = def.options as z.ZodTypeAny[];
+            if (typeName(inner) === 'ZodDiscriminatedUnion' && value && typeof value === 'object') {
+                const tag = String(value[def.discriminator] ?? '').trim().toLowerCase();
+                const matching = options.filter(o => String((o as z.ZodObject<any>).shape[def.discriminator]._def.value).toLowerCase() === tag);
+                if (matching.length) options = matching;
+            }
+            for (const option of options) {
+                const coerced = coerceToSchema(value, option);
+                if (option.safeParse(coerced).success) return coerced;
+            }
+            return value;
+        }
+        default:
+            return value;
+    }
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect, describe } = await import('bun:test');
+
+    describe('output-schema', () => {
+        const schema = z.object({
+            tags: z.array(z.object({ name: z.string(), score: z.number() })),
+            mood: z.enum(['happy', 'sad']),
+            note: z.string().optional(),
+            nick: z.string().nullable(),
+        });
+
+        test('optional fields become required + nullable in strict mode', () => {
+            const { schema: json, strict } = outputJsonSchema(schema);
+            expect(strict).toBe(true);
+            expect(json.required).toEqual(['tags', 'mood', 'note', 'nick']);
+            expect(json.properties.note.type).toEqual(['string', 'null']);
+            expect(json.$schema).toBeUndefined();
+        });
+
+        test('records disable strict mode', () => {
+            const { schema: json, strict } = outputJsonSchema(z.object({ counts: z.record(z.number()) }));
+            expect(strict).toBe(false);
+            expect(json.properties.counts.additionalProperties).toEqual({ type: 'number' });
+        });
+
+        test('coerces JSON nulls back to undefined for optional fields', () => {
+            const out = coerceToSchema({ tags: [], mood: 'happy', note: null, nick: null }, schema);
+            expect(out).toEqual({ tags: [], mood: 'happy', nick: null });
+            expect(schema.parse(out)).toEqual(out);
+        });
+
+        test('skeleton shows arrays with a single item', () => {
+            expect(describeOutputFormat(schema)).toEqual({ tags: [{ name: '', score: '' }], mood: '', note: '', nick: '' });
+        });
+
+        test('field instructions cover enums, arrays and optionals', () => {
+            const lines = describeOutputFields(schema);
+            expect(lines).toContain('- tags SHOULD be Must be a list, with each element wrapped in its own <item> tag');
+            expect(lines).toContain('- mood SHOULD be Must be exactly one of these values: "happy", "sad"');
+            expect(lines).toContain('- note SHOULD be Must be left empty when not applicable');
+        });
+    });
+}
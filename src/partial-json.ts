@@ -0,0 +1,204 @@
+/**
+ * partial-json.ts — Partial Structured Output Parsing
+ *
+ * Turns the text of a structured response that is still being generated into
+ * a best-effort snapshot of the value so far:
+ * - `parsePartialJSON()`: closes open strings, objects and arrays; keys without
+ *   a value yet, and numbers or literals that may still grow, are left out
+ * - `closePartialXML()`: drops a half-written tag and closes open ones, so
+ *   `xmlToObj()` can read it
+ * - `pickPresent()`: undoes schema coercion's defaults for fields not seen yet
+ *
+ * Usage:
+ *   parsePartialJSON('{"title":"Hel')              // { title: 'Hel' }
+ *   parsePartialJSON('{"tags":["a","b"],"n":1')    // { tags: ['a', 'b'] }
+ *   closePartialXML('<answer><title>Hel')          // '<answer><title>Hel</title></answer>'
+ */
+
+/** Recursively optional version of T — the shape of a partial output snapshot */
+export type DeepPartial<T> =
+    T extends (infer U)[] ? DeepPartial<U>[]
+    : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+interface Parsed {
+    value: unknown;
+    /** False when the text ended inside the value */
+    complete: boolean;
+}
+
+interface Cursor {
+    text: string;
+    pos: number;
+}
+
+function skipWhitespace(c: Cursor) {
+    while (c.pos < c.text.length && /\s/.test(c.text[c.pos]!)) c.pos++;
+}
+
+/** Drop a trailing escape sequence that was cut off (`\` or `\u12`) */
+function trimPartialEscape(raw: string): string {
+    const match = /(\\+)(u[0-9a-fA-F]{0,3})?$/.exec(raw);
+    if (!match || match[1]!.length % 2 === 0) return raw;
+    return raw.slice(0, match.index + match[1]!.length - 1);
+}
+
+function parseString(c: Cursor): Parsed {
+    const start = c.pos++;
+    while (c.pos < c.text.length) {
+        const char = c.text[c.pos++];
+        if (char === '\\') c.pos++;
+        else if (char === '"') return { value: JSON.parse(c.text.slice(start, c.pos)), complete: true };
+    }
+    const raw = trimPartialEscape(c.text.slice(start + 1));
+    try {
+        return { value: JSON.parse(`"${raw}"`), complete: false };
+    } catch {
+        return { value: raw, complete: false };
+    }
+}
+
+/** Numbers and literals count only once something follows them */
+function parseScalar(c: Cursor): Parsed | undefined {
+    const match = /^[^,\]}\s]+/.exec(c.text.slice(c.pos));
+    if (!match || c.pos + match[0].length >= c.text.length) return undefined;
+    try {
+        const value = JSON.parse(match[0]);
+        c.pos += match[0].length;
+        return { value, complete: true };
+    } catch {
+        return undefined;
+    }
+}
+
+function parseArray(c: Cursor): Parsed {
+    const items: unknown[] = [];
+    c.pos++;
+    while (true) {
+        skipWhitespace(c);
+        if (c.pos >= c.text.length) return { value: items, complete: false };
+        if (c.text[c.pos] === ']') {
+            c.pos++;
+            return { value: items, complete: true };
+        }
+        if (c.text[c.pos] === ',') {
+            c.pos++;
+            continue;
+        }
+        const item = parseValue(c);
+        if (!item) return { value: items, complete: false };
+        items.push(item.value);
+        if (!item.complete) return { value: items, complete: false };
+    }
+}
+
+function parseObject(c: Cursor): Parsed {
+    const obj: Record<string, unknown> = {};
+    c.pos++;
+    while (true) {
+        skipWhitespace(c);
+        if (c.pos >= c.text.length) return { value: obj, complete: false };
+        const char = c.text[c.pos];
+        if (char === '}') {
+            c.pos++;
+            return { value: obj, complete: true };
+        }
+        if (char === ',') {
+            c.pos++;
+            continue;
+        }
+        if (char !== '"') return { value: obj, complete: false };
+
+        const key = parseString(c);
+        skipWhitespace(c);
+        if (!key.complete || c.text[c.pos] !== ':') return { value: obj, complete: false };
+        c.pos++;
+        const value = parseValue(c);
+        if (!value) return { value: obj, complete: false };
+        obj[key.value as string] = value.value;
+        if (!value.complete) return { value: obj, complete: false };
+    }
+}
+
+function parseValue(c: Cursor): Parsed | undefined {
+    skipWhitespace(c);
+    if (c.pos >= c.text.length) return undefined;
+    switch (c.text[c.pos]) {
+        case '{': return parseObject(c);
+        case '[': return parseArray(c);
+        case '"': return parseString(c);
+        default: return parseScalar(c);
+    }
+}
+
+/**
+ * Best-effort value of a JSON object or array that may be cut off anywhere.
+ * Text before the first `{` or `[` (e.g. a code fence) is skipped.
+ * Returns undefined until an object or array has started.
+ */
+export function parsePartialJSON(text: string): unknown {
+    const start = text.search(/[{[]/);
+    if (start < 0) return undefined;
+    return parseValue({ text, pos: start })?.value;
+}
+
+/** Complete a cut-off XML document: drop a half-written tag and close all open tags */
+export function closePartialXML(text: string): string {
+    const lastOpen = text.lastIndexOf('<');
+    if (lastOpen >= 0 && text.indexOf('>', lastOpen) < 0) text = text.slice(0, lastOpen);
+
+    const stack: string[] = [];
+    for (const [, closing, name, selfClosing] of text.matchAll(/<(\/?)([^\s>\/]+)[^>]*?(\/?)>/g)) {
+        if (selfClosing) continue;
+        if (!closing) stack.push(name!);
+        else if (stack.includes(name!)) stack.length = stack.lastIndexOf(name!);
+    }
+    return text + stack.reverse().map(name => `</${name}>`).join('');
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * `value` restricted to the keys that are set in `source`, recursively.
+ * Keeps schema coercion from filling in fields that have not started streaming yet.
+ */
+export function pickPresent(value: unknown, source: unknown): unknown {
+    if (Array.isArray(value) && Array.isArray(source)) return value.map((item, i) => pickPresent(item, source[i]));
+    if (!isPlainObject(value) || !isPlainObject(source)) return value;
+    return Object.fromEntries(Object.keys(value)
+        .filter(key => source[key] !== undefined)
+        .map(key => [key, pickPresent(value[key], source[key])]));
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    test('parsePartialJSON returns every prefix of a document as a growing snapshot', () => {
+        const doc = '{"title":"Hi \\"there\\"","tags":["a","b"],"meta":{"n":12,"ok":true},"note":null}';
+        const snapshots = Array.from({ length: doc.length + 1 }, (_, i) => JSON.stringify(parsePartialJSON(doc.slice(0, i))));
+        expect(snapshots[0]).toBeUndefined();
+        expect(snapshots.at(-1)).toBe(JSON.stringify(JSON.parse(doc)));
+        expect(snapshots).toContain('{"title":"Hi \\""}');
+        expect(snapshots).toContain('{"title":"Hi \\"there\\"","tags":["a"]}');
+        expect(snapshots).not.toContain('{"title":"Hi \\"there\\"","tags":["a","b"],"meta":{"n":1}}');
+    });
+
+    test('parsePartialJSON drops cut-off escapes and skips leading text', () => {
+        expect(parsePartialJSON('{"a":"x\\')).toEqual({ a: 'x' });
+        expect(parsePartialJSON('{"a":"\\u00e')).toEqual({ a: '' });
+        expect(parsePartialJSON('```json\n[{"a":1},{"b"')).toEqual([{ a: 1 }, {}]);
+        expect(parsePartialJSON('no json yet')).toBeUndefined();
+    });
+
+    test('pickPresent drops keys that coercion added', () => {
+        expect(pickPresent({ a: 'x', b: [], c: { d: 1, e: null } }, { a: 'x', c: { d: '1' } })).toEqual({ a: 'x', c: { d: 1 } });
+        expect(pickPresent([{ a: 1, b: [] }], [{ a: 1 }])).toEqual([{ a: 1 }]);
+    });
+
+    test('closePartialXML closes open tags and drops a half-written tag', () => {
+        expect(closePartialXML('<answer><title>Hel')).toBe('<answer><title>Hel</title></answer>');
+        expect(closePartialXML('<answer><title>Hello</title><bo')).toBe('<answer><title>Hello</title></answer>');
+        expect(closePartialXML('<a><br/><b>x</b>')).toBe('<a><br/><b>x</b></a>');
+    });
+}
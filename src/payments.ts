@@ -57,12 +57,88 @@ async function multiplexWebSocketRequest(url: string, options: RequestInit): Pro
   });
 }
 
+type SolanaWallet = { privateKey: string; rpcUrl?: string; allowedRecipients?: string[] };
+
+/** Pay the SOL amount a 402 response asks for, from `solanaWallet` */
+async function payInvoice(res: Response, solanaWallet: SolanaWallet, progressCallback?: ProgressCallback): Promise<void> {
+  const paymentInfo = await res.json() as { amount: number; recipient: string };
+  const { amount, recipient } = paymentInfo;
+
+  if (solanaWallet.allowedRecipients && solanaWallet.allowedRecipients.length > 0) {
+    if (!solanaWallet.allowedRecipients.includes(recipient)) {
+      throw new Error(`Security Error: Payment requested by an unregistered recipient address (${recipient}).`);
+    }
+  }
+
+  progressCallback?.({
+    stage: "payment",
+    message: `Processing payment of ${amount} SOL to ${recipient}...`,
+  });
+
+  const lamports = Math.floor(amount * 1_000_000_000);
+  const privateKeyBytes = bs58.decode(solanaWallet.privateKey);
+  const fromKeypair = solanaWeb3.Keypair.fromSecretKey(privateKeyBytes);
+  const toPubkey = new solanaWeb3.PublicKey(recipient);
+
+  const transaction = new solanaWeb3.Transaction().add(
+    solanaWeb3.SystemProgram.transfer({
+      fromPubkey: fromKeypair.publicKey,
+      toPubkey,
+      lamports,
+    })
+  );
+
+  const rpcUrl = solanaWallet.rpcUrl || "https://api.mainnet-beta.solana.com";
+  const connection = new solanaWeb3.Connection(rpcUrl, "confirmed");
+
+  const signature = await measure.retry(
+    `Solana tx → ${recipient}`,
+    { attempts: 3, delay: 2000, backoff: 2 },
+    async () => {
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+      transaction.recentBlockhash = blockhash;
+      transaction.feePayer = fromKeypair.publicKey;
+
+      const sig = await connection.sendTransaction(transaction, [fromKeypair]);
+      const confirmation = await connection.confirmTransaction({
+        signature: sig,
+        blockhash,
+        lastValidBlockHeight
+      });
+
+      if (confirmation.value.err) {
+        throw new Error(`Transaction failed: ${confirmation.value.err}`);
+      }
+      return sig;
+    }
+  );
+
+  progressCallback?.({
+    stage: "payment",
+    message: `Payment confirmed. Retrying request...`,
+  });
+}
+
+/**
+ * A `fetch` that pays a 402 response once from `solanaWallet` and retries.
+ * Other responses — errors included — are returned as-is, so callers such as
+ * the MCP HTTP transport can handle them. Without a wallet it is plain `fetch`.
+ */
+export function createPaymentFetch(solanaWallet?: SolanaWallet, progressCallback?: ProgressCallback) {
+  return async (url: string, init: RequestInit = {}): Promise<Response> => {
+    const res = await fetch(url, init);
+    if (res.status !== 402 || !solanaWallet) return res;
+    await payInvoice(res, solanaWallet, progressCallback);
+    return fetch(url, init);
+  };
+}
+
 export async function fetchWithPayment(
   url: string,
   options: RequestInit,
   description: string,
   progressCallback?: ProgressCallback,
-  solanaWallet?: { privateKey: string; rpcUrl?: string; allowedRecipients?: string[] }
+  solanaWallet?: SolanaWallet
 ): Promise<Response> {
   let retries = 0;
   const maxRetries = 1;
@@ -82,63 +158,7 @@ export async function fetchWithPayment(
       throw new Error(`Request failed: ${res.status} - ${errorText}`);
     }
 
-    const paymentInfo = await res.json() as { amount: number; recipient: string };
-    const { amount, recipient } = paymentInfo;
-
-    if (solanaWallet.allowedRecipients && solanaWallet.allowedRecipients.length > 0) {
-      if (!solanaWallet.allowedRecipients.includes(recipient)) {
-        throw new Error(`Security Error: Payment requested by an unregistered recipient address (${recipient}).`);
-      }
-    }
-
-    progressCallback?.({
-      stage: "payment",
-      message: `Processing payment of ${amount} SOL to ${recipient}...`,
-    });
-
-    const lamports = Math.floor(amount * 1_000_000_000);
-    const privateKeyBytes = bs58.decode(solanaWallet.privateKey);
-    const fromKeypair = solanaWeb3.Keypair.fromSecretKey(privateKeyBytes);
-    const toPubkey = new solanaWeb3.PublicKey(recipient);
-
-    const transaction = new solanaWeb3.Transaction().add(
-      solanaWeb3.SystemProgram.transfer({
-        fromPubkey: fromKeypair.publicKey,
-        toPubkey,
-        lamports,
-      })
-    );
-
-    const rpcUrl = solanaWallet.rpcUrl || "https://api.mainnet-beta.solana.com";
-    const connection = new solanaWeb3.Connection(rpcUrl, "confirmed");
-
-    const signature = await measure.retry(
-      `Solana tx → ${recipient}`,
-      { attempts: 3, delay: 2000, backoff: 2 },
-      async () => {
-        const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
-        transaction.recentBlockhash = blockhash;
-        transaction.feePayer = fromKeypair.publicKey;
-
-        const sig = await connection.sendTransaction(transaction, [fromKeypair]);
-        const confirmation = await connection.confirmTransaction({
-          signature: sig,
-          blockhash,
-          lastValidBlockHeight
-        });
-
-        if (confirmation.value.err) {
-          throw new Error(`Transaction failed: ${confirmation.value.err}`);
-        }
-        return sig;
-      }
-    );
-
-    progressCallback?.({
-      stage: "payment",
-      message: `Payment confirmed. Retrying request...`,
-    });
-
+    await payInvoice(res, solanaWallet, progressCallback);
     retries++;
   }
 }
@@ -167,6 +187,20 @@ if (import.meta.env.NODE_ENV === "test") {
     }
   });
 
+  test('createPaymentFetch returns responses it cannot pay as-is', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async () => new Response(JSON.stringify({ amount: 0.1, recipient: "EVIL_ADDRESS" }), { status: 402 }) as any) as any;
+    try {
+      expect((await createPaymentFetch()('https://example.com')).status).toBe(402);
+      await expect(createPaymentFetch({ privateKey: "dummy", allowedRecipients: ["GOOD_ADDRESS"] })('https://example.com'))
+        .rejects.toThrow(/unregistered recipient address/);
+      globalThis.fetch = (async () => new Response('Not Found', { status: 404 }) as any) as any;
+      expect((await createPaymentFetch({ privateKey: "dummy" })('https://example.com')).status).toBe(404);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
   test('fetchWithPayment rejects unregistered 402 recipient spoofing', async () => {
     const originalFetch = globalThis.fetch;
     globalThis.fetch = (async () => new Response(JSON.stringify({ amount: 0.1, recipient: "EVIL_ADDRESS" }), { status: 402 }) as any) as any;
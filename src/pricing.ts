@@ -1,11 +1,12 @@
 /**
  * pricing.ts — LLM provider pricing per million tokens (USD)
  *
- * Prices as of March 2026. Updated periodically.
+ * Prices (as of March 2026) are defined by each provider adapter in src/providers/.
  * Used by Agent.estimateCost() and Agent.lastCost.
  */
 
 import type { TokenUsage } from './types';
+import { resolveProvider } from './providers';
 
 export interface ModelPricing {
     inputPerMillion: number;
@@ -19,42 +20,12 @@ export interface CostEstimate {
     currency: 'USD';
 }
 
-/**
- * Pricing table: model name pattern → cost per million tokens
- * Matched by substring — first match wins, so more specific patterns first.
- */
-const PRICING_TABLE: Array<{ match: string; pricing: ModelPricing }> = [
-    // OpenAI
-    { match: 'gpt-4o-mini', pricing: { inputPerMillion: 0.15, outputPerMillion: 0.60 } },
-    { match: 'o4-mini', pricing: { inputPerMillion: 1.10, outputPerMillion: 4.40 } },
-    { match: 'gpt-4o', pricing: { inputPerMillion: 2.50, outputPerMillion: 10.00 } },
-
-    // Anthropic
-    { match: 'claude-sonnet-4', pricing: { inputPerMillion: 3.00, outputPerMillion: 15.00 } },
-    { match: 'claude-3-5-haiku', pricing: { inputPerMillion: 0.80, outputPerMillion: 4.00 } },
-    { match: 'claude-3-5-sonnet', pricing: { inputPerMillion: 3.00, outputPerMillion: 15.00 } },
-    { match: 'claude', pricing: { inputPerMillion: 3.00, outputPerMillion: 15.00 } },
-
-    // DeepSeek
-    { match: 'deepseek-reasoner', pricing: { inputPerMillion: 0.55, outputPerMillion: 2.19 } },
-    { match: 'deepseek', pricing: { inputPerMillion: 0.14, outputPerMillion: 0.28 } },
-
-    // Gemini
-    { match: 'gemini-2.5-pro', pricing: { inputPerMillion: 1.25, outputPerMillion: 10.00 } },
-    { match: 'gemini-2.5-flash', pricing: { inputPerMillion: 0.15, outputPerMillion: 0.60 } },
-    { match: 'gemini-2.0-flash', pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40 } },
-    { match: 'gemini', pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40 } },
-];
-
 /** Default fallback pricing if model not found */
 const DEFAULT_PRICING: ModelPricing = { inputPerMillion: 1.00, outputPerMillion: 3.00 };
 
-/** Look up pricing for a model name */
+/** Look up pricing for a model name (from its provider adapter's pricing table) */
 export function getModelPricing(llm: string): ModelPricing {
-    for (const entry of PRICING_TABLE) {
-        if (llm.includes(entry.match)) return entry.pricing;
-    }
-    return DEFAULT_PRICING;
+    return resolveProvider(llm).pricing?.(llm) ?? DEFAULT_PRICING;
 }
 
 /** Calculate cost from token usage and model name */
@@ -0,0 +1,172 @@
+/**
+ * providers.ts — Pluggable LLM Provider Registry
+ *
+ * Each provider is a `ProviderAdapter`: it builds the HTTP request, parses
+ * responses and SSE stream events, extracts token usage, and describes its
+ * capabilities, pricing and context window. callLLM(), pricing and context
+ * tracking all resolve the adapter for a model id through this registry.
+ *
+ * Usage:
+ *   registerProvider({
+ *     name: 'my-gateway',
+ *     matches: (model) => model.startsWith('gw/'),
+ *     endpoint: () => 'https://llm.internal/v1/chat/completions',
+ *     ...
+ *   });
+ *   await callLLM('gw/llama-3-70b', messages);
+ */
+
+import type { LLMFinishReason, LLMMessage, LLMToolCall, LLMToolChoice, LLMToolDefinition, TokenUsage } from './types';
+import type { ModelPricing } from './pricing';
+import { ProviderError } from './errors';
+import { openaiProvider } from './providers/openai';
+import { anthropicProvider } from './providers/anthropic';
+import { deepseekProvider } from './providers/deepseek';
+import { geminiProvider } from './providers/gemini';
+
+/** What a provider (or a specific model of it) supports */
+export interface ProviderCapabilities {
+    /** Native tool / function calling (otherwise the Agent uses XML tool-selection prompts) */
+    tools: boolean;
+    /** Native JSON-schema structured output (otherwise the Agent asks for XML output) */
+    structuredOutput: boolean;
+    /** Image inputs */
+    vision: boolean;
+    /** SSE streaming */
+    streaming: boolean;
+}
+
+/** Provider-neutral description of one LLM call */
+export interface ProviderRequestContext {
+    model: string;
+    messages: LLMMessage[];
+    temperature: number;
+    maxTokens: number;
+    /** OpenAI-style `response_format` ({ type: 'json_schema', json_schema: { name, schema } }) */
+    responseFormat?: any;
+    tools?: LLMToolDefinition[];
+    toolChoice?: LLMToolChoice;
+    stream: boolean;
+}
+
+/** HTTP request produced by an adapter — always sent as a JSON POST */
+export interface ProviderRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, any>;
+}
+
+/** Content and tool calls parsed from a non-streaming response */
+export interface ProviderResponse {
+    content: string;
+    toolCalls: LLMToolCall[];
+    finishReason?: LLMFinishReason;
+}
+
+/** Typed delta parsed from one SSE stream event */
+export type ProviderStreamDelta =
+    | { type: 'text'; text: string }
+    | { type: 'reasoning'; text: string }
+    | { type: 'tool_call_start'; index: number; id: string; name: string }
+    | { type: 'tool_call_delta'; index: number; arguments: string }
+    | { type: 'usage'; usage: Partial<TokenUsage> }
+    | { type: 'finish'; reason: LLMFinishReason };
+
+/** Stateful per-call parser: receives each parsed `data:` JSON payload, returns its deltas */
+export type ProviderStreamParser = (event: any) => ProviderStreamDelta[];
+
+export interface ProviderAdapter {
+    /** Unique provider id (e.g. 'openai'). Registering an existing name replaces it. */
+    name: string;
+    /** Whether this adapter serves a model id. Later registrations are checked first. */
+    matches(model: string): boolean;
+    /** Environment variables holding the API key — the first one set wins */
+    apiKeyEnv?: string[];
+    /** Non-streaming endpoint for a model (also used for health checks) */
+    endpoint(model: string): string;
+    capabilities(model: string): ProviderCapabilities;
+    buildRequest(ctx: ProviderRequestContext): ProviderRequest;
+    /** Parse a non-streaming response body. Throw with a descriptive message on format mismatch. */
+    parseResponse(data: any, ctx: ProviderRequestContext): ProviderResponse;
+    extractUsage(data: any): TokenUsage | undefined;
+    createStreamParser(ctx: ProviderRequestContext): ProviderStreamParser;
+    /** Emit streamed text as a single `content` field instead of XML-tag fields */
+    rawTextStream?: boolean;
+    /** Price per million tokens, or undefined for the default pricing */
+    pricing?(model: string): ModelPricing | undefined;
+    /** Context window in tokens, or undefined for the default size */
+    contextWindow?(model: string): number | undefined;
+}
+
+const providers: ProviderAdapter[] = [];
+
+/** Register a provider adapter. Returns a function that unregisters it. */
+export function registerProvider(adapter: ProviderAdapter): () => void {
+    unregisterProvider(adapter.name);
+    providers.push(adapter);
+    return () => {
+        const index = providers.indexOf(adapter);
+        if (index >= 0) providers.splice(index, 1);
+    };
+}
+
+/** Remove a provider by name */
+export function unregisterProvider(name: string): boolean {
+    const index = providers.findIndex(p => p.name === name);
+    if (index < 0) return false;
+    providers.splice(index, 1);
+    return true;
+}
+
+/** Get a registered provider by name */
+export function getProvider(name: string): ProviderAdapter | undefined {
+    return providers.find(p => p.name === name);
+}
+
+/** List registered provider names, in registration order */
+export function listProviders(): string[] {
+    return providers.map(p => p.name);
+}
+
+/**
+ * Find the adapter for a model id. The most recently registered matching
+ * adapter wins; unmatched models fall back to the OpenAI adapter.
+ */
+export function resolveProvider(model: string): ProviderAdapter {
+    for (let i = providers.length - 1; i >= 0; i--) {
+        if (providers[i]!.matches(model)) return providers[i]!;
+    }
+    const fallback = getProvider('openai');
+    if (!fallback) throw new ProviderError(`No provider registered for model "${model}"`, model);
+    return fallback;
+}
+
+// Built-in providers — registered first so custom adapters take precedence
+for (const adapter of [openaiProvider, anthropicProvider, deepseekProvider, geminiProvider]) {
+    registerProvider(adapter);
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    test('resolveProvider routes built-in models', () => {
+        expect(resolveProvider('gpt-4o-mini').name).toBe('openai');
+        expect(resolveProvider('claude-sonnet-4-20250514').name).toBe('anthropic');
+        expect(resolveProvider('deepseek-reasoner').name).toBe('deepseek');
+        expect(resolveProvider('gemini-2.0-flash').name).toBe('gemini');
+        expect(resolveProvider('some-unknown-model').name).toBe('openai');
+    });
+
+    test('registerProvider: custom adapter takes precedence and can be removed', () => {
+        const unregister = registerProvider({ ...openaiProvider, name: 'gateway', matches: (m) => m.startsWith('gw/') || m.includes('claude') });
+        try {
+            expect(resolveProvider('gw/llama').name).toBe('gateway');
+            expect(resolveProvider('claude-sonnet-4-20250514').name).toBe('gateway');
+            expect(listProviders()).toContain('gateway');
+        } finally {
+            unregister();
+        }
+        expect(resolveProvider('claude-sonnet-4-20250514').name).toBe('anthropic');
+        expect(getProvider('gateway')).toBeUndefined();
+    });
+}
@@ -0,0 +1,258 @@
+/**
+ * providers/anthropic.ts — Anthropic Messages API adapter
+ *
+ * Structured output uses a forced `tool_use` call whose input is the JSON
+ * result; extended thinking is enabled for Sonnet 4+ and Opus models.
+ */
+
+import { z } from 'zod';
+import type { LLMFinishReason, LLMMessage, LLMToolCall, LLMToolChoice, LLMToolDefinition, TokenUsage } from '../types';
+import type { ModelPricing } from '../pricing';
+import type { ProviderAdapter, ProviderRequestContext, ProviderStreamDelta, ProviderStreamParser } from '../providers';
+import { mapFinishReason, matchModel, normalizeToolParameters, parseToolArguments, parseWithSchema, requireApiKey } from './shared';
+
+export const AnthropicResponseSchema = z.object({
+    content: z.array(z.object({
+        type: z.string().optional(),
+        text: z.string().optional(),
+        thinking: z.string().optional(),
+        id: z.string().optional(),
+        name: z.string().optional(),
+        input: z.any().optional(),
+    })).min(1, 'Anthropic response has no content blocks'),
+    stop_reason: z.string().nullable().optional(),
+    usage: z.object({
+        input_tokens: z.number(),
+        output_tokens: z.number().optional(),
+    }).optional(),
+});
+
+const PRICING: Array<{ match: string; pricing: ModelPricing }> = [
+    { match: 'claude-sonnet-4', pricing: { inputPerMillion: 3.00, outputPerMillion: 15.00 } },
+    { match: 'claude-3-5-haiku', pricing: { inputPerMillion: 0.80, outputPerMillion: 4.00 } },
+    { match: 'claude-3-5-sonnet', pricing: { inputPerMillion: 3.00, outputPerMillion: 15.00 } },
+    { match: 'claude', pricing: { inputPerMillion: 3.00, outputPerMillion: 15.00 } },
+];
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+    end_turn: 'stop',
+    stop_sequence: 'stop',
+    max_tokens: 'length',
+    tool_use: 'tool_calls',
+    refusal: 'content_filter',
+};
+
+/** Stop reason, treating the forced structured-output tool call as a normal stop */
+function anthropicFinishReason(reason: unknown, structured: boolean): LLMFinishReason | undefined {
+    const mapped = mapFinishReason(FINISH_REASONS, reason);
+    return mapped === 'tool_calls' && structured ? 'stop' : mapped;
+}
+
+/** Name of the forced tool that carries structured output, if response_format asks for JSON */
+function structuredToolName(ctx: ProviderRequestContext): string | undefined {
+    const format = ctx.responseFormat;
+    if (format?.type !== 'json_schema' || !format.json_schema?.schema) return undefined;
+    return format.json_schema.name || 'structured_output';
+}
+
+function toAnthropicTools(tools: LLMToolDefinition[]): any[] {
+    return tools.map(t => ({ name: t.name, description: t.description, input_schema: normalizeToolParameters(t.parameters) }));
+}
+
+function toAnthropicToolChoice(choice: LLMToolChoice): any {
+    if (choice === 'required') return { type: 'any' };
+    if (typeof choice === 'string') return { type: choice };
+    return { type: 'tool', name: choice.name };
+}
+
+/** Assistant tool_use turns and tool_result turns; undefined for plain messages */
+function toAnthropicToolMessage(m: LLMMessage): any | undefined {
+    if (m.role === 'tool') {
+        return { role: 'user', content: [{ type: 'tool_result', tool_use_id: m.toolCallId, content: m.content }] };
+    }
+    if (m.toolCalls?.length) {
+        return {
+            role: m.role,
+            content: [
+                ...(m.content ? [{ type: 'text', text: m.content }] : []),
+                ...m.toolCalls.map(c => ({ type: 'tool_use', id: c.id, name: c.name, input: c.arguments })),
+            ],
+        };
+    }
+    return undefined;
+}
+
+function toAnthropicMessage(m: LLMMessage): any {
+    const images = m.images;
+    if (images && images.length > 0) {
+        // Multimodal: build content array with image + text parts
+        const contentParts: any[] = images.map(img => {
+            if (img.data) {
+                return { type: "image", source: { type: "base64", media_type: img.mimeType || 'image/png', data: img.data } };
+            }
+            // URL — Anthropic requires base64, but supports URL via url source type
+            return { type: "image", source: { type: "url", url: img.url } };
+        });
+        contentParts.push({ type: "text", text: m.content });
+        if (m.cacheControl) {
+            contentParts[contentParts.length - 1].cache_control = { type: "ephemeral" };
+        }
+        return { role: m.role, content: contentParts };
+    }
+    if (m.cacheControl) {
+        return {
+            role: m.role,
+            content: [
+                { type: "text", text: m.content, cache_control: { type: "ephemeral" } }
+            ]
+        };
+    }
+    return { role: m.role, content: m.content };
+}
+
+export const anthropicProvider: ProviderAdapter = {
+    name: 'anthropic',
+    matches: (model) => model.includes('claude'),
+    apiKeyEnv: ['ANTHROPIC_API_KEY'],
+    endpoint: () => 'https://api.anthropic.com/v1/messages',
+    capabilities: () => ({ tools: true, structuredOutput: true, vision: true, streaming: true }),
+    buildRequest(ctx) {
+        const systemMessages = ctx.messages.filter(m => m.role === "system");
+        let systemParam: string | any[] | undefined = undefined;
+        if (systemMessages.length === 1 && !systemMessages[0]!.cacheControl) {
+            systemParam = systemMessages[0]!.content;
+        } else if (systemMessages.length > 0) {
+            systemParam = systemMessages.map(m => {
+                const block: any = { type: "text", text: m.content };
+                if (m.cacheControl) block.cache_control = { type: "ephemeral" };
+                return block;
+            });
+        }
+
+        const messages: any[] = [];
+        for (const m of ctx.messages.filter(m => m.role !== "system")) {
+            const converted = toAnthropicToolMessage(m);
+            const last = messages[messages.length - 1];
+            // Parallel tool results must share one user turn
+            if (converted && m.role === 'tool' && last?.role === 'user' && Array.isArray(last.content) && last.content[0]?.type === 'tool_result') {
+                last.content.push(...converted.content);
+            } else {
+                messages.push(converted ?? toAnthropicMessage(m));
+            }
+        }
+
+        // Claude extended thinking: enable for Sonnet 4+ and Opus models.
+        // Skipped with native tools — tool_use turns would have to replay the signed thinking blocks.
+        const supportsThinking = (ctx.model.includes('claude-sonnet-4') || ctx.model.includes('claude-opus')) && !ctx.tools;
+
+        const body: Record<string, any> = {
+            model: ctx.model,
+            max_tokens: ctx.maxTokens,
+            messages,
+            stream: ctx.stream,
+            ...(systemParam !== undefined && { system: systemParam }),
+            ...(supportsThinking && { thinking: { type: 'enabled', budget_tokens: 10000 } }),
+        };
+
+        // Anthropic structured output: use tool_use with forced tool_choice
+        const toolName = structuredToolName(ctx);
+        if (toolName) {
+            body.tools = [{
+                name: toolName,
+                description: 'Return structured output matching the required schema',
+                input_schema: ctx.responseFormat.json_schema.schema,
+            }];
+            body.tool_choice = { type: 'tool', name: toolName };
+        }
+
+        if (ctx.tools) {
+            body.tools = [...(body.tools || []), ...toAnthropicTools(ctx.tools)];
+            if (ctx.toolChoice && !body.tool_choice) body.tool_choice = toAnthropicToolChoice(ctx.toolChoice);
+        }
+
+        return {
+            url: this.endpoint(ctx.model),
+            headers: {
+                "Content-Type": "application/json",
+                "x-api-key": requireApiKey(this.apiKeyEnv!),
+                "anthropic-version": "2023-06-01",
+            },
+            body,
+        };
+    },
+    parseResponse(data, ctx) {
+        const parsed = parseWithSchema(AnthropicResponseSchema, data, ctx.model);
+        const toolUseBlocks = parsed.content.filter(b => b.type === 'tool_use' && b.name);
+        // The forced structured-output tool's input is the content; any other tool_use is a native tool call
+        const toolName = structuredToolName(ctx);
+        const structuredBlock = toolName ? toolUseBlocks.find(b => b.name === toolName && b.input) : undefined;
+        const toolCalls: LLMToolCall[] = toolUseBlocks
+            .filter(b => b !== structuredBlock)
+            .map(b => ({ id: b.id || '', name: b.name!, arguments: parseToolArguments(b.input) }));
+        const finishReason = anthropicFinishReason(parsed.stop_reason, !!structuredBlock && toolCalls.length === 0);
+        if (structuredBlock) {
+            return { content: JSON.stringify(structuredBlock.input), toolCalls, finishReason };
+        }
+        // Skip thinking blocks — only return text content
+        const textBlocks = parsed.content.filter(b => b.type === 'text' && b.text);
+        const textContent = textBlocks.length > 0 ? textBlocks.map(b => b.text).join('') : '';
+        return { content: textContent || parsed.content.find(b => b.text)?.text || '', toolCalls, finishReason };
+    },
+    extractUsage(data) {
+        if (data?.usage?.input_tokens === undefined) return undefined;
+        const usage: TokenUsage = {
+            inputTokens: data.usage.input_tokens,
+            outputTokens: data.usage.output_tokens || 0,
+            totalTokens: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0),
+        };
+        // Claude extended thinking: extract thinking blocks
+        const content = data?.content;
+        if (content && Array.isArray(content)) {
+            const thoughts = content.filter((b: any) => b.type === 'thinking' && b.thinking).map((b: any) => b.thinking);
+            if (thoughts.length > 0) usage.reasoningContent = thoughts.join('\n');
+        }
+        return usage;
+    },
+    createStreamParser(ctx): ProviderStreamParser {
+        const toolName = structuredToolName(ctx);
+        /** Content block index of the structured-output tool, whose JSON streams as text */
+        let structuredIndex: number | undefined;
+        let nativeToolCalls = 0;
+        return (data) => {
+            // message_start carries input_tokens, message_delta carries output_tokens and stop_reason
+            if (data.type === "message_start" && data.message?.usage) {
+                return [{ type: 'usage', usage: { inputTokens: data.message.usage.input_tokens || 0 } }];
+            }
+            if (data.type === "message_delta") {
+                const deltas: ProviderStreamDelta[] = [];
+                if (data.usage) deltas.push({ type: 'usage', usage: { outputTokens: data.usage.output_tokens || 0 } });
+                const reason = anthropicFinishReason(data.delta?.stop_reason, structuredIndex !== undefined && nativeToolCalls === 0);
+                if (reason) deltas.push({ type: 'finish', reason });
+                return deltas;
+            }
+            if (data.type === "content_block_start" && data.content_block?.type === "tool_use") {
+                const { id, name } = data.content_block;
+                if (name === toolName) {
+                    structuredIndex = data.index;
+                    return [];
+                }
+                nativeToolCalls++;
+                return [{ type: 'tool_call_start', index: data.index, id, name }];
+            }
+            if (data.type === "content_block_delta") {
+                if (data.delta?.thinking) return [{ type: 'reasoning', text: data.delta.thinking }];
+                if (data.delta?.type === "input_json_delta") {
+                    const fragment = data.delta.partial_json || "";
+                    if (!fragment) return [];
+                    return data.index === structuredIndex
+                        ? [{ type: 'text', text: fragment }]
+                        : [{ type: 'tool_call_delta', index: data.index, arguments: fragment }];
+                }
+                if (data.delta?.text) return [{ type: 'text', text: data.delta.text }];
+            }
+            return [];
+        };
+    },
+    pricing: (model) => matchModel(PRICING, model)?.pricing,
+    contextWindow: () => 200_000,
+};
@@ -0,0 +1,45 @@
+/**
+ * providers/deepseek.ts — DeepSeek adapter (OpenAI-compatible chat completions)
+ */
+
+import type { ModelPricing } from '../pricing';
+import type { ProviderAdapter } from '../providers';
+import { buildOpenAIChatBody, createOpenAIStreamParser, extractOpenAIUsage, parseOpenAIResponse, toOpenAIMessages, toOpenAIToolChoice, toOpenAITools } from './openai';
+import { matchModel, requireApiKey } from './shared';
+
+const PRICING: Array<{ match: string; pricing: ModelPricing }> = [
+    { match: 'deepseek-reasoner', pricing: { inputPerMillion: 0.55, outputPerMillion: 2.19 } },
+    { match: 'deepseek', pricing: { inputPerMillion: 0.14, outputPerMillion: 0.28 } },
+];
+
+export const deepseekProvider: ProviderAdapter = {
+    name: 'deepseek',
+    matches: (model) => model.includes('deepseek'),
+    apiKeyEnv: ['DEEPSEEK_API_KEY'],
+    endpoint: () => 'https://api.deepseek.com/v1/chat/completions',
+    capabilities: (model) => ({
+        // DeepSeek R1 rejects the `tools` parameter
+        tools: !model.includes('deepseek-reasoner'),
+        structuredOutput: false,
+        vision: false,
+        streaming: true,
+    }),
+    buildRequest(ctx) {
+        // DeepSeek does not support vision — images are stripped silently
+        const body = buildOpenAIChatBody(ctx, toOpenAIMessages(ctx.messages, false));
+        if (ctx.tools && this.capabilities(ctx.model).tools) {
+            body.tools = toOpenAITools(ctx.tools);
+            if (ctx.toolChoice) body.tool_choice = toOpenAIToolChoice(ctx.toolChoice);
+        }
+        return {
+            url: this.endpoint(ctx.model),
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${requireApiKey(this.apiKeyEnv!)}` },
+            body,
+        };
+    },
+    parseResponse: (data, ctx) => parseOpenAIResponse(data, ctx.model),
+    extractUsage: extractOpenAIUsage,
+    createStreamParser: () => createOpenAIStreamParser(),
+    pricing: (model) => matchModel(PRICING, model)?.pricing,
+    contextWindow: () => 128_000,
+};
@@ -0,0 +1,245 @@
+/**
+ * providers/gemini.ts — Gemini generateContent REST adapter
+ *
+ * Streams via streamGenerateContent?alt=sse; Gemini 2.5+ thought parts are
+ * reported as reasoning.
+ */
+
+import { z } from 'zod';
+import type { LLMFinishReason, LLMMessage, LLMToolCall, LLMToolChoice, LLMToolDefinition, TokenUsage } from '../types';
+import type { ModelPricing } from '../pricing';
+import type { ProviderAdapter, ProviderStreamDelta, ProviderStreamParser } from '../providers';
+import { mapFinishReason, matchModel, normalizeToolParameters, parseToolArguments, parseWithSchema, requireApiKey } from './shared';
+
+export const GeminiResponseSchema = z.object({
+    candidates: z.array(z.object({
+        content: z.object({
+            parts: z.array(z.object({
+                text: z.string().optional(),
+                thought: z.boolean().optional(),
+                functionCall: z.object({ name: z.string(), args: z.any().optional() }).optional(),
+            })).min(1, 'Gemini candidate has no parts'),
+        }),
+        finishReason: z.string().optional(),
+    })).min(1, 'Gemini response has no candidates'),
+    usageMetadata: z.object({
+        promptTokenCount: z.number(),
+        candidatesTokenCount: z.number().optional(),
+        totalTokenCount: z.number().optional(),
+    }).optional(),
+});
+
+const PRICING: Array<{ match: string; pricing: ModelPricing }> = [
+    { match: 'gemini-2.5-pro', pricing: { inputPerMillion: 1.25, outputPerMillion: 10.00 } },
+    { match: 'gemini-2.5-flash', pricing: { inputPerMillion: 0.15, outputPerMillion: 0.60 } },
+    { match: 'gemini-2.0-flash', pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40 } },
+    { match: 'gemini', pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40 } },
+];
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+    STOP: 'stop',
+    MAX_TOKENS: 'length',
+    SAFETY: 'content_filter',
+    RECITATION: 'content_filter',
+    BLOCKLIST: 'content_filter',
+    PROHIBITED_CONTENT: 'content_filter',
+    SPII: 'content_filter',
+};
+
+/** Gemini reports STOP even when the turn ends in function calls */
+function geminiFinishReason(reason: unknown, hasToolCalls: boolean): LLMFinishReason | undefined {
+    const mapped = mapFinishReason(FINISH_REASONS, reason);
+    return mapped === 'stop' && hasToolCalls ? 'tool_calls' : mapped;
+}
+
+const BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/** Gemini accepts an OpenAPI subset — drop JSON Schema keywords it rejects (additionalProperties, $schema, ...) */
+const GEMINI_SCHEMA_KEYS = new Set(['type', 'format', 'description', 'nullable', 'enum', 'items', 'properties', 'required', 'minItems', 'maxItems', 'minimum', 'maximum', 'anyOf', 'const']);
+
+function toGeminiSchema(schema: any): any {
+    if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+    const out: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (!GEMINI_SCHEMA_KEYS.has(key)) continue;
+        if (key === 'type' && Array.isArray(value)) {
+            // JSON Schema ["string", "null"] → Gemini { type: "string", nullable: true }
+            const types = value.filter(t => t !== 'null');
+            out.type = types[0];
+            if (types.length < value.length) out.nullable = true;
+        } else if (key === 'properties') {
+            out.properties = Object.fromEntries(Object.entries(value as Record<string, any>).map(([k, v]) => [k, toGeminiSchema(v)]));
+        } else if (key === 'const') {
+            // Literal discriminators (z.literal / discriminated unions) → single-value enum
+            out.enum = [value];
+        } else if (key === 'items' || key === 'anyOf') {
+            out[key] = toGeminiSchema(value);
+        } else {
+            out[key] = value;
+        }
+    }
+    return out;
+}
+
+function toGeminiTools(tools: LLMToolDefinition[]): any[] {
+    return [{
+        functionDeclarations: tools.map(t => {
+            const parameters = toGeminiSchema(normalizeToolParameters(t.parameters));
+            // Gemini rejects an object schema without properties — omit parameters for no-arg tools
+            const hasParams = parameters.properties && Object.keys(parameters.properties).length > 0;
+            return { name: t.name, description: t.description, ...(hasParams && { parameters }) };
+        }),
+    }];
+}
+
+function toGeminiToolConfig(choice: LLMToolChoice): any {
+    if (typeof choice !== 'string') {
+        return { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [choice.name] } };
+    }
+    const mode = choice === 'required' ? 'ANY' : choice === 'none' ? 'NONE' : 'AUTO';
+    return { functionCallingConfig: { mode } };
+}
+
+/** functionCall parts for assistant tool-call turns, functionResponse parts for tool results */
+function toGeminiToolParts(m: LLMMessage): any[] | undefined {
+    if (m.role === 'tool') {
+        let response: any;
+        try { response = JSON.parse(m.content); } catch { response = m.content; }
+        // functionResponse.response must be an object
+        if (!response || typeof response !== 'object' || Array.isArray(response)) response = { result: response };
+        return [{ functionResponse: { name: m.name, response } }];
+    }
+    if (m.toolCalls?.length) {
+        return [
+            ...(m.content ? [{ text: m.content }] : []),
+            ...m.toolCalls.map(c => ({ functionCall: { name: c.name, args: c.arguments } })),
+        ];
+    }
+    return undefined;
+}
+
+export const geminiProvider: ProviderAdapter = {
+    name: 'gemini',
+    matches: (model) => model.includes('gemini'),
+    apiKeyEnv: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+    endpoint: (model) => `${BASE_URL}/${model}:generateContent`,
+    capabilities: () => ({ tools: true, structuredOutput: true, vision: true, streaming: true }),
+    // Gemini streams plain text deltas, reported as a single `content` field
+    rawTextStream: true,
+    buildRequest(ctx) {
+        // Convert messages to Gemini contents/parts format
+        const systemMsgs = ctx.messages.filter(m => m.role === "system");
+        const systemInstruction = systemMsgs.length > 0 ? systemMsgs.map(m => m.content).join("\n\n") : undefined;
+        const nonSystemMsgs = ctx.messages.filter(m => m.role !== "system" && (m.content?.trim() || m.toolCalls?.length || m.role === 'tool'));
+
+        // Merge consecutive same-role messages (Gemini rejects them)
+        const contents: Array<{ role: string; parts: any[] }> = [];
+        for (const m of nonSystemMsgs) {
+            const role = m.role === "assistant" ? "model" : "user";
+            const images = m.images;
+
+            // Build parts: images first (as inlineData), then text
+            const parts: any[] = [];
+            const toolParts = toGeminiToolParts(m);
+            if (toolParts) {
+                parts.push(...toolParts);
+            } else if (images && images.length > 0) {
+                for (const img of images) {
+                    if (img.data) {
+                        parts.push({ inlineData: { mimeType: img.mimeType || 'image/png', data: img.data } });
+                    } else if (img.url) {
+                        // Gemini supports fileData with fileUri for GCS, otherwise use URL as text hint
+                        parts.push({ text: `[Image: ${img.url}]` });
+                    }
+                }
+            }
+            if (!toolParts) parts.push({ text: m.content });
+
+            const last = contents[contents.length - 1];
+            if (last && last.role === role) {
+                last.parts.push(...parts);
+            } else {
+                contents.push({ role, parts });
+            }
+        }
+
+        const generationConfig: Record<string, any> = { temperature: ctx.temperature, maxOutputTokens: ctx.maxTokens };
+
+        // Gemini structured output: convert OpenAI-style json_schema to Gemini responseSchema
+        if (ctx.responseFormat?.type === 'json_schema' && ctx.responseFormat.json_schema?.schema) {
+            generationConfig.responseMimeType = 'application/json';
+            generationConfig.responseSchema = toGeminiSchema(ctx.responseFormat.json_schema.schema);
+        }
+
+        // Gemini 2.5 thinking: include thought parts in response
+        if (ctx.model.includes('gemini-2.5') || ctx.model.includes('gemini-3')) {
+            generationConfig.thinkingConfig = { includeThoughts: true };
+        }
+
+        return {
+            url: ctx.stream ? `${BASE_URL}/${ctx.model}:streamGenerateContent?alt=sse` : this.endpoint(ctx.model),
+            headers: { "Content-Type": "application/json", "x-goog-api-key": requireApiKey(this.apiKeyEnv!) },
+            body: {
+                contents,
+                generationConfig,
+                ...(systemInstruction && { systemInstruction: { parts: [{ text: systemInstruction }] } }),
+                ...(ctx.tools && { tools: toGeminiTools(ctx.tools) }),
+                ...(ctx.tools && ctx.toolChoice && { toolConfig: toGeminiToolConfig(ctx.toolChoice) }),
+            },
+        };
+    },
+    parseResponse(data, ctx) {
+        const parsed = parseWithSchema(GeminiResponseSchema, data, ctx.model);
+        const parts = parsed.candidates[0]!.content.parts;
+        // Gemini has no call ids — synthesize stable ones from the part order
+        const toolCalls: LLMToolCall[] = parts
+            .filter(p => p.functionCall)
+            .map((p, i) => ({ id: `call_${i}`, name: p.functionCall!.name, arguments: parseToolArguments(p.functionCall!.args) }));
+        // Skip thought parts — only return the model's final answer
+        const answerParts = parts.filter(p => !p.thought && p.text);
+        const content = answerParts.map(p => p.text).join('');
+        const finishReason = geminiFinishReason(parsed.candidates[0]!.finishReason, toolCalls.length > 0);
+        return { content: content || parts[0]!.text || '', toolCalls, finishReason };
+    },
+    extractUsage(data) {
+        if (data?.usageMetadata?.promptTokenCount === undefined) return undefined;
+        const usage: TokenUsage = {
+            inputTokens: data.usageMetadata.promptTokenCount,
+            outputTokens: data.usageMetadata.candidatesTokenCount || 0,
+            totalTokens: data.usageMetadata.totalTokenCount || (data.usageMetadata.promptTokenCount + (data.usageMetadata.candidatesTokenCount || 0)),
+        };
+        // Gemini 2.5 thinking: extract thought parts from response
+        const parts = data?.candidates?.[0]?.content?.parts;
+        if (parts && Array.isArray(parts)) {
+            const thoughts = parts.filter((p: any) => p.thought && p.text).map((p: any) => p.text);
+            if (thoughts.length > 0) usage.reasoningContent = thoughts.join('\n');
+        }
+        return usage;
+    },
+    createStreamParser(): ProviderStreamParser {
+        let callCount = 0;
+        return (chunk) => {
+            const deltas: ProviderStreamDelta[] = [];
+            for (const part of chunk?.candidates?.[0]?.content?.parts || []) {
+                if (part.thought && part.text) {
+                    deltas.push({ type: 'reasoning', text: part.text });
+                } else if (part.text) {
+                    deltas.push({ type: 'text', text: part.text });
+                } else if (part.functionCall) {
+                    // Gemini streams each function call whole, never as argument fragments
+                    const index = callCount++;
+                    deltas.push({ type: 'tool_call_start', index, id: `call_${index}`, name: part.functionCall.name });
+                    deltas.push({ type: 'tool_call_delta', index, arguments: JSON.stringify(part.functionCall.args ?? {}) });
+                }
+            }
+            const usage = geminiProvider.extractUsage(chunk);
+            if (usage) deltas.push({ type: 'usage', usage });
+            const finish = geminiFinishReason(chunk?.candidates?.[0]?.finishReason, callCount > 0);
+            if (finish) deltas.push({ type: 'finish', reason: finish });
+            return deltas;
+        };
+    },
+    pricing: (model) => matchModel(PRICING, model)?.pricing,
+    contextWindow: () => 1_048_576,
+};
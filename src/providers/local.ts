@@ -0,0 +1,124 @@
+/**
+ * providers/local.ts — OpenAI-compatible local / self-hosted provider
+ *
+ * Works with any server exposing `/v1/chat/completions` and `/v1/models`
+ * (Ollama, llama.cpp server, vLLM, LM Studio, private gateways).
+ * Models are addressed as `<name>/<model>`, e.g. `local/llama3.1:8b`.
+ *
+ * Usage:
+ *   registerProvider(createLocalProvider({ baseUrl: 'http://localhost:11434/v1' }));
+ *   const agent = new Agent({ llm: 'local/llama3.1:8b', ... });
+ *   await listLocalModels({ baseUrl: 'http://localhost:11434/v1' });   // ['local/llama3.1:8b', ...]
+ */
+
+import type { ModelPricing } from '../pricing';
+import type { ProviderAdapter, ProviderRequestContext } from '../providers';
+import { buildOpenAIChatBody, createOpenAIStreamParser, extractOpenAIUsage, parseOpenAIResponse, toOpenAIMessages, toOpenAIToolChoice, toOpenAITools } from './openai';
+
+export interface LocalProviderConfig {
+    /** Provider name and model prefix (default 'local') */
+    name?: string;
+    /** OpenAI-compatible base URL including the version path, e.g. http://localhost:11434/v1 */
+    baseUrl: string;
+    /** API key, if the server requires one */
+    apiKey?: string;
+    /** Environment variable holding the API key (used when `apiKey` is not set) */
+    apiKeyEnv?: string;
+    /**
+     * How structured output is requested:
+     * - 'json_schema': native `response_format: json_schema`
+     * - 'json_object': JSON mode plus the schema as a system instruction
+     * - 'none': no JSON support — the Agent falls back to the XML prompt path (default)
+     */
+    structuredOutput?: 'json_schema' | 'json_object' | 'none';
+    /** Native tool calling (default true). When false the Agent uses XML tool-selection prompts. */
+    tools?: boolean;
+    /** Image inputs (default false) */
+    vision?: boolean;
+    /** Context window in tokens (default: the global default) */
+    contextWindow?: number;
+    /** Price per million tokens (default free) */
+    pricing?: ModelPricing;
+}
+
+const FREE: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+/** Instruction used when the schema cannot be sent as `response_format` */
+function schemaInstruction(schema: any): string {
+    return `Respond only with a JSON object matching this JSON schema, without markdown fences:\n${JSON.stringify(schema)}`;
+}
+
+/** Create an adapter for an OpenAI-compatible server — pass it to registerProvider() */
+export function createLocalProvider(config: LocalProviderConfig): ProviderAdapter {
+    const name = config.name ?? 'local';
+    const prefix = `${name}/`;
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    const structuredOutput = config.structuredOutput ?? 'none';
+    const apiKey = () => config.apiKey ?? (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+    const serverModel = (model: string) => model.startsWith(prefix) ? model.slice(prefix.length) : model;
+
+    return {
+        name,
+        matches: (model) => model.startsWith(prefix),
+        apiKeyEnv: config.apiKeyEnv ? [config.apiKeyEnv] : undefined,
+        endpoint: () => `${baseUrl}/chat/completions`,
+        capabilities: () => ({
+            tools: config.tools ?? true,
+            structuredOutput: structuredOutput !== 'none',
+            vision: config.vision ?? false,
+            streaming: true,
+        }),
+        buildRequest(ctx: ProviderRequestContext) {
+            const messages = toOpenAIMessages(ctx.messages, config.vision ?? false);
+            const schema = ctx.responseFormat?.type === 'json_schema' ? ctx.responseFormat.json_schema?.schema : undefined;
+            if (schema && structuredOutput !== 'json_schema') {
+                // Degrade: describe the schema in the prompt (and enable JSON mode if available)
+                messages.unshift({ role: 'system', content: schemaInstruction(schema) });
+            }
+            const body = buildOpenAIChatBody({ ...ctx, model: serverModel(ctx.model) }, messages);
+            if (ctx.responseFormat) {
+                if (structuredOutput === 'json_schema') body.response_format = ctx.responseFormat;
+                else if (structuredOutput === 'json_object') body.response_format = { type: 'json_object' };
+            }
+            if (ctx.tools && (config.tools ?? true)) {
+                body.tools = toOpenAITools(ctx.tools);
+                if (ctx.toolChoice) body.tool_choice = toOpenAIToolChoice(ctx.toolChoice);
+            }
+            const key = apiKey();
+            return {
+                url: this.endpoint(ctx.model),
+                headers: { "Content-Type": "application/json", ...(key && { Authorization: `Bearer ${key}` }) },
+                body,
+            };
+        },
+        parseResponse: (data, ctx) => parseOpenAIResponse(data, ctx.model),
+        extractUsage: extractOpenAIUsage,
+        createStreamParser: () => createOpenAIStreamParser(),
+        pricing: () => config.pricing ?? FREE,
+        contextWindow: () => config.contextWindow,
+    };
+}
+
+/**
+ * List the models served at an OpenAI-compatible base URL (`GET /models`),
+ * returned as prefixed ids ready to use as `llm`.
+ */
+export async function listLocalModels(config: Pick<LocalProviderConfig, 'baseUrl' | 'name' | 'apiKey'>): Promise<string[]> {
+    const baseUrl = config.baseUrl.replace(/\/+$/, '');
+    const res = await fetch(`${baseUrl}/models`, {
+        headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+    });
+    if (!res.ok) throw new Error(`Model listing failed: ${res.status} ${await res.text()}`);
+    const data = await res.json() as { data?: Array<{ id: string }>; models?: Array<{ name: string }> };
+    // OpenAI format is { data: [{ id }] }; Ollama's native /api/tags uses { models: [{ name }] }
+    const ids = data.data?.map(m => m.id) ?? data.models?.map(m => m.name) ?? [];
+    return ids.map(id => `${config.name ?? 'local'}/${id}`);
+}
+
+/** Local provider config from LOCAL_LLM_BASE_URL / LOCAL_LLM_API_KEY, if set */
+export function localProviderConfigFromEnv(): LocalProviderConfig | undefined {
+    const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+    if (!baseUrl) return undefined;
+    const structuredOutput = process.env.LOCAL_LLM_STRUCTURED_OUTPUT as LocalProviderConfig['structuredOutput'];
+    return { baseUrl, apiKey: process.env.LOCAL_LLM_API_KEY, ...(structuredOutput && { structuredOutput }) };
+}
@@ -0,0 +1,200 @@
+/**
+ * providers/openai.ts — OpenAI Chat Completions adapter
+ *
+ * Also exports the chat-completions building blocks reused by
+ * OpenAI-compatible providers (DeepSeek).
+ */
+
+import { z } from 'zod';
+import type { LLMMessage, LLMToolCall, LLMToolChoice, LLMToolDefinition, TokenUsage } from '../types';
+import type { ModelPricing } from '../pricing';
+import type { ProviderAdapter, ProviderRequestContext, ProviderResponse, ProviderStreamParser } from '../providers';
+import type { LLMFinishReason } from '../types';
+import { mapFinishReason, matchModel, normalizeToolParameters, parseToolArguments, parseWithSchema, requireApiKey } from './shared';
+
+export const OpenAIResponseSchema = z.object({
+    choices: z.array(z.object({
+        message: z.object({
+            // null when the model only returns tool_calls
+            content: z.string().nullable(),
+            tool_calls: z.array(z.object({
+                id: z.string(),
+                function: z.object({ name: z.string(), arguments: z.string() }),
+            })).optional(),
+        }),
+        finish_reason: z.string().nullable().optional(),
+    })).min(1, 'OpenAI response has no choices'),
+    usage: z.object({
+        prompt_tokens: z.number(),
+        completion_tokens: z.number().optional(),
+        total_tokens: z.number().optional(),
+    }).optional(),
+});
+
+const PRICING: Array<{ match: string; pricing: ModelPricing }> = [
+    { match: 'gpt-4o-mini', pricing: { inputPerMillion: 0.15, outputPerMillion: 0.60 } },
+    { match: 'o4-mini', pricing: { inputPerMillion: 1.10, outputPerMillion: 4.40 } },
+    { match: 'gpt-4o', pricing: { inputPerMillion: 2.50, outputPerMillion: 10.00 } },
+];
+
+const CONTEXT_WINDOWS: Array<{ match: string; maxTokens: number }> = [
+    { match: 'gpt-4o-mini', maxTokens: 128_000 },
+    { match: 'o4-mini', maxTokens: 200_000 },
+    { match: 'gpt-4o', maxTokens: 128_000 },
+    { match: 'gpt-4', maxTokens: 8_192 },
+];
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+    stop: 'stop',
+    length: 'length',
+    tool_calls: 'tool_calls',
+    function_call: 'tool_calls',
+    content_filter: 'content_filter',
+};
+
+export function toOpenAITools(tools: LLMToolDefinition[]): any[] {
+    return tools.map(t => ({
+        type: 'function',
+        function: { name: t.name, description: t.description, parameters: normalizeToolParameters(t.parameters) },
+    }));
+}
+
+export function toOpenAIToolChoice(choice: LLMToolChoice): any {
+    return typeof choice === 'string' ? choice : { type: 'function', function: { name: choice.name } };
+}
+
+/** Assistant tool-call turns and `role: 'tool'` results; undefined for plain messages */
+function toOpenAIToolMessage(m: LLMMessage): any | undefined {
+    if (m.role === 'tool') return { role: 'tool', tool_call_id: m.toolCallId, content: m.content };
+    if (m.toolCalls?.length) {
+        return {
+            role: m.role,
+            content: m.content || null,
+            tool_calls: m.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.arguments) } })),
+        };
+    }
+    return undefined;
+}
+
+/** Convert messages to chat-completions format. Without `vision`, images are dropped silently. */
+export function toOpenAIMessages(messages: LLMMessage[], vision = true): any[] {
+    return messages.map(m => {
+        const toolMessage = toOpenAIToolMessage(m);
+        if (toolMessage) return toolMessage;
+        const images = m.images;
+        if (vision && images && images.length > 0) {
+            // Multimodal: content becomes array of parts
+            const contentParts: any[] = images.map(img => {
+                if (img.url) {
+                    return { type: "image_url", image_url: { url: img.url } };
+                }
+                // Base64 to data URI
+                const mime = img.mimeType || 'image/png';
+                return { type: "image_url", image_url: { url: `data:${mime};base64,${img.data}` } };
+            });
+            contentParts.push({ type: "text", text: m.content });
+            return { role: m.role, content: contentParts };
+        }
+        return { role: m.role, content: m.content };
+    });
+}
+
+export function parseOpenAIResponse(data: any, model: string): ProviderResponse {
+    const parsed = parseWithSchema(OpenAIResponseSchema, data, model);
+    const message = parsed.choices[0]!.message;
+    const toolCalls: LLMToolCall[] = (message.tool_calls || []).map(c => ({
+        id: c.id, name: c.function.name, arguments: parseToolArguments(c.function.arguments),
+    }));
+    return { content: message.content ?? '', toolCalls, finishReason: mapFinishReason(FINISH_REASONS, parsed.choices[0]!.finish_reason) };
+}
+
+export function extractOpenAIUsage(data: any): TokenUsage | undefined {
+    if (data?.usage?.prompt_tokens === undefined) return undefined;
+    const usage: TokenUsage = {
+        inputTokens: data.usage.prompt_tokens,
+        outputTokens: data.usage.completion_tokens || 0,
+        totalTokens: data.usage.total_tokens || (data.usage.prompt_tokens + (data.usage.completion_tokens || 0)),
+    };
+    // DeepSeek R1: capture reasoning_content from the response
+    const reasoning = data?.choices?.[0]?.message?.reasoning_content;
+    if (reasoning) usage.reasoningContent = reasoning;
+    return usage;
+}
+
+export function createOpenAIStreamParser(): ProviderStreamParser {
+    const startedCalls = new Set<number>();
+    return (data) => {
+        const deltas: ReturnType<ProviderStreamParser> = [];
+        // Usage appears in the final chunk when stream_options.include_usage is true
+        if (data.usage) {
+            const inputTokens = data.usage.prompt_tokens || 0;
+            const outputTokens = data.usage.completion_tokens || 0;
+            deltas.push({ type: 'usage', usage: { inputTokens, outputTokens, totalTokens: data.usage.total_tokens || (inputTokens + outputTokens) } });
+        }
+        const delta = data.choices?.[0]?.delta;
+        // DeepSeek R1 streams its chain of thought as reasoning_content
+        if (delta?.reasoning_content) deltas.push({ type: 'reasoning', text: delta.reasoning_content });
+        for (const tc of delta?.tool_calls || []) {
+            // The first fragment of each call carries its id and name
+            if (!startedCalls.has(tc.index)) {
+                startedCalls.add(tc.index);
+                deltas.push({ type: 'tool_call_start', index: tc.index, id: tc.id || '', name: tc.function?.name || '' });
+            }
+            if (tc.function?.arguments) deltas.push({ type: 'tool_call_delta', index: tc.index, arguments: tc.function.arguments });
+        }
+        if (delta?.content) deltas.push({ type: 'text', text: delta.content });
+        const finish = mapFinishReason(FINISH_REASONS, data.choices?.[0]?.finish_reason);
+        if (finish) deltas.push({ type: 'finish', reason: finish });
+        return deltas;
+    };
+}
+
+/** Chat-completions body shared by OpenAI-compatible providers */
+export function buildOpenAIChatBody(ctx: ProviderRequestContext, messages: any[]): Record<string, any> {
+    return {
+        model: ctx.model,
+        temperature: ctx.temperature,
+        messages,
+        max_tokens: ctx.maxTokens,
+        stream: ctx.stream,
+        ...(ctx.stream && { stream_options: { include_usage: true } }),
+    };
+}
+
+export const openaiProvider: ProviderAdapter = {
+    name: 'openai',
+    matches: (model) => model.startsWith('gpt') || /^o\d/.test(model),
+    apiKeyEnv: ['OPENAI_API_KEY'],
+    endpoint: () => 'https://api.openai.com/v1/chat/completions',
+    capabilities: (model) => ({
+        tools: true,
+        // Unknown models routed here by default get XML output
+        structuredOutput: model.startsWith('gpt') || /^o\d/.test(model),
+        vision: true,
+        streaming: true,
+    }),
+    buildRequest(ctx) {
+        const body = buildOpenAIChatBody(ctx, toOpenAIMessages(ctx.messages));
+        if (ctx.model.includes('o4-')) {
+            // Reasoning models only accept the default temperature and max_completion_tokens
+            body.temperature = 1.0;
+            body.max_completion_tokens = body.max_tokens;
+            delete body.max_tokens;
+        }
+        if (ctx.responseFormat) body.response_format = ctx.responseFormat;
+        if (ctx.tools) {
+            body.tools = toOpenAITools(ctx.tools);
+            if (ctx.toolChoice) body.tool_choice = toOpenAIToolChoice(ctx.toolChoice);
+        }
+        return {
+            url: this.endpoint(ctx.model),
+            headers: { "Content-Type": "application/json", Authorization: `Bearer ${requireApiKey(this.apiKeyEnv!)}` },
+            body,
+        };
+    },
+    parseResponse: (data, ctx) => parseOpenAIResponse(data, ctx.model),
+    extractUsage: extractOpenAIUsage,
+    createStreamParser: () => createOpenAIStreamParser(),
+    pricing: (model) => matchModel(PRICING, model)?.pricing,
+    contextWindow: (model) => matchModel(CONTEXT_WINDOWS, model)?.maxTokens,
+};
@@ -0,0 +1,67 @@
+/**
+ * providers/shared.ts — Helpers shared by the built-in provider adapters
+ */
+
+import { z } from 'zod';
+import type { LLMFinishReason } from '../types';
+
+/** Parse native tool-call arguments, which OpenAI-style providers send as a JSON string */
+export function parseToolArguments(args: unknown): Record<string, any> {
+    if (args && typeof args === 'object') return args as Record<string, any>;
+    if (typeof args !== 'string' || !args.trim()) return {};
+    try {
+        const parsed = JSON.parse(args);
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+/** MCP servers may omit inputSchema or send `{}` — providers require an object schema */
+export function normalizeToolParameters(parameters: any): Record<string, any> {
+    if (parameters && typeof parameters === 'object' && parameters.type) return parameters;
+    return {
+        type: 'object',
+        properties: parameters?.properties || {},
+        ...(parameters?.required && { required: parameters.required }),
+    };
+}
+
+/**
+ * Read the first set API key from `envNames`.
+ * Under NODE_ENV=test a placeholder is returned so mocked fetches work without keys.
+ */
+export function requireApiKey(envNames: string[]): string {
+    for (const name of envNames) {
+        if (process.env[name]) return process.env[name]!;
+    }
+    if (process.env.NODE_ENV === 'test') return 'test';
+    throw new Error(`${envNames.join(' or ')} environment variable is required`);
+}
+
+/** First-match lookup in a `{ match: substring }` table (more specific patterns first) */
+export function matchModel<T>(table: Array<{ match: string } & T>, model: string): T | undefined {
+    return table.find(entry => model.includes(entry.match));
+}
+
+/** Parse a response body with a provider schema, turning Zod issues into a readable error */
+export function parseWithSchema<S extends z.ZodTypeAny>(schema: S, data: any, model: string): z.infer<S> {
+    try {
+        return schema.parse(data);
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            const issues = err.issues.map(i => `  ${i.path.join('.')}: ${i.message}`).join('\n');
+            throw new Error(
+                `${model} API response format mismatch:\n${issues}\n` +
+                `Raw response (truncated): ${JSON.stringify(data).substring(0, 300)}`
+            );
+        }
+        throw err;
+    }
+}
+
+/** Normalize a provider stop reason; unknown values map to 'other', missing ones to undefined */
+export function mapFinishReason(table: Record<string, LLMFinishReason>, reason: unknown): LLMFinishReason | undefined {
+    if (typeof reason !== 'string' || !reason) return undefined;
+    return table[reason] ?? 'other';
+}
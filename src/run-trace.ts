@@ -0,0 +1,137 @@
+/**
+ * run-trace.ts — Run Traces
+ *
+ * A `RunTrace` records everything one `agent.runWithTrace()` call did, as
+ * ordered spans: every internal LLM call (messages sent, raw and parsed
+ * response, usage) and every tool invocation (parameters, result), each with
+ * its timing and error. Traces are plain JSON — write them to disk and load
+ * them later to replay or diff a run.
+ *
+ * Usage:
+ *   const trace = await agent.runWithTrace({ question: 'Weather in Paris?' });
+ *   for (const span of trace.spans) console.log(span.kind, span.kind === 'llm' ? span.purpose : span.tool, span.durationMs);
+ *   await Bun.write('trace.json', JSON.stringify(trace, null, 2));
+ */
+
+import type { LLMFinishReason, LLMMessage, LLMToolCall, TokenUsage } from './types';
+import type { CostEstimate } from './pricing';
+
+/** Why the agent made an LLM call */
+export type LLMSpanPurpose =
+    | 'input_resolution'
+    | 'server_selection'
+    | 'tool_selection'
+    | 'tool_parameters'
+    | 'tool_calling'
+    | 'response'
+    | 'repair';
+
+interface SpanBase {
+    /** Position in `RunTrace.spans` — spans are ordered by start time */
+    id: number;
+    startTime: number;
+    durationMs?: number;
+    /** Error message when the call failed */
+    error?: string;
+}
+
+export interface LLMSpan extends SpanBase {
+    kind: 'llm';
+    purpose: LLMSpanPurpose;
+    llm: string;
+    messages: Array<LLMMessage | { role: string; content: string }>;
+    temperature?: number;
+    maxTokens?: number;
+    /** Text content of the response */
+    response?: string;
+    /** Decoded provider response body (SSE payloads when streamed) */
+    rawResponse?: unknown;
+    reasoning?: string;
+    toolCalls?: LLMToolCall[];
+    finishReason?: LLMFinishReason;
+    /** What the agent parsed from the response */
+    parsed?: unknown;
+    usage?: TokenUsage;
+}
+
+export interface ToolSpan extends SpanBase {
+    kind: 'tool';
+    server: string;
+    tool: string;
+    parameters: unknown;
+    result?: unknown;
+    /** Why the parameters were rejected (the tool was not invoked) */
+    validationIssues?: string[];
+}
+
+export type TraceSpan = LLMSpan | ToolSpan;
+
+export interface RunTrace<O = any> {
+    /** Trace format version */
+    version: 1;
+    requestId: string;
+    /** requestId of the calling run, for agents run as tools */
+    parentRequestId?: string;
+    agentName: string;
+    llm: string;
+    tags?: string[];
+    input: unknown;
+    output?: O;
+    error?: string;
+    startTime: number;
+    durationMs: number;
+    usage?: TokenUsage;
+    cost?: CostEstimate;
+    spans: TraceSpan[];
+}
+
+type SpanInit<S extends TraceSpan> = Omit<S, 'id' | 'startTime'>;
+type SpanOutcome<S extends TraceSpan> = Partial<Omit<S, 'id' | 'kind' | 'startTime' | 'durationMs' | 'error'>> & { error?: unknown };
+
+/** An empty trace for a run that is about to start */
+export function createRunTrace(agentName: string, llm: string, input: unknown): RunTrace {
+    return { version: 1, requestId: '', agentName, llm, input, startTime: Date.now(), durationMs: 0, spans: [] };
+}
+
+/** Append a started span to the trace; the caller completes it with `endSpan()` */
+export function beginSpan<S extends TraceSpan>(trace: RunTrace, span: SpanInit<S>): S {
+    const started = { ...span, id: trace.spans.length, startTime: Date.now() } as unknown as S;
+    trace.spans.push(started);
+    return started;
+}
+
+/** Record the outcome of a span and its duration */
+export function endSpan<S extends TraceSpan>(span: S, outcome: SpanOutcome<S> = {}): void {
+    // A span ends once: a span closed by endOpenSpans() keeps its error when the call returns later
+    if (span.durationMs !== undefined) return;
+    const { error, ...fields } = outcome;
+    Object.assign(span, fields, { durationMs: Date.now() - span.startTime });
+    if (error === undefined) return;
+    // measure.assert wraps failures — report the underlying error
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    span.error = cause instanceof Error ? cause.message : String(cause);
+}
+
+/** End every span still running, e.g. a tool call a cancelled run stopped waiting for */
+export function endOpenSpans(trace: RunTrace, error: unknown): void {
+    for (const span of trace.spans) {
+        if (span.durationMs === undefined) endSpan(span, { error });
+    }
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    test('spans are numbered in start order and survive a JSON round trip', () => {
+        const trace = createRunTrace('agent', 'gpt-4o-mini', { q: 1 });
+        const llm = beginSpan<LLMSpan>(trace, { kind: 'llm', purpose: 'response', llm: 'gpt-4o-mini', messages: [{ role: 'user', content: 'hi' }] });
+        const tool = beginSpan<ToolSpan>(trace, { kind: 'tool', server: 's', tool: 't', parameters: {} });
+        endSpan(tool, { error: new Error('measure.assert failed', { cause: new Error('boom') }) });
+        endSpan(llm, { response: '{"a":1}', parsed: { a: 1 } });
+
+        expect(trace.spans.map(s => s.id)).toEqual([0, 1]);
+        expect(tool.error).toBe('boom');
+        expect(llm.durationMs).toBeGreaterThanOrEqual(0);
+        expect(JSON.parse(JSON.stringify(trace))).toEqual(trace);
+    });
+}
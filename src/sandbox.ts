@@ -1,6 +1,7 @@
 import * as http from 'http';
 import * as vm from 'node:vm';
 import type { MCPTool } from './types';
+import { MCP_PROTOCOL_VERSION, SUPPORTED_MCP_PROTOCOL_VERSIONS } from './mcp-client';
 
 export interface LocalMCPTool extends MCPTool {
     handler: (params: any) => Promise<any> | any;
@@ -87,7 +88,9 @@ export function createSandboxTools(config: SandboxConfig = {}): LocalMCPTool[] {
 
 /**
  * Instantiates a standalone HTTP server exporting the Sandbox MCP over JSON-RPC POST.
- * Agent.run will dynamically fetch and consume this interface if `url` is mapped to this port.
+ * It answers `initialize`, `tools/list` and `tools/call` with JSON (no sessions or
+ * SSE), which is enough for the Streamable HTTP client: an Agent uses it with
+ * `servers: [{ name: 'sandbox', description: '...', url: 'http://localhost:3334' }]`.
  */
 export function serveSandboxMCP(port: number = 3334, config: SandboxConfig = {}): http.Server {
     const tools = createSandboxTools(config);
@@ -106,6 +109,28 @@ export function serveSandboxMCP(port: number = 3334, config: SandboxConfig = {})
                 const data = JSON.parse(body);
                 const { method, params, id } = data;
 
+                // Notifications (e.g. notifications/initialized) need no answer
+                if (id === undefined) {
+                    res.writeHead(202);
+                    res.end();
+                    return;
+                }
+
+                if (method === 'initialize') {
+                    const requested = params?.protocolVersion;
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({
+                        jsonrpc: '2.0',
+                        id,
+                        result: {
+                            protocolVersion: SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSION,
+                            capabilities: { tools: {} },
+                            serverInfo: { name: 'gx402-sandbox', version: '1.0.0' },
+                        }
+                    }));
+                    return;
+                }
+
                 if (method === 'tools/list') {
                     const toolDefinitions = tools.map(t => ({
                         name: t.name,
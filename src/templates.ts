@@ -8,8 +8,13 @@
  *   const tmpl = createTemplate('Summarize {{text}} in {{style:concise}} format');
  *   const prompt = tmpl({ text: 'long article' });
  *   // => "Summarize long article in concise format"
+ *
+ *   const review = await loadMCPPrompt(server, 'code_review');  // from an MCP server
  */
 
+import type { MCPServer } from './types';
+import { discoverPrompts, getPrompt } from './mcp';
+
 export interface TemplateConfig {
     /** Template string with {{variable}} or {{variable:default}} placeholders */
     template: string;
@@ -83,6 +88,31 @@ export function composeTemplates(
     return createTemplate(combined);
 }
 
+/**
+ * Load a prompt published by an MCP server as a template. The prompt is fetched
+ * once with `{{argument}}` placeholders as its arguments, so it renders locally
+ * like any other template; required prompt arguments become required variables.
+ * Servers that validate argument values need `getPrompt()` with real values instead.
+ */
+export async function loadMCPPrompt(server: MCPServer, name: string): Promise<PromptTemplate> {
+    const prompt = (await discoverPrompts(server)).find(p => p.name === name);
+    if (!prompt) throw new Error(`Prompt "${name}" not found on MCP server "${server.name}"`);
+
+    const args = prompt.arguments ?? [];
+    const placeholders = Object.fromEntries(args.map(a => [a.name, `{{${a.name}}}`]));
+    const { messages } = await getPrompt(server, name, placeholders);
+    const template = messages
+        .map(m => m.content.type === 'text' ? m.content.text ?? '' : m.content.type === 'resource' ? m.content.resource?.text ?? '' : '')
+        .filter(Boolean)
+        .join('\n\n');
+
+    return createTemplate({
+        template,
+        description: prompt.description,
+        required: args.filter(a => a.required).map(a => a.name),
+    });
+}
+
 // ─── Built-in Templates ─────────────────────────────────
 
 export const TEMPLATES = {
@@ -0,0 +1,60 @@
+/**
+ * tool-context.ts — Tool Execution Context
+ *
+ * Every `execute(params, context)` call gets a `ToolContext`: the calling
+ * agent's name and requestId, the run's AbortSignal, a progress reporter, a
+ * logger scoped to the call, and the typed `deps` from `AgentConfig.deps`.
+ *
+ * Agents build the context per tool call; `createToolContext` fills defaults
+ * for callers outside a run (ToolRegistry, LoopAgent, serveMCP, direct calls).
+ *
+ * Usage:
+ *   const orders = defineTool({
+ *     ...,
+ *     execute: async ({ id }, ctx: ToolContext<{ db: Db; userId: string }>) => {
+ *       ctx.logger.info('Loading order', { id });
+ *       return ctx.deps.db.order(id, { owner: ctx.deps.userId, signal: ctx.signal });
+ *     },
+ *   });
+ *   new Agent({ ..., localTools: [orders], deps: { db, userId: session.userId } });
+ */
+
+import type { ToolContext } from './types';
+import { StructuredLogger } from './structured-log';
+import { generateRequestId } from './utils';
+
+/** Base logger for tool contexts when the agent has no `logger` */
+export const defaultToolLogger = new StructuredLogger({ name: 'gx402.tools' });
+
+/** Build a ToolContext, defaulting everything that is not given */
+export function createToolContext<D = any>(context: Partial<ToolContext<D>> & { tool?: string } = {}): ToolContext<D> {
+    const { tool, ...given } = context;
+    const agentName = given.agentName ?? 'unnamed-agent';
+    const requestId = given.requestId ?? generateRequestId();
+    return {
+        agentName,
+        requestId,
+        signal: given.signal ?? new AbortController().signal,
+        progress: given.progress ?? (() => { }),
+        logger: given.logger ?? defaultToolLogger.child({ agentName, ...(tool && { tool }) }, requestId),
+        deps: given.deps ?? ({} as D),
+    };
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+    const { bufferTransport } = await import('./structured-log');
+
+    test('createToolContext fills defaults and scopes the logger', () => {
+        const context = createToolContext({ agentName: 'ops', tool: 'lookup' });
+        expect(context.requestId).toBeTruthy();
+        expect(context.signal.aborted).toBe(false);
+        expect(context.deps).toEqual({});
+        expect(() => context.progress('noop')).not.toThrow();
+
+        const records: any[] = [];
+        const logger = new StructuredLogger({ name: 'test', transports: [bufferTransport(records)] });
+        createToolContext({ logger, deps: { n: 1 } }).logger.info('hello');
+        expect(records[0].message).toBe('hello');
+    });
+}
@@ -0,0 +1,226 @@
+/**
+ * tool-params.ts — Tool Parameter Validation
+ *
+ * Checks generated tool parameters against the tool's JSON Schema `inputSchema`
+ * before invocation, so malformed calls never reach (possibly paid) endpoints.
+ *
+ * Safe coercions are applied on the way: numeric strings to numbers/integers,
+ * "true"/"false" to booleans, numbers and booleans to strings, JSON strings to
+ * objects/arrays, XML-style `{ item }` lists to arrays, and case-insensitive
+ * enum matches. Anything else is an issue.
+ *
+ * Supported keywords: type (incl. type arrays), properties, required,
+ * additionalProperties, items, enum, const, anyOf/oneOf/allOf, $ref (local),
+ * minimum/maximum (+ exclusive), minLength/maxLength, pattern, minItems/maxItems.
+ *
+ * Usage:
+ *   const { valid, params, issues } = validateToolParams({ limit: '10' }, tool.inputSchema);
+ *   // params => { limit: 10 } when inputSchema declares limit as an integer
+ */
+
+export interface ToolParamsValidation {
+    valid: boolean;
+    /** Parameters after safe coercion */
+    params: any;
+    /** One line per problem: `path: message` */
+    issues: string[];
+}
+
+type Schema = Record<string, any> | boolean | undefined;
+
+function typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+    const actual = typeOf(value);
+    return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/** Convert a value to a JSON Schema type when it can be done without guessing */
+function coerceType(value: any, type: string): { ok: boolean; value?: any } {
+    if (matchesType(value, type)) return { ok: true, value };
+    if (typeof value === 'string') {
+        const text = value.trim();
+        if ((type === 'number' || type === 'integer') && text !== '' && Number.isFinite(Number(text))) {
+            const n = Number(text);
+            if (type === 'number' || Number.isInteger(n)) return { ok: true, value: n };
+        }
+        if (type === 'boolean' && /^(true|false)$/i.test(text)) return { ok: true, value: text.toLowerCase() === 'true' };
+        if (type === 'null' && (text === '' || text === 'null')) return { ok: true, value: null };
+        if ((type === 'object' || type === 'array') && /^[[{]/.test(text)) {
+            try {
+                const parsed = JSON.parse(text);
+                if (matchesType(parsed, type)) return { ok: true, value: parsed };
+            } catch { /* not JSON */ }
+        }
+    }
+    if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) return { ok: true, value: String(value) };
+    // Lists parsed from XML arrive as { item: ... }
+    if (type === 'array' && typeOf(value) === 'object' && Object.keys(value).length === 1 && 'item' in value) {
+        return { ok: true, value: Array.isArray(value.item) ? value.item : [value.item] };
+    }
+    return { ok: false };
+}
+
+function resolveRef(schema: Record<string, any>, root: Record<string, any>): Record<string, any> {
+    let current = schema;
+    for (let depth = 0; typeof current.$ref === 'string' && depth < 32; depth++) {
+        if (!current.$ref.startsWith('#')) return {};
+        const target = current.$ref.slice(1).split('/').filter(Boolean)
+            .map((part: string) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+            .reduce((node: any, part: string) => node?.[part], root);
+        const { $ref, ...rest } = current;
+        current = { ...(target ?? {}), ...rest };
+    }
+    return current;
+}
+
+function check(value: any, schema: Schema, path: string, root: Record<string, any>, issues: string[]): any {
+    if (schema === undefined || schema === true) return value;
+    if (schema === false) {
+        issues.push(`${path}: not allowed`);
+        return value;
+    }
+    schema = resolveRef(schema, root);
+
+    if (schema.allOf) {
+        for (const sub of schema.allOf) value = check(value, sub, path, root, issues);
+    }
+    const variants = schema.anyOf ?? schema.oneOf;
+    if (variants) {
+        for (const sub of variants) {
+            const subIssues: string[] = [];
+            const coerced = check(value, sub, path, root, subIssues);
+            if (subIssues.length === 0) return check(coerced, { ...schema, anyOf: undefined, oneOf: undefined }, path, root, issues);
+        }
+        issues.push(`${path}: does not match any allowed variant`);
+        return value;
+    }
+
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const exact = types.find(t => matchesType(value, t));
+        if (exact === undefined) {
+            const coerced = types.map(t => coerceType(value, t)).find(r => r.ok);
+            if (!coerced) {
+                issues.push(`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+                return value;
+            }
+            value = coerced.value;
+        }
+    }
+
+    if (schema.enum) {
+        const match = schema.enum.find((option: any) => option === value)
+            ?? (typeof value === 'string' ? schema.enum.find((option: any) => typeof option === 'string' && option.toLowerCase() === value.toLowerCase()) : undefined);
+        if (match === undefined) {
+            issues.push(`${path}: must be one of ${schema.enum.map((o: any) => JSON.stringify(o)).join(', ')}`);
+            return value;
+        }
+        value = match;
+    }
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+        issues.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path}: must be >= ${schema.minimum}`);
+        if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path}: must be <= ${schema.maximum}`);
+        if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) issues.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+        if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) issues.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) issues.push(`${path}: must be at least ${schema.minLength} characters`);
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) issues.push(`${path}: must be at most ${schema.maxLength} characters`);
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) issues.push(`${path}: must match ${schema.pattern}`);
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) issues.push(`${path}: must have at least ${schema.minItems} items`);
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) issues.push(`${path}: must have at most ${schema.maxItems} items`);
+        if (schema.items && !Array.isArray(schema.items)) {
+            value = value.map((item, i) => check(item, schema.items, `${path}[${i}]`, root, issues));
+        }
+    } else if (value !== null && typeof value === 'object') {
+        const properties: Record<string, Schema> = schema.properties ?? {};
+        const result: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) {
+            const childPath = path === '$' ? key : `${path}.${key}`;
+            if (key in properties) {
+                result[key] = check(item, properties[key], childPath, root, issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push(`${childPath}: unknown parameter`);
+            } else {
+                result[key] = check(item, typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined, childPath, root, issues);
+            }
+        }
+        for (const key of schema.required ?? []) {
+            if (value[key] === undefined) issues.push(`${path === '$' ? key : `${path}.${key}`}: required`);
+        }
+        value = result;
+    }
+    return value;
+}
+
+/** Validate (and safely coerce) tool parameters against a JSON Schema */
+export function validateToolParams(params: any, inputSchema: any): ToolParamsValidation {
+    if (!inputSchema || typeof inputSchema !== 'object' || Object.keys(inputSchema).length === 0) {
+        return { valid: true, params: params ?? {}, issues: [] };
+    }
+    const issues: string[] = [];
+    const coerced = check(params ?? {}, inputSchema, '$', inputSchema, issues);
+    return { valid: issues.length === 0, params: coerced, issues };
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    const schema = {
+        type: 'object',
+        properties: {
+            query: { type: 'string', minLength: 1 },
+            limit: { type: 'integer', minimum: 1, maximum: 50 },
+            exact: { type: 'boolean' },
+            sort: { enum: ['asc', 'desc'] },
+            tags: { type: 'array', items: { type: 'string' } },
+            filter: { $ref: '#/$defs/filter' },
+        },
+        required: ['query'],
+        additionalProperties: false,
+        $defs: { filter: { type: 'object', properties: { since: { type: ['string', 'null'] } } } },
+    };
+
+    test('validateToolParams coerces safe conversions', () => {
+        const result = validateToolParams({ query: 'mcp', limit: '10', exact: 'TRUE', sort: 'DESC', tags: [1, true], filter: '{"since":null}' }, schema);
+        expect(result.issues).toEqual([]);
+        expect(result.params).toEqual({ query: 'mcp', limit: 10, exact: true, sort: 'desc', tags: ['1', 'true'], filter: { since: null } });
+    });
+
+    test('validateToolParams reports unsafe values with paths', () => {
+        const result = validateToolParams({ limit: 'ten', sort: 'random', extra: 1, tags: [{}] }, schema);
+        expect(result.valid).toBe(false);
+        expect(result.issues).toEqual([
+            'limit: expected integer, got string',
+            'sort: must be one of "asc", "desc"',
+            'extra: unknown parameter',
+            'tags[0]: expected string, got object',
+            'query: required',
+        ]);
+        expect(validateToolParams({ query: 'x', limit: '2.5' }, schema).issues).toEqual(['limit: expected integer, got string']);
+        expect(validateToolParams({ query: 'x', limit: 99 }, schema).issues).toEqual(['limit: must be <= 50']);
+    });
+
+    test('validateToolParams accepts anything without a schema and picks anyOf variants', () => {
+        expect(validateToolParams({ a: 1 }, {}).valid).toBe(true);
+        expect(validateToolParams({ query: 'x', tags: { item: 'one' } }, schema).params.tags).toEqual(['one']);
+        expect(validateToolParams(undefined, { type: 'object' }).params).toEqual({});
+        const union = { type: 'object', properties: { id: { anyOf: [{ type: 'integer' }, { type: 'string', pattern: '^id-' }] } } };
+        expect(validateToolParams({ id: '7' }, union).params).toEqual({ id: 7 });
+        expect(validateToolParams({ id: 'id-7' }, union).params).toEqual({ id: 'id-7' });
+        expect(validateToolParams({ id: 'x' }, union).issues).toEqual(['id: does not match any allowed variant']);
+    });
+}
@@ -0,0 +1,186 @@
+/**
+ * tool-retrieval.ts — Embedding-based Tool Retrieval
+ *
+ * Ranks tools by embedding similarity between the run input and each tool's
+ * name + description, so only the top-k reach the LLM's tool selection.
+ * Tool embeddings are cached in a `ResponseCache`, keyed by embedder id and
+ * tool text — a changed description is embedded again.
+ *
+ * Embedders:
+ * - `localEmbedder()`: deterministic hashed bag-of-words vectors, no network
+ *   (tests, offline use, small catalogs with descriptive names)
+ * - `openAIEmbedder()`: OpenAI-compatible `/embeddings` endpoint
+ *
+ * Usage:
+ *   const agent = new Agent({ ..., toolRetrieval: { embedder: openAIEmbedder(), topK: 8 } });
+ *
+ *   const retriever = new ToolRetriever({ embedder: localEmbedder(), topK: 3 });
+ *   const tools = await retriever.select('weather in Paris', catalog);
+ */
+
+import type { MCPTool } from './types';
+import { ResponseCache } from './response-cache';
+
+export interface Embedder {
+    /** Identifies the embedding space — part of every cache key */
+    id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ToolRetrievalConfig {
+    embedder: Embedder;
+    /** Tools passed on to selection (default: 8) */
+    topK?: number;
+    /** Cache for tool embeddings (default: 5000 entries, 24h TTL) */
+    cache?: ResponseCache<number[]>;
+}
+
+export interface RankedTool<T extends MCPTool = MCPTool> {
+    tool: T;
+    /** Cosine similarity to the query */
+    score: number;
+}
+
+/** Lowercase word tokens; snake_case and camelCase names are split */
+function tokenize(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(t => t.length > 1)
+        .map(t => (t.length > 3 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+}
+
+/** FNV-1a hash of a string */
+function fnv1a(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/** Cosine similarity of two vectors */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i]! * b[i]!;
+        normA += a[i]! * a[i]!;
+        normB += b[i]! * b[i]!;
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Deterministic local embedder: words and their character trigrams are hashed
+ * into a fixed number of dimensions. Captures word overlap, not meaning.
+ */
+export function localEmbedder(dimensions = 512): Embedder {
+    const embedOne = (text: string): number[] => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const add = (feature: string, weight: number) => {
+            const h = fnv1a(feature);
+            vector[h % dimensions]! += (h & 0x80000000 ? -1 : 1) * weight;
+        };
+        for (const token of tokenize(text)) {
+            add(token, 1);
+            const padded = `^${token}$`;
+            for (let i = 0; i + 3 <= padded.length; i++) add(`#${padded.slice(i, i + 3)}`, 0.25);
+        }
+        return normalize(vector);
+    };
+    return {
+        id: `local-${dimensions}`,
+        embed: async (texts) => texts.map(embedOne),
+    };
+}
+
+/** Embedder for an OpenAI-compatible `/embeddings` endpoint */
+export function openAIEmbedder(options: { model?: string; baseUrl?: string; apiKey?: string } = {}): Embedder {
+    const model = options.model ?? 'text-embedding-3-small';
+    const baseUrl = (options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/$/, '');
+    return {
+        id: `openai:${baseUrl}:${model}`,
+        embed: async (texts) => {
+            const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+            const response = await fetch(`${baseUrl}/embeddings`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...(apiKey && { Authorization: `Bearer ${apiKey}` }) },
+                body: JSON.stringify({ model, input: texts }),
+            });
+            if (!response.ok) throw new Error(`Embedding request failed: HTTP ${response.status} ${await response.text()}`);
+            const data = await response.json() as { data: { index: number; embedding: number[] }[] };
+            return [...data.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+        },
+    };
+}
+
+/** Text embedded for a tool */
+function toolText(tool: MCPTool): string {
+    return `${tool.name}: ${tool.description ?? ''}`;
+}
+
+export class ToolRetriever {
+    private embedder: Embedder;
+    private topK: number;
+    private cache: ResponseCache<number[]>;
+
+    constructor(config: ToolRetrievalConfig) {
+        this.embedder = config.embedder;
+        this.topK = config.topK ?? 8;
+        this.cache = config.cache ?? new ResponseCache<number[]>({ maxSize: 5000, ttlMs: 24 * 60 * 60 * 1000 });
+    }
+
+    /** Tool embeddings, computing only the ones missing from the cache (in one batch) */
+    private async embedTools(tools: MCPTool[]): Promise<number[][]> {
+        const keys = tools.map(tool => this.cache.hash({ embedder: this.embedder.id, text: toolText(tool) }));
+        const vectors = keys.map(key => this.cache.get(key));
+        const missing = vectors.flatMap((v, i) => (v === undefined ? [i] : []));
+        if (missing.length > 0) {
+            const embedded = await this.embedder.embed(missing.map(i => toolText(tools[i]!)));
+            missing.forEach((toolIndex, j) => {
+                vectors[toolIndex] = embedded[j]!;
+                this.cache.set(keys[toolIndex]!, embedded[j]!);
+            });
+        }
+        return vectors as number[][];
+    }
+
+    /** All tools, most similar to the query first */
+    async rank<T extends MCPTool>(query: string, tools: T[]): Promise<RankedTool<T>[]> {
+        if (tools.length === 0) return [];
+        const [queryVector] = await this.embedder.embed([query]);
+        const vectors = await this.embedTools(tools);
+        return tools
+            .map((tool, i) => ({ tool, score: cosineSimilarity(queryVector!, vectors[i]!) }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /** The top-k tools for a query (all of them when there are no more than k) */
+    async select<T extends MCPTool>(query: string, tools: T[]): Promise<T[]> {
+        if (tools.length <= this.topK) return tools;
+        return (await this.rank(query, tools)).slice(0, this.topK).map(r => r.tool);
+    }
+}
+
+if (import.meta.env.NODE_ENV === "test") {
+    const { test, expect } = await import('bun:test');
+
+    test('localEmbedder is deterministic and ranks word overlap', async () => {
+        const embedder = localEmbedder();
+        const [a, b, c] = await embedder.embed(['get_weather: Current weather', 'Current weather', 'send email']);
+        expect(await embedder.embed(['get_weather: Current weather'])).toEqual([a!]);
+        expect(cosineSimilarity(a!, b!)).toBeGreaterThan(cosineSimilarity(a!, c!));
+        expect(cosineSimilarity(a!, a!)).toBeCloseTo(1);
+    });
+
+    test('tokenize splits identifiers and drops plural s', () => {
+        expect(tokenize('getWeather list_invoices class')).toEqual(['get', 'weather', 'list', 'invoice', 'class']);
+    });
+}
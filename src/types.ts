@@ -1,8 +1,15 @@
 // src/types.ts
 import { z } from "zod";
 import type { ToolAuthorizer } from "./tool-auth";
+import type { StructuredLogger } from "./structured-log";
+import type { ToolRetrievalConfig } from "./tool-retrieval";
+import type { CostTracker } from "./cost-tracker";
+import type { ToolApprovalPolicy } from "./approval";
+import type { InputResolvers } from "./input-resolvers";
+import type { ResponseCache, ResponseCacheConfig } from "./response-cache";
 import { readFileSync } from "fs";
 import { extname } from "path";
+import { resolveProvider } from "./providers";
 
 export const LLM = {
   "gpt-4o-mini": "gpt-4o-mini",
@@ -23,29 +30,67 @@ export type LLMType = typeof LLM[keyof typeof LLM];
 export interface MCPServer {
   name: string;
   description: string;
-  url: string;
+  /** MCP Streamable HTTP endpoint (required unless `command` launches the server over stdio) */
+  url?: string;
+  /** Launch the server as a child process and speak MCP over its stdin/stdout */
+  command?: string;
+  args?: string[];
+  /** Extra environment variables for the `command` process */
+  env?: Record<string, string>;
+  cwd?: string;
+  /** Extra HTTP headers for `url` servers (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** Use the pre-MCP REST dialect (`GET {url}/tools`, `POST {url}/call`) instead of JSON-RPC */
+  legacyRest?: boolean;
+  /** Request timeout in ms for MCP calls (default 60000) */
+  timeoutMs?: number;
+  /** Resource URIs read from this server and attached to every run's prompt as context */
+  resources?: string[];
   /** Optional overrides for discovered tools (e.g., injecting auth hooks) */
   tools?: Record<string, Partial<MCPTool>>;
 }
 
-export interface MCPTool {
+export interface MCPTool<D = any> {
   name: string;
   description: string;
   inputSchema: any;
   /** Optional async hook to intercept and authorize tool execution before it happens */
-  authorize?: (params: any) => Promise<boolean | string>;
+  authorize?: (params: any, context: ToolContext<D>) => Promise<boolean | string>;
   /** Direct native execution hook (bypasses MCP transport when used in localTools) */
-  execute?: (params: any) => Promise<any>;
+  execute?: (params: any, context: ToolContext<D>) => Promise<any>;
+}
+
+/** Run context passed to local tools' `execute` and `authorize` */
+export interface ToolContext<D = any> {
+  /** Calling agent (`'unnamed-agent'` when it has no name) */
+  agentName: string;
+  /** Id of the run that called the tool */
+  requestId: string;
+  /** Aborted when the run is cancelled or times out — pass it on to fetches and child work */
+  signal: AbortSignal;
+  /** Report progress; surfaces as a `tool_invocation` ProgressUpdate */
+  progress: (message: string, data?: any) => void;
+  /** Logger with agentName, tool and requestId attached */
+  logger: StructuredLogger;
+  /** Dependencies from `AgentConfig.deps` (database handles, the end user, ...) */
+  deps: D;
 }
 
-export interface AgentConfig<I extends z.ZodObject<any>, O extends z.ZodObject<any>> {
+export interface AgentConfig<I extends z.ZodObject<any>, O extends z.ZodObject<any>, D = any> {
   name?: string;
-  llm: LLMType;
+  /** What the agent does — shown to callers when the agent is served as an MCP tool */
+  description?: string;
+  /** Built-in model, or any id a registered provider matches (e.g. 'local/llama3.1:8b') */
+  llm: LLMType | string;
   inputFormat: I;
   outputFormat: O;
   servers?: MCPServer[];
   /** Array of fully-implemented native JS/TS tools that bypass the remote MCP transport layer */
-  localTools?: MCPTool[];
+  localTools?: MCPTool<D>[];
+  /** Dependencies handed to local tools as `context.deps` */
+  deps?: D;
+  /** Base logger for local tools' `context.logger` (default: console) */
+  logger?: StructuredLogger;
   systemPrompt?: string;
   temperature?: number;
   maxTokens?: number;
@@ -55,6 +100,13 @@ export interface AgentConfig<I extends z.ZodObject<any>, O extends z.ZodObject<a
   maxCostUSD?: number;
   /** Maximum duration in milliseconds for run(). If exceeded, throws TimeoutError. */
   maxDurationMs?: number;
+  /**
+   * Maximum native tool-calling steps per run (default 1: select and invoke tools once).
+   * With more steps the model sees tool results and may call further tools before the
+   * final output is generated. Each step emits `step_start`/`step_complete` RunEvents and
+   * counts toward maxCostUSD and maxDurationMs.
+   */
+  maxSteps?: number;
   /** Optional conversation memory for multi-turn interactions */
   memory?: any;
   /** Optional session manager for persisting memory + state across process restarts.
@@ -73,15 +125,49 @@ export interface AgentConfig<I extends z.ZodObject<any>, O extends z.ZodObject<a
   cacheConfig?: { ttlMs?: number; maxEntries?: number };
   /** Output validation hooks — run on raw LLM output before schema parsing. Throw to reject. */
   outputValidators?: OutputValidator[];
+  /**
+   * Corrections to request when the output fails an outputValidator or outputFormat (default 0).
+   * The invalid output and its issue paths are sent back to the model; each attempt emits a
+   * `repair_attempt` RunEvent with its token usage and cost. Tool calls are not repeated.
+   * When attempts run out, run() throws a ValidationError.
+   */
+  maxRepairAttempts?: number;
   /** Tool authorization mechanism to globally whitelist/blacklist tools */
   toolAuth?: ToolAuthorizer;
+  /**
+   * Embedding pre-filter for large tool catalogs: only the `topK` tools most similar
+   * to the input are offered to the model. Tool embeddings are cached across runs.
+   */
+  toolRetrieval?: ToolRetrievalConfig;
+  /** Records every run's usage and cost (with the run's model and tags) */
+  costTracker?: CostTracker;
+  /**
+   * Tool calls that need human sign-off: `true` for all, a list of `tool` or
+   * `server.tool` names, or a predicate. Held calls suspend the run after the
+   * current tool phase: run() rejects with an ApprovalRequiredError whose
+   * `approval` resumes it. The suspended run is saved to `session` when set.
+   */
+  requireApproval?: ToolApprovalPolicy<D>;
+  /**
+   * Fill input fields the caller left out, before the run starts: field name →
+   * function, local tool, or MCP tool with a parameter mapping. Resolvers run in
+   * parallel; a failing resolver fails the run with an InputResolutionError.
+   */
+  inputResolvers?: InputResolvers<z.infer<I>, D>;
+  /** Cache for tool resolver results (and functions with `cache: true`), keyed by field and parameters (default: 1 minute TTL; false disables) */
+  resolverCache?: ResponseCache | ResponseCacheConfig | false;
+  /**
+   * Let the model pick a tool for fields described as `mcp: https://...` (default false).
+   * Costs an extra LLM call per field; prefer `inputResolvers`.
+   */
+  resolveMCPDescriptions?: boolean;
 }
 
 /** Validator function that receives raw LLM output. Throw an error to reject. */
 export type OutputValidator = (rawOutput: string, input: any) => void | Promise<void>;
 
 export interface ProgressUpdate {
-  stage: "server_selection" | "tool_discovery" | "tool_invocation" | "response_generation" | "streaming" | "input_resolution" | "payment";
+  stage: "server_selection" | "tool_discovery" | "tool_invocation" | "response_generation" | "streaming" | "input_resolution" | "payment" | "partial_output";
   message: string;
   data?: any;
 }
@@ -103,6 +189,63 @@ export interface TokenUsage {
 export interface LLMResult {
   content: string;
   usage?: TokenUsage;
+  /** Native tool calls requested by the model (only when `tools` were passed) */
+  toolCalls?: LLMToolCall[];
+}
+
+/** Why the model stopped generating, normalized across providers */
+export type LLMFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'other';
+
+/** Everything known about a single LLM call — returned by callLLMDetailed() */
+export interface LLMCallResult extends LLMResult {
+  toolCalls: LLMToolCall[];
+  /** Chain of thought from reasoning models (DeepSeek R1, Claude thinking, Gemini thoughts) */
+  reasoningContent?: string;
+  /** Undefined when the provider did not report one */
+  finishReason?: LLMFinishReason;
+  /** Name of the provider adapter that served the call */
+  provider: string;
+  model: string;
+  latencyMs: number;
+  /** Decoded response body, or the list of SSE event payloads when streaming */
+  rawResponse: unknown;
+}
+
+/** Typed delta yielded by streamLLM() */
+export type LLMStreamDelta =
+  | { type: 'text'; text: string }
+  | { type: 'reasoning'; text: string }
+  /** Native tool-call argument fragment; concatenate `argumentsDelta` per `index` */
+  | { type: 'tool_call'; index: number; id: string; name: string; argumentsDelta: string }
+  /** Cumulative usage so far (estimated at the end if the provider reports none) */
+  | { type: 'usage'; usage: TokenUsage }
+  /** Always the last delta */
+  | { type: 'finish'; reason?: LLMFinishReason };
+
+// --- Native Tool Calling ---
+
+/** Provider-neutral tool definition, mapped to OpenAI `tools`, Anthropic `tools` and Gemini `functionDeclarations` */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema of the tool arguments (usually `MCPTool.inputSchema`) */
+  parameters?: any;
+}
+
+/** Whether the model may, must, or must not call a tool — or which one it must call */
+export type LLMToolChoice = 'auto' | 'required' | 'none' | { name: string };
+
+/** A structured tool call returned by the model */
+export interface LLMToolCall {
+  /** Provider call id (synthesized for Gemini, which has none) */
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/** Build a native tool definition from an MCP tool, optionally under a different (e.g. namespaced) name */
+export function toolFromMCP(tool: MCPTool, name: string = tool.name): LLMToolDefinition {
+  return { name, description: tool.description, parameters: tool.inputSchema };
 }
 
 export type ProgressCallback = (update: ProgressUpdate) => void;
@@ -127,6 +270,12 @@ export interface LLMMessage {
   cacheControl?: boolean;
   /** Optional images for vision models (GPT-4o, Gemini, Claude) */
   images?: ImageContent[];
+  /** Tool calls made by the model in an `assistant` turn (replayed in multi-step tool loops) */
+  toolCalls?: LLMToolCall[];
+  /** For `role: 'tool'` — id of the tool call this message answers */
+  toolCallId?: string;
+  /** For `role: 'tool'` — name of the tool that produced this result (Gemini matches results by name) */
+  name?: string;
 }
 
 /** Create an ImageContent from a URL */
@@ -157,38 +306,18 @@ export function isGeminiModel(llm: LLMType | string): boolean {
   return llm.toString().startsWith('gemini');
 }
 
+/** Request endpoint for a model, as resolved by the provider registry */
 export function getLLMBaseUrl(llm: LLMType | string): string {
-  if (llm.startsWith('gpt') || llm.startsWith('o4-')) return 'https://api.openai.com/v1/chat/completions';
-  if (llm.startsWith('claude')) return 'https://api.anthropic.com/v1/messages';
-  if (llm === 'deepseek-chat') return 'https://api.deepseek.com/v1/chat/completions';
-  if (llm.startsWith('gemini')) {
-    return `https://generativelanguage.googleapis.com/v1beta/models/${llm}:generateContent`;
-  }
-  throw new Error(`Unknown LLM provider for: ${llm}`);
+  return resolveProvider(llm).endpoint(llm);
 }
 
+/** API key for a model's provider, read from the adapter's `apiKeyEnv` variables */
 export function getLLMApiKey(llm: LLMType | string): string {
-  if (llm.startsWith('gpt') || llm.startsWith('o4-')) {
-    const key = process.env.OPENAI_API_KEY;
-    if (!key) throw new Error('OPENAI_API_KEY not set');
-    return key;
-  }
-  if (llm.startsWith('claude')) {
-    const key = process.env.ANTHROPIC_API_KEY;
-    if (!key) throw new Error('ANTHROPIC_API_KEY not set');
-    return key;
-  }
-  if (llm === 'deepseek-chat') {
-    const key = process.env.DEEPSEEK_API_KEY;
-    if (!key) throw new Error('DEEPSEEK_API_KEY not set');
-    return key;
-  }
-  if (llm.startsWith('gemini')) {
-    const key = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
-    if (!key) throw new Error('GOOGLE_API_KEY or GEMINI_API_KEY not set');
-    return key;
+  const envNames = resolveProvider(llm).apiKeyEnv ?? [];
+  for (const name of envNames) {
+    if (process.env[name]) return process.env[name]!;
   }
-  throw new Error(`Unknown LLM provider for: ${llm}`);
+  throw new Error(`${envNames.join(' or ') || `API key for ${llm}`} not set`);
 }
 
 // --- MCP helper ---
@@ -26,7 +26,7 @@ export function validateUrl(userUrl: string): string {
   }
 }
 
-/** Validates that the output schema contains no arrays. */
+/** Validates that the output schema contains no arrays. Agent output schemas support arrays; kept for callers that need flat schemas. */
 export function validateNoArrays(schema: z.ZodObject<any>, path: string = ''): void {
   const shape = schema.shape;
   for (const [key, fieldSchema] of Object.entries(shape)) {
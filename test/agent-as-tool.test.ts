@@ -0,0 +1,114 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent, type RunEvent } from '../src/agent';
+import { zodToToolSchema } from '../src/define-tool';
+import { calculateCost } from '../src/pricing';
+import { GxaiError } from '../src/errors';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+const parentUsage = { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 };
+const childUsage = { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 };
+
+/** The parent (gpt-4o-mini) calls the `research` tool; the nested agent (gpt-4o) answers */
+function mockLLMs() {
+    const requests: any[] = [];
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        requests.push(body);
+        if (body.model === 'gpt-4o') {
+            return Response.json({ choices: [{ message: { content: '{"summary":"Bun is fast"}' } }], usage: childUsage });
+        }
+        if (body.tools) {
+            return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'research', arguments: '{"topic":"bun"}' } }] } }], usage: parentUsage });
+        }
+        return Response.json({ choices: [{ message: { content: '{"answer":"Bun is fast"}' } }], usage: parentUsage });
+    }) as any;
+    return requests;
+}
+
+function createAgents() {
+    const researcher = new Agent({
+        name: 'researcher',
+        description: 'Researches a topic',
+        llm: 'gpt-4o',
+        inputFormat: z.object({ topic: z.string().describe('What to research') }),
+        outputFormat: z.object({ summary: z.string() }),
+    });
+    const writer = new Agent({
+        name: 'writer',
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: [researcher.asTool({ name: 'research' })],
+    });
+    const events: RunEvent[] = [];
+    researcher.onEvent(e => events.push(e));
+    writer.onEvent(e => events.push(e));
+    return { researcher, writer, events };
+}
+
+describe('agent.asTool()', () => {
+    test('the tool takes its schema and description from the agent', () => {
+        const { researcher } = createAgents();
+        const tool = researcher.asTool();
+        expect(tool.name).toBe('researcher');
+        expect(tool.description).toBe('Researches a topic');
+        expect(tool.inputSchema).toEqual(zodToToolSchema(researcher.inputFormat));
+        expect(tool.inputSchema.properties.topic.description).toBe('What to research');
+        expect(researcher.asTool({ name: 'r', description: 'Custom' })).toMatchObject({ name: 'r', description: 'Custom' });
+
+        const unnamed = new Agent({ llm: 'gpt-4o', inputFormat: z.object({ a: z.string() }), outputFormat: z.object({ b: z.string() }) });
+        expect(() => unnamed.asTool()).toThrow(GxaiError);
+    });
+
+    test('nested usage and cost roll up into the parent run', async () => {
+        const requests = mockLLMs();
+        const { researcher, writer } = createAgents();
+
+        expect(await writer.run({ question: 'Is Bun fast?' })).toEqual({ answer: 'Bun is fast' });
+        expect(requests.find(r => r.model === 'gpt-4o').messages.at(-1).content).toContain('bun');
+        expect(JSON.stringify(requests.at(-1).messages)).toContain('Bun is fast');
+
+        expect(researcher.lastUsage).toEqual({ inputTokens: 1000, outputTokens: 200, totalTokens: 1200 });
+        expect(writer.lastUsage).toEqual({ inputTokens: 1200, outputTokens: 240, totalTokens: 1440 });
+        // Each part is priced by its own model
+        const own = calculateCost('gpt-4o-mini', { inputTokens: 200, outputTokens: 40, totalTokens: 240 });
+        const nested = calculateCost('gpt-4o', researcher.lastUsage!);
+        expect(writer.lastCost!.totalCost).toBeCloseTo(own.totalCost + nested.totalCost, 6);
+    });
+
+    test('nested RunEvents and traces carry the parent requestId', async () => {
+        mockLLMs();
+        const { writer, events } = createAgents();
+        const trace = await writer.runWithTrace({ question: 'Is Bun fast?' });
+
+        const parentStart = events.find(e => e.type === 'run_start' && e.agentName === 'writer') as Extract<RunEvent, { type: 'run_start' }>;
+        const nested = events.filter(e => (e.type === 'run_start' || e.type === 'run_complete') && e.agentName === 'researcher');
+        expect(parentStart.parentRequestId).toBeUndefined();
+        expect(nested.map(e => e.type)).toEqual(['run_start', 'run_complete']);
+        for (const event of nested) expect(event).toMatchObject({ parentRequestId: parentStart.requestId });
+
+        expect(trace.requestId).toBe(parentStart.requestId);
+        expect(trace.usage!.totalTokens).toBe(1440);
+        expect(trace.spans.find(s => s.kind === 'tool')).toMatchObject({ tool: 'research', result: { summary: 'Bun is fast' } });
+    });
+
+    test('a failed nested run returns its error to the calling model', async () => {
+        const requests = mockLLMs();
+        const { researcher, writer, events } = createAgents();
+        researcher.use(ctx => {
+            if (ctx.phase === 'before') throw new Error('Research quota exceeded');
+        });
+
+        expect(await writer.run({ question: 'Is Bun fast?' })).toEqual({ answer: 'Bun is fast' });
+        expect(requests.some(r => r.model === 'gpt-4o')).toBe(false);
+        expect(JSON.stringify(requests.at(-1).messages)).toContain('Research quota exceeded');
+        expect(events.find(e => e.type === 'run_error')).toMatchObject({ agentName: 'researcher' });
+        expect(events.at(-1)).toMatchObject({ type: 'run_complete', agentName: 'writer' });
+    });
+});
@@ -0,0 +1,177 @@
+import { test, expect, describe, afterEach, spyOn } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { agentFromSpec, loadAgent, loadToolModule } from '../src/agent-spec';
+import { AgentSpecError, GuardrailError } from '../src/errors';
+import { lookupOrder } from './fixtures/agent-spec/tools';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+const fixtures = join(import.meta.dir, 'fixtures/agent-spec');
+
+/**
+ * Native tool-calling mock: the tools step answers without calls, the final call returns `reply`.
+ * Requests to MCP servers on https://crm.test fail; their headers are collected in `mcpHeaders`.
+ */
+function mockLLM(reply: string, mcpHeaders: Headers[] = []) {
+    const requests: any[] = [];
+    spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+        if (String(url).startsWith('https://crm.test')) {
+            mcpHeaders.push(new Headers(init?.headers));
+            return new Response('Unavailable', { status: 503 });
+        }
+        const body = JSON.parse(String(init?.body));
+        requests.push(body);
+        if (body.tools) return Response.json({ choices: [{ message: { content: 'No tools needed' } }] });
+        return Response.json({ choices: [{ message: { content: JSON.stringify({ reply, urgent: false }) } }] });
+    });
+    return requests;
+}
+
+const minimal = {
+    llm: 'gpt-4o-mini',
+    inputSchema: { type: 'object', properties: { q: { type: 'string' } } },
+    outputSchema: { type: 'object', properties: { a: { type: 'string' } } },
+};
+
+describe('loadAgent', () => {
+    test('builds the agent from a YAML spec: schemas, prompt, settings and tools', async () => {
+        const requests = mockLLM('Your order has shipped');
+        const agent = await loadAgent(join(fixtures, 'support.yaml'), { tools: [lookupOrder] });
+
+        expect(agent.name).toBe('support');
+        expect(agent.description).toBe('Answers support tickets');
+        expect(agent.inputFormat.parse({ ticket: 'Where is my order?' })).toEqual({ ticket: 'Where is my order?', priority: 'low' });
+        expect(agent.inputFormat.safeParse({ ticket: '' }).success).toBe(false);
+        expect(agent.inputFormat.shape.ticket.description).toBe("The customer's message");
+
+        expect(await agent.run({ ticket: 'Where is my order?' })).toEqual({ reply: 'Your order has shipped', urgent: false });
+        const toolsStep = requests.find(r => r.tools);
+        expect(toolsStep.tools.map((t: any) => t.function.name).sort()).toEqual(['issue_refund', 'lookup_order']);
+        const final = requests.at(-1);
+        expect(final.temperature).toBe(0.2);
+        expect(JSON.stringify(final.messages)).toContain('You answer support tickets politely.');
+    });
+
+    test('guardrails reject oversized input and blocked output', async () => {
+        const requests = mockLLM('Your password is hunter2');
+        const agent = await loadAgent(join(fixtures, 'support.yaml'), { tools: [lookupOrder] });
+
+        const tooLong = await agent.run({ ticket: 'x'.repeat(300) }).catch(e => e);
+        expect(tooLong).toBeInstanceOf(GuardrailError);
+        expect(tooLong).toMatchObject({ rule: 'maxLength', target: 'input' });
+        expect(tooLong.message).toContain('Guardrail "maxLength" rejected the input');
+        expect(requests).toHaveLength(0);
+
+        const blocked = await agent.run({ ticket: 'Reset my account' }).catch(e => e);
+        expect(blocked).toBeInstanceOf(GuardrailError);
+        expect(blocked.target).toBe('output');
+        expect(blocked.message).toContain('Blocked keyword: "password"');
+    });
+
+    test('JSON specs, config overrides and ${ENV} in servers', async () => {
+        const dir = mkdtempSync(join(tmpdir(), 'gx-spec-'));
+        process.env.GX_SPEC_TEST_TOKEN = 'secret';
+        try {
+            const file = join(dir, 'agent.json');
+            writeFileSync(file, JSON.stringify({
+                ...minimal,
+                name: 'json-agent',
+                servers: [{ name: 'crm', description: 'CRM', url: 'https://crm.test', headers: { Authorization: 'Bearer ${GX_SPEC_TEST_TOKEN}' } }],
+            }));
+            const agent = await loadAgent(file, { config: { name: 'renamed' } });
+            expect(agent.name).toBe('renamed');
+
+            const mcpHeaders: Headers[] = [];
+            mockLLM('ok', mcpHeaders);
+            await agent.run({ q: 'hi' });
+            expect(mcpHeaders.length).toBeGreaterThan(0);
+            expect(mcpHeaders[0]!.get('authorization')).toBe('Bearer secret');
+        } finally {
+            delete process.env.GX_SPEC_TEST_TOKEN;
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('invalid specs fail with every issue listed', async () => {
+        const errorOf = (spec: any) => agentFromSpec(spec, { baseDir: fixtures, source: 'test.yaml' }).catch(e => e);
+
+        const unknownKey = await errorOf({ ...minimal, temprature: 0.2 });
+        expect(unknownKey).toBeInstanceOf(AgentSpecError);
+        expect(unknownKey.message).toStartWith('Invalid agent spec test.yaml: ');
+        expect(unknownKey.issues[0]).toContain("Unrecognized key(s) in object: 'temprature'");
+
+        const references = await errorOf({
+            ...minimal,
+            inputSchema: { type: 'string' },
+            outputSchema: { type: 'object', properties: { a: { $ref: '#/a' } } },
+            servers: [{ name: 'crm', description: 'CRM', url: 'https://crm.test/${GX_SPEC_MISSING}' }],
+            localTools: ['lookup_order', { module: './tools.ts', export: 'notATool' }, { module: './missing.ts' }],
+        });
+        expect(references.issues.slice(0, 5)).toEqual([
+            'inputSchema: must describe an object',
+            'outputSchema.a: $ref is not supported',
+            'servers[0].url: environment variable GX_SPEC_MISSING is not set',
+            'localTools[0]: unknown tool "lookup_order"',
+            'localTools[1]: ./tools.ts export "notATool" is not a tool or a list of tools',
+        ]);
+        expect(references.issues[5]).toStartWith('localTools[2]: cannot import ./missing.ts');
+
+        await expect(loadAgent(join(fixtures, 'missing.yaml'))).rejects.toThrow('missing.yaml: file not found');
+        await expect(loadAgent(join(fixtures, 'tools.ts'))).rejects.toThrow('unknown format ".ts"');
+    });
+});
+
+describe('gx run', () => {
+    const cli = join(import.meta.dir, '../src/cli.ts');
+    const spec = join(fixtures, 'support.yaml');
+    const input = '{"ticket":"Where is my order?"}';
+
+    async function gx(...args: string[]) {
+        // Keep src inline tests from running in the child process
+        const proc = Bun.spawn([process.execPath, cli, 'run', ...args], { stdout: 'pipe', stderr: 'pipe', env: { ...process.env, NODE_ENV: 'production' } });
+        const [stdout, stderr, code] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text(), proc.exited]);
+        return { stdout, stderr, code };
+    }
+
+    test('--tools supplies the tools that localTools names', async () => {
+        // OpenAI-compatible stand-in for the local/ provider: no tool calls, then the reply
+        const server = Bun.serve({
+            port: 0,
+            hostname: '127.0.0.1',
+            async fetch(req) {
+                const body = await req.json();
+                if (body.tools) return Response.json({ choices: [{ message: { content: 'No tools needed' } }] });
+                const content = '<reply>Shipped</reply><urgent>false</urgent>';
+                if (!body.stream) return Response.json({ choices: [{ message: { content } }] });
+                return new Response(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\ndata: [DONE]\n\n`, { headers: { 'Content-Type': 'text/event-stream' } });
+            },
+        });
+        try {
+            const { stdout, stderr, code } = await gx(spec, '--tools', join(fixtures, 'tools.ts'), '--input', input,
+                '--model', 'local/stub', '--base-url', `http://127.0.0.1:${server.port}/v1`);
+            expect(stderr).toContain('✓ Done');
+            expect(code).toBe(0);
+            expect(JSON.parse(stdout)).toEqual({ reply: 'Shipped', urgent: false });
+        } finally {
+            server.stop(true);
+        }
+    });
+
+    test('a named tool without --tools fails the load', async () => {
+        const { stderr, code } = await gx(spec, '--input', input);
+        expect(code).toBe(1);
+        expect(stderr).toContain('AgentSpecError');
+        expect(stderr).toContain('localTools[0]: unknown tool "lookup_order"');
+    });
+
+    test('loadToolModule collects every exported tool', async () => {
+        expect((await loadToolModule(join(fixtures, 'tools.ts'))).map(t => t.name)).toEqual(['lookup_order', 'issue_refund']);
+        await expect(loadToolModule(join(fixtures, 'support.yaml'))).rejects.toBeInstanceOf(AgentSpecError);
+    });
+});
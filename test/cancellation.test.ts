@@ -0,0 +1,256 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent, type RunEvent, type MiddlewareContext } from '../src/agent';
+import { CancelledError } from '../src/errors';
+import { MCPClient, type MCPTransport, type JsonRpcMessage } from '../src/mcp-client';
+import { closeMCPClients } from '../src/mcp';
+import type { MCPTool } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/** LLM mock that never answers until the request's signal aborts */
+function mockHangingLLM() {
+    const signals: AbortSignal[] = [];
+    globalThis.fetch = ((_url: string, init?: RequestInit) => new Promise((_, reject) => {
+        const signal = init!.signal!;
+        signals.push(signal);
+        signal.addEventListener('abort', () => reject(signal.reason));
+    })) as any;
+    return signals;
+}
+
+/** LLM mock: tool-selection calls pick `tool`, the final call answers */
+function mockToolLLM(tool: string) {
+    const requests: any[] = [];
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        requests.push(body);
+        if (body.tools) {
+            return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: tool, arguments: '{}' } }] } }] });
+        }
+        return Response.json({ choices: [{ message: { content: '{"answer":"done"}' } }] });
+    }) as any;
+    return requests;
+}
+
+function createAgent(localTools?: MCPTool[]) {
+    const agent = new Agent({
+        name: 'cancellable',
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools,
+    });
+    const events: RunEvent[] = [];
+    const phases: MiddlewareContext['phase'][] = [];
+    agent.onEvent(e => events.push(e));
+    agent.use(ctx => { phases.push(ctx.phase); });
+    return { agent, events, phases };
+}
+
+const abortSoon = (controller: AbortController, ms = 20) => setTimeout(() => controller.abort(), ms);
+
+describe('Agent cancellation', () => {
+    test('aborting the signal cancels the in-flight LLM request', async () => {
+        const signals = mockHangingLLM();
+        const { agent, events, phases } = createAgent();
+        const controller = new AbortController();
+        abortSoon(controller);
+
+        const error = await agent.run({ question: 'hi' }, { signal: controller.signal }).catch(e => e);
+        expect(error).toBeInstanceOf(CancelledError);
+        expect(error.reason.name).toBe('AbortError');
+        expect(signals).toHaveLength(1);
+        expect(signals[0]!.aborted).toBe(true);
+
+        await Bun.sleep(10);
+        expect(events.map(e => e.type)).toEqual(['run_start', 'run_cancelled']);
+        expect(phases).toEqual(['before', 'error']);
+    });
+
+    test('local tools see the cancellation and the final response is never generated', async () => {
+        const requests = mockToolLLM('wait');
+        let toolSignal: AbortSignal | undefined;
+        const { agent, events, phases } = createAgent([{
+            name: 'wait',
+            description: 'Wait until cancelled',
+            inputSchema: { type: 'object', properties: {} },
+            execute: (_params, ctx) => new Promise(resolve => {
+                toolSignal = ctx.signal;
+                ctx.signal.addEventListener('abort', () => resolve({ cancelled: true }));
+            }),
+        }]);
+        const controller = new AbortController();
+        abortSoon(controller);
+
+        await expect(agent.run({ question: 'wait' }, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+        await Bun.sleep(10);
+        expect(toolSignal!.aborted).toBe(true);
+        expect(toolSignal!.reason).toBeInstanceOf(CancelledError);
+        expect(requests).toHaveLength(1);
+        expect(events.some(e => e.type === 'run_complete' || e.type === 'run_error')).toBe(false);
+        expect(phases).not.toContain('after');
+    });
+
+    test('a run that finishes after cancellation still does not complete', async () => {
+        mockToolLLM('stubborn');
+        const { agent, events, phases } = createAgent([{
+            name: 'stubborn',
+            description: 'Ignores the signal',
+            inputSchema: { type: 'object', properties: {} },
+            execute: async () => { await Bun.sleep(40); return { ok: true }; },
+        }]);
+        const controller = new AbortController();
+        abortSoon(controller);
+
+        await expect(agent.run({ question: 'go' }, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+        // Reported when the caller sees the error, not when the tool gets around to returning
+        expect(events.at(-1)!.type).toBe('run_cancelled');
+        await Bun.sleep(60);
+        expect(events.filter(e => e.type.startsWith('run_') && e.type !== 'run_start').map(e => e.type)).toEqual(['run_cancelled']);
+        expect(phases).toEqual(['before', 'error']);
+    });
+
+    test('runWithTrace closes the spans a cancelled run stopped waiting for', async () => {
+        mockToolLLM('stubborn');
+        const { agent } = createAgent([{
+            name: 'stubborn',
+            description: 'Ignores the signal',
+            inputSchema: { type: 'object', properties: {} },
+            execute: async () => { await Bun.sleep(40); return { ok: true }; },
+        }]);
+        const controller = new AbortController();
+        abortSoon(controller);
+
+        const trace = await agent.runWithTrace({ question: 'go' }, { signal: controller.signal });
+        expect(trace.error).toStartWith('Agent run cancelled');
+        const tool = trace.spans.find(s => s.kind === 'tool')!;
+        expect(tool.durationMs).toBeDefined();
+        expect(tool.error).toStartWith('Agent run cancelled');
+        await Bun.sleep(60);
+        expect(tool.error).toStartWith('Agent run cancelled');
+        expect(trace.spans.every(s => s.durationMs !== undefined)).toBe(true);
+    });
+
+    test('attached MCP resource reads are cancelled with the run', async () => {
+        const rpc: any[] = [];
+        // MCP server that never answers resources/read; the LLM is never reached
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            rpc.push(body);
+            if (body.method === 'initialize') {
+                return Response.json({ jsonrpc: '2.0', id: body.id, result: { protocolVersion: '2025-06-18', capabilities: { resources: {} } } });
+            }
+            if (body.id === undefined) return new Response(null, { status: 202 });
+            return new Promise((_, reject) => init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason)));
+        }) as any;
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            servers: [{ name: 'docs', description: 'Docs', url: 'https://docs.test/mcp', resources: ['docs://slow'] }],
+        });
+        const controller = new AbortController();
+        abortSoon(controller);
+
+        try {
+            await expect(agent.run({ question: 'hi' }, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+            await Bun.sleep(10);
+            const read = rpc.find(m => m.method === 'resources/read');
+            expect(rpc.find(m => m.method === 'notifications/cancelled')).toMatchObject({ params: { requestId: read.id, reason: 'cancelled' } });
+            expect(rpc.some(m => m.model)).toBe(false);
+        } finally {
+            await closeMCPClients();
+        }
+    });
+
+    test('an already aborted signal rejects without calling the LLM', async () => {
+        const requests = mockToolLLM('none');
+        const { agent } = createAgent();
+        await expect(agent.run({ question: 'hi' }, { signal: AbortSignal.abort('user left') })).rejects.toThrow('Agent run cancelled: user left');
+        expect(requests).toHaveLength(0);
+    });
+
+    test('runStream: breaking out of the loop cancels the run', async () => {
+        const signals = mockHangingLLM();
+        const { agent, events } = createAgent();
+        for await (const chunk of agent.runStream({ question: 'hi' })) {
+            expect(chunk.done).toBe(false);
+            break;
+        }
+        await Bun.sleep(10);
+        expect(signals[0]?.aborted ?? true).toBe(true);
+        expect(events.at(-1)!.type).toBe('run_cancelled');
+    });
+
+    test('runStream and runBatch accept a signal', async () => {
+        mockHangingLLM();
+        const { agent } = createAgent();
+
+        const controller = new AbortController();
+        abortSoon(controller);
+        const chunks = [];
+        for await (const chunk of agent.runStream({ question: 'hi' }, { signal: controller.signal })) chunks.push(chunk);
+        expect(chunks.at(-1)).toEqual({ done: true, error: 'Agent run cancelled' });
+
+        const batchController = new AbortController();
+        abortSoon(batchController);
+        const { results, errors } = await agent.runBatch([{ question: 'a' }, { question: 'b' }], { signal: batchController.signal });
+        expect(results).toHaveLength(0);
+        expect(errors.map(e => e.error)).toEqual(['Agent run cancelled', 'Agent run cancelled']);
+    });
+});
+
+describe('MCP request cancellation', () => {
+    test('an aborted request is rejected and the server is sent notifications/cancelled', async () => {
+        const sent: JsonRpcMessage[] = [];
+        const transport: MCPTransport = {
+            start: async () => { },
+            close: async () => { },
+            send: async (message: any) => {
+                sent.push(message);
+                if (message.method === 'initialize') {
+                    queueMicrotask(() => transport.onmessage?.({ jsonrpc: '2.0', id: message.id, result: { protocolVersion: '2025-06-18', capabilities: { tools: {} } } }));
+                }
+            },
+        };
+        const client = new MCPClient(transport);
+        const controller = new AbortController();
+        const call = client.callTool('slow', {}, { signal: controller.signal });
+        await Bun.sleep(5);
+        controller.abort(new Error('stop'));
+
+        await expect(call).rejects.toThrow('stop');
+        const request = sent.find((m: any) => m.method === 'tools/call') as any;
+        expect(sent.at(-1)).toEqual({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: request.id, reason: 'cancelled' } });
+    });
+
+    test('settled requests remove their abort listener from the signal', async () => {
+        const transport: MCPTransport = {
+            start: async () => { },
+            close: async () => { },
+            send: async (message: any) => {
+                if (message.params?.name === 'broken') throw new Error('send failed');
+                if (message.id === undefined || message.params?.name === 'slow') return;
+                const result = message.method === 'initialize' ? { protocolVersion: '2025-06-18', capabilities: { tools: {} } } : { content: [] };
+                queueMicrotask(() => transport.onmessage?.({ jsonrpc: '2.0', id: message.id, result }));
+            },
+        };
+        const client = new MCPClient(transport);
+        const { signal } = new AbortController();
+        let listeners = 0;
+        const add = signal.addEventListener.bind(signal);
+        const remove = signal.removeEventListener.bind(signal);
+        signal.addEventListener = ((type: string, listener: any, options?: any) => { listeners++; add(type, listener, options); }) as any;
+        signal.removeEventListener = ((type: string, listener: any) => { listeners--; remove(type, listener); }) as any;
+
+        await client.callTool('fast', {}, { signal });
+        await expect(client.callTool('slow', {}, { signal, timeoutMs: 10 })).rejects.toThrow('timed out');
+        await expect(client.callTool('broken', {}, { signal })).rejects.toThrow('send failed');
+        expect(listeners).toBe(0);
+    });
+});
@@ -0,0 +1,114 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+import { LoopAgent, type LoopEvent } from '../src/loop';
+import { ToolRegistry } from '../src/tool-registry';
+import { defineTool } from '../src/define-tool';
+import { ValidationError } from '../src/errors';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+const calls: any[] = [];
+const convert = defineTool({
+    name: 'convert',
+    description: 'Convert between units',
+    input: z.object({
+        value: z.number(),
+        unit: z.enum(['km', 'mi']).default('km'),
+    }),
+    output: z.object({ km: z.number() }),
+    execute: async ({ value, unit }) => {
+        calls.push({ value, unit });
+        return { km: unit === 'mi' ? value * 1.609 : value };
+    },
+});
+
+describe('defineTool', () => {
+    test('works as an Agent local tool with the generated schema', async () => {
+        calls.length = 0;
+        const requests: any[] = [];
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            requests.push(body);
+            if (body.tools) {
+                return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'convert', arguments: '{"value":10,"unit":"mi"}' } }] } }] });
+            }
+            return Response.json({ choices: [{ message: { content: '{"answer":"16.09 km"}' } }] });
+        }) as any;
+
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            localTools: [convert],
+        });
+        expect((await agent.run({ question: '10 miles in km?' })).answer).toBe('16.09 km');
+
+        const declared = requests[0].tools.find((t: any) => t.function.name === 'convert');
+        expect(declared.function.parameters.properties.unit).toEqual({ type: 'string', enum: ['km', 'mi'], default: 'km' });
+        expect(calls).toEqual([{ value: 10, unit: 'mi' }]);
+        expect(JSON.stringify(requests.at(-1).messages)).toContain('16.09');
+    });
+
+    test('registers in a ToolRegistry with validated invocation', async () => {
+        const registry = new ToolRegistry().register(convert);
+
+        expect(await registry.invoke('convert', { value: 3 })).toEqual({ km: 3 });
+        expect(registry.get('convert')!.schema).toEqual(convert.inputSchema);
+        await expect(registry.invoke('convert', { value: 'three' })).rejects.toBeInstanceOf(ValidationError);
+        expect(registry.list()[0]!.invocationCount).toBe(2);
+    });
+
+    test('is offered to and executed by a LoopAgent', async () => {
+        calls.length = 0;
+        const prompts: string[] = [];
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            prompts.push(body.messages[0].content);
+            const content = prompts.length === 1
+                ? '<tool_call>\n{"tool": "convert", "params": {"value": 2, "unit": "mi"}}\n</tool_call>'
+                : 'Done';
+            return Response.json({ choices: [{ message: { content } }] });
+        }) as any;
+
+        const events: LoopEvent[] = [];
+        const loop = new LoopAgent({
+            llm: 'gpt-4o-mini',
+            maxIterations: 3,
+            tools: [convert],
+            outcomes: [{ description: 'converted', validate: async () => ({ met: calls.length > 0, reason: `${calls.length} calls` }) }],
+        });
+        const result = await loop.execute('Convert 2 miles', e => events.push(e));
+
+        expect(result.success).toBe(true);
+        expect(prompts[0]).toContain('convert(params) — Convert between units');
+        expect(events.find(e => e.type === 'tool_result')).toEqual({ type: 'tool_result', tool: 'convert', result: { success: true, output: '{"km":3.218}' } });
+    });
+
+    test('LoopAgent reports invalid tool input as a failed tool result', async () => {
+        globalThis.fetch = (async () => Response.json({ choices: [{ message: { content: '<tool_call>\n{"tool": "convert", "params": {"value": "x"}}\n</tool_call>' } }] })) as any;
+
+        const events: LoopEvent[] = [];
+        const loop = new LoopAgent({
+            llm: 'gpt-4o-mini',
+            maxIterations: 1,
+            tools: [convert],
+            outcomes: [{ description: 'never', validate: async () => ({ met: false, reason: 'no' }) }],
+        });
+        await loop.execute('Convert', e => events.push(e));
+
+        const result = events.find(e => e.type === 'tool_result') as Extract<LoopEvent, { type: 'tool_result' }>;
+        expect(result.result.success).toBe(false);
+        expect(result.result.error).toContain('Invalid input for tool "convert"');
+    });
+
+    test('LoopAgent rejects tools that shadow built-ins', () => {
+        const exec = defineTool({ name: 'exec', description: 'x', input: z.object({}), execute: async () => 'x' });
+        expect(() => new LoopAgent({ llm: 'gpt-4o-mini', tools: [exec], outcomes: [{ description: 'x', validate: async () => ({ met: true, reason: '' }) }] }))
+            .toThrow('conflicts with a built-in tool');
+    });
+});
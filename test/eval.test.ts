@@ -0,0 +1,140 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CostTracker } from '../src/cost-tracker';
+import { calculateCost } from '../src/pricing';
+import { llmJudge, loadEvalDataset, loadEvalSuite, runEval, writeEvalReport, type EvalReport } from '../src/eval';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+const usage = { prompt_tokens: 100, completion_tokens: 10, total_tokens: 110 };
+// Loaded up front: importing the agent inside a test would register its inline tests there
+const suite = await loadEvalSuite(join(import.meta.dir, 'fixtures/eval/qa.eval.ts'));
+
+/** The agent answers from `answers` (keyed by country); the gpt-4o judge always gives 8/10 */
+function mockLLM(answers: Record<string, string>) {
+    let active = 0;
+    let maxActive = 0;
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        if (body.model === 'gpt-4o') {
+            return Response.json({ choices: [{ message: { content: '<score>8</score><reason>Clear answer</reason>' } }], usage });
+        }
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await Bun.sleep(5);
+        active--;
+        const prompt = JSON.stringify(body.messages);
+        const country = Object.keys(answers).find(c => prompt.includes(c))!;
+        return Response.json({ choices: [{ message: { content: JSON.stringify({ answer: answers[country], confidence: 0.85 }) } }], usage });
+    }) as any;
+    return { maxActive: () => maxActive };
+}
+
+const correct = { France: 'Paris', Italy: 'Rome', Switzerland: 'Bern' };
+
+describe('runEval', () => {
+    test('loads a suite file and its JSONL dataset', () => {
+        expect(suite.name).toBe('qa');
+        expect(loadEvalDataset(suite.dataset as string).map(c => c.id)).toEqual(['paris', 'rome', 'bern']);
+    });
+
+    test('scores every case in parallel and reports pass rates and cost', async () => {
+        const llm = mockLLM({ ...correct, Italy: 'Milan' });
+        const costTracker = new CostTracker();
+        const report = await runEval({ ...suite, scorers: [...suite.scorers, llmJudge({ llm: 'gpt-4o', criteria: 'The answer is clear', field: 'answer' })] }, { concurrency: 3, costTracker });
+
+        expect(llm.maxActive()).toBe(3);
+        expect(report.summary).toEqual({ passed: 2, total: 3, passRate: 2 / 3, errors: 0 });
+        expect(report.fields.answer).toEqual({ passed: 5, total: 6, passRate: 5 / 6 });
+        expect(report.fields.confidence!.passRate).toBe(1);
+        expect(report.scorers).toMatchObject({ exact: { passed: 2, total: 3 }, numeric: { passed: 3 }, judge: { passed: 3 } });
+        expect(report.cases.map(c => c.id)).toEqual(['paris', 'rome', 'bern']);
+        expect(report.cases[1]!.scores.find(s => s.scorer === 'exact')).toMatchObject({ field: 'answer', pass: false, reason: 'expected "Rome", got "Milan"' });
+        expect(report.cases[0]!.scores.find(s => s.scorer === 'judge')).toMatchObject({ pass: true, score: 0.8, reason: 'Clear answer' });
+        expect(report.models).toEqual(['gpt-4o-mini']);
+
+        const tokens = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+        const agentCase = calculateCost('gpt-4o-mini', tokens).totalCost;
+        const judgeCase = calculateCost('gpt-4o', tokens).totalCost;
+        expect(report.cases[0]!.costUSD).toBeCloseTo(agentCase, 9);
+        expect(report.cost.judgeUSD).toBeCloseTo(3 * judgeCase, 6);
+        expect(report.cost.totalUSD).toBeCloseTo(3 * (agentCase + judgeCase), 6);
+        expect(costTracker.getSummary().byAgent).toMatchObject({ geography: { runs: 3 }, 'qa:judge': { runs: 3 } });
+    });
+
+    test('failed runs fail every scorer with the error', async () => {
+        mockLLM(correct);
+        const agent = suite.agent.clone();
+        agent.use(ctx => {
+            if (ctx.phase === 'before' && ctx.input.question.includes('Switzerland')) throw new Error('Quota exceeded');
+        });
+        const report = await runEval({ ...suite, agent });
+
+        const bern = report.cases[2]!;
+        expect(report.summary.errors).toBe(1);
+        expect(bern.pass).toBe(false);
+        expect(bern.output).toBeUndefined();
+        expect(bern.error).toContain('Quota exceeded');
+        expect(bern.scores).toHaveLength(2);
+        expect(bern.scores.every(s => !s.pass && s.reason!.startsWith('run failed: '))).toBe(true);
+    });
+
+    test('overlapping cases are each charged their own tokens', async () => {
+        // France uses 10x the tokens of the other cases and returns first
+        const sized = { France: { prompt_tokens: 1000, completion_tokens: 100, total_tokens: 1100 } } as Record<string, typeof usage>;
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const prompt = String(init?.body);
+            const country = Object.keys(correct).find(c => prompt.includes(c))!;
+            if (country !== 'France') await Bun.sleep(5);
+            return Response.json({ choices: [{ message: { content: JSON.stringify({ answer: correct[country as keyof typeof correct], confidence: 0.85 }) } }], usage: sized[country] ?? usage });
+        }) as any;
+        const agent = suite.agent.clone();
+        // France's run finishes after the others settled their usage
+        agent.use(async ctx => {
+            if (ctx.phase === 'after' && ctx.input.question.includes('France')) await Bun.sleep(20);
+        });
+        const report = await runEval({ ...suite, agent }, { concurrency: 2 });
+
+        const costOf = (tokens: typeof usage) => calculateCost('gpt-4o-mini', { inputTokens: tokens.prompt_tokens, outputTokens: tokens.completion_tokens, totalTokens: tokens.total_tokens }).totalCost;
+        expect(report.cases.map(c => c.id)).toEqual(['paris', 'rome', 'bern']);
+        expect(report.cases[0]!.costUSD).toBeCloseTo(costOf(sized.France!), 9);
+        expect(report.cases[1]!.costUSD).toBeCloseTo(costOf(usage), 9);
+        expect(report.cases[2]!.costUSD).toBeCloseTo(costOf(usage), 9);
+        expect(report.cost.totalUSD).toBeCloseTo(costOf(sized.France!) + 2 * costOf(usage), 6);
+    });
+
+    test('regressions against a baseline, and the written reports', async () => {
+        mockLLM(correct);
+        const baseline = await runEval(suite);
+        expect(baseline.summary.passRate).toBe(1);
+
+        mockLLM({ ...correct, Switzerland: 'Zurich' });
+        const dir = mkdtempSync(join(tmpdir(), 'gx-eval-'));
+        try {
+            const baselinePath = writeEvalReport(baseline, dir).json;
+            const report = await runEval(suite, { baseline: baselinePath, runOptions: { llm: 'gpt-4o-mini' } });
+            expect(report.regressions).toEqual([
+                { kind: 'case', id: 'bern', reasons: ['exact answer: expected "Bern", got "Zurich"'] },
+                { kind: 'field', field: 'answer', baseline: 1, current: 2 / 3 },
+            ]);
+            expect(await runEval(suite, { baseline, tolerance: 0.5 }).then(r => r.regressions)).toHaveLength(1);
+
+            const paths = writeEvalReport(report, join(dir, 'next'));
+            const saved: EvalReport = JSON.parse(readFileSync(paths.json, 'utf-8'));
+            expect(saved.cases[2]!.output).toEqual({ answer: 'Zurich', confidence: 0.85 });
+            const markdown = readFileSync(paths.markdown, 'utf-8');
+            expect(markdown).toContain('# Eval: qa');
+            expect(markdown).toContain('| `answer` | 2/3 | 66.7% | 100.0% |');
+            expect(markdown).toContain('- Case `bern` passed in the baseline and now fails');
+            expect(markdown).toContain('| `bern` | exact | `answer` | expected "Bern", got "Zurich" |');
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
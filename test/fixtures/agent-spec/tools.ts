@@ -0,0 +1,19 @@
+import type { MCPTool } from '../../../src/types';
+
+export const lookupOrder: MCPTool = {
+    name: 'lookup_order',
+    description: 'Find an order',
+    inputSchema: { type: 'object', properties: { orderId: { type: 'string' } } },
+    execute: async () => ({ status: 'shipped' }),
+};
+
+export const refundTools: MCPTool[] = [
+    {
+        name: 'issue_refund',
+        description: 'Refund an order',
+        inputSchema: { type: 'object', properties: { orderId: { type: 'string' } }, required: ['orderId'] },
+        execute: async ({ orderId }) => ({ refunded: orderId }),
+    },
+];
+
+export const notATool = { name: 'broken' };
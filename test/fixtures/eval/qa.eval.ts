@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { Agent } from '../../../src/agent';
+import { defineEvalSuite, exactMatch, numericTolerance } from '../../../src/eval';
+
+export default defineEvalSuite({
+    name: 'qa',
+    agent: new Agent({
+        name: 'geography',
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string(), confidence: z.number() }),
+    }),
+    dataset: './qa.jsonl',
+    scorers: [exactMatch('answer'), numericTolerance('confidence', { tolerance: 0.1 })],
+});
@@ -0,0 +1,29 @@
+/**
+ * gx402 tools served with serveMCP over stdio, used by the MCP server tests.
+ */
+import { serveMCP } from '../../src/mcp-server';
+import { ToolRegistry } from '../../src/tool-registry';
+
+const registry = new ToolRegistry().register({
+    name: 'upper',
+    description: 'Uppercase text',
+    schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    handler: ({ text }: { text: string }) => text.toUpperCase(),
+});
+
+await serveMCP({
+    transport: 'stdio',
+    name: 'served-stdio',
+    tools: [
+        {
+            name: 'add',
+            description: 'Add two numbers',
+            inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] },
+            execute: async ({ a, b }) => {
+                console.log('adding', a, b); // must not reach stdout
+                return { sum: a + b };
+            },
+        },
+        registry,
+    ],
+});
@@ -0,0 +1,139 @@
+/**
+ * Minimal MCP server over stdio used by the MCP client tests.
+ * Speaks newline-delimited JSON-RPC 2.0 on stdin/stdout.
+ */
+
+const TOOLS = [
+    { name: 'add', description: 'Add two numbers', inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] } },
+    { name: 'fail', description: 'Always fails', inputSchema: { type: 'object', properties: {} } },
+    { name: 'slow', description: 'Reports progress, then finishes', inputSchema: { type: 'object', properties: {} } },
+    { name: 'hide', description: 'Removes itself and notifies list_changed', inputSchema: { type: 'object', properties: {} } },
+];
+let visibleTools = [...TOOLS];
+
+// Resources and prompts
+let notesVersion = 1;
+const subscribed = new Set<string>();
+const RESOURCES = [
+    { uri: 'memo://notes', name: 'notes', mimeType: 'text/plain' },
+    { uri: 'memo://logo', name: 'logo', mimeType: 'image/png' },
+];
+const PROMPTS = [
+    { name: 'review', description: 'Review code', arguments: [{ name: 'language', required: true }, { name: 'focus' }] },
+];
+
+function send(message: any) {
+    process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+async function handle(message: any) {
+    const { id, method, params } = message;
+    if (id === undefined) {
+        if (method === 'notifications/initialized') process.stderr.write('client initialized\n');
+        return;
+    }
+    switch (method) {
+        case 'initialize':
+            return send({
+                jsonrpc: '2.0', id,
+                result: {
+                    protocolVersion: process.env.MCP_TEST_PROTOCOL ?? params.protocolVersion,
+                    capabilities: { tools: { listChanged: true }, resources: { subscribe: true, listChanged: true }, prompts: { listChanged: true } },
+                    serverInfo: { name: 'fixture', version: '1.0.0' },
+                    instructions: `client=${params.clientInfo.name}`,
+                },
+            });
+        case 'tools/list': {
+            // Two pages to exercise cursors
+            const start = params?.cursor ? Number(params.cursor) : 0;
+            const page = visibleTools.slice(start, start + 2);
+            const next = start + 2 < visibleTools.length ? String(start + 2) : undefined;
+            return send({ jsonrpc: '2.0', id, result: { tools: page, ...(next && { nextCursor: next }) } });
+        }
+        case 'tools/call': {
+            const { name, arguments: args } = params;
+            if (name === 'add') {
+                const sum = args.a + args.b;
+                return send({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: String(sum) }], structuredContent: { sum } } });
+            }
+            if (name === 'fail') {
+                return send({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: 'something broke' }], isError: true } });
+            }
+            if (name === 'slow') {
+                const token = params._meta?.progressToken;
+                for (let i = 1; i <= 2; i++) {
+                    if (token !== undefined) send({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: token, progress: i, total: 2, message: `step ${i}` } });
+                    await new Promise(r => setTimeout(r, 5));
+                }
+                // Ask the client for a ping mid-request; the client must answer
+                send({ jsonrpc: '2.0', id: 'srv-1', method: 'ping' });
+                return send({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: 'done' }] } });
+            }
+            if (name === 'touch') {
+                notesVersion++;
+                if (subscribed.has('memo://notes')) send({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'memo://notes' } });
+                return send({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: `v${notesVersion}` }] } });
+            }
+            if (name === 'hide') {
+                visibleTools = visibleTools.filter(t => t.name !== 'hide');
+                send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+                return send({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text: 'hidden' }] } });
+            }
+            return send({ jsonrpc: '2.0', id, error: { code: -32602, message: `Unknown tool: ${name}` } });
+        }
+        case 'resources/list':
+            return send({ jsonrpc: '2.0', id, result: { resources: RESOURCES } });
+        case 'resources/read': {
+            process.stderr.write(`read ${params.uri}\n`);
+            if (params.uri === 'memo://notes') {
+                return send({ jsonrpc: '2.0', id, result: { contents: [{ uri: params.uri, mimeType: 'text/plain', text: `notes v${notesVersion}` }] } });
+            }
+            if (params.uri === 'memo://logo') {
+                return send({ jsonrpc: '2.0', id, result: { contents: [{ uri: params.uri, mimeType: 'image/png', blob: 'iVBORw0KGgo=' }] } });
+            }
+            return send({ jsonrpc: '2.0', id, error: { code: -32002, message: `Resource not found: ${params.uri}` } });
+        }
+        case 'resources/subscribe':
+            subscribed.add(params.uri);
+            return send({ jsonrpc: '2.0', id, result: {} });
+        case 'resources/unsubscribe':
+            subscribed.delete(params.uri);
+            return send({ jsonrpc: '2.0', id, result: {} });
+        case 'prompts/list':
+            return send({ jsonrpc: '2.0', id, result: { prompts: PROMPTS } });
+        case 'prompts/get': {
+            if (params.name !== 'review') return send({ jsonrpc: '2.0', id, error: { code: -32602, message: `Unknown prompt: ${params.name}` } });
+            const { language, focus = 'bugs' } = params.arguments ?? {};
+            return send({
+                jsonrpc: '2.0', id,
+                result: {
+                    description: 'Review code',
+                    messages: [
+                        { role: 'user', content: { type: 'text', text: `Review this ${language} code for ${focus}.` } },
+                        { role: 'user', content: { type: 'resource', resource: { uri: 'memo://notes', text: 'Follow the style guide.' } } },
+                    ],
+                },
+            });
+        }
+        default:
+            return send({ jsonrpc: '2.0', id, error: { code: -32601, message: `Method not found: ${method}` } });
+    }
+}
+
+let buffer = '';
+for await (const chunk of Bun.stdin.stream()) {
+    buffer += new TextDecoder().decode(chunk);
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (!line) continue;
+        const message = JSON.parse(line);
+        // The server's ping reply is a response, not a request
+        if (message.id === 'srv-1' && message.result !== undefined) {
+            process.stderr.write('ping answered\n');
+            continue;
+        }
+        handle(message);
+    }
+}
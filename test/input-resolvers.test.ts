@@ -0,0 +1,177 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+import { InputResolutionError } from '../src/errors';
+import type { MCPTool } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/** LLM mock answering every call; `https://weather.test` serves a legacy REST tool */
+function mockFetch() {
+    const llm: any[] = [];
+    const urls: string[] = [];
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+        urls.push(String(url));
+        const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+        if (String(url).startsWith('https://weather.test')) {
+            return Response.json({ temp: 21, location: body.params.location, units: body.params.units });
+        }
+        if (String(url).startsWith('https://legacy.test')) return Response.json([]);
+        llm.push(body);
+        return Response.json({ choices: [{ message: { content: '{"answer":"ok"}' } }] });
+    }) as any;
+    return { llm, urls };
+}
+
+const inputFormat = z.object({
+    city: z.string(),
+    weather: z.object({ temp: z.number() }).passthrough().optional(),
+    now: z.string().optional(),
+});
+const outputFormat = z.object({ answer: z.string() });
+
+function forecastTool() {
+    const calls: any[] = [];
+    const tool: MCPTool = {
+        name: 'forecast',
+        description: 'Forecast for a city',
+        inputSchema: { type: 'object', properties: { location: { type: 'string' } } },
+        execute: async (params) => { calls.push(params); return { temp: 18, ...params }; },
+    };
+    return { tool, calls };
+}
+
+describe('inputResolvers', () => {
+    test('functions and local tools fill missing fields without extra LLM calls', async () => {
+        const { llm } = mockFetch();
+        const { tool, calls } = forecastTool();
+        const agent = new Agent({
+            llm: 'gpt-4o-mini', inputFormat, outputFormat, localTools: [tool],
+            inputResolvers: {
+                weather: { tool: 'forecast', parameters: { location: 'city', units: { value: 'metric' } } },
+                now: (input) => `noon in ${input.city}`,
+            },
+        });
+
+        await agent.run({ city: 'Paris' });
+        expect(calls).toEqual([{ location: 'Paris', units: 'metric' }]);
+        // The tool-calling step and the response: no LLM call picks the resolver's tool
+        expect(llm).toHaveLength(2);
+        expect(JSON.stringify(llm[0].messages)).toContain('<temp>18</temp>');
+        const prompt = JSON.stringify(llm[1].messages);
+        expect(prompt).toContain('<temp>18</temp>');
+        expect(prompt).toContain('noon in Paris');
+
+        // Caller-provided fields are kept
+        await agent.run({ city: 'Paris', weather: { temp: 30 } });
+        expect(calls).toHaveLength(1);
+        expect(JSON.stringify(llm.at(-1).messages)).toContain('<temp>30</temp>');
+    });
+
+    test('results are cached by parameters', async () => {
+        mockFetch();
+        const { tool, calls } = forecastTool();
+        const agent = new Agent({
+            llm: 'gpt-4o-mini', inputFormat, outputFormat, localTools: [tool],
+            inputResolvers: { weather: { tool: 'forecast', parameters: { location: 'city' } } },
+        });
+
+        await agent.run({ city: 'Paris' });
+        await agent.run({ city: 'Paris' });
+        await agent.run({ city: 'Rome' });
+        expect(calls.map(c => c.location)).toEqual(['Paris', 'Rome']);
+
+        const uncached = agent.clone({ resolverCache: false });
+        await uncached.run({ city: 'Paris' });
+        await uncached.run({ city: 'Paris' });
+        expect(calls).toHaveLength(4);
+
+        const always = agent.clone({ inputResolvers: { weather: { tool: 'forecast', parameters: { location: 'city' }, cache: false } } });
+        await always.run({ city: 'Paris' });
+        expect(calls).toHaveLength(5);
+    });
+
+    test('functions are only cached with cache: true', async () => {
+        const { llm } = mockFetch();
+        let clock = 0;
+        let lookups = 0;
+        const agent = new Agent({
+            llm: 'gpt-4o-mini', inputFormat, outputFormat,
+            inputResolvers: {
+                now: () => `tick ${++clock}`,
+                weather: { resolve: () => ({ temp: ++lookups }), cache: true },
+            },
+        });
+
+        await agent.run({ city: 'Paris' });
+        await agent.run({ city: 'Paris' });
+        expect(JSON.stringify(llm.at(-1).messages)).toContain('tick 2');
+        expect(lookups).toBe(1);
+        await agent.run({ city: 'Rome' });
+        expect(lookups).toBe(2);
+    });
+
+    test('resolvers run in parallel', async () => {
+        mockFetch();
+        let nowStarted!: () => void;
+        const started = new Promise<void>(resolve => { nowStarted = resolve; });
+        const timeout = new Promise((_, reject) => setTimeout(() => reject(new Error('resolvers ran one after the other')), 1000));
+        const agent = new Agent({
+            llm: 'gpt-4o-mini', inputFormat, outputFormat,
+            inputResolvers: {
+                weather: async () => { await Promise.race([started, timeout]); return { temp: 1 }; },
+                now: async () => { nowStarted(); return 'now'; },
+            },
+        });
+        expect(await agent.run({ city: 'Paris' })).toEqual({ answer: 'ok' });
+    });
+
+    test('MCP tool resolvers map parameters from the input', async () => {
+        const { urls } = mockFetch();
+        const agent = new Agent({
+            llm: 'gpt-4o-mini', inputFormat, outputFormat,
+            inputResolvers: {
+                weather: { server: { name: 'weather', description: 'Weather', url: 'https://weather.test', legacyRest: true }, tool: 'current', parameters: (input) => ({ location: input.city.toUpperCase() }) },
+            },
+        });
+
+        const trace = await agent.runWithTrace({ city: 'Paris' });
+        expect(urls).toContain('https://weather.test/call');
+        expect(trace.spans[0]).toMatchObject({ kind: 'tool', server: 'weather', tool: 'current', parameters: { location: 'PARIS' }, result: { temp: 21, location: 'PARIS' } });
+    });
+
+    test('failing or mismatched resolvers fail the run with the field name', async () => {
+        mockFetch();
+        const cases = [
+            { now: () => { throw new Error('clock offline'); } },
+            { now: () => 42 },
+            { weather: { tool: 'missing' } },
+        ];
+        const messages: string[] = [];
+        for (const inputResolvers of cases) {
+            const agent = new Agent({ llm: 'gpt-4o-mini', inputFormat, outputFormat, inputResolvers: inputResolvers as any });
+            const error = await agent.run({ city: 'Paris' }).catch(e => e);
+            expect(error).toBeInstanceOf(InputResolutionError);
+            messages.push(error.message);
+        }
+        expect(messages[0]).toBe('Could not resolve input field "now": clock offline');
+        expect(messages[1]).toContain('"now": result does not match the input schema');
+        expect(messages[2]).toBe('Could not resolve input field "weather": unknown tool missing');
+    });
+
+    test('"mcp:" field descriptions are only used with resolveMCPDescriptions', async () => {
+        const { llm, urls } = mockFetch();
+        const described = z.object({ city: z.string(), weather: z.any().optional().describe('mcp: https://legacy.test') });
+
+        await new Agent({ llm: 'gpt-4o-mini', inputFormat: described, outputFormat }).run({ city: 'Paris' });
+        expect(urls.some(u => u.startsWith('https://legacy.test'))).toBe(false);
+        expect(llm).toHaveLength(1);
+
+        await new Agent({ llm: 'gpt-4o-mini', inputFormat: described, outputFormat, resolveMCPDescriptions: true }).run({ city: 'Paris' });
+        expect(urls).toContain('https://legacy.test/tools');
+    });
+});
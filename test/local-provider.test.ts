@@ -0,0 +1,144 @@
+import { test, expect, describe, beforeAll, afterAll, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+import { LoopAgent } from '../src/loop';
+import { callLLM, callLLMWithTools } from '../src/inference';
+import { registerProvider } from '../src/providers';
+import { createLocalProvider, listLocalModels } from '../src/providers/local';
+
+/** Minimal OpenAI-compatible server standing in for Ollama / llama.cpp / vLLM */
+describe('Local OpenAI-compatible provider', () => {
+    let server: ReturnType<typeof Bun.serve>;
+    let baseUrl: string;
+    let requests: Array<{ headers: Headers; body: any }> = [];
+    let reply: (body: any) => any = () => ({ content: 'hello from local' });
+    const unregister: Array<() => void> = [];
+
+    beforeAll(() => {
+        server = Bun.serve({
+            port: 0,
+            async fetch(req) {
+                const url = new URL(req.url);
+                if (url.pathname === '/v1/models') {
+                    return Response.json({ object: 'list', data: [{ id: 'llama3.1:8b' }, { id: 'qwen2.5:7b' }] });
+                }
+                if (url.pathname === '/v1/chat/completions') {
+                    const body = await req.json();
+                    requests.push({ headers: req.headers, body });
+                    const message = { role: 'assistant', ...reply(body) };
+                    if (!body.stream) {
+                        return Response.json({ choices: [{ message }], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } });
+                    }
+                    const chunks = [
+                        ...String(message.content).split(' ').map((w, i) => ({ choices: [{ delta: { content: (i ? ' ' : '') + w } }] })),
+                        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } },
+                    ];
+                    const sse = chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join('') + 'data: [DONE]\n\n';
+                    return new Response(sse, { headers: { 'Content-Type': 'text/event-stream' } });
+                }
+                return new Response('not found', { status: 404 });
+            },
+        });
+        baseUrl = `http://localhost:${server.port}/v1`;
+    });
+
+    afterAll(() => {
+        server.stop(true);
+    });
+
+    afterEach(() => {
+        while (unregister.length) unregister.pop()!();
+        requests = [];
+        reply = () => ({ content: 'hello from local' });
+    });
+
+    test('lists served models with the provider prefix', async () => {
+        expect(await listLocalModels({ baseUrl })).toEqual(['local/llama3.1:8b', 'local/qwen2.5:7b']);
+        expect(await listLocalModels({ baseUrl: `${baseUrl}/`, name: 'ollama' })).toEqual(['ollama/llama3.1:8b', 'ollama/qwen2.5:7b']);
+    });
+
+    test('callLLM strips the prefix and sends no Authorization without a key', async () => {
+        unregister.push(registerProvider(createLocalProvider({ baseUrl })));
+        const result = await callLLM('local/llama3.1:8b', [{ role: 'user', content: 'hi' }]);
+
+        expect(result).toBe('hello from local');
+        expect(requests[0]!.body.model).toBe('llama3.1:8b');
+        expect(requests[0]!.headers.get('authorization')).toBeNull();
+    });
+
+    test('sends the API key when configured', async () => {
+        unregister.push(registerProvider(createLocalProvider({ baseUrl, apiKey: 'sk-local' })));
+        await callLLM('local/llama3.1:8b', [{ role: 'user', content: 'hi' }]);
+        expect(requests[0]!.headers.get('authorization')).toBe('Bearer sk-local');
+    });
+
+    test('streams text deltas as XML field updates', async () => {
+        unregister.push(registerProvider(createLocalProvider({ baseUrl })));
+        reply = () => ({ content: '<answer>hello from local</answer>' });
+        const values: string[] = [];
+        const result = await callLLM('local/llama3.1:8b', [{ role: 'user', content: 'hi' }], {
+            streaming: (u) => { if (u.field === 'answer') values.push(u.value); },
+        });
+
+        expect(result).toBe('<answer>hello from local</answer>');
+        expect(values.join('')).toBe('hello from local');
+        expect(requests[0]!.body.stream).toBe(true);
+    });
+
+    test('native tool calls work against the local server', async () => {
+        unregister.push(registerProvider(createLocalProvider({ baseUrl })));
+        reply = () => ({ content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'add', arguments: '{"a":1,"b":2}' } }] });
+        const result = await callLLMWithTools('local/llama3.1:8b', [{ role: 'user', content: '1+2' }], {
+            tools: [{ name: 'add', description: 'Add numbers', parameters: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } } }],
+        });
+
+        expect(result.toolCalls).toEqual([{ id: 'c1', name: 'add', arguments: { a: 1, b: 2 } }]);
+        expect(requests[0]!.body.tools[0].function.name).toBe('add');
+    });
+
+    test('json_object mode replaces json_schema with JSON mode plus a schema instruction', async () => {
+        unregister.push(registerProvider(createLocalProvider({ baseUrl, structuredOutput: 'json_object' })));
+        reply = () => ({ content: '{"answer":"4"}' });
+        const agent = new Agent({
+            llm: 'local/llama3.1:8b',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+        });
+        const output = await agent.run({ question: '2+2?' });
+
+        expect(output.answer).toBe('4');
+        const body = requests[requests.length - 1]!.body;
+        expect(body.response_format).toEqual({ type: 'json_object' });
+        expect(body.messages[0].role).toBe('system');
+        expect(body.messages[0].content).toContain('"answer"');
+    });
+
+    test('servers without JSON support fall back to the XML output path', async () => {
+        unregister.push(registerProvider(createLocalProvider({ baseUrl })));
+        reply = () => ({ content: '<answer>four</answer>' });
+        const agent = new Agent({
+            llm: 'local/llama3.1:8b',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+        });
+        const output = await agent.run({ question: '2+2?' });
+
+        expect(output.answer).toBe('four');
+        expect(requests[requests.length - 1]!.body.response_format).toBeUndefined();
+    });
+
+    test('LoopAgent runs against a local model', async () => {
+        unregister.push(registerProvider(createLocalProvider({ baseUrl })));
+        reply = () => ({ content: 'Done!' });
+        const agent = new LoopAgent({
+            llm: 'local/llama3.1:8b',
+            maxIterations: 2,
+            cwd: process.cwd(),
+            outcomes: [{ description: 'model replied', validate: async () => ({ met: requests.length > 0, reason: 'replied' }) }],
+        });
+        const result = await agent.execute('Say done');
+
+        expect(result.success).toBe(true);
+        expect(requests[0]!.body.model).toBe('llama3.1:8b');
+    });
+});
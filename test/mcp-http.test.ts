@@ -0,0 +1,282 @@
+import { test, expect, describe, beforeAll, afterAll, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+import { MCPClient } from '../src/mcp-client';
+import { StreamableHTTPTransport, parseSSE } from '../src/mcp-http';
+import { discoverTools, invokeTool, getMCPClient, closeMCPClients } from '../src/mcp';
+import type { MCPServer, ProgressUpdate } from '../src/types';
+
+/** Bun stand-in for an MCP Streamable HTTP server */
+describe('MCP Streamable HTTP transport', () => {
+    let httpServer: ReturnType<typeof Bun.serve>;
+    let url: string;
+    let sessions = new Set<string>();
+    let sessionCounter = 0;
+    let log: Array<{ method: string; rpc?: string; session: string | null; protocol: string | null; lastEventId: string | null }> = [];
+    /** Undelivered events of interrupted streams, by last delivered event id */
+    const replay = new Map<string, string>();
+    const clients: MCPClient[] = [];
+    const originalFetch = globalThis.fetch;
+
+    const TOOLS = [
+        { name: 'count', description: 'Counts to three with progress', inputSchema: { type: 'object', properties: {} } },
+        { name: 'flaky', description: 'Drops its stream once', inputSchema: { type: 'object', properties: {} } },
+    ];
+
+    const sse = (events: string[], keepOpen = false) => new Response(new ReadableStream({
+        start(controller) {
+            for (const e of events) controller.enqueue(new TextEncoder().encode(e));
+            if (!keepOpen) controller.close();
+        },
+    }), { headers: { 'Content-Type': 'text/event-stream' } });
+    const event = (id: string, message: any) => `id: ${id}\nretry: 10\ndata: ${JSON.stringify(message)}\n\n`;
+
+    beforeAll(() => {
+        httpServer = Bun.serve({
+            port: 0,
+            async fetch(req) {
+                const session = req.headers.get('mcp-session-id');
+                const body = req.method === 'POST' ? await req.json() : undefined;
+                log.push({ method: req.method, rpc: body?.method, session, protocol: req.headers.get('mcp-protocol-version'), lastEventId: req.headers.get('last-event-id') });
+
+                if (req.method === 'DELETE') {
+                    sessions.delete(session!);
+                    return new Response(null, { status: 200 });
+                }
+                if (body?.method !== 'initialize' && (!session || !sessions.has(session))) {
+                    return new Response('unknown session', { status: 404 });
+                }
+
+                if (req.method === 'GET') {
+                    const lastEventId = req.headers.get('last-event-id');
+                    if (lastEventId) return sse([replay.get(lastEventId)!]);
+                    // Standalone stream: one server notification, then stays open
+                    return sse([`data: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'hello' } })}\n\n`], true);
+                }
+
+                const { id, method, params } = body;
+                if (id === undefined) return new Response(null, { status: 202 });
+
+                switch (method) {
+                    case 'initialize': {
+                        const sid = `sess-${++sessionCounter}`;
+                        sessions.add(sid);
+                        return Response.json(
+                            { jsonrpc: '2.0', id, result: { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'stand-in', version: '1' } } },
+                            { headers: { 'Mcp-Session-Id': sid } },
+                        );
+                    }
+                    case 'tools/list':
+                        return Response.json({ jsonrpc: '2.0', id, result: { tools: TOOLS } });
+                    case 'tools/call': {
+                        const token = params._meta?.progressToken;
+                        const progress = (n: number) => ({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: token, progress: n, total: 3 } });
+                        const result = (text: string) => ({ jsonrpc: '2.0', id, result: { content: [{ type: 'text', text }] } });
+                        if (params.name === 'count') {
+                            return sse([event('c1', progress(1)), event('c2', progress(2)), event('c3', progress(3)), event('c4', result('counted'))]);
+                        }
+                        if (params.name === 'flaky') {
+                            // Stream ends after the first event; the response is only available on resume
+                            replay.set(`flaky-${id}-1`, event(`flaky-${id}-2`, result('recovered')));
+                            return sse([event(`flaky-${id}-1`, progress(1))]);
+                        }
+                        return Response.json({ jsonrpc: '2.0', id, error: { code: -32602, message: 'unknown tool' } });
+                    }
+                    default:
+                        return Response.json({ jsonrpc: '2.0', id, error: { code: -32601, message: 'not found' } });
+                }
+            },
+        });
+        url = `http://localhost:${httpServer.port}/mcp`;
+    });
+
+    afterEach(async () => {
+        globalThis.fetch = originalFetch;
+        await Promise.all(clients.splice(0).map(c => c.close()));
+        await closeMCPClients();
+        log = [];
+    });
+
+    afterAll(() => {
+        httpServer.stop(true);
+    });
+
+    function connect() {
+        const transport = new StreamableHTTPTransport({ url });
+        const client = new MCPClient(transport, { name: 'stand-in' });
+        clients.push(client);
+        return { client, transport };
+    }
+
+    test('initialize assigns a session that later requests carry with the protocol version', async () => {
+        const { client, transport } = connect();
+        const tools = await client.listTools();
+
+        expect(tools.map(t => t.name)).toEqual(['count', 'flaky']);
+        expect(transport.sessionId).toMatch(/^sess-\d+$/);
+        const list = log.find(l => l.rpc === 'tools/list')!;
+        expect(list.session).toBe(transport.sessionId!);
+        expect(list.protocol).toBe('2025-06-18');
+        expect(log.find(l => l.rpc === 'initialize')!.session).toBeNull();
+    });
+
+    test('SSE responses deliver progress before the result', async () => {
+        const { client } = connect();
+        const progress: number[] = [];
+        const result = await client.callTool('count', {}, { onProgress: p => progress.push(p.progress) });
+
+        expect(progress).toEqual([1, 2, 3]);
+        expect(result.content[0]!.text).toBe('counted');
+    });
+
+    test('an interrupted stream is resumed with Last-Event-ID', async () => {
+        const { client } = connect();
+        const result = await client.callTool('flaky', {});
+
+        expect(result.content[0]!.text).toBe('recovered');
+        const resume = log.find(l => l.method === 'GET' && l.lastEventId)!;
+        expect(resume.lastEventId).toMatch(/^flaky-\d+-1$/);
+    });
+
+    test('the standalone GET stream delivers server notifications', async () => {
+        const { client } = connect();
+        const messages = new Promise<any>(resolve => client.onNotification('notifications/message', resolve));
+        await client.connect();
+
+        expect(await messages).toEqual({ level: 'info', data: 'hello' });
+    });
+
+    test('close terminates the session with DELETE', async () => {
+        const { client, transport } = connect();
+        await client.connect();
+        const sid = transport.sessionId;
+        await client.close();
+
+        expect(log.some(l => l.method === 'DELETE' && l.session === sid)).toBe(true);
+        expect(sessions.has(sid!)).toBe(false);
+    });
+
+    test('an expired session closes the client and the pool re-initializes', async () => {
+        const server: MCPServer = { name: 'stand-in', description: 'HTTP MCP', url };
+        const first = await getMCPClient(server);
+        await first.listTools();
+        sessions.clear();
+
+        await expect(first.callTool('count')).rejects.toThrow('session expired');
+        expect(first.isClosed).toBe(true);
+
+        const second = await getMCPClient(server);
+        expect(second).not.toBe(first);
+        expect((await second.callTool('count')).content[0]!.text).toBe('counted');
+    });
+
+    test('invokeTool reports MCP progress as tool_invocation updates', async () => {
+        const server: MCPServer = { name: 'stand-in', description: 'HTTP MCP', url };
+        const updates: ProgressUpdate[] = [];
+        const result = await invokeTool(server, 'count', {}, { progress: u => updates.push(u) });
+
+        expect(result).toBe('counted');
+        expect(updates.map(u => u.stage)).toEqual(['tool_invocation', 'tool_invocation', 'tool_invocation']);
+        expect(updates[0]!.message).toBe('stand-in.count: 1/3');
+        expect(updates[2]!.data).toEqual({ server: 'stand-in', tool: 'count', progress: 3, total: 3 });
+    });
+
+    test('Agent surfaces tool progress through its progress callback', async () => {
+        const server: MCPServer = { name: 'stand-in', description: 'HTTP MCP', url };
+        expect((await discoverTools(server)).map(t => t.name)).toContain('count');
+
+        // Mock only the LLM; MCP traffic goes to the stand-in server
+        globalThis.fetch = (async (input: any, init?: RequestInit) => {
+            if (String(input).startsWith(url)) return originalFetch(input, init);
+            const body = JSON.parse(String(init?.body));
+            if (body.tools) {
+                return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'count', arguments: '{}' } }] } }] });
+            }
+            // A progress callback makes the final call stream
+            const chunk = { choices: [{ delta: { content: '{"answer":"counted"}' } }] };
+            return new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, { headers: { 'Content-Type': 'text/event-stream' } });
+        }) as any;
+
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            servers: [server],
+        });
+        const updates: ProgressUpdate[] = [];
+        const output = await agent.run({ question: 'count please' }, u => updates.push(u));
+
+        expect(output.answer).toBe('counted');
+        expect(updates.filter(u => u.stage === 'tool_invocation' && u.data?.progress !== undefined).map(u => u.data.progress)).toEqual([1, 2, 3]);
+    });
+});
+
+describe('paid MCP servers', () => {
+    /** Answers 402 until a request carries the payment header the test fetch adds */
+    const paid = Bun.serve({
+        port: 0,
+        async fetch(req) {
+            if (!req.headers.get('x-paid')) return Response.json({ amount: 0.001, recipient: 'UNLISTED' }, { status: 402 });
+            const { id, params } = await req.json();
+            if (id === undefined) return new Response(null, { status: 202 });
+            return Response.json({ jsonrpc: '2.0', id, result: { protocolVersion: params.protocolVersion, capabilities: {}, serverInfo: { name: 'paid', version: '1' } } });
+        },
+    });
+    const url = `http://localhost:${paid.port}/mcp`;
+    const originalFetch = globalThis.fetch;
+
+    afterEach(() => {
+        globalThis.fetch = originalFetch;
+    });
+
+    afterAll(async () => {
+        await closeMCPClients();
+        paid.stop(true);
+    });
+
+    test('the transport sends every request through its fetch option', async () => {
+        const fetches: string[] = [];
+        const payingFetch = async (input: string, init: RequestInit) => {
+            fetches.push(init.method!);
+            const res = await fetch(input, init);
+            if (res.status !== 402) return res;
+            return fetch(input, { ...init, headers: { ...init.headers as Record<string, string>, 'X-Paid': 'yes' } });
+        };
+        const client = new MCPClient(new StreamableHTTPTransport({ url, fetch: payingFetch }));
+        await client.connect();
+
+        expect(client.serverInfo?.name).toBe('paid');
+        expect(fetches.slice(0, 2)).toEqual(['POST', 'POST']);
+        await client.close();
+        await expect(new MCPClient(new StreamableHTTPTransport({ url })).connect()).rejects.toThrow('MCP HTTP 402');
+    });
+
+    test('an Agent answers a 402 from an MCP server with its solanaWallet', async () => {
+        globalThis.fetch = (async (input: any, init?: RequestInit) => {
+            if (String(input).startsWith(url)) return originalFetch(input, init);
+            return Response.json({ choices: [{ message: { content: '{"answer":"x"}' } }] });
+        }) as any;
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            servers: [{ name: 'paid', description: 'Paid docs', url, resources: ['docs://pricing'] }],
+            // The recipient check runs before any transfer is signed
+            solanaWallet: { privateKey: 'unused', allowedRecipients: ['TRUSTED'] },
+        });
+        const error = await agent.run({ question: 'q' }).catch(e => e);
+        expect(error.cause.message).toContain('Payment requested by an unregistered recipient address (UNLISTED)');
+    });
+});
+
+describe('parseSSE', () => {
+    test('handles multi-line data, comments, ids and CRLF', async () => {
+        const body = new Response(': comment\r\nid: 7\r\ndata: {"a":\r\ndata: 1}\r\n\r\nevent: ping\ndata: x\n\n').body!;
+        const events = [];
+        for await (const e of parseSSE(body)) events.push(e);
+        expect(events).toEqual([
+            { id: '7', event: undefined, retry: undefined, data: '{"a":\n1}' },
+            { id: undefined, event: 'ping', retry: undefined, data: 'x' },
+        ]);
+    });
+});
@@ -0,0 +1,190 @@
+import { test, expect, describe, beforeAll, afterAll, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { join } from 'path';
+import { Agent } from '../src/agent';
+import { MCPClient, StdioTransport } from '../src/mcp-client';
+import { StreamableHTTPTransport } from '../src/mcp-http';
+import { serveMCP, type MCPServerHandle } from '../src/mcp-server';
+import { ToolRegistry } from '../src/tool-registry';
+import { closeMCPClients } from '../src/mcp';
+import type { MCPProgress } from '../src/mcp-client';
+
+const originalFetch = globalThis.fetch;
+const clients: MCPClient[] = [];
+
+/** Mock the LLM while letting MCP traffic reach the local server */
+function mockLLM(content: string, onRequest?: (body: any) => void) {
+    globalThis.fetch = (async (input: any, init?: RequestInit) => {
+        if (String(input).startsWith('http://127.0.0.1')) return originalFetch(input, init);
+        const body = JSON.parse(String(init?.body));
+        onRequest?.(body);
+        if (body.stream) {
+            const chunk = { choices: [{ delta: { content } }] };
+            return new Response(`data: ${JSON.stringify(chunk)}\n\ndata: [DONE]\n\n`, { headers: { 'Content-Type': 'text/event-stream' } });
+        }
+        return Response.json({ choices: [{ message: { content } }] });
+    }) as any;
+}
+
+afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await Promise.all(clients.splice(0).map(c => c.close()));
+    await closeMCPClients();
+});
+
+describe('serveMCP over HTTP', () => {
+    let handle: MCPServerHandle;
+    const registry = new ToolRegistry().register({ name: 'echo', description: 'Echo input', handler: (input: any) => input });
+    const summarizer = new Agent({
+        name: 'summarizer',
+        description: 'Summarize text',
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ text: z.string().describe('Text to summarize') }),
+        outputFormat: z.object({ summary: z.string() }),
+    });
+
+    beforeAll(async () => {
+        handle = await serveMCP({
+            transport: 'http',
+            name: 'served',
+            instructions: 'Test server',
+            tools: [
+                { name: 'add', description: 'Add two numbers', inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } } }, execute: async ({ a, b }) => a + b },
+                { name: 'boom', description: 'Always throws', inputSchema: { type: 'object', properties: {} }, execute: async () => { throw new Error('kaboom'); } },
+                registry,
+            ],
+            agents: [summarizer],
+        });
+    });
+
+    afterAll(async () => {
+        await handle.close();
+    });
+
+    function connect() {
+        const client = new MCPClient(new StreamableHTTPTransport({ url: handle.url! }));
+        clients.push(client);
+        return client;
+    }
+
+    test('lists tools, registry entries and agents with their schemas', async () => {
+        const client = connect();
+        const tools = await client.listTools();
+
+        expect(client.serverInfo?.name).toBe('served');
+        expect(client.instructions).toBe('Test server');
+        expect(tools.map(t => t.name).sort()).toEqual(['add', 'boom', 'echo', 'summarizer']);
+        const agentTool = tools.find(t => t.name === 'summarizer')!;
+        expect(agentTool.description).toBe('Summarize text');
+        expect(agentTool.inputSchema.properties.text).toEqual({ type: 'string', description: 'Text to summarize' });
+        expect(agentTool.inputSchema.required).toEqual(['text']);
+    });
+
+    test('calls tools and registry entries', async () => {
+        const client = connect();
+        expect((await client.callTool('add', { a: 2, b: 3 })).content).toEqual([{ type: 'text', text: '5' }]);
+
+        const echoed = await client.callTool('echo', { x: 1 });
+        expect(echoed.structuredContent).toEqual({ x: 1 });
+        expect(registry.list()[0]!.invocationCount).toBe(1);
+    });
+
+    test('tool failures come back as isError results', async () => {
+        const result = await connect().callTool('boom');
+        expect(result.isError).toBe(true);
+        expect(result.content[0]!.text).toBe('kaboom');
+    });
+
+    test('agents run with their input and stream progress', async () => {
+        mockLLM('{"summary":"short"}');
+        const progress: MCPProgress[] = [];
+        const result = await connect().callTool('summarizer', { text: 'a long text' }, { onProgress: p => progress.push(p) });
+
+        expect(result.structuredContent).toEqual({ summary: 'short' });
+        expect(progress.length).toBeGreaterThan(0);
+        expect(progress.map(p => p.progress)).toEqual(progress.map((_, i) => i + 1));
+    });
+
+    test('invalid agent input is an isError result', async () => {
+        const result = await connect().callTool('summarizer', { text: 42 });
+        expect(result.isError).toBe(true);
+    });
+
+    test('requests without a session are rejected and GET is not offered', async () => {
+        const post = await fetch(handle.url!, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }) });
+        expect(post.status).toBe(400);
+        expect((await fetch(handle.url!, { headers: { 'Mcp-Session-Id': 'nope' } })).status).toBe(405);
+    });
+
+    test('binds to 127.0.0.1 and rejects browser requests from other origins', async () => {
+        expect(new URL(handle.url!).hostname).toBe('127.0.0.1');
+        const initialize = (origin: string) => fetch(handle.url!, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Origin: origin },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 't', version: '1' } } }),
+        });
+
+        const rebound = await initialize('https://evil.example');
+        expect(rebound.status).toBe(403);
+        expect(rebound.headers.get('mcp-session-id')).toBeNull();
+        expect((await initialize('http://localhost:5173')).status).toBe(200);
+    });
+
+    test('an Agent can use the served tools through mcpServer', async () => {
+        const requests: any[] = [];
+        globalThis.fetch = (async (input: any, init?: RequestInit) => {
+            if (String(input).startsWith('http://127.0.0.1')) return originalFetch(input, init);
+            const body = JSON.parse(String(init?.body));
+            requests.push(body);
+            if (body.tools) {
+                return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'add', arguments: '{"a":40,"b":2}' } }] } }] });
+            }
+            return Response.json({ choices: [{ message: { content: '{"answer":"42"}' } }] });
+        }) as any;
+
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            servers: [handle.mcpServer!],
+        });
+        expect((await agent.run({ question: '40 + 2?' })).answer).toBe('42');
+        expect(JSON.stringify(requests.at(-1).messages)).toContain('42');
+    });
+});
+
+test('serveMCP HTTP options: hostname and allowedOrigins', async () => {
+    const server = await serveMCP({ transport: 'http', hostname: '0.0.0.0', allowedOrigins: ['https://app.example'], tools: [] });
+    try {
+        expect(server.url).toStartWith('http://localhost:');
+        const post = (origin: string) => fetch(server.url!, { method: 'POST', headers: { Origin: origin }, body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }) });
+        expect((await post('http://localhost:5173')).status).toBe(403);
+        expect((await post('https://app.example')).status).toBe(200);
+    } finally {
+        await server.close();
+    }
+});
+
+describe('serveMCP over stdio', () => {
+    test('serves tools and registries to a stdio client', async () => {
+        const client = new MCPClient(new StdioTransport({
+            command: process.execPath,
+            args: [join(import.meta.dir, 'fixtures', 'mcp-serve-stdio.ts')],
+            // Keep src inline tests from running in the child process
+            env: { NODE_ENV: 'production' },
+        }));
+        clients.push(client);
+
+        expect((await client.listTools()).map(t => t.name)).toEqual(['add', 'upper']);
+        expect((await client.callTool('add', { a: 1, b: 2 })).structuredContent).toEqual({ sum: 3 });
+        expect((await client.callTool('upper', { text: 'hi' })).content[0]!.text).toBe('HI');
+    });
+
+    test('console.log goes to stderr until close() restores it', async () => {
+        const log = console.log;
+        const server = await serveMCP({ transport: 'stdio', tools: [] });
+        expect(console.log).not.toBe(log);
+        await server.close();
+        expect(console.log).toBe(log);
+    });
+});
@@ -0,0 +1,202 @@
+import { test, expect, describe, afterAll, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { join } from 'path';
+import { Agent } from '../src/agent';
+import { MCPClient, StdioTransport, type MCPProgress } from '../src/mcp-client';
+import { MCPError } from '../src/errors';
+import { discoverTools, invokeTool, getMCPClient, closeMCPClients, discoverResources, readResource, discoverPrompts, resourceContentsText } from '../src/mcp';
+import { loadMCPPrompt } from '../src/templates';
+import type { MCPServer } from '../src/types';
+
+const FIXTURE = join(import.meta.dir, 'fixtures', 'mcp-stdio-server.ts');
+const server: MCPServer = { name: 'fixture', description: 'Fixture MCP server', command: process.execPath, args: [FIXTURE] };
+
+const originalFetch = globalThis.fetch;
+const clients: MCPClient[] = [];
+
+function connectFixture(env?: Record<string, string>) {
+    const client = new MCPClient(new StdioTransport({ command: process.execPath, args: [FIXTURE], env }), { name: 'fixture' });
+    clients.push(client);
+    return client;
+}
+
+afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await Promise.all(clients.splice(0).map(c => c.close()));
+});
+
+afterAll(async () => {
+    await closeMCPClients();
+});
+
+describe('MCPClient over stdio', () => {
+    test('initialize negotiates the protocol version and capabilities', async () => {
+        const client = connectFixture();
+        await client.connect();
+
+        expect(client.protocolVersion).toBe('2025-06-18');
+        expect(client.serverInfo).toEqual({ name: 'fixture', version: '1.0.0' });
+        expect(client.serverCapabilities.tools).toEqual({ listChanged: true });
+        expect(client.instructions).toBe('client=gx402');
+    });
+
+    test('rejects servers that answer with an unsupported protocol version', async () => {
+        const client = connectFixture({ MCP_TEST_PROTOCOL: '1999-01-01' });
+        await expect(client.connect()).rejects.toBeInstanceOf(MCPError);
+        expect(client.isClosed).toBe(true);
+    });
+
+    test('tools/list follows pagination cursors', async () => {
+        const tools = await connectFixture().listTools();
+        expect(tools.map(t => t.name)).toEqual(['add', 'fail', 'slow', 'hide']);
+        expect(tools[0]!.inputSchema.required).toEqual(['a', 'b']);
+    });
+
+    test('tools/call returns content and structured content', async () => {
+        const result = await connectFixture().callTool('add', { a: 2, b: 3 });
+        expect(result.content).toEqual([{ type: 'text', text: '5' }]);
+        expect(result.structuredContent).toEqual({ sum: 5 });
+    });
+
+    test('progress notifications reach the caller and server pings are answered', async () => {
+        const progress: MCPProgress[] = [];
+        const result = await connectFixture().callTool('slow', {}, { onProgress: p => progress.push(p) });
+
+        expect(result.content[0]!.text).toBe('done');
+        expect(progress).toEqual([
+            { progress: 1, total: 2, message: 'step 1' },
+            { progress: 2, total: 2, message: 'step 2' },
+        ]);
+    });
+
+    test('tools/list_changed invalidates the cached tool list', async () => {
+        const client = connectFixture();
+        const seen: any[] = [];
+        client.onNotification('notifications/tools/list_changed', p => seen.push(p));
+
+        expect(await client.listTools()).toHaveLength(4);
+        await client.callTool('hide');
+        expect(seen).toHaveLength(1);
+        expect((await client.listTools()).map(t => t.name)).toEqual(['add', 'fail', 'slow']);
+    });
+
+    test('JSON-RPC errors surface as MCPError', async () => {
+        const error = await connectFixture().callTool('missing').catch(e => e);
+        expect(error).toBeInstanceOf(MCPError);
+        expect(error.code).toBe(-32602);
+    });
+
+    test('a server that exits rejects pending and later requests', async () => {
+        const client = new MCPClient(new StdioTransport({ command: process.execPath, args: ['-e', 'process.exit(3)'] }), { name: 'dead' });
+        await expect(client.connect()).rejects.toThrow(/exited with code 3|connection is closed/);
+    });
+});
+
+describe('discoverTools / invokeTool with stdio servers', () => {
+    test('discover and invoke through pooled connections', async () => {
+        const tools = await discoverTools(server);
+        expect(tools.map(t => t.name)).toContain('add');
+
+        expect(await invokeTool(server, 'add', { a: 1, b: 2 })).toEqual({ sum: 3 });
+        expect(await invokeTool(server, 'fail', {})).toEqual({ error: 'something broke' });
+        // Same connection is reused
+        expect(await getMCPClient(server)).toBe(await getMCPClient(server));
+    });
+
+    test('servers need a url or a command', async () => {
+        await expect(getMCPClient({ name: 'none', description: 'no transport' }))
+            .rejects.toThrow('needs a url or a command');
+    });
+
+    test('Agent calls tools on a stdio MCP server', async () => {
+        const requests: any[] = [];
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            requests.push(body);
+            if (body.tools) {
+                return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'add', arguments: '{"a":20,"b":22}' } }] } }] });
+            }
+            return Response.json({ choices: [{ message: { content: '{"answer":"42"}' } }] });
+        }) as any;
+
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            servers: [server],
+        });
+        const output = await agent.run({ question: 'What is 20 + 22?' });
+
+        expect(output.answer).toBe('42');
+        expect(requests[0].tools.map((t: any) => t.function.name)).toContain('add');
+        expect(JSON.stringify(requests.at(-1).messages)).toContain('<sum>42</sum>');
+    });
+});
+
+describe('MCP resources and prompts', () => {
+    test('resources/list, resources/read and prompts over the client', async () => {
+        const client = connectFixture();
+        expect((await client.listResources()).map(r => r.uri)).toEqual(['memo://notes', 'memo://logo']);
+        expect((await client.readResource('memo://notes')).contents[0]!.text).toBe('notes v1');
+        expect((await client.listPrompts())[0]!.arguments).toHaveLength(2);
+
+        const prompt = await client.getPrompt('review', { language: 'Go' });
+        expect(prompt.messages[0]!.content.text).toBe('Review this Go code for bugs.');
+    });
+
+    test('subscriptions deliver resources/updated until unsubscribed', async () => {
+        const client = connectFixture();
+        const updates: string[] = [];
+        const unsubscribe = await client.subscribeResource('memo://notes', uri => updates.push(uri));
+
+        await client.callTool('touch');
+        expect(updates).toEqual(['memo://notes']);
+
+        await unsubscribe();
+        await client.callTool('touch');
+        expect(updates).toHaveLength(1);
+    });
+
+    test('readResource caches subscribed contents until the server reports an update', async () => {
+        const resourceServer: MCPServer = { ...server, name: 'resources' };
+        expect((await discoverResources(resourceServer)).map(r => r.name)).toEqual(['notes', 'logo']);
+
+        const first = await readResource(resourceServer, 'memo://notes');
+        expect(await readResource(resourceServer, 'memo://notes')).toBe(first);
+
+        await invokeTool(resourceServer, 'touch', {});
+        expect(resourceContentsText(await readResource(resourceServer, 'memo://notes'))).toBe('notes v2');
+        expect(resourceContentsText(await readResource(resourceServer, 'memo://logo'))).toBe('[image/png content, 8 bytes]');
+    });
+
+    test('Agent attaches configured resources as prompt context', async () => {
+        const requests: any[] = [];
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            requests.push(JSON.parse(String(init?.body)));
+            return Response.json({ choices: [{ message: { content: '{"answer":"ok"}' } }] });
+        }) as any;
+
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            servers: [{ ...server, name: 'docs', resources: ['memo://notes'] }],
+        });
+        await agent.run({ question: 'What do the notes say?' });
+
+        const prompt = JSON.stringify(requests.at(-1).messages);
+        expect(prompt).toContain('<resources><item><uri>memo://notes</uri><text>notes v1</text></item></resources>');
+    });
+
+    test('loadMCPPrompt turns a server prompt into a template', async () => {
+        const promptServer: MCPServer = { ...server, name: 'prompts' };
+        expect((await discoverPrompts(promptServer)).map(p => p.name)).toEqual(['review']);
+
+        const template = await loadMCPPrompt(promptServer, 'review');
+        expect(template.description).toBe('Review code');
+        expect(template.variables).toEqual(['language', 'focus']);
+        expect(template.render({ language: 'Rust', focus: 'safety' })).toBe('Review this Rust code for safety.\n\nFollow the style guide.');
+        expect(() => template.render({})).toThrow('Missing required template variable');
+        await expect(loadMCPPrompt(promptServer, 'missing')).rejects.toThrow('not found');
+    });
+});
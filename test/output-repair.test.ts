@@ -0,0 +1,106 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent, type RunEvent } from '../src/agent';
+import { ValidationError } from '../src/errors';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/** Reply with each content in turn (the last one repeats), capturing request bodies */
+function mockReplies(contents: string[]) {
+    const requests: any[] = [];
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        requests.push(JSON.parse(String(init?.body)));
+        const content = contents[Math.min(requests.length - 1, contents.length - 1)];
+        return Response.json({
+            choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 100, completion_tokens: 10 * requests.length, total_tokens: 100 + 10 * requests.length },
+        });
+    }) as any;
+    return requests;
+}
+
+const outputFormat = z.object({
+    score: z.number().min(0).max(10),
+    labels: z.array(z.string()).min(1),
+});
+
+describe('Output repair loop', () => {
+    test('sends the invalid output and issue paths back, then returns the repaired output', async () => {
+        const requests = mockReplies([
+            '{"score":42,"labels":[]}',
+            '{"score":7,"labels":["ok"]}',
+        ]);
+        const events: RunEvent[] = [];
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ text: z.string() }),
+            outputFormat,
+            maxRepairAttempts: 2,
+        }).onEvent(e => events.push(e));
+
+        const output = await agent.run({ text: 'rate this' });
+
+        expect(output).toEqual({ score: 7, labels: ['ok'] });
+        expect(requests).toHaveLength(2);
+        const repairMessages = requests[1].messages.slice(-2);
+        expect(repairMessages[0]).toEqual({ role: 'assistant', content: '{"score":42,"labels":[]}' });
+        expect(repairMessages[1].content).toContain('score: Number must be less than or equal to 10');
+        expect(repairMessages[1].content).toContain('labels: Array must contain at least 1 element(s)');
+
+        const repairs = events.filter(e => e.type === 'repair_attempt') as Array<Extract<RunEvent, { type: 'repair_attempt' }>>;
+        expect(repairs).toHaveLength(1);
+        expect(repairs[0]!.attempt).toBe(1);
+        expect(repairs[0]!.success).toBe(true);
+        expect(repairs[0]!.usage).toEqual({ inputTokens: 100, outputTokens: 20, totalTokens: 120 });
+        expect(repairs[0]!.cost!.totalCost).toBeGreaterThan(0);
+        // Repair tokens count toward the run total
+        expect(agent.lastUsage!.totalTokens).toBe(110 + 120);
+    });
+
+    test('repairs outputValidator rejections', async () => {
+        const requests = mockReplies(['{"score":1,"labels":["TODO"]}', '{"score":1,"labels":["done"]}']);
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ text: z.string() }),
+            outputFormat,
+            maxRepairAttempts: 1,
+            outputValidators: [(raw) => { if (raw.includes('TODO')) throw new Error('placeholder label'); }],
+        });
+
+        expect(await agent.run({ text: 'x' })).toEqual({ score: 1, labels: ['done'] });
+        expect(requests[1].messages.at(-1).content).toContain('outputValidator: placeholder label');
+    });
+
+    test('throws a ValidationError once attempts are exhausted', async () => {
+        const requests = mockReplies(['{"score":"high","labels":["a"]}']);
+        const events: RunEvent[] = [];
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ text: z.string() }),
+            outputFormat,
+            maxRepairAttempts: 2,
+        }).onEvent(e => events.push(e));
+
+        const error = await agent.run({ text: 'x' }).catch(e => e);
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).zodErrors[0].path).toEqual(['score']);
+        expect(requests).toHaveLength(3);
+        expect(events.filter(e => e.type === 'repair_attempt').map(e => (e as any).success)).toEqual([false, false]);
+    });
+
+    test('no repair by default', async () => {
+        const requests = mockReplies(['{"score":-1,"labels":["a"]}']);
+        const events: RunEvent[] = [];
+        const agent = new Agent({ llm: 'gpt-4o-mini', inputFormat: z.object({ text: z.string() }), outputFormat })
+            .onEvent(e => events.push(e));
+
+        expect(await agent.run({ text: 'x' })).toEqual({});
+        expect(requests).toHaveLength(1);
+        expect(events.some(e => e.type === 'repair_attempt')).toBe(false);
+    });
+});
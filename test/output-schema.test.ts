@@ -0,0 +1,149 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/** Mock an OpenAI-compatible (OpenAI / DeepSeek) or Gemini reply, capturing request bodies */
+function mockReply(content: string, requests: any[] = []) {
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+        requests.push(JSON.parse(String(init?.body)));
+        if (String(url).includes('generativelanguage')) {
+            return Response.json({ candidates: [{ content: { parts: [{ text: content }] }, finishReason: 'STOP' }] });
+        }
+        return Response.json({ choices: [{ message: { role: 'assistant', content }, finish_reason: 'stop' }] });
+    }) as any;
+    return requests;
+}
+
+const outputFormat = z.object({
+    tags: z.array(z.object({ name: z.string(), score: z.number() })),
+    keywords: z.array(z.string()),
+    mood: z.enum(['happy', 'sad', 'neutral']),
+    shape: z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('circle'), radius: z.number() }),
+        z.object({ kind: z.literal('square'), side: z.number() }),
+    ]),
+    id: z.union([z.number(), z.string()]),
+    note: z.string().optional(),
+    nickname: z.string().nullable(),
+    rating: z.number().optional(),
+});
+
+describe('Output schemas — JSON-schema path', () => {
+    test('sends a strict schema and maps nulls back to undefined for optionals', async () => {
+        const requests = mockReply(JSON.stringify({
+            tags: [{ name: 'a', score: 1 }, { name: 'b', score: 2 }],
+            keywords: ['x', 'y'],
+            mood: 'sad',
+            shape: { kind: 'square', side: 3 },
+            id: 'abc',
+            note: null,
+            nickname: null,
+            rating: null,
+        }));
+        const agent = new Agent({ llm: 'gpt-4o-mini', inputFormat: z.object({ text: z.string() }), outputFormat });
+
+        const output = await agent.run({ text: 'hi' });
+
+        expect(output).toEqual({
+            tags: [{ name: 'a', score: 1 }, { name: 'b', score: 2 }],
+            keywords: ['x', 'y'],
+            mood: 'sad',
+            shape: { kind: 'square', side: 3 },
+            id: 'abc',
+            nickname: null,
+        });
+        const format = requests[0].response_format.json_schema;
+        expect(format.strict).toBe(true);
+        expect(format.schema.required).toContain('note');
+        expect(format.schema.properties.tags.items.additionalProperties).toBe(false);
+    });
+
+    test('records turn strict mode off', async () => {
+        const requests = mockReply('{"counts":{"apples":3,"pears":2}}');
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ text: z.string() }),
+            outputFormat: z.object({ counts: z.record(z.number()) }),
+        });
+
+        expect(await agent.run({ text: 'hi' })).toEqual({ counts: { apples: 3, pears: 2 } });
+        expect(requests[0].response_format.json_schema.strict).toBe(false);
+    });
+
+    test('Gemini receives a converted responseSchema', async () => {
+        const requests = mockReply('{"tags":[],"keywords":[],"mood":"happy","shape":{"kind":"circle","radius":1},"id":7,"nickname":"Al"}');
+        const agent = new Agent({ llm: 'gemini-2.0-flash', inputFormat: z.object({ text: z.string() }), outputFormat });
+
+        const output = await agent.run({ text: 'hi' });
+
+        expect(output.shape).toEqual({ kind: 'circle', radius: 1 });
+        const schema = requests[0].generationConfig.responseSchema;
+        expect(schema.additionalProperties).toBeUndefined();
+        expect(schema.properties.note).toEqual({ type: 'string', nullable: true });
+        expect(schema.properties.shape.anyOf[0].properties.kind).toEqual({ type: 'string', enum: ['circle'] });
+    });
+});
+
+describe('Output schemas — XML path', () => {
+    test('describes arrays, enums and unions in the prompt', async () => {
+        const requests = mockReply('<tags></tags><keywords></keywords><mood>happy</mood><shape><kind>circle</kind><radius>1</radius></shape><id>1</id><nickname></nickname>');
+        const agent = new Agent({ llm: 'deepseek-chat', inputFormat: z.object({ text: z.string() }), outputFormat });
+        await agent.run({ text: 'hi' });
+
+        const prompt = requests[0].messages.at(-1).content;
+        expect(prompt).toContain('<tags><item><name></name><score></score></item></tags>');
+        expect(prompt).toContain('mood SHOULD be Must be exactly one of these values: "happy", "sad", "neutral"');
+        expect(prompt).toContain('<kind>circle</kind><radius></radius> OR <kind>square</kind><side></side>');
+        expect(requests[0].response_format).toBeUndefined();
+    });
+
+    test('coerces XML into arrays, enums, unions, optionals and nullables', async () => {
+        mockReply([
+            '<tags><item><name>urgent</name><score>-0.5</score></item><item><name>42</name><score>2</score></item></tags>',
+            '<keywords><item>solo</item></keywords>',
+            '<mood>Neutral</mood>',
+            '<shape><kind>square</kind><side>4</side></shape>',
+            '<id>123</id>',
+            '<note></note>',
+            '<nickname>null</nickname>',
+            '<rating></rating>',
+        ].join('\n'));
+        const agent = new Agent({ llm: 'deepseek-chat', inputFormat: z.object({ text: z.string() }), outputFormat });
+
+        const output = await agent.run({ text: 'hi' });
+
+        expect(output).toEqual({
+            tags: [{ name: 'urgent', score: -0.5 }, { name: '42', score: 2 }],
+            keywords: ['solo'],
+            mood: 'neutral',
+            shape: { kind: 'square', side: 4 },
+            id: 123,
+            nickname: null,
+        });
+    });
+
+    test('single-object arrays, empty lists and records', async () => {
+        mockReply('<people><item><name>Ada</name></item></people><empty></empty><counts><apples>3</apples><pears>2</pears></counts>');
+        const agent = new Agent({
+            llm: 'deepseek-chat',
+            inputFormat: z.object({ text: z.string() }),
+            outputFormat: z.object({
+                people: z.array(z.object({ name: z.string() })),
+                empty: z.array(z.string()),
+                counts: z.record(z.string(), z.number()),
+            }),
+        });
+
+        expect(await agent.run({ text: 'hi' })).toEqual({
+            people: [{ name: 'Ada' }],
+            empty: [],
+            counts: { apples: 3, pears: 2 },
+        });
+    });
+});
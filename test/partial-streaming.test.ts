@@ -0,0 +1,79 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent, type StreamChunk } from '../src/agent';
+import type { ProgressUpdate } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/** Streams `content` as SSE, one character per event by default */
+function mockStreamingLLM(content: string, size = 1) {
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        if (!body.stream) return Response.json({ choices: [{ message: { content } }] });
+        let sse = '';
+        for (let i = 0; i < content.length; i += size) {
+            sse += `data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(i, i + size) } }] })}\n\n`;
+        }
+        return new Response(`${sse}data: [DONE]\n\n`, { headers: { 'Content-Type': 'text/event-stream' } });
+    }) as any;
+}
+
+const outputFormat = z.object({
+    title: z.string(),
+    summary: z.object({ text: z.string(), score: z.number() }),
+    tags: z.array(z.string()),
+});
+
+const expected = { title: 'Quarterly report', summary: { text: 'Revenue grew', score: 87 }, tags: ['finance', 'q3'] };
+
+async function collect(llm: string) {
+    const agent = new Agent({ llm, inputFormat: z.object({ topic: z.string() }), outputFormat });
+    const chunks: StreamChunk<z.infer<typeof outputFormat>>[] = [];
+    for await (const chunk of agent.runStream({ topic: 'q3' })) chunks.push(chunk);
+    const partials = chunks.flatMap(c => (!c.done && c.partial ? [c.partial] : []));
+    return { chunks, partials };
+}
+
+describe('Partial output streaming', () => {
+    test('JSON providers: snapshots fill in strings, nested objects and arrays', async () => {
+        mockStreamingLLM(JSON.stringify(expected));
+        const { chunks, partials } = await collect('gpt-4o-mini');
+
+        expect(chunks.at(-1)).toEqual({ done: true, output: expected });
+        expect(partials.length).toBeGreaterThan(5);
+        expect(partials).toContainEqual({ title: 'Quarterl' });
+        expect(partials).toContainEqual({ title: 'Quarterly report', summary: { text: 'Revenue grew' } });
+        expect(partials).toContainEqual({ ...expected, tags: ['finance'] });
+        expect(partials.at(-1)).toEqual(expected);
+        // Numbers appear only once complete
+        expect(partials.some(p => p.summary?.score === 8)).toBe(false);
+        // Every snapshot differs from the one before
+        expect(new Set(partials.map(p => JSON.stringify(p))).size).toBe(partials.length);
+    });
+
+    test('XML providers: snapshots are built from the tags seen so far', async () => {
+        mockStreamingLLM('<response><title>Quarterly report</title><summary><text>Revenue grew</text><score>87</score></summary><tags><item>finance</item><item>q3</item></tags></response>');
+        const { chunks, partials } = await collect('deepseek-reasoner');
+
+        expect(chunks.at(-1)).toEqual({ done: true, output: expected });
+        expect(partials.some(p => p.title === 'Quarter')).toBe(true);
+        expect(partials.some(p => p.summary?.text === 'Revenue grew' && p.summary.score === undefined)).toBe(true);
+        expect(partials.some(p => p.tags?.length === 1 && p.tags[0] === 'finance')).toBe(true);
+        expect(partials.at(-1)).toEqual(expected);
+    });
+
+    test('run() progress callbacks receive the snapshots as partial_output updates', async () => {
+        mockStreamingLLM(JSON.stringify(expected));
+        const agent = new Agent({ llm: 'gpt-4o-mini', inputFormat: z.object({ topic: z.string() }), outputFormat });
+        const updates: ProgressUpdate[] = [];
+        await agent.run({ topic: 'q3' }, u => updates.push(u));
+
+        const partial = updates.filter(u => u.stage === 'partial_output');
+        expect(partial.length).toBeGreaterThan(5);
+        expect(partial.at(-1)).toEqual({ stage: 'partial_output', message: 'Partial output', data: expected });
+    });
+});
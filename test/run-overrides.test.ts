@@ -0,0 +1,149 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent, type RunEvent, type MiddlewareContext } from '../src/agent';
+import { CostTracker } from '../src/cost-tracker';
+import { BudgetExceededError } from '../src/errors';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/** LLM mock that records request bodies and answers with usage */
+function mockLLM() {
+    const requests: any[] = [];
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        requests.push(body);
+        return Response.json({
+            choices: [{ message: { content: '{"answer":"ok"}' } }],
+            usage: { prompt_tokens: 100, completion_tokens: 20, total_tokens: 120 },
+        });
+    }) as any;
+    return requests;
+}
+
+/** LLM mock: the "small" question uses 2 tokens at once, every other question 1000 tokens a little later */
+function mockSizedLLM() {
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const small = String(init?.body).includes('small');
+        if (!small) await Bun.sleep(5);
+        return Response.json({
+            choices: [{ message: { content: '{"answer":"ok"}' } }],
+            usage: small ? { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } : { prompt_tokens: 900, completion_tokens: 100, total_tokens: 1000 },
+        });
+    }) as any;
+}
+
+function createAgent(costTracker?: CostTracker) {
+    const agent = new Agent({
+        name: 'overrides',
+        llm: 'gpt-4o-mini',
+        systemPrompt: 'Default prompt',
+        temperature: 0.2,
+        maxTokens: 500,
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        costTracker,
+    });
+    const events: RunEvent[] = [];
+    const contexts: MiddlewareContext[] = [];
+    agent.onEvent(e => events.push(e));
+    agent.use(ctx => { contexts.push(ctx); });
+    return { agent, events, contexts };
+}
+
+describe('Per-run overrides', () => {
+    test('model settings apply to one run only', async () => {
+        const requests = mockLLM();
+        const { agent } = createAgent();
+        await agent.register({ name: 'kept' });
+
+        await agent.run({ question: 'hi' }, { llm: 'gpt-4o', temperature: 0, maxTokens: 64, systemPrompt: 'Be terse' });
+        await agent.run({ question: 'hi' });
+
+        const [override, plain] = requests;
+        expect(override.model).toBe('gpt-4o');
+        expect(override.temperature).toBe(0);
+        expect(override.max_tokens).toBe(64);
+        expect(override.messages[0].content).toBe('Be terse');
+        expect(plain.model).toBe('gpt-4o-mini');
+        expect(plain.temperature).toBe(0.2);
+        expect(plain.max_tokens).toBe(500);
+        expect(plain.messages[0].content).toBe('Default prompt');
+        expect(agent.plugins).toEqual(['kept']);
+    });
+
+    test('llm and tags reach middleware, RunEvents and cost records', async () => {
+        mockLLM();
+        const tracker = new CostTracker();
+        const { agent, events, contexts } = createAgent(tracker);
+        await agent.run({ question: 'hi' }, { llm: 'gpt-4o', tags: ['tenant:acme', 'beta'] });
+
+        expect(contexts.map(c => [c.phase, c.llm, c.tags])).toEqual([
+            ['before', 'gpt-4o', ['tenant:acme', 'beta']],
+            ['after', 'gpt-4o', ['tenant:acme', 'beta']],
+        ]);
+        const start = events.find(e => e.type === 'run_start')!;
+        const complete = events.find(e => e.type === 'run_complete') as Extract<RunEvent, { type: 'run_complete' }>;
+        expect(start).toMatchObject({ llm: 'gpt-4o', tags: ['tenant:acme', 'beta'] });
+        expect(complete).toMatchObject({ llm: 'gpt-4o', tags: ['tenant:acme', 'beta'] });
+
+        const [record] = tracker.getRecent();
+        expect(record).toMatchObject({ agentName: 'overrides', llm: 'gpt-4o', requestId: complete.requestId, status: 'success', tags: ['tenant:acme', 'beta'] });
+        expect(record!.cost).toEqual(complete.cost!);
+        expect(tracker.getSummary().byTag['tenant:acme']).toMatchObject({ runs: 1, tokens: 120 });
+        expect(tracker.getSummary().byModel['gpt-4o']!.runs).toBe(1);
+    });
+
+    test('maxCostUSD can be tightened for one run', async () => {
+        const requests = mockLLM();
+        const { agent, contexts } = createAgent();
+        await expect(agent.run({ question: 'hi' }, { maxCostUSD: 0 })).rejects.toBeInstanceOf(BudgetExceededError);
+        expect(requests).toHaveLength(0);
+        expect(contexts).toHaveLength(0);
+
+        await agent.run({ question: 'hi' });
+        expect(requests).toHaveLength(1);
+    });
+
+    test('estimateCost accepts the same overrides', () => {
+        const { agent } = createAgent();
+        const base = agent.estimateCost({ question: 'hi' }, 100);
+        expect(agent.estimateCost({ question: 'hi' }, 100, { systemPrompt: 'x'.repeat(4000) }).totalCost).toBeGreaterThan(base.totalCost);
+        expect(agent.estimateCost({ question: 'hi' }, 100, { llm: 'gpt-4o' }).totalCost).toBeGreaterThan(base.totalCost);
+    });
+});
+
+describe('Overlapping runs', () => {
+    test('each run reports its own usage and cost', async () => {
+        mockSizedLLM();
+        const { agent, events, contexts } = createAgent();
+        // The small run settles first, then waits while the large run settles
+        agent.use(async ctx => { if (ctx.phase === 'after' && ctx.input.question === 'small') await Bun.sleep(20); });
+
+        await Promise.all([agent.run({ question: 'small' }), agent.run({ question: 'large' })]);
+
+        const completed = events.filter(e => e.type === 'run_complete') as Extract<RunEvent, { type: 'run_complete' }>[];
+        expect(completed.map(e => e.usage!.totalTokens).sort((a, b) => a - b)).toEqual([2, 1000]);
+        expect(completed.find(e => e.usage!.totalTokens === 2)!.cost!.totalCost).toBeLessThan(completed.find(e => e.usage!.totalTokens === 1000)!.cost!.totalCost);
+        const after = contexts.filter(c => c.phase === 'after');
+        expect(Object.fromEntries(after.map(c => [c.input.question, c.usage!.totalTokens]))).toEqual({ small: 2, large: 1000 });
+    });
+
+    test('tagged cost records book each run its own spend', async () => {
+        mockSizedLLM();
+        const tracker = new CostTracker();
+        const { agent, events } = createAgent(tracker);
+        agent.use(async ctx => { if (ctx.phase === 'after' && ctx.input.question === 'small') await Bun.sleep(20); });
+
+        await Promise.all([agent.run({ question: 'small' }, { tags: ['small'] }), agent.run({ question: 'large' }, { tags: ['large'] })]);
+
+        const { byTag } = tracker.getSummary();
+        expect(byTag.small).toMatchObject({ runs: 1, tokens: 2 });
+        expect(byTag.large).toMatchObject({ runs: 1, tokens: 1000 });
+        const complete = events.find(e => e.type === 'run_complete' && e.tags?.includes('small')) as Extract<RunEvent, { type: 'run_complete' }>;
+        expect(tracker.getRecent().find(r => r.tags?.includes('small'))!.cost).toEqual(complete.cost!);
+    });
+});
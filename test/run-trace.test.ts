@@ -0,0 +1,99 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+import type { LLMSpan, ToolSpan } from '../src/run-trace';
+import type { MCPTool } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+const usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 };
+
+const weather: MCPTool = {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    inputSchema: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+    execute: async ({ city }) => ({ city, forecast: 'sunny' }),
+};
+
+function createAgent(llm: string) {
+    return new Agent({
+        name: 'traced',
+        llm,
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: [weather],
+    });
+}
+
+describe('runWithTrace', () => {
+    test('native tool calling: LLM calls and tool I/O are ordered spans', async () => {
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            if (body.tools) {
+                return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }] } }], usage });
+            }
+            return Response.json({ choices: [{ message: { content: '{"answer":"sunny"}' } }], usage });
+        }) as any;
+
+        const trace = await createAgent('gpt-4o-mini').runWithTrace({ question: 'Weather in Paris?' }, { tags: ['debug'] });
+
+        expect(trace).toMatchObject({ version: 1, agentName: 'traced', llm: 'gpt-4o-mini', tags: ['debug'], input: { question: 'Weather in Paris?' }, output: { answer: 'sunny' } });
+        expect(trace.requestId).toMatch(/./);
+        expect(trace.usage).toEqual({ inputTokens: 20, outputTokens: 10, totalTokens: 30 });
+        expect(trace.cost!.totalCost).toBeGreaterThan(0);
+        expect(trace.spans.map(s => (s.kind === 'llm' ? s.purpose : s.tool))).toEqual(['tool_calling', 'get_weather', 'response']);
+        expect(trace.spans.map(s => s.id)).toEqual([0, 1, 2]);
+
+        const [calling, tool, response] = trace.spans as [LLMSpan, ToolSpan, LLMSpan];
+        expect(calling.toolCalls).toEqual([{ id: 'c1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+        expect(calling.messages[1]!.content).toContain('Weather in Paris?');
+        expect(tool).toMatchObject({ server: '__local__', parameters: { city: 'Paris' }, result: { city: 'Paris', forecast: 'sunny' } });
+        expect(response).toMatchObject({ response: '{"answer":"sunny"}', parsed: { answer: 'sunny' }, usage: { totalTokens: 15 } });
+        expect(JSON.stringify(response.messages)).toContain('forecast');
+        for (const span of trace.spans) expect(span.durationMs).toBeGreaterThanOrEqual(0);
+
+        const saved = JSON.parse(JSON.stringify(trace));
+        expect(saved.spans[1]).toEqual(tool);
+        expect(saved.spans[2].parsed).toEqual({ answer: 'sunny' });
+    });
+
+    test('XML path: selection and parameter calls carry their parsed values', async () => {
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const prompt = JSON.stringify(JSON.parse(String(init?.body)).messages);
+            let content = '<answer>sunny</answer>';
+            if (prompt.includes('available_servers')) content = '<relevant_servers><server_names>__local__</server_names></relevant_servers>';
+            else if (prompt.includes('available_tools')) content = '<selected_tools><tool_names>get_weather</tool_names></selected_tools>';
+            else if (prompt.includes('Generate parameters')) content = '<parameters><city>Paris</city></parameters>';
+            return Response.json({ choices: [{ message: { content } }] });
+        }) as any;
+
+        const trace = await createAgent('deepseek-reasoner').runWithTrace({ question: 'Weather in Paris?' });
+        const purposes = trace.spans.map(s => (s.kind === 'llm' ? s.purpose : `tool:${s.tool}`));
+        expect(purposes).toEqual(['server_selection', 'tool_selection', 'tool_parameters', 'tool:get_weather', 'response']);
+        expect((trace.spans[0] as LLMSpan).parsed).toEqual({ relevant_servers: { server_names: '__local__' } });
+        expect((trace.spans[2] as LLMSpan).parsed).toEqual({ parameters: { city: 'Paris' } });
+        expect((trace.spans[4] as LLMSpan).parsed).toEqual({ answer: 'sunny' });
+        expect(trace.output).toEqual({ answer: 'sunny' });
+    });
+
+    test('a failed run still resolves with its trace and the error', async () => {
+        globalThis.fetch = (async () => new Response('upstream down', { status: 500 })) as any;
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            maxRepairAttempts: 1,
+            outputValidators: [() => { throw new Error('always invalid'); }],
+        });
+
+        const trace = await agent.runWithTrace({ question: 'hi' });
+        expect(trace.output).toBeUndefined();
+        expect(trace.error).toMatch(/./);
+        expect(trace.spans.map(s => (s as LLMSpan).purpose)).toEqual(['response', 'repair']);
+        expect((trace.spans[0] as LLMSpan).error).toContain('500');
+    });
+});
@@ -1,5 +1,8 @@
 import { test, expect, describe } from "bun:test";
-import { createSandboxTools } from "../src/sandbox";
+import type { AddressInfo } from "net";
+import { createSandboxTools, serveSandboxMCP } from "../src/sandbox";
+import { MCPClient } from "../src/mcp-client";
+import { StreamableHTTPTransport } from "../src/mcp-http";
 
 describe("Isolated Sandbox", () => {
     test("runs simple math", async () => {
@@ -55,3 +58,20 @@ describe("Isolated Sandbox", () => {
         expect(res.result).toBe('blocked');
     });
 });
+
+describe("Sandbox MCP server", () => {
+    test("serves run_code to a Streamable HTTP client", async () => {
+        const server = serveSandboxMCP(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        const { port } = server.address() as AddressInfo;
+        const client = new MCPClient(new StreamableHTTPTransport({ url: `http://localhost:${port}` }));
+        try {
+            expect((await client.listTools()).map(t => t.name)).toEqual(['run_code']);
+            const result = await client.callTool('run_code', { code: "result = 6 * 7;" });
+            expect(JSON.parse(result.content[0]!.text!).result).toBe(42);
+        } finally {
+            await client.close();
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,149 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { streamLLM, llmStreamToSSE } from '../src/inference';
+import { ProviderError } from '../src/errors';
+import type { LLMStreamDelta } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+/** SSE body whose chunks are only produced when the reader pulls */
+function sseBody(events: any[], counters = { pulled: 0, cancelled: false }) {
+    const lines = [...events.map(e => `data: ${JSON.stringify(e)}\n\n`), 'data: [DONE]\n\n'];
+    return new ReadableStream<Uint8Array>({
+        pull(controller) {
+            const line = lines[counters.pulled++];
+            if (line === undefined) controller.close();
+            else controller.enqueue(new TextEncoder().encode(line));
+        },
+        cancel() { counters.cancelled = true; },
+    }, { highWaterMark: 0 });
+}
+
+function mockFetch(respond: (init?: RequestInit) => Response | Promise<Response>) {
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => respond(init)) as any;
+}
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+describe('streamLLM', () => {
+    test('yields typed text, tool_call, usage and finish deltas with a final aggregate', async () => {
+        mockFetch(() => new Response(sseBody([
+            { choices: [{ delta: { content: 'Hel' } }] },
+            { choices: [{ delta: { content: 'lo' } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'lookup', arguments: '{"q":' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"x"}' } }] }, finish_reason: 'tool_calls' }] },
+            { choices: [], usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 } },
+        ])));
+
+        const stream = streamLLM('gpt-4o-mini', [{ role: 'user', content: 'hi' }]);
+        const deltas: LLMStreamDelta[] = [];
+        for await (const delta of stream) deltas.push(delta);
+
+        expect(deltas.map(d => d.type)).toEqual(['text', 'text', 'tool_call', 'tool_call', 'usage', 'finish']);
+        expect(deltas[2]).toEqual({ type: 'tool_call', index: 0, id: 'call_1', name: 'lookup', argumentsDelta: '{"q":' });
+        expect(deltas[5]).toEqual({ type: 'finish', reason: 'tool_calls' });
+
+        const result = await stream.final();
+        expect(result.content).toBe('Hello');
+        expect(result.toolCalls).toEqual([{ id: 'call_1', name: 'lookup', arguments: { q: 'x' } }]);
+        expect(result.usage).toEqual({ inputTokens: 5, outputTokens: 7, totalTokens: 12 });
+        expect(result.finishReason).toBe('tool_calls');
+        expect(result.provider).toBe('openai');
+    });
+
+    test('yields reasoning deltas from Gemini thought parts', async () => {
+        mockFetch(() => new Response(sseBody([
+            { candidates: [{ content: { parts: [{ text: 'Let me think', thought: true }] } }] },
+            { candidates: [{ content: { parts: [{ text: '42' }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 1 } },
+        ])));
+
+        const deltas: LLMStreamDelta[] = [];
+        for await (const delta of streamLLM('gemini-2.5-flash', [{ role: 'user', content: 'q' }])) deltas.push(delta);
+
+        expect(deltas[0]).toEqual({ type: 'reasoning', text: 'Let me think' });
+        expect(deltas[1]).toEqual({ type: 'text', text: '42' });
+        expect(deltas[deltas.length - 1]).toEqual({ type: 'finish', reason: 'stop' });
+    });
+
+    test('final() drains an unread stream', async () => {
+        mockFetch(() => new Response(sseBody([{ choices: [{ delta: { content: 'only' }, finish_reason: 'stop' }] }])));
+        const result = await streamLLM('gpt-4o-mini', [{ role: 'user', content: 'hi' }]).final();
+        expect(result.content).toBe('only');
+        expect(result.usage!.outputTokens).toBeGreaterThan(0); // estimated — no usage event
+    });
+
+    test('reads the body only as fast as the consumer pulls', async () => {
+        const counters = { pulled: 0, cancelled: false };
+        const events = Array.from({ length: 50 }, (_, i) => ({ choices: [{ delta: { content: `t${i} ` } }] }));
+        mockFetch(() => new Response(sseBody(events, counters)));
+
+        const iterator = streamLLM('gpt-4o-mini', [{ role: 'user', content: 'hi' }])[Symbol.asyncIterator]();
+        await iterator.next();
+        await new Promise(r => setTimeout(r, 10));
+        expect(counters.pulled).toBeLessThan(5);
+
+        // Stopping early cancels the upstream body
+        await iterator.return!(undefined);
+        expect(counters.cancelled).toBe(true);
+    });
+
+    test('AbortSignal cancels the stream', async () => {
+        const controller = new AbortController();
+        mockFetch((init) => new Response(new ReadableStream<Uint8Array>({
+            start(c) {
+                c.enqueue(new TextEncoder().encode('data: {"choices":[{"delta":{"content":"a"}}]}\n\n'));
+                init?.signal?.addEventListener('abort', () => c.error(init.signal!.reason));
+            },
+        })));
+
+        const stream = streamLLM('gpt-4o-mini', [{ role: 'user', content: 'hi' }], { signal: controller.signal });
+        const seen: string[] = [];
+        const consume = (async () => {
+            for await (const delta of stream) {
+                if (delta.type === 'text') {
+                    seen.push(delta.text);
+                    controller.abort(new Error('user cancelled'));
+                }
+            }
+        })();
+
+        await expect(consume).rejects.toThrow('user cancelled');
+        expect(seen).toEqual(['a']);
+    });
+
+    test('HTTP errors surface as ProviderError', async () => {
+        mockFetch(() => new Response('bad key', { status: 401 }));
+        const stream = streamLLM('claude-3-5-haiku-20241022', [{ role: 'user', content: 'hi' }]);
+        await expect(stream.final()).rejects.toBeInstanceOf(ProviderError);
+    });
+
+    test('an LLMStream can only be iterated once', () => {
+        const stream = streamLLM('gpt-4o-mini', [{ role: 'user', content: 'hi' }]);
+        stream[Symbol.asyncIterator]();
+        expect(() => stream[Symbol.asyncIterator]()).toThrow('only be iterated once');
+    });
+});
+
+describe('llmStreamToSSE', () => {
+    test('serializes deltas, the final result and [DONE]', async () => {
+        mockFetch(() => new Response(sseBody([
+            { choices: [{ delta: { content: 'hi' }, finish_reason: 'stop' }] },
+            { choices: [], usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+        ])));
+
+        const body = await new Response(llmStreamToSSE(streamLLM('gpt-4o-mini', [{ role: 'user', content: 'x' }]))).text();
+        const events = body.trim().split('\n\n').map(l => l.slice(6));
+
+        expect(events[events.length - 1]).toBe('[DONE]');
+        const parsed = events.slice(0, -1).map(e => JSON.parse(e));
+        expect(parsed.map(e => e.type)).toEqual(['text', 'usage', 'finish', 'result']);
+        expect(parsed[3].result.content).toBe('hi');
+    });
+
+    test('reports errors as an error event', async () => {
+        mockFetch(() => new Response('overloaded', { status: 400 }));
+        const body = await new Response(llmStreamToSSE(streamLLM('gpt-4o-mini', [{ role: 'user', content: 'x' }]))).text();
+        expect(JSON.parse(body.trim().slice(6))).toEqual({ type: 'error', error: 'gpt-4o-mini streaming request failed: 400 overloaded' });
+    });
+});
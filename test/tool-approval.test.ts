@@ -0,0 +1,215 @@
+import { test, expect, describe, beforeEach, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent, type RunEvent } from '../src/agent';
+import { ApprovalRequiredError } from '../src/errors';
+import { SessionManager } from '../src/session';
+import { auditLog } from '../src/audit';
+import type { MCPTool } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+    (globalThis as any).__sessionStore = {};
+});
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+    delete (globalThis as any).__sessionStore;
+});
+
+/** Native tool-calling mock: a run's first tool step requests `calls`, later steps answer */
+function mockNativeLLM(calls: Array<{ id: string; name: string; arguments: any }>) {
+    const requests: any[] = [];
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        requests.push(body);
+        if (body.tools && !body.messages.some((m: any) => m.role === 'tool')) {
+            return Response.json({ choices: [{ message: { content: null, tool_calls: calls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: JSON.stringify(c.arguments) } })) } }] });
+        }
+        if (body.tools) return Response.json({ choices: [{ message: { content: 'Done' } }] });
+        return Response.json({ choices: [{ message: { content: '{"answer":"ok"}' } }] });
+    }) as any;
+    return requests;
+}
+
+/** `authorize` becomes send_email's authorize hook; other overrides go to the Agent config */
+function createAgent(name: string, { authorize, ...overrides }: Record<string, any> = {}) {
+    const sent: any[] = [];
+    const lookups: any[] = [];
+    const sendEmail: MCPTool = {
+        name: 'send_email',
+        description: 'Send an email',
+        inputSchema: { type: 'object', properties: { to: { type: 'string' }, body: { type: 'string' } }, required: ['to', 'body'] },
+        execute: async (params) => { sent.push(params); return { sent: true }; },
+        authorize,
+    };
+    const lookup: MCPTool = {
+        name: 'lookup_contact',
+        description: 'Find a contact email',
+        inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+        execute: async (params) => { lookups.push(params); return { email: 'bob@example.com' }; },
+    };
+    const agent = new Agent({
+        name,
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ request: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: [sendEmail, lookup],
+        requireApproval: ['send_email'],
+        session: new SessionManager({ storageKey: name }),
+        ...overrides,
+    });
+    const events: RunEvent[] = [];
+    agent.onEvent(e => events.push(e));
+    return { agent, sent, lookups, events, sendEmail };
+}
+
+async function suspend(agent: Agent<any, any>) {
+    const error = await agent.run({ request: 'Email Bob' }).catch(e => e);
+    expect(error).toBeInstanceOf(ApprovalRequiredError);
+    return (error as ApprovalRequiredError).approval;
+}
+
+const calls = [
+    { id: 'c1', name: 'lookup_contact', arguments: { name: 'Bob' } },
+    { id: 'c2', name: 'send_email', arguments: { to: 'bob@example.com', body: 'Hi' } },
+];
+
+describe('Tool approval', () => {
+    test('held calls suspend the run; the rest of the step still runs', async () => {
+        const requests = mockNativeLLM(calls);
+        const { agent, sent, lookups, events } = createAgent('approval-suspend');
+
+        const approval = await suspend(agent);
+        expect(approval.calls).toEqual([{ id: 'c2', server: '__local__', tool: 'send_email', parameters: { to: 'bob@example.com', body: 'Hi' } }]);
+        expect(lookups).toEqual([{ name: 'Bob' }]);
+        expect(sent).toHaveLength(0);
+        expect(requests.filter(r => !r.tools)).toHaveLength(0);
+
+        const suspended = events.find(e => e.type === 'run_suspended') as Extract<RunEvent, { type: 'run_suspended' }>;
+        expect(suspended).toMatchObject({ approvalId: approval.id, requestId: approval.requestId, calls: ['__local__.send_email'] });
+        expect(events.some(e => e.type === 'run_error')).toBe(false);
+    });
+
+    test('a run suspended before a restart resumes from the session when approved', async () => {
+        const requests = mockNativeLLM(calls);
+        const first = createAgent('approval-restart');
+        const { id, requestId } = await suspend(first.agent);
+
+        // A fresh agent and session, as in another process
+        const second = createAgent('approval-restart');
+        expect(second.agent.listPendingApprovals().map(p => p.id)).toEqual([id]);
+        const pending = second.agent.getPendingApproval(id)!;
+        const since = Date.now();
+        expect(await pending.approve({ reviewer: 'ana' })).toEqual({ answer: 'ok' });
+
+        expect(second.sent).toEqual([{ to: 'bob@example.com', body: 'Hi' }]);
+        expect(second.lookups).toHaveLength(0);
+        const final = JSON.stringify(requests.at(-1).messages);
+        expect(final).toContain('bob@example.com');
+        expect(final).toContain('sent');
+        expect(second.events.find(e => e.type === 'run_complete')).toMatchObject({ requestId });
+
+        expect(auditLog.getEntries({ since }).filter(e => e.agentName === 'approval-restart' && e.approval)).toMatchObject([
+            { decision: 'allow', approval: 'approved', reviewer: 'ana', tool: 'send_email', parameters: { to: 'bob@example.com', body: 'Hi' } },
+        ]);
+        expect(second.agent.getPendingApproval(id)).toBeNull();
+        await expect(pending.approve()).rejects.toThrow('already resolved');
+    });
+
+    test('edit runs the call with corrected parameters, which must match the schema', async () => {
+        mockNativeLLM(calls);
+        const { agent, sent } = createAgent('approval-edit');
+        const since = Date.now();
+
+        await (await suspend(agent)).edit({ to: 'ops@example.com', body: 'Hi' });
+        expect(sent).toEqual([{ to: 'ops@example.com', body: 'Hi' }]);
+
+        await (await suspend(agent)).edit({ to: 'ops@example.com' });
+        expect(sent).toHaveLength(1);
+
+        const reviewed = auditLog.getEntries({ since }).filter(e => e.agentName === 'approval-edit' && e.approval);
+        expect(reviewed.map(e => [e.decision, e.approval, e.parameters])).toEqual([
+            ['allow', 'edited', { to: 'ops@example.com', body: 'Hi' }],
+            ['deny', 'edited', { to: 'ops@example.com' }],
+        ]);
+    });
+
+    test('authorized calls are audited as allowed only once they run', async () => {
+        mockNativeLLM(calls);
+        const { agent } = createAgent('approval-audit', { authorize: async () => true });
+        const since = Date.now();
+        const emails = () => auditLog.getEntries({ since }).filter(e => e.agentName === 'approval-audit' && e.tool === 'send_email');
+
+        const rejected = await suspend(agent);
+        expect(emails()).toHaveLength(0);
+        await rejected.reject('Wrong recipient');
+        expect(emails().map(e => e.decision)).toEqual(['deny']);
+
+        await (await suspend(agent)).approve();
+        expect(emails().map(e => [e.decision, e.approval])).toEqual([['deny', 'rejected'], ['allow', 'approved']]);
+    });
+
+    test('reject skips the call and tells the model why', async () => {
+        const requests = mockNativeLLM(calls);
+        const { agent, sent } = createAgent('approval-reject');
+        const since = Date.now();
+
+        expect(await (await suspend(agent)).reject('Wrong recipient', { reviewer: 'ana' })).toEqual({ answer: 'ok' });
+        expect(sent).toHaveLength(0);
+        expect(JSON.stringify(requests.at(-1).messages)).toContain('Tool call rejected: Wrong recipient');
+        expect(auditLog.getEntries({ since, decision: 'deny' }).filter(e => e.agentName === 'approval-reject')).toMatchObject([
+            { approval: 'rejected', reason: 'Wrong recipient', reviewer: 'ana' },
+        ]);
+    });
+
+    test('with maxSteps the tool-calling conversation continues after the decision', async () => {
+        const requests = mockNativeLLM(calls);
+        const { agent } = createAgent('approval-steps', { maxSteps: 3 });
+        await (await suspend(agent)).approve();
+
+        const steps = requests.filter(r => r.tools);
+        expect(steps).toHaveLength(2);
+        const toolMessages = steps[1].messages.filter((m: any) => m.role === 'tool');
+        expect(toolMessages.map((m: any) => m.tool_call_id).sort()).toEqual(['c1', 'c2']);
+    });
+
+    test('XML tool selection holds calls picked by a predicate', async () => {
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const prompt = JSON.stringify(JSON.parse(String(init?.body)).messages);
+            let content = '<answer>ok</answer>';
+            if (prompt.includes('available_servers')) content = '<relevant_servers><server_names>__local__</server_names></relevant_servers>';
+            else if (prompt.includes('available_tools')) content = '<selected_tools><tool_names>send_email</tool_names></selected_tools>';
+            else if (prompt.includes('Generate parameters')) content = '<parameters><to>bob@example.com</to><body>Hi</body></parameters>';
+            return Response.json({ choices: [{ message: { content } }] });
+        }) as any;
+        const { agent, sent } = createAgent('approval-xml', {
+            llm: 'deepseek-reasoner',
+            requireApproval: (call: any) => call.parameters.to.endsWith('@example.com'),
+        });
+
+        const approval = await suspend(agent);
+        expect(approval.calls.map(c => c.id)).toEqual(['__local__.send_email']);
+        expect(await approval.resume({ '__local__.send_email': { action: 'approve' } })).toEqual({ answer: 'ok' });
+        expect(sent).toEqual([{ to: 'bob@example.com', body: 'Hi' }]);
+    });
+
+    test('repeated XML tool calls are held under distinct ids', async () => {
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const prompt = JSON.stringify(JSON.parse(String(init?.body)).messages);
+            let content = '<answer>ok</answer>';
+            if (prompt.includes('available_servers')) content = '<relevant_servers><server_names>__local__</server_names></relevant_servers>';
+            else if (prompt.includes('available_tools')) content = '<selected_tools><tool_names>send_email</tool_names></selected_tools>';
+            else if (prompt.includes('Generate parameters')) content = '<parameters><to>bob@example.com</to><body>Hi</body></parameters>';
+            return Response.json({ choices: [{ message: { content } }] });
+        }) as any;
+        const created = createAgent('approval-xml-repeat', { llm: 'deepseek-reasoner' });
+        // The same tool listed twice makes the XML path call it twice in one turn
+        const agent = created.agent.clone({ localTools: [created.sendEmail, { ...created.sendEmail }] });
+
+        const approval = await suspend(agent);
+        expect(approval.calls.map(c => c.id)).toEqual(['__local__.send_email', '__local__.send_email#2']);
+        await approval.resume({ '__local__.send_email': { action: 'approve' }, '__local__.send_email#2': { action: 'reject' } });
+        expect(created.sent).toHaveLength(1);
+    });
+});
@@ -0,0 +1,142 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent, type RunEvent } from '../src/agent';
+import { defineTool } from '../src/define-tool';
+import { TimeoutError } from '../src/errors';
+import { createToolContext } from '../src/tool-context';
+import { StructuredLogger, bufferTransport, type LogRecord } from '../src/structured-log';
+import type { ProgressUpdate, ToolContext } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/** LLM mock: the tool-selection call picks `tool`, the final call answers (as SSE when streaming) */
+function mockLLM(tool: string, args: object) {
+    globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        if (body.tools) {
+            return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: tool, arguments: JSON.stringify(args) } }] } }] });
+        }
+        const content = '{"answer":"done"}';
+        if (body.stream) {
+            return new Response(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\ndata: [DONE]\n\n`, { headers: { 'Content-Type': 'text/event-stream' } });
+        }
+        return Response.json({ choices: [{ message: { content } }] });
+    }) as any;
+}
+
+interface Deps {
+    userId: string;
+    orders: Record<string, { owner: string; total: number }>;
+}
+
+const getOrder = defineTool({
+    name: 'get_order',
+    description: 'Load an order of the current user',
+    input: z.object({ id: z.string() }),
+    execute: async ({ id }, ctx: ToolContext<Deps>) => {
+        ctx.progress('loading', { id });
+        ctx.logger.info('Loading order', { id });
+        const order = ctx.deps.orders[id];
+        if (!order || order.owner !== ctx.deps.userId) return { error: 'Not found' };
+        return { total: order.total, agentName: ctx.agentName, requestId: ctx.requestId };
+    },
+});
+
+function createAgent(deps: Deps, logger?: StructuredLogger) {
+    return new Agent({
+        name: 'orders',
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: [getOrder],
+        deps,
+        logger,
+    });
+}
+
+const orders = { o1: { owner: 'alice', total: 42 } };
+
+describe('ToolContext', () => {
+    test('tools receive the run identity, deps, progress and a scoped logger', async () => {
+        mockLLM('get_order', { id: 'o1' });
+        const records: LogRecord[] = [];
+        const agent = createAgent({ userId: 'alice', orders }, new StructuredLogger({ name: 'app', transports: [bufferTransport(records)] }));
+        const events: RunEvent[] = [];
+        agent.onEvent(e => events.push(e));
+        const updates: ProgressUpdate[] = [];
+        await agent.run({ question: 'What did o1 cost?' }, u => updates.push(u));
+
+        const start = events.find(e => e.type === 'run_start') as Extract<RunEvent, { type: 'run_start' }>;
+        const complete = updates.find(u => u.message.startsWith('Received result'))!;
+        expect(complete.data).toEqual({ total: 42, agentName: 'orders', requestId: start.requestId });
+
+        expect(updates).toContainEqual({ stage: 'tool_invocation', message: 'get_order: loading', data: { id: 'o1' } });
+        expect(records).toHaveLength(1);
+        expect(records[0]!.correlationId).toBe(start.requestId);
+        expect(records[0]!.fields).toEqual({ agentName: 'orders', tool: 'get_order', id: 'o1' });
+    });
+
+    test('deps let a tool enforce per-user permissions', async () => {
+        mockLLM('get_order', { id: 'o1' });
+        const agent = createAgent({ userId: 'mallory', orders }, new StructuredLogger({ name: 'app', transports: [] }));
+        const updates: ProgressUpdate[] = [];
+        await agent.run({ question: 'What did o1 cost?' }, u => updates.push(u));
+        expect(updates.find(u => u.message.startsWith('Received result'))!.data).toEqual({ error: 'Not found' });
+    });
+
+    test('authorize hooks receive the context too', async () => {
+        mockLLM('delete_order', { id: 'o1' });
+        const deleted: string[] = [];
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            deps: { role: 'viewer' },
+            localTools: [{
+                name: 'delete_order',
+                description: 'Delete an order',
+                inputSchema: { type: 'object', properties: { id: { type: 'string' } } },
+                authorize: async (_params, ctx) => ctx.deps.role === 'admin' || `Role ${ctx.deps.role} may not delete orders`,
+                execute: async ({ id }) => { deleted.push(id); return { ok: true }; },
+            }],
+        });
+        const updates: ProgressUpdate[] = [];
+        await agent.run({ question: 'Delete o1' }, u => updates.push(u));
+        expect(deleted).toEqual([]);
+        expect(updates.some(u => u.message.includes('rejected: Role viewer may not delete orders'))).toBe(true);
+    });
+
+    test('the signal aborts when the run times out', async () => {
+        mockLLM('wait', {});
+        let aborted: unknown;
+        const agent = new Agent({
+            llm: 'gpt-4o-mini',
+            inputFormat: z.object({ question: z.string() }),
+            outputFormat: z.object({ answer: z.string() }),
+            maxDurationMs: 100,
+            localTools: [{
+                name: 'wait',
+                description: 'Wait until cancelled',
+                inputSchema: { type: 'object', properties: {} },
+                execute: (_params, ctx) => new Promise(resolve => {
+                    ctx.signal.addEventListener('abort', () => {
+                        aborted = ctx.signal.reason;
+                        resolve({ cancelled: true });
+                    });
+                }),
+            }],
+        });
+
+        await expect(agent.run({ question: 'wait' })).rejects.toBeInstanceOf(TimeoutError);
+        expect(aborted).toBeInstanceOf(TimeoutError);
+    });
+
+    test('createToolContext builds a context for direct calls', async () => {
+        const result = await getOrder.execute({ id: 'o1' }, createToolContext({ deps: { userId: 'alice', orders } }));
+        expect(result).toMatchObject({ total: 42, agentName: 'unnamed-agent' });
+    });
+});
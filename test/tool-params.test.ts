@@ -0,0 +1,110 @@
+import { test, expect, describe, afterEach, beforeEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+import { auditLog } from '../src/audit';
+import type { MCPTool } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+const ANALYTICS_URL = 'https://analytics.test/ingest';
+
+beforeEach(() => auditLog.clear());
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+/**
+ * LLM mock: the tool-selection call returns `toolArgs`, parameter regeneration
+ * returns `regenerated` (XML), and the final call returns the output.
+ */
+function mockLLM(toolArgs: string, regenerated: string) {
+    const requests: any[] = [];
+    const analytics: any[] = [];
+    globalThis.fetch = (async (url: string, init?: RequestInit) => {
+        const body = JSON.parse(String(init?.body));
+        if (url === ANALYTICS_URL) {
+            analytics.push(body);
+            return new Response('ok');
+        }
+        requests.push(body);
+        if (body.tools) {
+            return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'search', arguments: toolArgs } }] } }] });
+        }
+        if (JSON.stringify(body.messages).includes('Generate corrected parameters')) {
+            return Response.json({ choices: [{ message: { content: regenerated } }] });
+        }
+        return Response.json({ choices: [{ message: { content: '{"answer":"done"}' } }] });
+    }) as any;
+    return { requests, analytics };
+}
+
+function searchTool(calls: any[]): MCPTool {
+    return {
+        name: 'search',
+        description: 'Search documents',
+        inputSchema: {
+            type: 'object',
+            properties: { query: { type: 'string' }, limit: { type: 'integer', minimum: 1 } },
+            required: ['query'],
+            additionalProperties: false,
+        },
+        execute: async (params) => {
+            calls.push(params);
+            return { hits: params.limit };
+        },
+    };
+}
+
+function createAgent(tool: MCPTool) {
+    return new Agent({
+        name: 'searcher',
+        llm: 'gpt-4o-mini',
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: [tool],
+        analyticsUrl: ANALYTICS_URL,
+    });
+}
+
+describe('Tool parameter validation', () => {
+    test('safely coercible parameters are coerced without regeneration', async () => {
+        const calls: any[] = [];
+        const { requests } = mockLLM('{"query":"mcp","limit":"5"}', '');
+        await createAgent(searchTool(calls)).run({ question: 'find mcp docs' });
+
+        expect(calls).toEqual([{ query: 'mcp', limit: 5 }]);
+        expect(requests).toHaveLength(2);
+        expect(auditLog.getEntries({ decision: 'deny' })).toHaveLength(0);
+    });
+
+    test('invalid parameters are regenerated once with the issues', async () => {
+        const calls: any[] = [];
+        const { requests } = mockLLM('{"limit":"many"}', '<parameters><query>mcp</query><limit>3</limit></parameters>');
+        await createAgent(searchTool(calls)).run({ question: 'find mcp docs' });
+
+        expect(calls).toEqual([{ query: 'mcp', limit: 3 }]);
+        const regeneration = JSON.stringify(requests[1].messages);
+        expect(regeneration).toContain('limit: expected integer, got string');
+        expect(regeneration).toContain('query: required');
+
+        const denied = auditLog.getEntries({ decision: 'deny', tool: 'search' });
+        expect(denied).toHaveLength(1);
+        expect(denied[0]!.reason).toContain('Invalid parameters');
+    });
+
+    test('parameters still invalid after regeneration never reach the tool', async () => {
+        const calls: any[] = [];
+        const { requests, analytics } = mockLLM('{"limit":0}', '<parameters><limit>zero</limit></parameters>');
+        await createAgent(searchTool(calls)).run({ question: 'find mcp docs' });
+
+        expect(calls).toHaveLength(0);
+        expect(auditLog.getEntries({ decision: 'deny', tool: 'search' })).toHaveLength(2);
+        expect(auditLog.getEntries({ decision: 'allow', tool: 'search' })).toHaveLength(0);
+
+        const invocation = analytics[0].toolInvocations[0];
+        expect(invocation.tool).toBe('search');
+        expect(invocation.validationIssues).toEqual(['limit: expected integer, got string', 'query: required']);
+        expect(invocation.result.error).toContain('Invalid parameters for search');
+        // The model sees the rejection as the tool result
+        expect(JSON.stringify(requests.at(-1).messages)).toContain('Invalid parameters for search');
+    });
+});
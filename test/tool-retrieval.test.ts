@@ -0,0 +1,134 @@
+import { test, expect, describe, afterEach } from 'bun:test';
+import { z } from 'zod';
+import { Agent } from '../src/agent';
+import { ResponseCache } from '../src/response-cache';
+import { ToolRetriever, localEmbedder, openAIEmbedder, type Embedder } from '../src/tool-retrieval';
+import type { MCPTool, ProgressUpdate } from '../src/types';
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+    globalThis.fetch = originalFetch;
+});
+
+const DESCRIPTIONS: Record<string, string> = {
+    get_weather: 'Current weather and temperature forecast for a city',
+    send_email: 'Send an email message to a recipient',
+    create_invoice: 'Create a billing invoice for a customer',
+    list_invoices: 'List billing invoices of a customer',
+    refund_payment: 'Refund a card payment',
+    search_flights: 'Search flights between two airports',
+    book_hotel: 'Book a hotel room in a city',
+    translate_text: 'Translate text into another language',
+    resize_image: 'Resize an image to given dimensions',
+    create_ticket: 'Open a support ticket',
+    close_ticket: 'Close a support ticket',
+    get_stock_price: 'Latest stock price for a ticker symbol',
+    convert_currency: 'Convert an amount between currencies',
+    schedule_meeting: 'Schedule a calendar meeting with attendees',
+    list_repos: 'List source code repositories',
+    run_query: 'Run a SQL query against the warehouse',
+    get_air_quality: 'Air quality index for a city',
+    geocode_address: 'Latitude and longitude of a street address',
+    summarize_pdf: 'Summarize a PDF document',
+    post_message: 'Post a chat message to a channel',
+};
+
+const catalog: MCPTool[] = Object.entries(DESCRIPTIONS).map(([name, description]) => ({
+    name,
+    description,
+    inputSchema: { type: 'object', properties: { city: { type: 'string' } } },
+    execute: async (params) => ({ tool: name, params }),
+}));
+
+/** localEmbedder that records every batch it embeds */
+function countingEmbedder(): Embedder & { batches: string[][] } {
+    const inner = localEmbedder();
+    const batches: string[][] = [];
+    return { id: inner.id, batches, embed: async (texts) => { batches.push(texts); return inner.embed(texts); } };
+}
+
+function createAgent(llm: string, embedder: Embedder, cache?: ResponseCache<number[]>) {
+    return new Agent({
+        llm,
+        inputFormat: z.object({ question: z.string() }),
+        outputFormat: z.object({ answer: z.string() }),
+        localTools: catalog,
+        toolRetrieval: { embedder, topK: 3, cache },
+    });
+}
+
+describe('Tool retrieval', () => {
+    test('ToolRetriever ranks the matching tool first', async () => {
+        const retriever = new ToolRetriever({ embedder: localEmbedder(), topK: 2 });
+        const ranked = await retriever.rank('What is the weather forecast in Paris?', catalog);
+        expect(ranked[0]!.tool.name).toBe('get_weather');
+        expect(ranked[0]!.score).toBeGreaterThan(ranked[1]!.score);
+        expect((await retriever.select('refund my card payment', catalog)).map(t => t.name)[0]).toBe('refund_payment');
+        expect(await retriever.select('anything', catalog.slice(0, 2))).toHaveLength(2);
+    });
+
+    test('native tool calling only offers the top-k tools; embeddings are cached', async () => {
+        const requests: any[] = [];
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            requests.push(body);
+            if (body.tools) {
+                return Response.json({ choices: [{ message: { content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }] } }] });
+            }
+            return Response.json({ choices: [{ message: { content: '{"answer":"sunny"}' } }] });
+        }) as any;
+
+        const embedder = countingEmbedder();
+        const cache = new ResponseCache<number[]>();
+        const agent = createAgent('gpt-4o-mini', embedder, cache);
+        const updates: ProgressUpdate[] = [];
+        await agent.run({ question: 'What is the weather forecast in Paris?' }, u => updates.push(u));
+
+        const offered = requests[0].tools.map((t: any) => t.function.name);
+        expect(offered).toHaveLength(3);
+        expect(offered).toContain('get_weather');
+        expect(updates.find(u => u.message.startsWith('Pre-selected'))!.message).toBe('Pre-selected 3 of 20 tools by embedding similarity');
+
+        // Query + all tools, then only the query on the next run
+        expect(embedder.batches.map(b => b.length)).toEqual([1, 20]);
+        await agent.run({ question: 'Air quality in Berlin?' });
+        expect(embedder.batches.map(b => b.length)).toEqual([1, 20, 1]);
+        expect(cache.stats.size).toBe(20);
+        expect(cache.stats.hits).toBe(20);
+    });
+
+    test('XML tool selection only lists the top-k tools', async () => {
+        let selectionPrompt = '';
+        globalThis.fetch = (async (_url: string, init?: RequestInit) => {
+            const body = JSON.parse(String(init?.body));
+            const prompt = JSON.stringify(body.messages);
+            expect(body.tools).toBeUndefined();
+            let content = '<answer>sunny</answer>';
+            if (prompt.includes('available_servers')) content = '<relevant_servers><server_names>__local__</server_names></relevant_servers>';
+            else if (prompt.includes('available_tools')) {
+                selectionPrompt = prompt;
+                content = '<selected_tools><tool_names>get_weather</tool_names></selected_tools>';
+            } else if (prompt.includes('Generate parameters')) content = '<parameters><city>Paris</city></parameters>';
+            return Response.json({ choices: [{ message: { content } }] });
+        }) as any;
+
+        const result = await createAgent('deepseek-reasoner', localEmbedder()).run({ question: 'Weather forecast for Paris' });
+        expect(result.answer).toBe('sunny');
+        expect(selectionPrompt).toContain('get_weather');
+        expect(selectionPrompt).not.toContain('send_email');
+        expect(selectionPrompt.match(/<name>/g)).toHaveLength(3);
+    });
+
+    test('openAIEmbedder posts a batch and orders vectors by index', async () => {
+        let request: any;
+        globalThis.fetch = (async (url: string, init?: RequestInit) => {
+            request = { url, body: JSON.parse(String(init?.body)), auth: (init?.headers as any).Authorization };
+            return Response.json({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] });
+        }) as any;
+
+        const embedder = openAIEmbedder({ apiKey: 'sk-test', baseUrl: 'https://embed.test/v1/' });
+        expect(await embedder.embed(['a', 'b'])).toEqual([[1, 0], [0, 1]]);
+        expect(request).toEqual({ url: 'https://embed.test/v1/embeddings', body: { model: 'text-embedding-3-small', input: ['a', 'b'] }, auth: 'Bearer sk-test' });
+    });
+});